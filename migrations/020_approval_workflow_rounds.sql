@@ -0,0 +1,17 @@
+-- Migration: 020_approval_workflow_rounds.sql
+-- Description: Track approval workflow rounds so a resubmitted document starts a fresh workflow
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management), SA (Security Audit)
+
+BEGIN;
+
+-- Each POST /approvals starts a new round; earlier rounds are kept as history
+ALTER TABLE document_approvals
+  ADD COLUMN IF NOT EXISTS workflow_round INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_document_approvals_round
+  ON document_approvals(document_id, workflow_round, approval_level);
+
+COMMENT ON COLUMN document_approvals.workflow_round IS 'Approval round for the document (incremented each time a workflow is started)';
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration: 021_document_file_storage.sql
+-- Description: Envelope encryption keys for agent-managed document file storage
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Data Privacy), IM (Information Management)
+
+BEGIN;
+
+-- Wrapped per-file data keys; documents.encryption_key_id references id
+CREATE TABLE IF NOT EXISTS document_encryption_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+
+  -- Data key encrypted with the agent master key (never stored in clear)
+  wrapped_key TEXT,
+  kek_id VARCHAR(64) NOT NULL,
+  algorithm VARCHAR(32) NOT NULL DEFAULT 'aes-256-gcm',
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Set when the key is destroyed (crypto-shredding); wrapped_key is cleared
+  destroyed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_encryption_keys_document ON document_encryption_keys(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_encryption_keys_tenant ON document_encryption_keys(tenant_id);
+
+COMMENT ON TABLE document_encryption_keys IS 'Envelope data keys for encrypted document files (wrapped with the agent master key)';
+COMMENT ON COLUMN document_encryption_keys.kek_id IS 'Identifier of the master key used to wrap this data key';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration: 022_audit_hash_chain.sql
+-- Description: Tamper-evident audit log (per-tenant HMAC hash chain) and append-only enforcement
+-- Date: 2026-10-19
+-- ADHICS Compliance: SA (Security Audit)
+-- Note: events written before this migration have no chain_seq and are reported as unchained
+
+BEGIN;
+
+ALTER TABLE audit_events
+  ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+  ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+
+-- One position per tenant chain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_chain
+  ON audit_events(tenant_id, chain_seq) WHERE chain_seq IS NOT NULL;
+
+COMMENT ON COLUMN audit_events.event_hash IS 'HMAC-SHA256 of the canonical event content, chained via prev_hash';
+COMMENT ON COLUMN audit_events.prev_hash IS 'event_hash of the previous event in the tenant chain (NULL for the first event)';
+COMMENT ON COLUMN audit_events.chain_seq IS 'Position of the event in the tenant hash chain (1-based, gapless)';
+
+-- Audit events are append-only
+CREATE OR REPLACE FUNCTION prevent_audit_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only (% not allowed)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_mutation();
+
+COMMIT;
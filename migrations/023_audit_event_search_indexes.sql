@@ -0,0 +1,20 @@
+-- Migration: 023_audit_event_search_indexes.sql
+-- Description: Tenant-scoped indexes for the internal audit search API (keyset pagination on occurred_at, id)
+-- Date: 2026-10-19
+-- ADHICS Compliance: SA (Security Audit)
+
+BEGIN;
+
+-- Default ordering of the search: newest first within a tenant
+CREATE INDEX IF NOT EXISTS idx_audit_events_tenant_occurred
+  ON audit_events(tenant_id, occurred_at DESC, id DESC);
+
+-- "Who touched this record" lookups
+CREATE INDEX IF NOT EXISTS idx_audit_events_tenant_target
+  ON audit_events(tenant_id, target_type, target_id, occurred_at DESC);
+
+-- "What did this user do" lookups
+CREATE INDEX IF NOT EXISTS idx_audit_events_tenant_actor
+  ON audit_events(tenant_id, actor_id, occurred_at DESC);
+
+COMMIT;
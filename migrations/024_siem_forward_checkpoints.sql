@@ -0,0 +1,24 @@
+-- Migration: 024_siem_forward_checkpoints.sql
+-- Description: Per-destination, per-tenant checkpoints for forwarding audit events to an external SIEM
+-- Date: 2026-10-19
+-- ADHICS Compliance: SA (Security Audit)
+-- Note: the forwarder follows the tenant hash chain (audit_events.chain_seq), which is gapless and
+--       assigned in commit order, so a checkpoint on chain_seq never skips a late-committing event
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS siem_forward_checkpoints (
+    destination TEXT NOT NULL,
+    tenant_id UUID NOT NULL,
+    last_chain_seq BIGINT NOT NULL DEFAULT 0,
+    last_event_id UUID,
+    events_forwarded BIGINT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_error_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (destination, tenant_id)
+);
+
+COMMENT ON TABLE siem_forward_checkpoints IS 'Last audit_events.chain_seq delivered to each SIEM destination, per tenant';
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Migration: 025_notification_dedupe.sql
+-- Description: Idempotent notification enqueueing (one notification per dedupe key) for the expiry/renewal scheduler
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Document lifecycle), SA (Security Audit)
+
+BEGIN;
+
+-- Scheduler-generated notifications carry metadata.dedupe_key (e.g. expiry_warning_30:<document>:<expiry_date>:<recipient>)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_notifications_dedupe
+  ON document_notifications(tenant_id, (metadata->>'dedupe_key'))
+  WHERE metadata ? 'dedupe_key';
+
+-- Expiry sweep: latest, live documents with an expiry date
+CREATE INDEX IF NOT EXISTS idx_documents_expiry_sweep
+  ON documents(expiry_date)
+  WHERE deleted_at IS NULL AND expiry_date IS NOT NULL AND is_latest_version = TRUE
+    AND status NOT IN ('expired', 'archived', 'disposed');
+
+COMMIT;
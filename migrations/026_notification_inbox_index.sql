@@ -0,0 +1,16 @@
+-- Migration: 026_notification_inbox_index.sql
+-- Description: Index for the per-recipient in-app notification inbox (newest first, unread counts)
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Document lifecycle)
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_document_notifications_inbox
+  ON document_notifications(tenant_id, recipient_id, created_at DESC, id DESC)
+  WHERE send_in_app = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_document_notifications_unread
+  ON document_notifications(tenant_id, recipient_id)
+  WHERE send_in_app = TRUE AND read_at IS NULL;
+
+COMMIT;
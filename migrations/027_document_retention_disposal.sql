@@ -0,0 +1,55 @@
+-- Migration: 027_document_retention_disposal.sql
+-- Description: Certified disposal of documents past retention (purge marker + tombstones)
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Data Privacy), IM (Information Management)
+
+BEGIN;
+
+-- Set when file bytes and content/PII fields have been purged by certified disposal
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ;
+
+-- Disposal candidates: documents with a retention rule that are not yet purged
+CREATE INDEX IF NOT EXISTS idx_documents_retention_candidates
+  ON documents(tenant_id, disposal_date)
+  WHERE purged_at IS NULL AND (disposal_date IS NOT NULL OR retention_period_years IS NOT NULL);
+
+-- Tombstone kept for every disposed document (no content, no PII)
+CREATE TABLE IF NOT EXISTS document_disposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE RESTRICT,
+
+  -- Non-identifying description of what was disposed
+  document_number VARCHAR(64),
+  category VARCHAR(64),
+  entity_type VARCHAR(32),
+  sensitivity_level VARCHAR(32),
+  version INTEGER,
+  file_hash VARCHAR(128), -- SHA-256 of the purged bytes, proves which file was destroyed
+
+  -- Retention rule that made the document eligible
+  retention_period_years INTEGER,
+  disposal_due DATE NOT NULL,
+
+  -- What was purged: agent-managed bytes are deleted and their key destroyed,
+  -- externally stored files can only be unlinked
+  file_disposition VARCHAR(32) NOT NULL CHECK (file_disposition IN ('destroyed', 'external_unlinked', 'no_file')),
+
+  disposed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  disposed_by UUID,
+  disposed_by_role VARCHAR(64),
+  reason TEXT,
+
+  -- HMAC over the tombstone fields (see helpers/retention.ts)
+  certificate_hash VARCHAR(128) NOT NULL,
+
+  UNIQUE (tenant_id, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_disposals_tenant ON document_disposals(tenant_id, disposed_at DESC);
+
+COMMENT ON TABLE document_disposals IS 'Certificates of disposal for documents purged after their retention period';
+COMMENT ON COLUMN document_disposals.certificate_hash IS 'HMAC-SHA256 (audit chain key) of the canonical tombstone';
+
+COMMIT;
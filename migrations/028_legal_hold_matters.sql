@@ -0,0 +1,73 @@
+-- Migration: 028_legal_hold_matters.sql
+-- Description: Named legal-hold matters applied by query to documents, employees and audit events
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Data Privacy), IM (Information Management)
+
+BEGIN;
+
+-- A legal matter (litigation, investigation, regulator request) preserving records
+CREATE TABLE IF NOT EXISTS legal_hold_matters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+
+  name VARCHAR(255) NOT NULL,
+  matter_reference VARCHAR(128), -- Case / ticket number from the legal team
+  description TEXT,
+  reason TEXT NOT NULL,
+
+  -- Person responsible for the preserved records
+  custodian_id UUID,
+  custodian_email VARCHAR(255),
+
+  status VARCHAR(16) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released')),
+
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Release tracking (matters are never deleted)
+  released_at TIMESTAMPTZ,
+  released_by UUID,
+  release_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_hold_matters_tenant ON legal_hold_matters(tenant_id, status, created_at DESC);
+
+-- Query a matter was applied with (kept so the hold can be explained and re-applied)
+CREATE TABLE IF NOT EXISTS legal_hold_scopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  matter_id UUID NOT NULL REFERENCES legal_hold_matters(id) ON DELETE RESTRICT,
+  resource_type VARCHAR(32) NOT NULL CHECK (resource_type IN ('documents', 'employees', 'audit_events')),
+  criteria JSONB NOT NULL,
+  items_added INTEGER NOT NULL DEFAULT 0,
+  applied_by UUID,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_hold_scopes_matter ON legal_hold_scopes(matter_id);
+
+-- Records held by a matter (snapshot of the scope query at apply time)
+CREATE TABLE IF NOT EXISTS legal_hold_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  matter_id UUID NOT NULL REFERENCES legal_hold_matters(id) ON DELETE RESTRICT,
+  scope_id UUID REFERENCES legal_hold_scopes(id) ON DELETE RESTRICT,
+  resource_type VARCHAR(32) NOT NULL CHECK (resource_type IN ('documents', 'employees', 'audit_events')),
+  resource_id UUID NOT NULL,
+  held_at TIMESTAMPTZ DEFAULT NOW(),
+  released_at TIMESTAMPTZ,
+
+  UNIQUE (matter_id, resource_type, resource_id)
+);
+
+-- "Is this record held?" lookups from the mutating routes
+CREATE INDEX IF NOT EXISTS idx_legal_hold_items_active
+  ON legal_hold_items(tenant_id, resource_type, resource_id)
+  WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_legal_hold_items_matter ON legal_hold_items(matter_id, resource_type, held_at DESC);
+
+COMMENT ON TABLE legal_hold_matters IS 'Legal-hold matters; documents.legal_hold mirrors active holds on documents';
+COMMENT ON TABLE legal_hold_items IS 'Records preserved by a legal-hold matter; released_at set when the matter is released';
+
+COMMIT;
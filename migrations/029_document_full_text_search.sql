@@ -0,0 +1,109 @@
+-- Migration: 029_document_full_text_search.sql
+-- Description: Maintained tsvector columns (English + Arabic) for documents and document sections
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management)
+
+BEGIN;
+
+-- =====================================================
+-- 1. HELPERS
+-- =====================================================
+-- Text is indexed with both the English and the Arabic stemmer so either
+-- language matches; queries OR the two parsed forms (see routes/internal/documents/search.ts)
+
+CREATE OR REPLACE FUNCTION bilingual_tsvector(content TEXT, weight "char")
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(content, '')), weight)
+      || setweight(to_tsvector('arabic', COALESCE(content, '')), weight);
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- String values anywhere inside a JSONB document (structured editor content)
+CREATE OR REPLACE FUNCTION jsonb_string_values(content JSONB)
+RETURNS TEXT AS $$
+  SELECT string_agg(value #>> '{}', ' ')
+  FROM jsonb_path_query(COALESCE(content, 'null'::jsonb), 'strict $.**') AS value
+  WHERE jsonb_typeof(value) = 'string';
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- =====================================================
+-- 2. DOCUMENTS
+-- =====================================================
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- A: title and number, B: description and tags, C: file name and structured content
+CREATE OR REPLACE FUNCTION document_search_vector(
+  title TEXT, document_number TEXT, description TEXT, tags TEXT[], file_name TEXT, structured_content JSONB
+)
+RETURNS tsvector AS $$
+  SELECT bilingual_tsvector(title, 'A')
+      || bilingual_tsvector(document_number, 'A')
+      || bilingual_tsvector(description, 'B')
+      || bilingual_tsvector(array_to_string(tags, ' '), 'B')
+      || bilingual_tsvector(file_name, 'C')
+      || bilingual_tsvector(jsonb_string_values(structured_content), 'C');
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION documents_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := document_search_vector(
+    NEW.title, NEW.document_number, NEW.description, NEW.tags, NEW.file_name, NEW.structured_content
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_search_vector ON documents;
+CREATE TRIGGER documents_search_vector
+  BEFORE INSERT OR UPDATE OF title, document_number, description, tags, file_name, structured_content
+  ON documents
+  FOR EACH ROW EXECUTE FUNCTION documents_search_vector_update();
+
+-- Backfill without touching updated_at (user triggers off for this statement only)
+ALTER TABLE documents DISABLE TRIGGER USER;
+UPDATE documents
+SET search_vector = document_search_vector(title, document_number, description, tags, file_name, structured_content);
+ALTER TABLE documents ENABLE TRIGGER USER;
+
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN(search_vector);
+
+-- =====================================================
+-- 3. DOCUMENT SECTIONS
+-- =====================================================
+
+ALTER TABLE document_sections
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION document_section_search_vector(title TEXT, title_ar TEXT, content TEXT)
+RETURNS tsvector AS $$
+  SELECT bilingual_tsvector(title, 'A')
+      || bilingual_tsvector(title_ar, 'A')
+      || bilingual_tsvector(content, 'C');
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION document_sections_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := document_section_search_vector(NEW.title, NEW.title_ar, NEW.content);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS document_sections_search_vector ON document_sections;
+CREATE TRIGGER document_sections_search_vector
+  BEFORE INSERT OR UPDATE OF title, title_ar, content
+  ON document_sections
+  FOR EACH ROW EXECUTE FUNCTION document_sections_search_vector_update();
+
+ALTER TABLE document_sections DISABLE TRIGGER USER;
+UPDATE document_sections SET search_vector = document_section_search_vector(title, title_ar, content);
+ALTER TABLE document_sections ENABLE TRIGGER USER;
+
+CREATE INDEX IF NOT EXISTS idx_document_sections_search_vector ON document_sections USING GIN(search_vector);
+
+COMMENT ON COLUMN documents.search_vector IS 'Full-text index (English + Arabic), maintained by trigger';
+COMMENT ON COLUMN document_sections.search_vector IS 'Full-text index (English + Arabic), maintained by trigger';
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: 030_document_locks.sql
+-- Description: Exclusive document checkout (edit lock) with TTL and heartbeat
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management)
+
+BEGIN;
+
+-- At most one lock row per document. A lock is live while expires_at is in the
+-- future; an expired row is simply taken over by the next checkout.
+CREATE TABLE IF NOT EXISTS document_locks (
+  document_id UUID PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL,
+
+  locked_by UUID NOT NULL,
+  locked_by_email VARCHAR(255),
+  locked_by_role VARCHAR(50),
+
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_locks_tenant ON document_locks(tenant_id, expires_at);
+
+COMMENT ON TABLE document_locks IS 'Document checkout: editor, save and PUT reject writes from anyone but the holder of a live lock';
+COMMENT ON COLUMN document_locks.expires_at IS 'Extended by heartbeats; the lock lapses when the holder stops sending them';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration: 031_document_collab_steps.sql
+-- Description: Step history for real-time collaborative editing of documents.editor_state
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management)
+
+BEGIN;
+
+-- Version of the step history already contained in editor_state / structured_content.
+-- Steps after it are replayed by clients joining the session until the next snapshot.
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS collab_version INTEGER NOT NULL DEFAULT 0;
+
+-- ProseMirror steps accepted by the collaboration channel, in order. Version n is the
+-- document version produced by applying the step to version n - 1.
+CREATE TABLE IF NOT EXISTS document_collab_steps (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  tenant_id UUID NOT NULL,
+
+  step JSONB NOT NULL,
+  client_id VARCHAR(64) NOT NULL, -- Editor instance that produced the step (echoed for confirmation)
+  user_id UUID,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (document_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_collab_steps_tenant ON document_collab_steps(tenant_id, document_id);
+
+COMMENT ON COLUMN documents.collab_version IS 'Collaborative step version included in editor_state (see document_collab_steps)';
+COMMENT ON TABLE document_collab_steps IS 'Steps not yet folded into an editor_state snapshot; deleted once snapshotted';
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- Migration: 032_document_drafts.sql
+-- Description: Rolling autosave draft history per document and user, restorable into the editor
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management)
+
+BEGIN;
+
+-- Every autosave that changes the content keeps a copy; the oldest drafts of a
+-- document/user pair beyond DRAFT_HISTORY_LIMIT are trimmed on insert
+CREATE TABLE IF NOT EXISTS document_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID,
+
+  editor_state JSONB,
+  structured_content JSONB,
+  content_hash VARCHAR(64) NOT NULL,
+
+  -- Size of the serialized content and estimated bytes changed since the user's previous draft
+  size_bytes INTEGER NOT NULL,
+  changed_bytes INTEGER NOT NULL,
+
+  base_version INTEGER, -- documents.version the draft was written against
+  source VARCHAR(16) NOT NULL DEFAULT 'autosave' CHECK (source IN ('autosave', 'pre_restore')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_drafts_history ON document_drafts(document_id, user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_drafts_tenant ON document_drafts(tenant_id, document_id);
+
+COMMENT ON TABLE document_drafts IS 'Autosave restore points (bounded per document and user)';
+COMMENT ON COLUMN document_drafts.source IS 'pre_restore: editor content captured just before a draft was restored over it';
+
+COMMIT;
@@ -0,0 +1,43 @@
+-- Migration: 033_document_version_branches.sql
+-- Description: Named version branches within a document lineage, promoted into the published line
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management), SA (Security Audit)
+
+BEGIN;
+
+-- The published line is implicit: versions with branch_id NULL, headed by the
+-- is_latest_version row. Other branches are drafted alongside it and promoted.
+CREATE TABLE IF NOT EXISTS document_branches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+  root_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+
+  name VARCHAR(64) NOT NULL,
+  -- Version the branch started from (its head until a version is created on it)
+  base_document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+
+  status VARCHAR(16) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'promoted', 'closed')),
+  promoted_document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  promoted_by UUID,
+  promoted_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Names can be reused once a branch is promoted or closed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_branches_active_name
+  ON document_branches(root_document_id, name) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_document_branches_tenant ON document_branches(tenant_id);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES document_branches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_branch ON documents(branch_id, version DESC) WHERE branch_id IS NOT NULL;
+
+COMMENT ON TABLE document_branches IS 'Named version branches of a document lineage (root = COALESCE(parent_document_id, id))';
+COMMENT ON COLUMN documents.branch_id IS 'Branch the version was created on; NULL for the published line';
+
+COMMIT;
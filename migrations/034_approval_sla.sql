@@ -0,0 +1,39 @@
+-- Migration: 034_approval_sla.sql
+-- Description: Per-tenant approval SLA settings (reminders, auto-escalation target) and escalation source
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management), SA (Security Audit)
+
+BEGIN;
+
+-- One row per tenant; tenants without a row use the agent defaults (APPROVAL_SLA_* config)
+CREATE TABLE IF NOT EXISTS approval_sla_settings (
+  tenant_id UUID PRIMARY KEY,
+
+  -- Remind the acting approver this many hours before due_date
+  reminder_hours_before INTEGER NOT NULL DEFAULT 24 CHECK (reminder_hours_before >= 0),
+
+  -- Escalate pending approvals this many hours after due_date
+  auto_escalate BOOLEAN NOT NULL DEFAULT TRUE,
+  escalation_grace_hours INTEGER NOT NULL DEFAULT 0 CHECK (escalation_grace_hours >= 0),
+
+  -- manager: the approver's manager (employees.manager_id), then the default user
+  -- default: always the default user
+  escalation_target VARCHAR(16) NOT NULL DEFAULT 'manager' CHECK (escalation_target IN ('manager', 'default')),
+  default_escalation_user_id UUID,
+
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE document_approvals
+  ADD COLUMN IF NOT EXISTS auto_escalated BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Sweep candidates: outstanding approvals with a due date
+CREATE INDEX IF NOT EXISTS idx_document_approvals_due
+  ON document_approvals(due_date) WHERE status IN ('pending', 'escalated') AND due_date IS NOT NULL;
+
+COMMENT ON TABLE approval_sla_settings IS 'Approval SLA reminder and auto-escalation settings per tenant';
+COMMENT ON COLUMN document_approvals.auto_escalated IS 'TRUE when escalated by the SLA monitor rather than PUT /escalate';
+
+COMMIT;
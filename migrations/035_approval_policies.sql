@@ -0,0 +1,73 @@
+-- Migration: 035_approval_policies.sql
+-- Description: Reusable approval policies per document category/template and role-to-user assignments
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management), AC (Access Control)
+
+BEGIN;
+
+-- A policy lists approval steps by role name; the roles are resolved to users of the
+-- tenant when a document enters pending_approval. A template policy takes precedence
+-- over a category policy.
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+
+  -- Scope: documents.category (category code) or documents.template_id
+  category VARCHAR(64),
+  template_id UUID REFERENCES document_templates(id) ON DELETE CASCADE,
+
+  approval_type VARCHAR(32) NOT NULL DEFAULT 'sequential' CHECK (approval_type IN ('sequential', 'parallel')),
+  -- [{ "role": "department_head", "level"?: 1, "all_assignees"?: false, "due_in_hours"?: 48 }]
+  steps JSONB NOT NULL CHECK (jsonb_typeof(steps) = 'array' AND jsonb_array_length(steps) > 0),
+  -- Default due date for steps without their own due_in_hours
+  due_in_hours INTEGER CHECK (due_in_hours > 0),
+
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_by UUID NOT NULL,
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT approval_policies_scope_check CHECK (category IS NOT NULL OR template_id IS NOT NULL)
+);
+
+-- One active policy per category and per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_policies_category
+  ON approval_policies(tenant_id, category) WHERE is_active AND template_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_policies_template
+  ON approval_policies(tenant_id, template_id) WHERE is_active AND template_id IS NOT NULL;
+
+-- Users holding an approval role; department scopes an assignment to documents
+-- whose owner is in that department (unscoped assignments apply to every document)
+CREATE TABLE IF NOT EXISTS approval_role_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL,
+
+  role_name VARCHAR(64) NOT NULL,
+  user_id UUID NOT NULL, -- References agent_users.id
+  department VARCHAR(255),
+  -- Lower goes first when a step takes a single assignee
+  priority INTEGER NOT NULL DEFAULT 0,
+
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_role_assignments_unique
+  ON approval_role_assignments(tenant_id, role_name, user_id, COALESCE(department, ''));
+CREATE INDEX IF NOT EXISTS idx_approval_role_assignments_role
+  ON approval_role_assignments(tenant_id, role_name, priority);
+
+ALTER TABLE document_approvals
+  ADD COLUMN IF NOT EXISTS approval_policy_id UUID REFERENCES approval_policies(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE approval_policies IS 'Approval steps by role name for a document category or template';
+COMMENT ON TABLE approval_role_assignments IS 'Tenant users holding an approval role, optionally per department';
+COMMENT ON COLUMN document_approvals.approval_policy_id IS 'Policy the approval was generated from; NULL when approvers were given explicitly';
+
+COMMIT;
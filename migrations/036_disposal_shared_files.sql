@@ -0,0 +1,13 @@
+-- Migration: 036_disposal_shared_files.sql
+-- Description: Disposal of a version whose file is still used by another version (e.g. a rollback copy)
+-- Date: 2026-10-19
+-- ADHICS Compliance: DP (Data Protection), IM (Information Management)
+
+BEGIN;
+
+-- shared_unlinked: the row was unlinked, the key and bytes are kept for the other version
+ALTER TABLE document_disposals DROP CONSTRAINT IF EXISTS document_disposals_file_disposition_check;
+ALTER TABLE document_disposals ADD CONSTRAINT document_disposals_file_disposition_check
+  CHECK (file_disposition IN ('destroyed', 'shared_unlinked', 'external_unlinked', 'no_file'));
+
+COMMIT;
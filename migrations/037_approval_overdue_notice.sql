@@ -0,0 +1,13 @@
+-- Migration: 037_approval_overdue_notice.sql
+-- Description: Track the overdue reminder the SLA monitor sends when an approval has no escalation target
+-- Date: 2026-10-19
+-- ADHICS Compliance: IM (Information Management), SA (Security Audit)
+
+BEGIN;
+
+ALTER TABLE document_approvals
+  ADD COLUMN IF NOT EXISTS overdue_notified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN document_approvals.overdue_notified_at IS 'When the SLA monitor found no escalation target and sent the approver an overdue reminder instead';
+
+COMMIT;
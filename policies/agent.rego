@@ -0,0 +1,57 @@
+# Agent authorization for OPA, driven by the same rules as the embedded engine
+# (data.agent_policy, see agent_policy/data.yaml). Query: POST /v1/data/agent/authz/decision
+package agent.authz
+
+import rego.v1
+
+shorthand := {
+	"resource": "resource.type",
+	"subresource": "resource.subresource",
+	"action": "action",
+	"role": "actor.role",
+}
+
+rules := object.get(data.agent_policy, "rules", [])
+
+default_effect := object.get(data.agent_policy, "default", "deny")
+
+input_value(path) := object.get(input, split(path, "."), null)
+
+holds(path, expected) if {
+	is_array(expected)
+	input_value(path) in expected
+}
+
+holds(path, expected) if {
+	not is_array(expected)
+	input_value(path) == expected
+}
+
+conditions(rule) := object.union(
+	{path: rule[key] | some key, path in shorthand; key in object.keys(rule)},
+	object.get(rule, "when", {}),
+)
+
+exempt(rule) if {
+	some path, expected in object.get(rule, "unless", {})
+	holds(path, expected)
+}
+
+applies(rule) if {
+	every path, expected in conditions(rule) {
+		holds(path, expected)
+	}
+	not exempt(rule)
+}
+
+denied := [rule.id | some rule in rules; rule.effect == "deny"; applies(rule)]
+
+allowed := [rule.id | some rule in rules; rule.effect == "allow"; applies(rule)]
+
+default decision := {"allow": false, "reason": "policy_error"}
+
+decision := {"allow": false, "reason": denied[0]} if {
+	count(denied) > 0
+} else := {"allow": true, "reason": allowed[0]} if {
+	count(allowed) > 0
+} else := {"allow": default_effect == "allow", "reason": concat("_", ["default", default_effect])}
@@ -7,8 +7,78 @@ export const CONFIG = {
     DATABASE_URL: process.env.DATABASE_URL || "",
     ENROLLMENT_TOKEN: process.env.ENROLLMENT_TOKEN || "unset",
     OPA_URL: process.env.OPA_URL || "",
+    OPA_TIMEOUT_MS: Number(process.env.OPA_TIMEOUT_MS || 2000),
+    POLICY_ENGINE: process.env.POLICY_ENGINE || "auto", // opa | local | auto (OPA if OPA_URL set, else local rules)
+    POLICY_RULES_FILE: process.env.POLICY_RULES_FILE || "./policies/agent_policy/data.yaml",
+    // closed = deny when no policy decision is available; open = allow (local development only)
+    POLICY_FAIL_MODE: process.env.POLICY_FAIL_MODE || (process.env.NODE_ENV === "production" ? "closed" : "open"),
+    // auto engine only: decide with the local rules when OPA errors instead of applying POLICY_FAIL_MODE
+    POLICY_LOCAL_FALLBACK: process.env.POLICY_LOCAL_FALLBACK === "true",
     AGENT_API_SECRET: process.env.AGENT_API_SECRET || "dev-secret-change-in-prod",
 
+    // document file storage (bytes stay inside the customer perimeter)
+    STORAGE_BACKEND: process.env.STORAGE_BACKEND || "local",
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || "./data/documents",
+    STORAGE_MASTER_KEY: process.env.STORAGE_MASTER_KEY || "dev-storage-key-change-in-prod",
+    STORAGE_MASTER_KEY_ID: process.env.STORAGE_MASTER_KEY_ID || "local-kek-v1",
+    MAX_UPLOAD_BYTES: Number(process.env.MAX_UPLOAD_BYTES || 50 * 1024 * 1024),
+
+    // HMAC key for the tamper-evident audit chain (keep outside the database)
+    AUDIT_CHAIN_KEY: process.env.AUDIT_CHAIN_KEY || "dev-audit-chain-key-change-in-prod",
+
+    // HMAC key for electronic signatures on workflow roles; the id is stored with each signature
+    SIGNATURE_KEY: process.env.SIGNATURE_KEY || "dev-signature-key-change-in-prod",
+    SIGNATURE_KEY_ID: process.env.SIGNATURE_KEY_ID || "local-sig-v1",
+
+    // SIEM forwarding of audit events over TCP (disabled unless SIEM_HOST is set)
+    SIEM_HOST: process.env.SIEM_HOST || "",
+    SIEM_PORT: Number(process.env.SIEM_PORT || 514),
+    SIEM_FORMAT: process.env.SIEM_FORMAT || "syslog", // cef | syslog | ndjson
+    SIEM_TCP_FRAMING: process.env.SIEM_TCP_FRAMING || "octet-counting", // octet-counting (RFC 6587) | lf
+    SIEM_DESTINATION: process.env.SIEM_DESTINATION || "default", // checkpoint key
+    SIEM_POLL_INTERVAL_MS: Number(process.env.SIEM_POLL_INTERVAL_MS || 5000),
+    SIEM_BATCH_SIZE: Number(process.env.SIEM_BATCH_SIZE || 500),
+    SIEM_SYSLOG_SD_ID: process.env.SIEM_SYSLOG_SD_ID || "audit@32473",
+
+    // document checkout: a lock lapses after this long without a heartbeat
+    DOCUMENT_LOCK_TTL_SECONDS: Number(process.env.DOCUMENT_LOCK_TTL_SECONDS || 300),
+    DOCUMENT_LOCK_MAX_TTL_SECONDS: Number(process.env.DOCUMENT_LOCK_MAX_TTL_SECONDS || 3600),
+
+    // autosave restore points kept per document and user
+    DRAFT_HISTORY_LIMIT: Number(process.env.DRAFT_HISTORY_LIMIT || 50),
+
+    // collaborative editing channel (WebSocket)
+    COLLAB_SNAPSHOT_STEPS: Number(process.env.COLLAB_SNAPSHOT_STEPS || 100),
+    COLLAB_SNAPSHOT_INTERVAL_MS: Number(process.env.COLLAB_SNAPSHOT_INTERVAL_MS || 30000),
+    COLLAB_MAX_MESSAGE_BYTES: Number(process.env.COLLAB_MAX_MESSAGE_BYTES || 1024 * 1024),
+    COLLAB_PING_INTERVAL_MS: Number(process.env.COLLAB_PING_INTERVAL_MS || 30000),
+
+    // document expiry/renewal sweep
+    EXPIRY_SCHEDULER_ENABLED: process.env.EXPIRY_SCHEDULER_ENABLED !== "false",
+    EXPIRY_SCHEDULER_INTERVAL_MS: Number(process.env.EXPIRY_SCHEDULER_INTERVAL_MS || 60 * 60 * 1000),
+
+    // approval SLA monitor (reminders and auto-escalation); per-tenant overrides in approval_sla_settings
+    APPROVAL_SLA_ENABLED: process.env.APPROVAL_SLA_ENABLED !== "false",
+    APPROVAL_SLA_INTERVAL_MS: Number(process.env.APPROVAL_SLA_INTERVAL_MS || 15 * 60 * 1000),
+    APPROVAL_REMINDER_HOURS: Number(process.env.APPROVAL_REMINDER_HOURS || 24),
+    APPROVAL_AUTO_ESCALATE: process.env.APPROVAL_AUTO_ESCALATE !== "false",
+    APPROVAL_ESCALATION_GRACE_HOURS: Number(process.env.APPROVAL_ESCALATION_GRACE_HOURS || 0),
+
+    // notification delivery (email channel needs SMTP_HOST, sms channel needs SMS_WEBHOOK_URL)
+    NOTIFY_WORKER_ENABLED: process.env.NOTIFY_WORKER_ENABLED !== "false",
+    NOTIFY_POLL_INTERVAL_MS: Number(process.env.NOTIFY_POLL_INTERVAL_MS || 15000),
+    NOTIFY_BATCH_SIZE: Number(process.env.NOTIFY_BATCH_SIZE || 50),
+    NOTIFY_RETRY_BASE_MS: Number(process.env.NOTIFY_RETRY_BASE_MS || 60 * 1000),
+    NOTIFY_RETRY_MAX_MS: Number(process.env.NOTIFY_RETRY_MAX_MS || 6 * 60 * 60 * 1000),
+    SMTP_HOST: process.env.SMTP_HOST || "",
+    SMTP_PORT: Number(process.env.SMTP_PORT || 25),
+    SMTP_SECURE: process.env.SMTP_SECURE === "true",
+    SMTP_USER: process.env.SMTP_USER || "",
+    SMTP_PASSWORD: process.env.SMTP_PASSWORD || "",
+    SMTP_FROM: process.env.SMTP_FROM || "BYOD Agent <no-reply@localhost>",
+    SMS_WEBHOOK_URL: process.env.SMS_WEBHOOK_URL || "",
+    SMS_WEBHOOK_SECRET: process.env.SMS_WEBHOOK_SECRET || "dev-sms-webhook-secret-change-in-prod",
+
     // demo schema/policy versions to render in /health
     SCHEMA_VERSION: "v1-minimal",
     POLICY_VERSION: "live", // OPAL keeps OPA fresh
@@ -0,0 +1,50 @@
+// Document access log writer (document_access_log, ADHICS SA).
+// Complements recordAudit with per-document view/download/upload history.
+import { pool } from "../lib/db";
+
+export type DocumentAccessInput = {
+    tenantId: string;
+    documentId: string;
+    userId: string;
+    userEmail?: string | null;
+    userRole?: string | null;
+    action: "view" | "download" | "upload" | "update" | "delete" | "approve" | "reject"
+        | "share" | "print" | "export" | "version_create" | "archive" | "restore";
+    details?: any;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    requestId?: string | null;
+    success?: boolean;
+    errorMessage?: string | null;
+};
+
+export async function recordDocumentAccess(a: DocumentAccessInput) {
+    const sql = `
+    INSERT INTO document_access_log
+      (tenant_id, document_id, user_id, user_email, user_role, action, action_details,
+       ip_address, user_agent, request_id, success, error_message)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+  `;
+
+    const params = [
+        a.tenantId,
+        a.documentId,
+        a.userId,
+        a.userEmail ?? null,
+        a.userRole ?? null,
+        a.action,
+        a.details ? JSON.stringify(a.details) : null,
+        a.ipAddress ?? null,
+        a.userAgent ?? null,
+        a.requestId ?? null,
+        a.success ?? true,
+        a.errorMessage ?? null,
+    ];
+
+    try {
+        await pool.query(sql, params);
+    } catch (err) {
+        // Same contract as recordAudit: never break the main operation
+        console.error('[AccessLog] Failed to record document access:', err);
+    }
+}
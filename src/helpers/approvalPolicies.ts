@@ -0,0 +1,494 @@
+/**
+ * Approval Policies
+ *
+ * A policy is a reusable list of approval steps by role name ("department_head, then
+ * security_officer, then ciso") for a document category or template. When a document
+ * enters pending_approval without explicit approvers, the policy that applies to it is
+ * resolved into concrete users of the tenant and the approval workflow is started:
+ *
+ * 1. the active policy for the document's template,
+ * 2. the active policy for the document's category,
+ * 3. the template's required_approvals role names (one sequential level each).
+ *
+ * Roles resolve through approval_role_assignments - assignments scoped to the document
+ * owner's department win over unscoped ones - except "manager", which is the owner's
+ * manager (employees.manager_id). The owner never approves their own document.
+ * When nothing applies but the category or template requires approval, the workflow
+ * cannot start.
+ */
+
+import { Pool, PoolClient } from "pg";
+import { StartWorkflowInput } from "./approvalWorkflow";
+import { findManager } from "./approvalSla";
+
+type Queryable = Pool | PoolClient;
+
+// Global categories are seeded under the nil tenant (migration 012)
+const GLOBAL_TENANT_ID = "00000000-0000-0000-0000-000000000000";
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_POLICY_STEPS = 20;
+const MAX_DUE_HOURS = 24 * 90;
+
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+// Resolved from the document owner's employee record instead of assignments
+export const MANAGER_ROLE = "manager";
+
+export type ApprovalType = StartWorkflowInput["approvalType"];
+
+export type PolicyStep = {
+    role: string;
+    level?: number;
+    all_assignees?: boolean;
+    due_in_hours?: number;
+};
+
+export type PlanSource = "template_policy" | "category_policy" | "template_required_approvals";
+
+export type ResolvedStep = {
+    role: string;
+    level: number;
+    approverIds: string[];
+    resolvedBy: "assignment" | "manager";
+    dueDate: string | null;
+};
+
+export type ApprovalPlan = {
+    documentId: string;
+    source: PlanSource;
+    policyId: string | null;
+    policyName: string | null;
+    approvalType: ApprovalType;
+    required: boolean;
+    steps: ResolvedStep[];
+    approvers: StartWorkflowInput["approvers"];
+};
+
+/**
+ * Raised for invalid policies and unresolvable plans; routes map status/code onto the response
+ */
+export class ApprovalPolicyError extends Error {
+    constructor(public status: number, public code: string, message: string, public details: any = null) {
+        super(message);
+        this.name = "ApprovalPolicyError";
+    }
+}
+
+function readDueHours(value: any, name: string): number | null {
+    if (value === undefined || value === null) return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_DUE_HOURS) {
+        throw new ApprovalPolicyError(400, "bad_request", `${name} must be an integer between 1 and ${MAX_DUE_HOURS}`);
+    }
+    return n;
+}
+
+/**
+ * Normalise a steps array from a request body
+ */
+export function parseSteps(raw: any): PolicyStep[] {
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_POLICY_STEPS) {
+        throw new ApprovalPolicyError(400, "bad_request", `steps must be an array of 1 to ${MAX_POLICY_STEPS} steps`);
+    }
+
+    return raw.map((step: any, i: number) => {
+        const role = typeof step === "string" ? step : step?.role;
+        if (typeof role !== "string" || !ROLE_NAME_PATTERN.test(role)) {
+            throw new ApprovalPolicyError(400, "bad_request", `steps[${i}].role must be a role name (lowercase letters, digits, _)`);
+        }
+        const parsed: PolicyStep = { role };
+        if (step?.level !== undefined) {
+            if (!Number.isInteger(step.level) || step.level < 1) {
+                throw new ApprovalPolicyError(400, "bad_request", `steps[${i}].level must be a positive integer`);
+            }
+            parsed.level = step.level;
+        }
+        if (step?.all_assignees !== undefined) {
+            if (typeof step.all_assignees !== "boolean") {
+                throw new ApprovalPolicyError(400, "bad_request", `steps[${i}].all_assignees must be a boolean`);
+            }
+            parsed.all_assignees = step.all_assignees;
+        }
+        const due = readDueHours(step?.due_in_hours, `steps[${i}].due_in_hours`);
+        if (due !== null) parsed.due_in_hours = due;
+        return parsed;
+    });
+}
+
+function mapUniqueViolation(err: any): never {
+    if (err?.code === "23505") {
+        throw new ApprovalPolicyError(409, "policy_exists", "An active approval policy already exists for this category or template");
+    }
+    throw err;
+}
+
+const POLICY_COLUMNS = `id, tenant_id, name, description, category, template_id, approval_type, steps,
+    due_in_hours, is_active, created_by, updated_by, created_at, updated_at`;
+
+export async function listPolicies(db: Queryable, tenantId: string, filter: { category: string | null; includeInactive: boolean }) {
+    const r = await db.query(
+        `SELECT ${POLICY_COLUMNS}
+         FROM approval_policies
+         WHERE tenant_id = $1
+           AND ($2::text IS NULL OR category = $2)
+           AND ($3 OR is_active)
+         ORDER BY category NULLS LAST, template_id NULLS FIRST, created_at ASC`,
+        [tenantId, filter.category, filter.includeInactive]
+    );
+    return r.rows;
+}
+
+export async function getPolicy(db: Queryable, tenantId: string, policyId: string) {
+    const r = await db.query(
+        `SELECT ${POLICY_COLUMNS} FROM approval_policies WHERE id = $1 AND tenant_id = $2`,
+        [policyId, tenantId]
+    );
+    return r.rows[0] || null;
+}
+
+async function assertTemplate(db: Queryable, tenantId: string, templateId: string) {
+    const r = await db.query(
+        "SELECT id FROM document_templates WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL",
+        [templateId, tenantId]
+    );
+    if (r.rows.length === 0) {
+        throw new ApprovalPolicyError(422, "unknown_template", "template_id is not a template of this tenant");
+    }
+}
+
+/**
+ * Create a policy for a category or a template
+ */
+export async function createPolicy(db: Queryable, tenantId: string, body: any, actorId: string) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const category = typeof body.category === "string" && body.category.trim() ? body.category.trim() : null;
+    const templateId = body.template_id ? String(body.template_id) : null;
+    const approvalType = body.approval_type ?? "sequential";
+
+    if (!name) {
+        throw new ApprovalPolicyError(400, "bad_request", "name is required");
+    }
+    if (!category && !templateId) {
+        throw new ApprovalPolicyError(400, "bad_request", "category or template_id is required");
+    }
+    if (templateId && !UUID_PATTERN.test(templateId)) {
+        throw new ApprovalPolicyError(400, "bad_request", "template_id must be a UUID");
+    }
+    if (approvalType !== "sequential" && approvalType !== "parallel") {
+        throw new ApprovalPolicyError(400, "bad_request", "approval_type must be 'sequential' or 'parallel'");
+    }
+    const steps = parseSteps(body.steps);
+    const dueInHours = readDueHours(body.due_in_hours, "due_in_hours");
+    if (templateId) await assertTemplate(db, tenantId, templateId);
+
+    const r = await db.query(
+        `INSERT INTO approval_policies (
+            tenant_id, name, description, category, template_id, approval_type, steps, due_in_hours, created_by
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING ${POLICY_COLUMNS}`,
+        [tenantId, name, body.description || null, category, templateId, approvalType, JSON.stringify(steps), dueInHours, actorId]
+    ).catch(mapUniqueViolation);
+    return r.rows[0];
+}
+
+/**
+ * Update a policy; fields not in the body keep their value. Scope (category/template) is fixed.
+ */
+export async function updatePolicy(db: Queryable, tenantId: string, policyId: string, body: any, actorId: string) {
+    const current = await getPolicy(db, tenantId, policyId);
+    if (!current) {
+        throw new ApprovalPolicyError(404, "not_found", "Approval policy not found");
+    }
+
+    const name = body.name !== undefined ? String(body.name).trim() : current.name;
+    if (!name) {
+        throw new ApprovalPolicyError(400, "bad_request", "name cannot be empty");
+    }
+    const approvalType = body.approval_type ?? current.approval_type;
+    if (approvalType !== "sequential" && approvalType !== "parallel") {
+        throw new ApprovalPolicyError(400, "bad_request", "approval_type must be 'sequential' or 'parallel'");
+    }
+    if (body.is_active !== undefined && typeof body.is_active !== "boolean") {
+        throw new ApprovalPolicyError(400, "bad_request", "is_active must be a boolean");
+    }
+    const steps = body.steps !== undefined ? parseSteps(body.steps) : current.steps;
+    const dueInHours = body.due_in_hours !== undefined ? readDueHours(body.due_in_hours, "due_in_hours") : current.due_in_hours;
+
+    const r = await db.query(
+        `UPDATE approval_policies
+         SET name = $3, description = $4, approval_type = $5, steps = $6, due_in_hours = $7,
+             is_active = $8, updated_by = $9, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING ${POLICY_COLUMNS}`,
+        [
+            policyId,
+            tenantId,
+            name,
+            body.description !== undefined ? body.description || null : current.description,
+            approvalType,
+            JSON.stringify(steps),
+            dueInHours,
+            body.is_active ?? current.is_active,
+            actorId
+        ]
+    ).catch(mapUniqueViolation);
+    return { previous: current, policy: r.rows[0] };
+}
+
+export async function listRoleAssignments(db: Queryable, tenantId: string, roleName: string | null) {
+    const r = await db.query(
+        `SELECT a.id, a.tenant_id, a.role_name, a.user_id, a.department, a.priority, a.created_by,
+                a.created_at, a.updated_at, u.email AS user_email, u.status AS user_status
+         FROM approval_role_assignments a
+         LEFT JOIN agent_users u ON u.id = a.user_id AND u.tenant_id = a.tenant_id
+         WHERE a.tenant_id = $1 AND ($2::text IS NULL OR a.role_name = $2)
+         ORDER BY a.role_name, a.department NULLS LAST, a.priority, a.created_at`,
+        [tenantId, roleName]
+    );
+    return r.rows;
+}
+
+/**
+ * Give a user an approval role (optionally for one department)
+ */
+export async function assignRole(db: Queryable, tenantId: string, body: any, actorId: string) {
+    const roleName = typeof body.role_name === "string" ? body.role_name.trim() : "";
+    const userId = String(body.user_id || "");
+    const department = typeof body.department === "string" && body.department.trim() ? body.department.trim() : null;
+    const priority = body.priority ?? 0;
+
+    if (!ROLE_NAME_PATTERN.test(roleName)) {
+        throw new ApprovalPolicyError(400, "bad_request", "role_name must be a role name (lowercase letters, digits, _)");
+    }
+    if (roleName === MANAGER_ROLE) {
+        throw new ApprovalPolicyError(400, "bad_request", `'${MANAGER_ROLE}' is resolved from the document owner and cannot be assigned`);
+    }
+    if (!UUID_PATTERN.test(userId)) {
+        throw new ApprovalPolicyError(400, "bad_request", "user_id must be a UUID");
+    }
+    if (!Number.isInteger(priority)) {
+        throw new ApprovalPolicyError(400, "bad_request", "priority must be an integer");
+    }
+
+    const user = await db.query(
+        "SELECT id FROM agent_users WHERE id = $1 AND tenant_id = $2 AND status = 'active'",
+        [userId, tenantId]
+    );
+    if (user.rows.length === 0) {
+        throw new ApprovalPolicyError(422, "unknown_user", "user_id is not an active user of this tenant");
+    }
+
+    const r = await db.query(
+        `INSERT INTO approval_role_assignments (tenant_id, role_name, user_id, department, priority, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id, tenant_id, role_name, user_id, department, priority, created_by, created_at, updated_at`,
+        [tenantId, roleName, userId, department, priority, actorId]
+    ).catch((err: any) => {
+        if (err?.code === "23505") {
+            throw new ApprovalPolicyError(409, "already_assigned", "User already holds this role for this department");
+        }
+        throw err;
+    });
+    return r.rows[0];
+}
+
+export async function removeRoleAssignment(db: Queryable, tenantId: string, assignmentId: string) {
+    const r = await db.query(
+        `DELETE FROM approval_role_assignments
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING id, tenant_id, role_name, user_id, department, priority, created_by, created_at, updated_at`,
+        [assignmentId, tenantId]
+    );
+    if (r.rows.length === 0) {
+        throw new ApprovalPolicyError(404, "not_found", "Role assignment not found");
+    }
+    return r.rows[0];
+}
+
+/**
+ * The document, its template's approval settings and whether its category or template
+ * requires approval
+ */
+async function loadDocumentContext(db: Queryable, tenantId: string, documentId: string) {
+    const r = await db.query(
+        `SELECT
+            d.id, d.category, d.entity_type, d.template_id, d.created_by,
+            t.required_approvals,
+            COALESCE(t.require_approval, FALSE) AS template_requires_approval,
+            (SELECT c.require_approval
+             FROM document_categories c
+             WHERE c.category_code = d.category AND c.entity_type = d.entity_type
+               AND c.tenant_id IN (d.tenant_id, $3) AND c.is_active IS NOT FALSE
+             ORDER BY (c.tenant_id = d.tenant_id) DESC
+             LIMIT 1) AS category_requires_approval,
+            (SELECT e.department
+             FROM employees e
+             WHERE e.tenant_id = d.tenant_id
+               AND e.id = COALESCE(
+                   (SELECT employee_id FROM agent_users WHERE id = d.created_by AND tenant_id = d.tenant_id),
+                   d.created_by
+               )) AS owner_department
+         FROM documents d
+         LEFT JOIN document_templates t ON t.id = d.template_id AND t.tenant_id = d.tenant_id
+         WHERE d.id = $1 AND d.tenant_id = $2 AND d.deleted_at IS NULL`,
+        [documentId, tenantId, GLOBAL_TENANT_ID]
+    );
+    return r.rows[0] || null;
+}
+
+/**
+ * Whether the document's category or template requires approval before publishing
+ */
+export async function requiresApproval(db: Queryable, tenantId: string, documentId: string): Promise<boolean> {
+    const doc = await loadDocumentContext(db, tenantId, documentId);
+    return !!doc && (doc.category_requires_approval === true || doc.template_requires_approval === true);
+}
+
+/**
+ * The policy (or template role list) that applies to a document, unresolved
+ */
+async function findApplicablePolicy(db: Queryable, tenantId: string, doc: any) {
+    const r = await db.query(
+        `SELECT ${POLICY_COLUMNS}
+         FROM approval_policies
+         WHERE tenant_id = $1 AND is_active
+           AND (template_id = $2 OR (template_id IS NULL AND category = $3))
+         ORDER BY (template_id IS NOT NULL) DESC
+         LIMIT 1`,
+        [tenantId, doc.template_id, doc.category]
+    );
+    const policy = r.rows[0];
+    if (policy) {
+        return {
+            source: (policy.template_id ? "template_policy" : "category_policy") as PlanSource,
+            policyId: policy.id as string,
+            policyName: policy.name as string,
+            approvalType: policy.approval_type as ApprovalType,
+            steps: policy.steps as PolicyStep[],
+            dueInHours: policy.due_in_hours as number | null,
+        };
+    }
+
+    const roles: string[] = (doc.required_approvals || []).filter((role: any) => typeof role === "string" && role.trim());
+    if (roles.length > 0) {
+        return {
+            source: "template_required_approvals" as PlanSource,
+            policyId: null,
+            policyName: null,
+            approvalType: "sequential" as ApprovalType,
+            steps: roles.map((role): PolicyStep => ({ role: role.trim() })),
+            dueInHours: null,
+        };
+    }
+    return null;
+}
+
+/**
+ * Resolve the approval workflow a document needs. Returns null when no policy applies
+ * and approval is not required; throws 422 when it is required but cannot be resolved.
+ */
+export async function planApprovalWorkflow(db: Queryable, tenantId: string, documentId: string): Promise<ApprovalPlan | null> {
+    const doc = await loadDocumentContext(db, tenantId, documentId);
+    if (!doc) {
+        throw new ApprovalPolicyError(404, "not_found", "Document not found");
+    }
+    const required = doc.category_requires_approval === true || doc.template_requires_approval === true;
+
+    const policy = await findApplicablePolicy(db, tenantId, doc);
+    if (!policy) {
+        if (!required) return null;
+        throw new ApprovalPolicyError(422, "approval_policy_required",
+            "Documents of this category require approval but no approval policy applies; pass approvers explicitly or define a policy", {
+                category: doc.category,
+                templateId: doc.template_id
+            });
+    }
+
+    const owner = doc.created_by ? String(doc.created_by).toLowerCase() : null;
+    const roleNames = Array.from(new Set(policy.steps.map(s => s.role).filter(role => role !== MANAGER_ROLE)));
+    const assignments = roleNames.length === 0 ? [] : (await db.query(
+        `SELECT a.role_name, a.user_id, a.department
+         FROM approval_role_assignments a
+         JOIN agent_users u ON u.id = a.user_id AND u.tenant_id = a.tenant_id AND u.status = 'active'
+         WHERE a.tenant_id = $1 AND a.role_name = ANY($2)
+           AND (a.department IS NULL OR a.department = $3)
+         ORDER BY a.priority ASC, a.created_at ASC`,
+        [tenantId, roleNames, doc.owner_department]
+    )).rows;
+
+    const steps: ResolvedStep[] = [];
+    const unresolved: string[] = [];
+    // Sequential levels are due one after the other; a level's due date adds its hours to the previous level's
+    const levelHours = new Map<number, number>();
+
+    for (let i = 0; i < policy.steps.length; i++) {
+        const step = policy.steps[i];
+        const level = policy.approvalType === "parallel" ? 1 : step.level ?? i + 1;
+
+        let candidates: string[];
+        let resolvedBy: ResolvedStep["resolvedBy"] = "assignment";
+        if (step.role === MANAGER_ROLE) {
+            const manager = doc.created_by ? await findManager(db, tenantId, doc.created_by) : null;
+            candidates = manager ? [manager.user_id] : [];
+            resolvedBy = "manager";
+        } else {
+            const forRole = assignments.filter((a: any) => a.role_name === step.role);
+            const scoped = forRole.filter((a: any) => a.department !== null);
+            candidates = (scoped.length > 0 ? scoped : forRole).map((a: any) => a.user_id);
+        }
+
+        candidates = Array.from(new Set(candidates)).filter(id => String(id).toLowerCase() !== owner);
+        if (candidates.length === 0) {
+            unresolved.push(step.role);
+            continue;
+        }
+
+        const hours = step.due_in_hours ?? policy.dueInHours;
+        if (hours) levelHours.set(level, Math.max(levelHours.get(level) || 0, hours));
+        steps.push({
+            role: step.role,
+            level,
+            approverIds: step.all_assignees ? candidates : [candidates[0]],
+            resolvedBy,
+            dueDate: null,
+        });
+    }
+
+    if (unresolved.length > 0) {
+        throw new ApprovalPolicyError(422, "unresolved_roles",
+            `No eligible user holds these approval roles: ${unresolved.join(", ")}`, {
+                policyId: policy.policyId,
+                source: policy.source,
+                unresolvedRoles: unresolved
+            });
+    }
+
+    const start = Date.now();
+    for (const step of steps) {
+        if (!levelHours.has(step.level)) continue;
+        let hours = levelHours.get(step.level) as number;
+        if (policy.approvalType === "sequential") {
+            hours = Array.from(levelHours.entries())
+                .filter(([level]) => level <= step.level)
+                .reduce((sum, [, h]) => sum + h, 0);
+        }
+        step.dueDate = new Date(start + hours * 3600 * 1000).toISOString();
+    }
+
+    return {
+        documentId,
+        source: policy.source,
+        policyId: policy.policyId,
+        policyName: policy.policyName,
+        approvalType: policy.approvalType,
+        required,
+        steps,
+        approvers: steps.flatMap(step => step.approverIds.map(approverId => ({
+            approver_id: approverId,
+            approval_level: step.level,
+            approver_role: step.role,
+            due_date: step.dueDate,
+        }))),
+    };
+}
@@ -0,0 +1,304 @@
+/**
+ * Approval SLA
+ *
+ * Tenant settings for the SLA monitor (jobs/approvalSlaMonitor): when reminders go
+ * out before an approval's due_date, whether and when past-due approvals are escalated,
+ * and to whom - the approver's manager (employees.manager_id, via agent_users.employee_id)
+ * or the tenant's default escalation user. Tenants without settings use the agent config.
+ *
+ * An approval breaches its SLA when it is decided after due_date, or is still
+ * outstanding once due_date has passed. Breaches are attributed to the original approver.
+ */
+
+import { Pool, PoolClient } from "pg";
+import { CONFIG } from "../config";
+
+type Queryable = Pool | PoolClient;
+
+export type EscalationTargetMode = "manager" | "default";
+
+export type ApprovalSlaSettings = {
+    tenant_id: string;
+    reminder_hours_before: number;
+    auto_escalate: boolean;
+    escalation_grace_hours: number;
+    escalation_target: EscalationTargetMode;
+    default_escalation_user_id: string | null;
+    configured: boolean;
+    updated_by: string | null;
+    updated_at: string | null;
+};
+
+export type EscalationTarget = {
+    userId: string;
+    email: string | null;
+    role: string | null;
+    source: "manager" | "default";
+};
+
+/**
+ * Raised for invalid settings; routes map status/code onto the response
+ */
+export class ApprovalSlaError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+        this.name = "ApprovalSlaError";
+    }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_SLA_HOURS = 24 * 90;
+
+/**
+ * Settings row for a tenant, with the agent defaults filled in when none is stored
+ */
+export async function getSlaSettings(db: Queryable, tenantId: string): Promise<ApprovalSlaSettings> {
+    const r = await db.query(
+        `SELECT tenant_id, reminder_hours_before, auto_escalate, escalation_grace_hours,
+                escalation_target, default_escalation_user_id, updated_by, updated_at
+         FROM approval_sla_settings
+         WHERE tenant_id = $1`,
+        [tenantId]
+    );
+    if (r.rows.length > 0) return { ...r.rows[0], configured: true };
+
+    return {
+        tenant_id: tenantId,
+        reminder_hours_before: CONFIG.APPROVAL_REMINDER_HOURS,
+        auto_escalate: CONFIG.APPROVAL_AUTO_ESCALATE,
+        escalation_grace_hours: CONFIG.APPROVAL_ESCALATION_GRACE_HOURS,
+        escalation_target: "manager",
+        default_escalation_user_id: null,
+        configured: false,
+        updated_by: null,
+        updated_at: null,
+    };
+}
+
+function readHours(body: any, key: string): number | undefined {
+    if (body[key] === undefined) return undefined;
+    const n = Number(body[key]);
+    if (!Number.isInteger(n) || n < 0 || n > MAX_SLA_HOURS) {
+        throw new ApprovalSlaError(400, "bad_request", `${key} must be an integer between 0 and ${MAX_SLA_HOURS}`);
+    }
+    return n;
+}
+
+/**
+ * Store a tenant's settings; fields not in the body keep their current value
+ */
+export async function updateSlaSettings(db: Queryable, tenantId: string, body: any, actorId: string | null) {
+    const current = await getSlaSettings(db, tenantId);
+
+    const reminderHours = readHours(body, "reminder_hours_before");
+    const graceHours = readHours(body, "escalation_grace_hours");
+
+    if (body.auto_escalate !== undefined && typeof body.auto_escalate !== "boolean") {
+        throw new ApprovalSlaError(400, "bad_request", "auto_escalate must be a boolean");
+    }
+    if (body.escalation_target !== undefined && body.escalation_target !== "manager" && body.escalation_target !== "default") {
+        throw new ApprovalSlaError(400, "bad_request", "escalation_target must be 'manager' or 'default'");
+    }
+
+    let defaultUserId = current.default_escalation_user_id;
+    if (body.default_escalation_user_id !== undefined) {
+        defaultUserId = body.default_escalation_user_id ? String(body.default_escalation_user_id) : null;
+        if (defaultUserId && !UUID_PATTERN.test(defaultUserId)) {
+            throw new ApprovalSlaError(400, "bad_request", "default_escalation_user_id must be a UUID");
+        }
+        if (defaultUserId) {
+            const user = await db.query(
+                `SELECT id FROM agent_users
+                 WHERE id = $1 AND tenant_id = $2 AND status = 'active'`,
+                [defaultUserId, tenantId]
+            );
+            if (user.rows.length === 0) {
+                throw new ApprovalSlaError(422, "unknown_user", "default_escalation_user_id is not an active user of this tenant");
+            }
+        }
+    }
+
+    const escalationTarget: EscalationTargetMode = body.escalation_target ?? current.escalation_target;
+    if (escalationTarget === "default" && !defaultUserId) {
+        throw new ApprovalSlaError(422, "default_user_required", "escalation_target 'default' requires default_escalation_user_id");
+    }
+
+    const r = await db.query(
+        `INSERT INTO approval_sla_settings (
+            tenant_id, reminder_hours_before, auto_escalate, escalation_grace_hours,
+            escalation_target, default_escalation_user_id, updated_by
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (tenant_id) DO UPDATE SET
+            reminder_hours_before = EXCLUDED.reminder_hours_before,
+            auto_escalate = EXCLUDED.auto_escalate,
+            escalation_grace_hours = EXCLUDED.escalation_grace_hours,
+            escalation_target = EXCLUDED.escalation_target,
+            default_escalation_user_id = EXCLUDED.default_escalation_user_id,
+            updated_by = EXCLUDED.updated_by,
+            updated_at = NOW()
+        RETURNING tenant_id, reminder_hours_before, auto_escalate, escalation_grace_hours,
+                  escalation_target, default_escalation_user_id, updated_by, updated_at`,
+        [
+            tenantId,
+            reminderHours ?? current.reminder_hours_before,
+            body.auto_escalate ?? current.auto_escalate,
+            graceHours ?? current.escalation_grace_hours,
+            escalationTarget,
+            defaultUserId,
+            actorId
+        ]
+    );
+    return { previous: current, settings: { ...r.rows[0], configured: true } as ApprovalSlaSettings };
+}
+
+/**
+ * The manager of a user (employees.manager_id). The user id may be an agent user linked
+ * to an employee, or an employee id; the manager is returned as their agent user when
+ * they have one.
+ */
+export async function findManager(db: Queryable, tenantId: string, userId: string) {
+    const r = await db.query(
+        `SELECT COALESCE(mu.id, m.id) AS user_id, COALESCE(mu.email, m.email) AS email, mu.role
+         FROM employees e
+         JOIN employees m ON m.id = e.manager_id AND m.tenant_id = e.tenant_id
+                         AND m.deleted_at IS NULL AND m.status = 'active'
+         LEFT JOIN agent_users mu ON mu.employee_id = m.id AND mu.tenant_id = m.tenant_id AND mu.status = 'active'
+         WHERE e.tenant_id = $1
+           AND e.id = COALESCE(
+               (SELECT employee_id FROM agent_users WHERE id = $2 AND tenant_id = $1),
+               $2
+           )
+         LIMIT 1`,
+        [tenantId, userId]
+    );
+    return (r.rows[0] as { user_id: string; email: string | null; role: string | null } | undefined) || null;
+}
+
+/**
+ * Who a past-due approval goes to: the approver's manager or the tenant default.
+ * Never returns the user the approval already sits with.
+ */
+export async function resolveEscalationTarget(
+    db: Queryable,
+    tenantId: string,
+    approverId: string,
+    actingApproverId: string,
+    settings: Pick<ApprovalSlaSettings, "escalation_target" | "default_escalation_user_id">
+): Promise<EscalationTarget | null> {
+    const excluded = [approverId.toLowerCase(), actingApproverId.toLowerCase()];
+
+    if (settings.escalation_target === "manager") {
+        const manager = await findManager(db, tenantId, approverId);
+        if (manager && !excluded.includes(String(manager.user_id).toLowerCase())) {
+            return { userId: manager.user_id, email: manager.email, role: manager.role, source: "manager" };
+        }
+    }
+
+    const defaultUserId = settings.default_escalation_user_id;
+    if (defaultUserId && !excluded.includes(defaultUserId.toLowerCase())) {
+        const r = await db.query(
+            `SELECT id, email, role FROM agent_users
+             WHERE id = $1 AND tenant_id = $2 AND status = 'active'`,
+            [defaultUserId, tenantId]
+        );
+        if (r.rows.length > 0) {
+            return { userId: r.rows[0].id, email: r.rows[0].email, role: r.rows[0].role, source: "default" };
+        }
+    }
+    return null;
+}
+
+export type SlaStatsFilter = {
+    from: string | null;
+    to: string | null;
+    category: string | null;
+    approverId: string | null;
+};
+
+// Grouping column for each breakdown; fixed values, never taken from the request
+const STATS_GROUPS = {
+    total: "NULL::text",
+    approver: "approver_id::text",
+    category: "category",
+};
+
+async function statsBy(db: Queryable, tenantId: string, filter: SlaStatsFilter, group: keyof typeof STATS_GROUPS) {
+    const r = await db.query(
+        `WITH sla AS (
+            SELECT
+                a.approver_id,
+                COALESCE(d.category, 'uncategorized') AS category,
+                a.status,
+                a.auto_escalated,
+                a.escalated_at,
+                a.due_date,
+                a.decision_date,
+                COALESCE(a.requested_at, a.created_at) AS requested_at,
+                (a.status IN ('pending', 'escalated') AND a.due_date < NOW()) AS overdue,
+                (a.status IN ('approved', 'rejected') AND a.decision_date > a.due_date)
+                    OR (a.status IN ('pending', 'escalated') AND a.due_date < NOW()) AS breached
+            FROM document_approvals a
+            JOIN documents d ON d.id = a.document_id AND d.tenant_id = a.tenant_id
+            WHERE a.tenant_id = $1
+              AND a.due_date IS NOT NULL
+              AND a.status <> 'skipped'
+              AND ($2::timestamptz IS NULL OR COALESCE(a.requested_at, a.created_at) >= $2)
+              AND ($3::timestamptz IS NULL OR COALESCE(a.requested_at, a.created_at) < $3)
+              AND ($4::text IS NULL OR d.category = $4)
+              AND ($5::uuid IS NULL OR a.approver_id = $5)
+        )
+        SELECT
+            ${STATS_GROUPS[group]} AS key,
+            COUNT(*)::int AS total,
+            COUNT(*) FILTER (WHERE status IN ('approved', 'rejected'))::int AS decided,
+            COUNT(*) FILTER (WHERE status IN ('approved', 'rejected') AND NOT breached)::int AS on_time,
+            COUNT(*) FILTER (WHERE breached)::int AS breached,
+            COUNT(*) FILTER (WHERE overdue)::int AS overdue,
+            COUNT(*) FILTER (WHERE escalated_at IS NOT NULL)::int AS escalated,
+            COUNT(*) FILTER (WHERE auto_escalated)::int AS auto_escalated,
+            ROUND(AVG(EXTRACT(EPOCH FROM decision_date - requested_at) / 3600)
+                FILTER (WHERE decision_date IS NOT NULL)::numeric, 1)::float AS avg_decision_hours,
+            ROUND(AVG(EXTRACT(EPOCH FROM COALESCE(decision_date, NOW()) - due_date) / 3600)
+                FILTER (WHERE breached)::numeric, 1)::float AS avg_hours_late
+        FROM sla
+        GROUP BY 1
+        ORDER BY breached DESC, total DESC`,
+        [tenantId, filter.from, filter.to, filter.category, filter.approverId]
+    );
+
+    return r.rows.map((row: any) => ({
+        key: row.key,
+        total: row.total,
+        decided: row.decided,
+        onTime: row.on_time,
+        breached: row.breached,
+        overdue: row.overdue,
+        escalated: row.escalated,
+        autoEscalated: row.auto_escalated,
+        breachRate: row.total > 0 ? Math.round((row.breached / row.total) * 1000) / 1000 : 0,
+        avgDecisionHours: row.avg_decision_hours,
+        avgHoursLate: row.avg_hours_late,
+    }));
+}
+
+/**
+ * SLA breach statistics for approvals with a due date, overall, per approver and per category
+ */
+export async function getSlaStats(db: Queryable, tenantId: string, filter: SlaStatsFilter) {
+    const [total, approvers, categories] = await Promise.all([
+        statsBy(db, tenantId, filter, "total"),
+        statsBy(db, tenantId, filter, "approver"),
+        statsBy(db, tenantId, filter, "category"),
+    ]);
+
+    const { key: _key, ...summary } = total[0] || {
+        key: null, total: 0, decided: 0, onTime: 0, breached: 0, overdue: 0, escalated: 0,
+        autoEscalated: 0, breachRate: 0, avgDecisionHours: null, avgHoursLate: null,
+    };
+    return {
+        summary,
+        byApprover: approvers.map(({ key, ...s }) => ({ approverId: key, ...s })),
+        byCategory: categories.map(({ key, ...s }) => ({ category: key, ...s })),
+    };
+}
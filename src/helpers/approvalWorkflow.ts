@@ -0,0 +1,353 @@
+/**
+ * Document Approval Workflow Engine
+ *
+ * Drives document_approvals rows through a workflow:
+ * - sequential: levels are worked in ascending approval_level order, only the
+ *   lowest level with outstanding approvals is actionable
+ * - parallel: every outstanding approval is actionable at once
+ *
+ * A rejection short-circuits the round (remaining approvals are skipped) and
+ * marks the document rejected. When every approval in the round is approved
+ * the document moves from pending_approval to approved.
+ */
+
+import { Pool, PoolClient } from "pg";
+
+type Queryable = Pool | PoolClient;
+
+export type ApprovalType = "sequential" | "parallel";
+export type WorkflowOutcome = "not_started" | "pending" | "approved" | "rejected";
+
+export type PendingApprover = {
+    approvalId: string;
+    approvalLevel: number;
+    approverId: string;
+    approverRole: string | null;
+    actingApproverId: string; // escalated_to / delegated_to when set
+    status: string;
+    dueDate: string | null;
+};
+
+export type WorkflowLevel = {
+    level: number;
+    status: "waiting" | "active" | "approved" | "rejected";
+    total: number;
+    approved: number;
+    outstanding: number;
+};
+
+export type WorkflowState = {
+    documentId: string;
+    round: number;
+    approvalType: ApprovalType | null;
+    outcome: WorkflowOutcome;
+    currentLevel: number | null;
+    totalLevels: number;
+    pendingApprovers: PendingApprover[];
+    levels: WorkflowLevel[];
+};
+
+/**
+ * Raised for workflow rule violations; routes map status/code onto the response
+ */
+export class WorkflowError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+        this.name = "WorkflowError";
+    }
+}
+
+// pending = awaiting approver, escalated = awaiting the escalation target
+const OUTSTANDING_STATUSES = ["pending", "escalated"];
+
+function isOutstanding(row: any): boolean {
+    return OUTSTANDING_STATUSES.includes(row.status);
+}
+
+/**
+ * The user currently expected to act on an approval row
+ */
+export function actingApproverOf(row: any): string {
+    return row.escalated_to || row.delegated_to || row.approver_id;
+}
+
+/**
+ * Compute workflow state from the approval rows of a single round
+ */
+export function computeWorkflowState(documentId: string, round: number, rows: any[]): WorkflowState {
+    if (rows.length === 0) {
+        return {
+            documentId,
+            round,
+            approvalType: null,
+            outcome: "not_started",
+            currentLevel: null,
+            totalLevels: 0,
+            pendingApprovers: [],
+            levels: [],
+        };
+    }
+
+    const approvalType: ApprovalType = rows.some(r => r.approval_type === "sequential") ? "sequential" : "parallel";
+    const rejected = rows.some(r => r.status === "rejected");
+    const outstanding = rows.filter(isOutstanding);
+
+    let outcome: WorkflowOutcome = "pending";
+    if (rejected) outcome = "rejected";
+    else if (outstanding.length === 0) outcome = "approved";
+
+    const currentLevel = outcome === "pending"
+        ? Math.min(...outstanding.map(r => Number(r.approval_level)))
+        : null;
+
+    const levelNumbers = Array.from(new Set(rows.map(r => Number(r.approval_level)))).sort((a, b) => a - b);
+    const levels: WorkflowLevel[] = levelNumbers.map(level => {
+        const levelRows = rows.filter(r => Number(r.approval_level) === level);
+        const levelOutstanding = levelRows.filter(isOutstanding).length;
+        let status: WorkflowLevel["status"] = "approved";
+        if (levelRows.some(r => r.status === "rejected")) status = "rejected";
+        else if (levelOutstanding > 0) {
+            status = approvalType === "parallel" || level === currentLevel ? "active" : "waiting";
+        }
+        return {
+            level,
+            status,
+            total: levelRows.length,
+            approved: levelRows.filter(r => r.status === "approved").length,
+            outstanding: levelOutstanding,
+        };
+    });
+
+    const actionable = outcome !== "pending"
+        ? []
+        : outstanding.filter(r => approvalType === "parallel" || Number(r.approval_level) === currentLevel);
+
+    return {
+        documentId,
+        round,
+        approvalType,
+        outcome,
+        currentLevel,
+        totalLevels: levels.length,
+        pendingApprovers: actionable.map(r => ({
+            approvalId: r.id,
+            approvalLevel: Number(r.approval_level),
+            approverId: r.approver_id,
+            approverRole: r.approver_role,
+            actingApproverId: actingApproverOf(r),
+            status: r.status,
+            dueDate: r.due_date,
+        })),
+        levels,
+    };
+}
+
+/**
+ * Latest workflow round for a document (0 when no workflow has been started)
+ */
+export async function getCurrentRound(db: Queryable, tenantId: string, documentId: string): Promise<number> {
+    const r = await db.query(
+        `SELECT COALESCE(MAX(workflow_round), 0) AS round
+         FROM document_approvals
+         WHERE document_id = $1 AND tenant_id = $2`,
+        [documentId, tenantId]
+    );
+    return Number(r.rows[0].round);
+}
+
+async function loadRoundRows(db: Queryable, tenantId: string, documentId: string, round: number, forUpdate = false) {
+    const r = await db.query(
+        `SELECT *
+         FROM document_approvals
+         WHERE document_id = $1 AND tenant_id = $2 AND workflow_round = $3
+         ORDER BY approval_level ASC, created_at ASC
+         ${forUpdate ? "FOR UPDATE" : ""}`,
+        [documentId, tenantId, round]
+    );
+    return r.rows;
+}
+
+/**
+ * Load the state of the document's current workflow round
+ */
+export async function getWorkflowState(db: Queryable, tenantId: string, documentId: string): Promise<WorkflowState> {
+    const round = await getCurrentRound(db, tenantId, documentId);
+    const rows = round > 0 ? await loadRoundRows(db, tenantId, documentId, round) : [];
+    return computeWorkflowState(documentId, round, rows);
+}
+
+export type StartWorkflowInput = {
+    tenantId: string;
+    documentId: string;
+    approvalType: ApprovalType;
+    approvers: Array<{
+        approver_id: string;
+        approval_level?: number;
+        approver_role?: string | null;
+        due_date?: string | null;
+    }>;
+    // Set when the approvers were resolved from an approval policy
+    approvalPolicyId?: string | null;
+};
+
+/**
+ * Start a new approval round and move the document to pending_approval.
+ * Must run inside a transaction (client has issued BEGIN).
+ */
+export async function startWorkflow(client: PoolClient, input: StartWorkflowInput) {
+    const { tenantId, documentId, approvalType, approvers } = input;
+
+    const doc = await client.query(
+        `SELECT id, status FROM documents
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL
+         FOR UPDATE`,
+        [documentId, tenantId]
+    );
+    if (doc.rows.length === 0) {
+        throw new WorkflowError(404, "not_found", "Document not found");
+    }
+
+    const current = await getWorkflowState(client, tenantId, documentId);
+    if (current.outcome === "pending") {
+        throw new WorkflowError(409, "workflow_active", `Approval workflow round ${current.round} is still in progress`);
+    }
+
+    const round = current.round + 1;
+    const created: any[] = [];
+
+    for (let i = 0; i < approvers.length; i++) {
+        const approver = approvers[i];
+        // Sequential workflows without explicit levels get one level per approver
+        const level = approver.approval_level || (approvalType === "sequential" ? i + 1 : 1);
+
+        const result = await client.query(
+            `INSERT INTO document_approvals (
+                tenant_id,
+                document_id,
+                approval_level,
+                approval_type,
+                approver_id,
+                approver_role,
+                status,
+                due_date,
+                workflow_round,
+                approval_policy_id,
+                requested_at
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7, $8, $9, NOW())
+            RETURNING *`,
+            [
+                tenantId,
+                documentId,
+                level,
+                approvalType,
+                approver.approver_id,
+                approver.approver_role || null,
+                approver.due_date || null,
+                round,
+                input.approvalPolicyId || null,
+            ]
+        );
+        created.push(result.rows[0]);
+    }
+
+    await client.query(
+        "UPDATE documents SET status = 'pending_approval', updated_at = NOW() WHERE id = $1 AND tenant_id = $2",
+        [documentId, tenantId]
+    );
+
+    return { approvals: created, workflow: computeWorkflowState(documentId, round, created) };
+}
+
+export type DecisionInput = {
+    tenantId: string;
+    documentId?: string | null;
+    approvalId: string;
+    decision: "approve" | "reject";
+    actorId?: string | null;
+    comments?: string | null;
+    rejectionReason?: string | null;
+};
+
+/**
+ * Record an approve/reject decision and advance the workflow.
+ * Must run inside a transaction (client has issued BEGIN).
+ */
+export async function decideApproval(client: PoolClient, input: DecisionInput) {
+    const { tenantId, approvalId, decision, actorId } = input;
+
+    const approvalResult = await client.query(
+        `SELECT * FROM document_approvals WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+        [approvalId, tenantId]
+    );
+    const approval = approvalResult.rows[0];
+
+    if (!approval || (input.documentId && approval.document_id !== input.documentId)) {
+        throw new WorkflowError(404, "not_found", "Approval not found");
+    }
+
+    if (!isOutstanding(approval)) {
+        throw new WorkflowError(400, "bad_request", `Approval already ${approval.status}`);
+    }
+
+    const documentId = approval.document_id;
+    const round = Number(approval.workflow_round);
+    const rows = await loadRoundRows(client, tenantId, documentId, round, true);
+    const state = computeWorkflowState(documentId, round, rows);
+
+    if (state.outcome !== "pending") {
+        throw new WorkflowError(409, "workflow_closed", `Approval workflow already ${state.outcome}`);
+    }
+
+    if (!state.pendingApprovers.some(p => p.approvalId === approvalId)) {
+        throw new WorkflowError(409, "level_not_active", `Approval level ${approval.approval_level} is not active yet (current level ${state.currentLevel})`);
+    }
+
+    // System callers (no X-User-Id) may act on behalf of the approver
+    if (actorId && actorId !== actingApproverOf(approval)) {
+        throw new WorkflowError(403, "not_assigned_approver", "Actor is not the assigned approver");
+    }
+
+    const newStatus = decision === "approve" ? "approved" : "rejected";
+    const updated = await client.query(
+        `UPDATE document_approvals
+         SET
+             status = $1,
+             decision_date = NOW(),
+             comments = $2,
+             rejection_reason = $3,
+             updated_at = NOW()
+         WHERE id = $4 AND tenant_id = $5
+         RETURNING *`,
+        [
+            newStatus,
+            input.comments || null,
+            decision === "reject" ? input.rejectionReason || null : null,
+            approvalId,
+            tenantId,
+        ]
+    );
+
+    if (decision === "reject") {
+        // Short-circuit: nothing else in this round needs a decision
+        await client.query(
+            `UPDATE document_approvals
+             SET status = 'skipped', updated_at = NOW()
+             WHERE document_id = $1 AND tenant_id = $2 AND workflow_round = $3
+               AND status IN ('pending', 'escalated')`,
+            [documentId, tenantId, round]
+        );
+    }
+
+    const finalRows = await loadRoundRows(client, tenantId, documentId, round);
+    const workflow = computeWorkflowState(documentId, round, finalRows);
+
+    if (workflow.outcome === "approved" || workflow.outcome === "rejected") {
+        await client.query(
+            "UPDATE documents SET status = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3",
+            [workflow.outcome, documentId, tenantId]
+        );
+    }
+
+    return { approval: updated.rows[0], workflow };
+}
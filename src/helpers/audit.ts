@@ -2,8 +2,10 @@
 // Called by routes to record all database operations for compliance tracking.
 // ADHICS Requirements: AC 5.1, IM 2.1, SA 3.1, TP 3.1, DP 4.1
 // Keep it minimal and safe: never log raw PII payloads.
+// Events are appended to a per-tenant hash chain (see auditChain.ts) for tamper evidence.
 import { pool } from "../lib/db";
 import { CONFIG } from "../config";
+import { computeEventHash } from "./auditChain";
 
 export type AuditInput = {
     // ADHICS Required: Tenant isolation
@@ -16,8 +18,8 @@ export type AuditInput = {
     actorIp?: string | null;        // Source IP address (ADHICS requirement)
 
     // ADHICS Required: Action tracking
-    action: "create" | "list" | "update" | "delete" | "get";
-    resource: "contacts" | "employees" | "agent_users" | "policies" | "vendors" | "documents";
+    action: "create" | "list" | "update" | "delete" | "get" | "login";
+    resource: "contacts" | "employees" | "agent_users" | "agent_user_login" | "policies" | "vendors" | "documents" | "templates" | "audit" | "legal_holds";
 
     // ADHICS Required: Event classification
     eventCategory?: "auth" | "data" | "system" | "compliance" | "security";
@@ -34,6 +36,7 @@ export type AuditInput = {
     decision?: "allow" | "deny" | "n/a";
     reason?: string | null;
     changes?: any;                  // What changed (before/after)
+    metadata?: Record<string, any>; // Extra context merged into metadata JSONB
 
     // Extra metadata
     requestId?: string;
@@ -58,7 +61,7 @@ export async function recordAudit(a: AuditInput) {
     const eventCategory = a.eventCategory || "data";
 
     // Build metadata JSONB with extra fields
-    const metadata: any = {};
+    const metadata: any = { ...(a.metadata || {}) };
     if (a.requestId) metadata.request_id = a.requestId;
     if (a.idempotencyKey) metadata.idempotency_key = a.idempotencyKey;
     if (a.decision) metadata.decision = a.decision;
@@ -69,31 +72,80 @@ export async function recordAudit(a: AuditInput) {
     const sql = `
     INSERT INTO audit_events
       (tenant_id, event_type, event_category, actor_id, actor_email, actor_role, actor_ip,
-       target_type, target_id, target_name, action, result, changes, metadata, occurred_at)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+       target_type, target_id, target_name, action, result, changes, metadata, occurred_at,
+       chain_seq, prev_hash, event_hash)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
   `;
 
-    const params = [
-        a.tenantId,
-        a.resource,              // event_type = resource (employees, contacts, etc.)
-        eventCategory,           // event_category (auth, data, system, compliance, security)
-        a.actorId ?? null,
-        a.actorEmail ?? null,
-        a.actorRole,
-        a.actorIp ?? null,
-        a.targetType ?? a.resource, // target_type defaults to resource
-        a.targetId ?? null,
-        a.targetName ?? null,
-        a.action,
+    // Normalise JSON payloads to exactly what JSONB will store, so the hash can be recomputed
+    const changes = a.changes ? JSON.parse(JSON.stringify(a.changes)) : null;
+    const metadataJson = Object.keys(metadata).length > 0 ? JSON.parse(JSON.stringify(metadata)) : null;
+
+    const event = {
+        tenant_id: a.tenantId,
+        event_type: a.resource,              // event_type = resource (employees, contacts, etc.)
+        event_category: eventCategory,       // event_category (auth, data, system, compliance, security)
+        actor_id: a.actorId ?? null,
+        actor_email: a.actorEmail ?? null,
+        actor_role: a.actorRole,
+        actor_ip: a.actorIp ?? null,
+        target_type: a.targetType ?? a.resource, // target_type defaults to resource
+        target_id: a.targetId ?? null,
+        target_name: a.targetName ?? null,
+        action: a.action,
         result,
-        a.changes ? JSON.stringify(a.changes) : null,
-        Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
-    ];
+        changes,
+        metadata: metadataJson,
+    };
 
+    let client;
     try {
-        await pool.query(sql, params);
+        client = await pool.connect();
+        await client.query("BEGIN");
+        // Serialise appends per tenant so the chain stays linear
+        await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`audit_chain:${a.tenantId}`]);
+
+        const last = await client.query(
+            `SELECT chain_seq, event_hash, occurred_at FROM audit_events
+             WHERE tenant_id = $1 AND chain_seq IS NOT NULL
+             ORDER BY chain_seq DESC LIMIT 1`,
+            [a.tenantId]
+        );
+        // Stamped under the chain lock and never behind the previous link (even when another
+        // instance's clock runs ahead), so occurred_at order follows chain_seq order
+        const now = new Date();
+        const lastAt: Date | null = last.rows[0]?.occurred_at ?? null;
+        const occurredAt = lastAt && lastAt > now ? lastAt : now;
+        const chainSeq = last.rows.length > 0 ? Number(last.rows[0].chain_seq) + 1 : 1;
+        const prevHash = last.rows.length > 0 ? last.rows[0].event_hash : null;
+        const eventHash = computeEventHash({ ...event, occurred_at: occurredAt, chain_seq: chainSeq, prev_hash: prevHash });
+
+        await client.query(sql, [
+            event.tenant_id,
+            event.event_type,
+            event.event_category,
+            event.actor_id,
+            event.actor_email,
+            event.actor_role,
+            event.actor_ip,
+            event.target_type,
+            event.target_id,
+            event.target_name,
+            event.action,
+            event.result,
+            changes ? JSON.stringify(changes) : null,
+            metadataJson ? JSON.stringify(metadataJson) : null,
+            occurredAt,
+            chainSeq,
+            prevHash,
+            eventHash,
+        ]);
+        await client.query("COMMIT");
     } catch (err) {
+        if (client) await client.query("ROLLBACK").catch(() => undefined);
         // Avoid throwing from audit to prevent disrupting main operations
         console.error('[Audit] Failed to record audit event:', err);
+    } finally {
+        client?.release();
     }
 }
@@ -0,0 +1,193 @@
+// Tamper-evident audit chain (ADHICS SA).
+// Each audit event carries an HMAC over its canonical content plus the previous event's hash,
+// forming a per-tenant chain. The HMAC key lives with the agent, so someone with DB access
+// alone cannot rewrite events and recompute the chain.
+import crypto from "crypto";
+import { pool } from "../lib/db";
+import { CONFIG } from "../config";
+
+// Columns covered by the hash, in canonical order
+export type ChainedEventFields = {
+    tenant_id: string;
+    chain_seq: number;
+    prev_hash: string | null;
+    event_type: string;
+    event_category: string;
+    actor_id: string | null;
+    actor_email: string | null;
+    actor_role: string | null;
+    actor_ip: string | null;
+    target_type: string | null;
+    target_id: string | null;
+    target_name: string | null;
+    action: string;
+    result: string;
+    changes: any;
+    metadata: any;
+    occurred_at: Date | string;
+};
+
+/**
+ * Deterministic JSON: sorted object keys, undefined dropped (mirrors what JSONB stores)
+ */
+export function canonicalJson(value: any): string {
+    if (value === null || value === undefined) return "null";
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (typeof value === "object") {
+        const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function lowerOrNull(v: string | null | undefined): string | null {
+    return v ? String(v).toLowerCase() : null;
+}
+
+export function computeEventHash(e: ChainedEventFields): string {
+    const canonical = canonicalJson({
+        tenant_id: lowerOrNull(e.tenant_id),
+        chain_seq: Number(e.chain_seq),
+        prev_hash: e.prev_hash ?? null,
+        event_type: e.event_type,
+        event_category: e.event_category,
+        actor_id: lowerOrNull(e.actor_id),
+        actor_email: e.actor_email ?? null,
+        actor_role: e.actor_role ?? null,
+        actor_ip: e.actor_ip ?? null,
+        target_type: e.target_type ?? null,
+        target_id: lowerOrNull(e.target_id),
+        target_name: e.target_name ?? null,
+        action: e.action,
+        result: e.result,
+        changes: e.changes ?? null,
+        metadata: e.metadata ?? null,
+        occurred_at: new Date(e.occurred_at).toISOString(),
+    });
+    return crypto.createHmac("sha256", CONFIG.AUDIT_CHAIN_KEY).update(canonical).digest("hex");
+}
+
+export type ChainBreak = {
+    eventId: string | null;
+    chainSeq: number;
+    occurredAt: string | null;
+    reason: "hash_mismatch" | "prev_hash_mismatch" | "sequence_gap";
+};
+
+export type ChainVerification = {
+    tenantId: string;
+    from: string | null;
+    to: string | null;
+    checked: number;
+    valid: boolean;
+    firstBrokenLink: ChainBreak | null;
+    unchainedEvents: number;
+    firstSeq: number | null;
+    lastSeq: number | null;
+    lastHash: string | null;
+};
+
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Walk the tenant chain for a time range and report the first broken link
+ */
+export async function verifyAuditChain(tenantId: string, from?: string | null, to?: string | null): Promise<ChainVerification> {
+    const conditions = ["tenant_id = $1", "chain_seq IS NOT NULL"];
+    const params: any[] = [tenantId];
+    if (from) {
+        params.push(from);
+        conditions.push(`occurred_at >= $${params.length}`);
+    }
+    if (to) {
+        params.push(to);
+        conditions.push(`occurred_at <= $${params.length}`);
+    }
+
+    const result: ChainVerification = {
+        tenantId,
+        from: from || null,
+        to: to || null,
+        checked: 0,
+        valid: true,
+        firstBrokenLink: null,
+        unchainedEvents: 0,
+        firstSeq: null,
+        lastSeq: null,
+        lastHash: null,
+    };
+
+    let expectedSeq: number | null = null;
+    let expectedPrevHash: string | null = null;
+    let afterSeq = 0;
+
+    while (result.valid) {
+        const batch = await pool.query(
+            `SELECT * FROM audit_events
+             WHERE ${conditions.join(" AND ")} AND chain_seq > $${params.length + 1}
+             ORDER BY chain_seq ASC
+             LIMIT ${VERIFY_BATCH_SIZE}`,
+            [...params, afterSeq]
+        );
+        if (batch.rows.length === 0) break;
+
+        for (const row of batch.rows) {
+            const seq = Number(row.chain_seq);
+
+            if (expectedSeq === null) {
+                // First event in range: anchor on its predecessor (outside the range)
+                result.firstSeq = seq;
+                expectedSeq = seq;
+                if (seq > 1) {
+                    const prev = await pool.query(
+                        "SELECT event_hash FROM audit_events WHERE tenant_id = $1 AND chain_seq = $2",
+                        [tenantId, seq - 1]
+                    );
+                    if (prev.rows.length === 0) {
+                        result.valid = false;
+                        result.firstBrokenLink = { eventId: row.id, chainSeq: seq - 1, occurredAt: null, reason: "sequence_gap" };
+                        break;
+                    }
+                    expectedPrevHash = prev.rows[0].event_hash;
+                }
+            }
+
+            let reason: ChainBreak["reason"] | null = null;
+            if (seq !== expectedSeq) reason = "sequence_gap";
+            else if ((row.prev_hash ?? null) !== expectedPrevHash) reason = "prev_hash_mismatch";
+            else if (computeEventHash(row) !== row.event_hash) reason = "hash_mismatch";
+
+            if (reason) {
+                result.valid = false;
+                result.firstBrokenLink = {
+                    eventId: row.id,
+                    chainSeq: reason === "sequence_gap" ? expectedSeq : seq,
+                    occurredAt: new Date(row.occurred_at).toISOString(),
+                    reason,
+                };
+                break;
+            }
+
+            result.checked++;
+            result.lastSeq = seq;
+            result.lastHash = row.event_hash;
+            expectedSeq = seq + 1;
+            expectedPrevHash = row.event_hash;
+            afterSeq = seq;
+        }
+
+        if (batch.rows.length < VERIFY_BATCH_SIZE) break;
+    }
+
+    // Events in range written outside the chain (pre-migration, or inserted directly into the table)
+    const unchainedConditions = conditions.filter(c => c !== "chain_seq IS NOT NULL");
+    const unchained = await pool.query(
+        `SELECT COUNT(*) AS count FROM audit_events
+         WHERE ${unchainedConditions.join(" AND ")} AND chain_seq IS NULL`,
+        params
+    );
+    result.unchainedEvents = Number(unchained.rows[0].count);
+
+    return result;
+}
@@ -0,0 +1,156 @@
+/**
+ * Collaborative Editing Persistence
+ *
+ * The collaboration channel (routes/internal/documents/collab) is the central
+ * authority of the ProseMirror collab protocol: it numbers accepted steps and stores
+ * them in document_collab_steps. The agent has no ProseMirror schema, so it cannot
+ * apply steps itself; instead a client sends the document it holds at some version
+ * (a snapshot), which replaces editor_state / structured_content and drops the steps
+ * it already contains. documents.collab_version is the version of that snapshot.
+ */
+
+import crypto from "crypto";
+import { Pool, PoolClient } from "pg";
+
+type Queryable = Pool | PoolClient;
+
+export type CollabStep = {
+    version: number;
+    step: any;
+    clientId: string;
+};
+
+export type CollabState = {
+    snapshotVersion: number;
+    version: number;
+    editorState: any;
+    structuredContent: any;
+    contentHash: string | null;
+    steps: CollabStep[];
+};
+
+/**
+ * SHA-256 of editor content, as stored in documents.content_hash
+ */
+export function generateContentHash(content: any): string {
+    const contentString = typeof content === "string" ? content : JSON.stringify(content);
+    return crypto.createHash("sha256").update(contentString).digest("hex");
+}
+
+/**
+ * Snapshot plus the steps recorded after it; null when the document does not exist
+ */
+export async function loadCollabState(db: Queryable, tenantId: string, documentId: string): Promise<CollabState | null> {
+    const doc = await db.query(
+        `SELECT editor_state, structured_content, content_hash, collab_version
+         FROM documents
+         WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL`,
+        [tenantId, documentId]
+    );
+    if (doc.rows.length === 0) return null;
+
+    const snapshotVersion = doc.rows[0].collab_version;
+    const steps = await db.query(
+        `SELECT version, step, client_id FROM document_collab_steps
+         WHERE document_id = $1 AND version > $2
+         ORDER BY version ASC`,
+        [documentId, snapshotVersion]
+    );
+
+    return {
+        snapshotVersion,
+        version: steps.rows.length > 0 ? steps.rows[steps.rows.length - 1].version : snapshotVersion,
+        editorState: doc.rows[0].editor_state,
+        structuredContent: doc.rows[0].structured_content,
+        contentHash: doc.rows[0].content_hash,
+        steps: steps.rows.map((r: any) => ({ version: r.version, step: r.step, clientId: r.client_id }))
+    };
+}
+
+/**
+ * Record steps applied on top of fromVersion; returns them with their versions.
+ * The primary key rejects a second writer for the same version.
+ */
+export async function appendSteps(
+    db: Queryable,
+    input: { tenantId: string; documentId: string; fromVersion: number; steps: any[]; clientId: string; userId: string | null }
+): Promise<CollabStep[]> {
+    const versions = input.steps.map((_, i) => input.fromVersion + i + 1);
+    await db.query(
+        `INSERT INTO document_collab_steps (document_id, version, tenant_id, step, client_id, user_id)
+         SELECT $1, v.version, $2, v.step, $3, $4
+         FROM unnest($5::int[], $6::jsonb[]) AS v(version, step)`,
+        [
+            input.documentId,
+            input.tenantId,
+            input.clientId,
+            input.userId,
+            versions,
+            input.steps.map(step => JSON.stringify(step))
+        ]
+    );
+    return input.steps.map((step, i) => ({ version: versions[i], step, clientId: input.clientId }));
+}
+
+/**
+ * Store a client's document at `version` as the new snapshot (no document version bump,
+ * like autosave). Ignored when a newer snapshot is already stored; returns null then.
+ */
+export async function saveCollabSnapshot(
+    client: PoolClient,
+    input: {
+        tenantId: string;
+        documentId: string;
+        version: number;
+        editorState: any;
+        structuredContent: any;
+        actorId: string | null;
+    }
+): Promise<{ contentHash: string } | null> {
+    const contentHash = generateContentHash(input.structuredContent || input.editorState);
+
+    const result = await client.query(
+        `UPDATE documents
+         SET editor_state = $3,
+             structured_content = COALESCE($4, structured_content),
+             content_hash = $5,
+             collab_version = $6,
+             updated_by = $7,
+             updated_at = NOW()
+         WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL AND collab_version < $6`,
+        [
+            input.tenantId,
+            input.documentId,
+            JSON.stringify(input.editorState),
+            input.structuredContent ? JSON.stringify(input.structuredContent) : null,
+            contentHash,
+            input.version,
+            input.actorId
+        ]
+    );
+    if (result.rowCount === 0) return null;
+
+    await client.query(
+        `DELETE FROM document_collab_steps WHERE document_id = $1 AND version <= $2`,
+        [input.documentId, input.version]
+    );
+    return { contentHash };
+}
+
+/**
+ * Discard unsnapshotted steps after editor_state was replaced outside the channel
+ * (REST save/autosave). Versions keep increasing, so clients still holding the old
+ * history are resynchronised instead of replaying steps onto the new content.
+ */
+export async function resetCollabHistory(db: Queryable, tenantId: string, documentId: string): Promise<void> {
+    await db.query(
+        `UPDATE documents
+         SET collab_version = GREATEST(
+             collab_version,
+             COALESCE((SELECT MAX(version) FROM document_collab_steps WHERE document_id = $2), 0)
+         ) + 1
+         WHERE tenant_id = $1 AND id = $2`,
+        [tenantId, documentId]
+    );
+    await db.query(`DELETE FROM document_collab_steps WHERE document_id = $1`, [documentId]);
+}
@@ -0,0 +1,344 @@
+/**
+ * Structured Content Diff
+ *
+ * Compares two document versions section by section for reviewers: sections are
+ * matched by their stable id and reported as added, removed, moved and/or modified,
+ * with a word-level diff of titles and text. Sections come from document_sections
+ * when the version has them, otherwise from structured_content (a `sections` array,
+ * or a ProseMirror document split at its headings).
+ */
+
+export type DiffSection = {
+    id: string;
+    title: string;
+    text: string;
+};
+
+export type DiffOp = {
+    type: "equal" | "insert" | "delete";
+    text: string;
+};
+
+export type SectionChange = {
+    sectionId: string;
+    title: string;
+    changeType: "added" | "removed" | "modified" | "unchanged";
+    moved: boolean;
+    oldIndex: number | null;
+    newIndex: number | null;
+    titleDiff: DiffOp[] | null;
+    textDiff: DiffOp[];
+    wordsAdded: number;
+    wordsRemoved: number;
+    html: string;
+};
+
+export type ContentDiff = {
+    sections: SectionChange[];
+    stats: {
+        sectionsAdded: number;
+        sectionsRemoved: number;
+        sectionsModified: number;
+        sectionsMoved: number;
+        wordsAdded: number;
+        wordsRemoved: number;
+    };
+    html: string;
+};
+
+// Beyond this many token pairs the changed middle of a section is shown as one
+// replacement instead of being diffed word by word
+const MAX_DIFF_CELLS = 4_000_000;
+
+const BLOCK_NODE_TYPES = new Set(["paragraph", "heading", "listItem", "list_item", "blockquote", "codeBlock", "code_block", "tableRow", "table_row"]);
+
+/**
+ * Plain text of a ProseMirror node, blocks separated by newlines
+ */
+function nodeText(node: any): string {
+    if (!node || typeof node !== "object") return "";
+    if (typeof node.text === "string") return node.text;
+    if (!Array.isArray(node.content)) return "";
+
+    const parts = node.content.map(nodeText);
+    return BLOCK_NODE_TYPES.has(node.type) ? parts.join("").trim() : parts.filter(Boolean).join("\n");
+}
+
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9؀-ۿ]+/g, "-").replace(/^-+|-+$/g, "") || "section";
+}
+
+/**
+ * Sections of a structured_content value; headings start a new section in a
+ * ProseMirror document (text before the first heading is the "preamble").
+ * Ids derived from titles are numbered when a title repeats.
+ */
+export function sectionsFromStructuredContent(content: any): DiffSection[] {
+    if (!content) return [];
+    if (typeof content === "string") {
+        try {
+            content = JSON.parse(content);
+        } catch {
+            return [{ id: "content", title: "", text: content }];
+        }
+    }
+
+    const seen = new Map<string, number>();
+    const uniqueId = (base: string) => {
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count === 1 ? base : `${base}-${count}`;
+    };
+
+    if (Array.isArray(content.sections)) {
+        return content.sections.map((section: any, index: number) => {
+            const title = String(section.title || "");
+            const text = typeof section.content === "string"
+                ? section.content
+                : nodeText(section.content ? { content: section.content } : section) || String(section.text || "");
+            return {
+                id: uniqueId(String(section.id || section.section_id || section.sectionId || slugify(title || `section-${index + 1}`))),
+                title,
+                text
+            };
+        });
+    }
+
+    if (Array.isArray(content.content)) {
+        const sections: DiffSection[] = [];
+        let current: { title: string; lines: string[] } | null = null;
+        const flush = () => {
+            if (!current) return;
+            sections.push({ id: uniqueId(current.title ? slugify(current.title) : "preamble"), title: current.title, text: current.lines.join("\n") });
+        };
+
+        for (const node of content.content) {
+            if (node?.type === "heading") {
+                flush();
+                current = { title: nodeText(node), lines: [] };
+                continue;
+            }
+            const text = nodeText(node);
+            if (!current) current = { title: "", lines: [] };
+            if (text) current.lines.push(text);
+        }
+        flush();
+        return sections;
+    }
+
+    return [{ id: "content", title: "", text: nodeText(content) || JSON.stringify(content) }];
+}
+
+/**
+ * Sections of document_sections rows (latest version of each, in order)
+ */
+export function sectionsFromRows(rows: any[]): DiffSection[] {
+    return rows.map(row => ({
+        id: String(row.section_id),
+        title: String(row.title || ""),
+        text: String(row.content || "")
+    }));
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function countWords(ops: DiffOp[], type: DiffOp["type"]): number {
+    return ops
+        .filter(op => op.type === type)
+        .reduce((sum, op) => sum + (op.text.match(/[^\s]+/g) || []).length, 0);
+}
+
+function pushOp(ops: DiffOp[], type: DiffOp["type"], text: string) {
+    if (!text) return;
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        ops.push({ type, text });
+    }
+}
+
+/**
+ * Index pairs of a longest common subsequence of two token lists
+ */
+function commonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+    const n = a.length;
+    const m = b.length;
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) lcs.push(new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            pairs.push([i++, j++]);
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace runs)
+ */
+export function diffWords(oldText: string, newText: string): DiffOp[] {
+    const a = tokenize(oldText);
+    const b = tokenize(newText);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const ops: DiffOp[] = [];
+    pushOp(ops, "equal", a.slice(0, prefix).join(""));
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+
+    if (midA.length * midB.length > MAX_DIFF_CELLS) {
+        pushOp(ops, "delete", midA.join(""));
+        pushOp(ops, "insert", midB.join(""));
+    } else {
+        let i = 0;
+        let j = 0;
+        for (const [pairA, pairB] of commonSubsequence(midA, midB)) {
+            while (i < pairA) pushOp(ops, "delete", midA[i++]);
+            while (j < pairB) pushOp(ops, "insert", midB[j++]);
+            pushOp(ops, "equal", midA[i]);
+            i++;
+            j++;
+        }
+        while (i < midA.length) pushOp(ops, "delete", midA[i++]);
+        while (j < midB.length) pushOp(ops, "insert", midB[j++]);
+    }
+
+    pushOp(ops, "equal", a.slice(a.length - suffix).join(""));
+    return ops;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function opsToHtml(ops: DiffOp[]): string {
+    return ops.map(op => {
+        const text = escapeHtml(op.text).replace(/\n/g, "<br>");
+        if (op.type === "insert") return `<ins>${text}</ins>`;
+        if (op.type === "delete") return `<del>${text}</del>`;
+        return text;
+    }).join("");
+}
+
+/**
+ * Ids of the common sections that keep their relative order; every other common
+ * section counts as moved
+ */
+function stableSectionIds(oldIds: string[], newIds: string[]): Set<string> {
+    return new Set(commonSubsequence(oldIds, newIds).map(([i]) => oldIds[i]));
+}
+
+/**
+ * Compare the sections of two versions
+ */
+export function diffSections(oldSections: DiffSection[], newSections: DiffSection[]): ContentDiff {
+    const oldById = new Map(oldSections.map((section, index) => [section.id, { section, index }]));
+    const newById = new Map(newSections.map((section, index) => [section.id, { section, index }]));
+
+    const commonOld = oldSections.filter(s => newById.has(s.id)).map(s => s.id);
+    const commonNew = newSections.filter(s => oldById.has(s.id)).map(s => s.id);
+    const stable = stableSectionIds(commonOld, commonNew);
+
+    const changes: SectionChange[] = [];
+
+    // New order first, removed sections after the section that preceded them
+    const removedAfter = new Map<string | null, DiffSection[]>();
+    let previousId: string | null = null;
+    for (const section of oldSections) {
+        if (!newById.has(section.id)) {
+            const list = removedAfter.get(previousId) || [];
+            list.push(section);
+            removedAfter.set(previousId, list);
+        } else {
+            previousId = section.id;
+        }
+    }
+
+    const describe = (oldEntry: { section: DiffSection; index: number } | undefined, newEntry: { section: DiffSection; index: number } | undefined): SectionChange => {
+        const oldSection = oldEntry?.section;
+        const newSection = newEntry?.section;
+        const textDiff = diffWords(oldSection?.text || "", newSection?.text || "");
+        const titleChanged = !!oldSection && !!newSection && oldSection.title !== newSection.title;
+        const titleDiff = titleChanged ? diffWords(oldSection!.title, newSection!.title) : null;
+        const textChanged = textDiff.some(op => op.type !== "equal");
+
+        const changeType: SectionChange["changeType"] = !oldSection
+            ? "added"
+            : !newSection
+                ? "removed"
+                : titleChanged || textChanged ? "modified" : "unchanged";
+        const moved = !!oldSection && !!newSection && !stable.has(oldSection.id);
+        const title = (newSection || oldSection)!.title;
+        const id = (newSection || oldSection)!.id;
+
+        const classes = ["diff-section", `diff-${changeType}`];
+        if (moved) classes.push("diff-moved");
+        const titleHtml = titleDiff ? opsToHtml(titleDiff) : escapeHtml(title);
+        const html = `<section class="${classes.join(" ")}" data-section-id="${escapeHtml(id)}">`
+            + (title || titleDiff ? `<h3>${titleHtml}</h3>` : "")
+            + `<div class="diff-text">${opsToHtml(textDiff)}</div></section>`;
+
+        return {
+            sectionId: id,
+            title,
+            changeType,
+            moved,
+            oldIndex: oldEntry ? oldEntry.index : null,
+            newIndex: newEntry ? newEntry.index : null,
+            titleDiff,
+            textDiff,
+            wordsAdded: countWords(textDiff, "insert") + (titleDiff ? countWords(titleDiff, "insert") : 0),
+            wordsRemoved: countWords(textDiff, "delete") + (titleDiff ? countWords(titleDiff, "delete") : 0),
+            html
+        };
+    };
+
+    for (const removed of removedAfter.get(null) || []) {
+        changes.push(describe(oldById.get(removed.id), undefined));
+    }
+    for (const section of newSections) {
+        changes.push(describe(oldById.get(section.id), newById.get(section.id)));
+        for (const removed of removedAfter.get(section.id) || []) {
+            changes.push(describe(oldById.get(removed.id), undefined));
+        }
+    }
+
+    return {
+        sections: changes,
+        stats: {
+            sectionsAdded: changes.filter(c => c.changeType === "added").length,
+            sectionsRemoved: changes.filter(c => c.changeType === "removed").length,
+            sectionsModified: changes.filter(c => c.changeType === "modified").length,
+            sectionsMoved: changes.filter(c => c.moved).length,
+            wordsAdded: changes.reduce((sum, c) => sum + c.wordsAdded, 0),
+            wordsRemoved: changes.reduce((sum, c) => sum + c.wordsRemoved, 0)
+        },
+        html: `<div class="document-diff">${changes.map(c => c.html).join("")}</div>`
+    };
+}
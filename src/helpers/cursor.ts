@@ -0,0 +1,26 @@
+// Opaque keyset cursors for list endpoints.
+// A cursor encodes the sort key and id of the last row on the previous page, so
+// pages stay stable while new rows are being inserted (unlike LIMIT/OFFSET).
+
+export type KeysetCursor = {
+    sortValue: string;
+    id: string;
+};
+
+export function encodeCursor(sortValue: Date | string, id: string): string {
+    const value = sortValue instanceof Date ? sortValue.toISOString() : String(sortValue);
+    return Buffer.from(JSON.stringify({ s: value, i: id })).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor; returns null if it is malformed
+ */
+export function decodeCursor(raw: string): KeysetCursor | null {
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+        if (!parsed || typeof parsed.s !== "string" || typeof parsed.i !== "string") return null;
+        return { sortValue: parsed.s, id: parsed.i };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Document File Storage
+ *
+ * Stores document bytes encrypted at rest on the configured storage backend
+ * and opens them again as a decrypted stream. Every stored file gets its own
+ * data key (see lib/envelope) referenced by documents.encryption_key_id.
+ */
+
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pool } from "../lib/db";
+import { getStorageBackend, parseStorageUri, toStorageUri } from "../lib/storage";
+import {
+    createPayloadDecipher,
+    encryptPayload,
+    generateDataKey,
+    unwrapDataKey,
+    wrapDataKey,
+    ENVELOPE_ALGORITHM,
+    PAYLOAD_HEADER_LENGTH,
+} from "../lib/envelope";
+
+export type StoredFile = {
+    filePath: string;
+    fileHash: string;
+    fileSize: number;
+    encryptionKeyId: string;
+};
+
+/**
+ * Encrypt and store a file for a document.
+ * Returns the values to persist on the documents row.
+ */
+export async function storeDocumentFile(tenantId: string, documentId: string, data: Buffer): Promise<StoredFile> {
+    const fileHash = crypto.createHash("sha256").update(data).digest("hex");
+    const dataKey = generateDataKey();
+    const { wrappedKey, kekId } = wrapDataKey(dataKey);
+
+    const keyResult = await pool.query(
+        `INSERT INTO document_encryption_keys (tenant_id, document_id, wrapped_key, kek_id, algorithm)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [tenantId, documentId, wrappedKey, kekId, ENVELOPE_ALGORITHM]
+    );
+    const encryptionKeyId: string = keyResult.rows[0].id;
+
+    const backend = getStorageBackend();
+    const key = `${tenantId}/${documentId}/${crypto.randomUUID()}.enc`;
+    await backend.put(key, encryptPayload(dataKey, data, encryptionKeyId));
+
+    return {
+        filePath: toStorageUri(backend, key),
+        fileHash,
+        fileSize: data.length,
+        encryptionKeyId,
+    };
+}
+
+/**
+ * True when the file at filePath was stored by the agent (and can be streamed back)
+ */
+export function isAgentManagedFile(doc: { file_path?: string | null; encryption_key_id?: string | null }): boolean {
+    return Boolean(doc.encryption_key_id) && parseStorageUri(doc.file_path) !== null;
+}
+
+/**
+ * Open a stored file as a decrypted stream
+ */
+export async function openDocumentFile(tenantId: string, doc: { file_path: string; encryption_key_id: string }): Promise<Readable> {
+    const location = parseStorageUri(doc.file_path);
+    if (!location) throw new Error("File is not stored by the agent");
+
+    const keyResult = await pool.query(
+        `SELECT wrapped_key, kek_id, destroyed_at
+         FROM document_encryption_keys
+         WHERE id = $1 AND tenant_id = $2`,
+        [doc.encryption_key_id, tenantId]
+    );
+    const keyRow = keyResult.rows[0];
+    if (!keyRow || keyRow.destroyed_at || !keyRow.wrapped_key) {
+        throw new Error("Encryption key unavailable");
+    }
+
+    const dataKey = unwrapDataKey(keyRow.wrapped_key, keyRow.kek_id);
+    const header = await location.backend.read(location.key, 0, PAYLOAD_HEADER_LENGTH);
+    const decipher = createPayloadDecipher(dataKey, header, doc.encryption_key_id);
+    const encrypted = await location.backend.createReadStream(location.key, PAYLOAD_HEADER_LENGTH);
+
+    encrypted.on("error", err => decipher.destroy(err));
+    return encrypted.pipe(decipher);
+}
+
+/**
+ * Crypto-shred a stored file: the wrapped data key is wiped, so the bytes can
+ * never be decrypted again even if a storage copy survives
+ */
+export async function destroyEncryptionKey(
+    db: { query: (text: string, params?: any[]) => Promise<any> },
+    tenantId: string,
+    encryptionKeyId: string
+): Promise<void> {
+    await db.query(
+        `UPDATE document_encryption_keys
+         SET wrapped_key = NULL, destroyed_at = COALESCE(destroyed_at, NOW())
+         WHERE id = $1 AND tenant_id = $2`,
+        [encryptionKeyId, tenantId]
+    );
+}
+
+/**
+ * Remove the stored (encrypted) bytes from the storage backend
+ */
+export async function deleteDocumentFile(filePath: string): Promise<void> {
+    const location = parseStorageUri(filePath);
+    if (!location) throw new Error("File is not stored by the agent");
+    await location.backend.delete(location.key);
+}
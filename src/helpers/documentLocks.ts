@@ -0,0 +1,223 @@
+/**
+ * Document Checkout Locks
+ *
+ * A user checks a document out before editing it and keeps the lock alive with
+ * heartbeats. A lock that stops receiving heartbeats lapses at expires_at and the
+ * next checkout takes it over. Editor save/autosave and PUT /documents/:id reject
+ * writes while somebody else holds a live lock (423 document_locked); documents
+ * nobody has checked out stay writable.
+ */
+
+import { Pool, PoolClient } from "pg";
+import { CONFIG } from "../config";
+
+type Queryable = Pool | PoolClient;
+
+// Roles allowed to break another user's lock
+export const LOCK_BREAK_ROLES = ["admin", "owner"];
+
+const MIN_LOCK_TTL_SECONDS = 30;
+
+const LOCK_COLUMNS = `document_id, tenant_id, locked_by, locked_by_email, locked_by_role,
+    acquired_at, heartbeat_at, expires_at`;
+
+/**
+ * Raised when a lock operation conflicts with the lock state; routes map status/code
+ * onto the response and include the current lock when there is one
+ */
+export class DocumentLockError extends Error {
+    constructor(public status: number, public code: string, message: string, public lock: any = null) {
+        super(message);
+        this.name = "DocumentLockError";
+    }
+}
+
+/**
+ * Lock TTL in seconds from a request value; null when it is out of range
+ */
+export function resolveLockTtl(requested: any): number | null {
+    if (requested === undefined || requested === null || requested === "") return CONFIG.DOCUMENT_LOCK_TTL_SECONDS;
+    const ttl = Number(requested);
+    if (!Number.isInteger(ttl) || ttl < MIN_LOCK_TTL_SECONDS || ttl > CONFIG.DOCUMENT_LOCK_MAX_TTL_SECONDS) return null;
+    return ttl;
+}
+
+function lockedByOther(lock: any): DocumentLockError {
+    const holder = lock.locked_by_email || lock.locked_by;
+    return new DocumentLockError(
+        423,
+        "document_locked",
+        `Document is checked out by ${holder} until ${new Date(lock.expires_at).toISOString()}`,
+        lock
+    );
+}
+
+/**
+ * Live lock on a document, or null when nobody holds one
+ */
+export async function getActiveLock(db: Queryable, tenantId: string, documentId: string): Promise<any | null> {
+    const result = await db.query(
+        `SELECT ${LOCK_COLUMNS} FROM document_locks
+         WHERE tenant_id = $1 AND document_id = $2 AND expires_at > NOW()`,
+        [tenantId, documentId]
+    );
+    return result.rows[0] || null;
+}
+
+/**
+ * Check a document out, or renew the caller's own lock (inside the caller's transaction).
+ * The document row is locked so concurrent checkouts serialize. Returns the lock and
+ * the lapsed lock it replaced, if any.
+ */
+export async function acquireLock(
+    client: PoolClient,
+    input: {
+        tenantId: string;
+        documentId: string;
+        actorId: string;
+        actorEmail: string | null;
+        actorRole: string;
+        ttlSeconds: number;
+    }
+): Promise<{ lock: any; lapsed: any | null }> {
+    const docResult = await client.query(
+        `SELECT id, status FROM documents
+         WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL
+         FOR UPDATE`,
+        [input.tenantId, input.documentId]
+    );
+    if (docResult.rows.length === 0) {
+        throw new DocumentLockError(404, "not_found", "Document not found");
+    }
+    if (docResult.rows[0].status === "disposed") {
+        throw new DocumentLockError(409, "invalid_state", "Disposed documents cannot be checked out");
+    }
+
+    const existing = await client.query(
+        `SELECT ${LOCK_COLUMNS}, expires_at > NOW() AS live FROM document_locks
+         WHERE tenant_id = $1 AND document_id = $2`,
+        [input.tenantId, input.documentId]
+    );
+    const current = existing.rows[0] || null;
+    // uuid columns come back lower-case
+    const actorId = input.actorId.toLowerCase();
+    if (current?.live && current.locked_by !== actorId) {
+        throw lockedByOther(current);
+    }
+
+    // Renewing a live lock keeps its acquired_at; a lapsed or new lock starts now
+    const result = await client.query(
+        `INSERT INTO document_locks (
+            document_id, tenant_id, locked_by, locked_by_email, locked_by_role,
+            acquired_at, heartbeat_at, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW(), NOW() + make_interval(secs => $6))
+        ON CONFLICT (document_id) DO UPDATE SET
+            locked_by = EXCLUDED.locked_by,
+            locked_by_email = EXCLUDED.locked_by_email,
+            locked_by_role = EXCLUDED.locked_by_role,
+            acquired_at = CASE
+                WHEN document_locks.locked_by = EXCLUDED.locked_by AND document_locks.expires_at > NOW()
+                    THEN document_locks.acquired_at
+                ELSE NOW()
+            END,
+            heartbeat_at = NOW(),
+            expires_at = EXCLUDED.expires_at
+        RETURNING ${LOCK_COLUMNS}`,
+        [input.documentId, input.tenantId, input.actorId, input.actorEmail, input.actorRole, input.ttlSeconds]
+    );
+
+    return {
+        lock: result.rows[0],
+        lapsed: current && !current.live && current.locked_by !== actorId ? current : null
+    };
+}
+
+/**
+ * Extend the caller's live lock
+ */
+export async function heartbeatLock(
+    db: Queryable,
+    tenantId: string,
+    documentId: string,
+    actorId: string,
+    ttlSeconds: number
+): Promise<any> {
+    const result = await db.query(
+        `UPDATE document_locks
+         SET heartbeat_at = NOW(), expires_at = NOW() + make_interval(secs => $4)
+         WHERE tenant_id = $1 AND document_id = $2 AND locked_by = $3 AND expires_at > NOW()
+         RETURNING ${LOCK_COLUMNS}`,
+        [tenantId, documentId, actorId, ttlSeconds]
+    );
+    if (result.rows.length > 0) return result.rows[0];
+
+    const active = await getActiveLock(db, tenantId, documentId);
+    if (active) throw lockedByOther(active);
+    throw new DocumentLockError(409, "lock_not_held", "Lock has lapsed or was released; check the document out again");
+}
+
+/**
+ * Release the caller's lock (lapsed locks of the caller are cleared too)
+ */
+export async function releaseLock(db: Queryable, tenantId: string, documentId: string, actorId: string): Promise<any> {
+    const result = await db.query(
+        `DELETE FROM document_locks
+         WHERE tenant_id = $1 AND document_id = $2 AND locked_by = $3
+         RETURNING ${LOCK_COLUMNS}`,
+        [tenantId, documentId, actorId]
+    );
+    if (result.rows.length > 0) return result.rows[0];
+
+    const active = await getActiveLock(db, tenantId, documentId);
+    if (active) throw lockedByOther(active);
+    throw new DocumentLockError(409, "lock_not_held", "Document is not checked out by you");
+}
+
+/**
+ * Remove another user's live lock (administrative override); returns the broken lock
+ */
+export async function breakLock(db: Queryable, tenantId: string, documentId: string): Promise<any> {
+    const result = await db.query(
+        `DELETE FROM document_locks
+         WHERE tenant_id = $1 AND document_id = $2 AND expires_at > NOW()
+         RETURNING ${LOCK_COLUMNS}`,
+        [tenantId, documentId]
+    );
+    if (result.rows.length === 0) {
+        throw new DocumentLockError(404, "not_locked", "Document is not checked out");
+    }
+    return result.rows[0];
+}
+
+/**
+ * Throw 423 document_locked when a live lock is held by someone other than the writer
+ */
+export async function assertWritable(
+    db: Queryable,
+    tenantId: string,
+    documentId: string,
+    actorId: string | null
+): Promise<void> {
+    const active = await getActiveLock(db, tenantId, documentId);
+    if (active && active.locked_by !== actorId?.toLowerCase()) {
+        throw lockedByOther(active);
+    }
+}
+
+/**
+ * assertWritable for a write in the caller's transaction: the document row is locked
+ * first. acquireLock takes the same row lock, so a checkout cannot be taken between
+ * this check and the write; it waits for the caller's commit instead.
+ */
+export async function lockDocumentForWrite(
+    client: PoolClient,
+    tenantId: string,
+    documentId: string,
+    actorId: string | null
+): Promise<void> {
+    await client.query(
+        "SELECT id FROM documents WHERE tenant_id = $1 AND id = $2 FOR UPDATE",
+        [tenantId, documentId]
+    );
+    await assertWritable(client, tenantId, documentId, actorId);
+}
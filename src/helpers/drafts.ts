@@ -0,0 +1,102 @@
+/**
+ * Autosave Draft History
+ *
+ * Each autosave that changes the editor content stores a draft (restore point) for
+ * the document and the saving user; only the newest DRAFT_HISTORY_LIMIT drafts per
+ * document/user are kept. Restoring a draft first stores the content it replaces,
+ * so a restore can itself be undone.
+ */
+
+import { PoolClient } from "pg";
+import { CONFIG } from "../config";
+import { generateContentHash } from "./collab";
+
+export type DraftSource = "autosave" | "pre_restore";
+
+// Listing columns: everything but the content
+export const DRAFT_SUMMARY_COLUMNS = `id, tenant_id, document_id, user_id, content_hash, size_bytes,
+    changed_bytes, base_version, source, created_at`;
+
+/**
+ * Estimated bytes changed between two serialized contents: what remains of each
+ * after removing their common prefix and suffix
+ */
+export function estimateChangedBytes(previous: string, next: string): number {
+    const a = Buffer.from(previous, "utf8");
+    const b = Buffer.from(next, "utf8");
+    const max = Math.min(a.length, b.length);
+
+    let prefix = 0;
+    while (prefix < max && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < max - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    return (a.length - prefix - suffix) + (b.length - prefix - suffix);
+}
+
+/**
+ * Store the content as the user's newest draft (inside the caller's transaction) and
+ * trim the history. Returns null when it equals the user's newest draft.
+ */
+export async function recordDraft(
+    client: PoolClient,
+    input: {
+        tenantId: string;
+        documentId: string;
+        userId: string | null;
+        editorState: any;
+        structuredContent: any;
+        baseVersion: number | null;
+        source: DraftSource;
+    }
+): Promise<any | null> {
+    const serialized = JSON.stringify({ editorState: input.editorState ?? null, structuredContent: input.structuredContent ?? null });
+    const contentHash = generateContentHash(serialized);
+
+    const previous = await client.query(
+        `SELECT content_hash, editor_state, structured_content FROM document_drafts
+         WHERE document_id = $1 AND user_id IS NOT DISTINCT FROM $2
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [input.documentId, input.userId]
+    );
+    const last = previous.rows[0];
+    if (last && last.content_hash === contentHash) return null;
+
+    const previousSerialized = last
+        ? JSON.stringify({ editorState: last.editor_state ?? null, structuredContent: last.structured_content ?? null })
+        : "";
+
+    const inserted = await client.query(
+        `INSERT INTO document_drafts (
+            tenant_id, document_id, user_id, editor_state, structured_content, content_hash,
+            size_bytes, changed_bytes, base_version, source
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING ${DRAFT_SUMMARY_COLUMNS}`,
+        [
+            input.tenantId,
+            input.documentId,
+            input.userId,
+            input.editorState ? JSON.stringify(input.editorState) : null,
+            input.structuredContent ? JSON.stringify(input.structuredContent) : null,
+            contentHash,
+            Buffer.byteLength(serialized, "utf8"),
+            estimateChangedBytes(previousSerialized, serialized),
+            input.baseVersion,
+            input.source
+        ]
+    );
+
+    await client.query(
+        `DELETE FROM document_drafts
+         WHERE id IN (
+             SELECT id FROM document_drafts
+             WHERE document_id = $1 AND user_id IS NOT DISTINCT FROM $2
+             ORDER BY created_at DESC, id DESC
+             OFFSET $3
+         )`,
+        [input.documentId, input.userId, CONFIG.DRAFT_HISTORY_LIMIT]
+    );
+
+    return inserted.rows[0];
+}
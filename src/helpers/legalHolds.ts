@@ -0,0 +1,328 @@
+/**
+ * Legal Hold Matters
+ *
+ * A matter is applied to records by query (a scope); the matching records are
+ * snapshotted into legal_hold_items and stay preserved until the matter is
+ * released. For documents, documents.legal_hold mirrors "held by at least one
+ * active matter" so retention/disposal and the document routes can check the row
+ * itself. A scope on documents holds every version of a matching document.
+ *
+ * Mutating routes refuse destructive operations on held records (409 legal_hold).
+ */
+
+import { Pool, PoolClient } from "pg";
+
+type Queryable = Pool | PoolClient;
+
+export type HoldResourceType = "documents" | "employees" | "audit_events";
+
+export const HOLD_RESOURCE_TYPES: HoldResourceType[] = ["documents", "employees", "audit_events"];
+
+export type ActiveHold = {
+    matterId: string;
+    name: string;
+    matterReference: string | null;
+};
+
+/**
+ * Document fields a PUT may not change while the document is held: they overwrite
+ * content in place or shorten its retention
+ */
+export const HOLD_PROTECTED_DOCUMENT_FIELDS = [
+    "title", "description", "category", "tags", "custom_metadata",
+    "retention_period_years", "auto_archive_on_expiry",
+];
+
+/**
+ * Raised for invalid scopes, matter state violations and writes to held records;
+ * routes map status/code onto the response and spread details into it
+ */
+export class LegalHoldError extends Error {
+    constructor(public status: number, public code: string, message: string, public details: any = null) {
+        super(message);
+        this.name = "LegalHoldError";
+    }
+}
+
+/**
+ * Throw 409 legal_hold when the document is held. Every path that overwrites
+ * document content in place (editor save/autosave, field population, draft restore,
+ * collaborative edits, file replacement) goes through this check.
+ */
+export async function assertDocumentNotHeld(
+    db: Queryable,
+    tenantId: string,
+    documentId: string,
+    message: string = "Document is under legal hold; its content cannot be changed"
+): Promise<void> {
+    const held = await db.query(
+        `SELECT legal_hold_reason FROM documents
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL AND legal_hold = TRUE`,
+        [documentId, tenantId]
+    );
+    if (held.rows.length > 0) {
+        throw new LegalHoldError(409, "legal_hold", message, { legalHoldReason: held.rows[0].legal_hold_reason });
+    }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ScopeFilter = { column: string; kind: "uuid" | "uuid_list" | "text" | "from" | "to" };
+
+// Criteria accepted per resource type, mapped onto columns of the scope query
+const SCOPE_FILTERS: Record<HoldResourceType, Record<string, ScopeFilter>> = {
+    documents: {
+        document_ids: { column: "d.id", kind: "uuid_list" },
+        entity_type: { column: "d.entity_type", kind: "text" },
+        entity_id: { column: "d.entity_id", kind: "uuid" },
+        category: { column: "d.category", kind: "text" },
+        created_from: { column: "d.created_at", kind: "from" },
+        created_to: { column: "d.created_at", kind: "to" },
+    },
+    employees: {
+        employee_ids: { column: "e.id", kind: "uuid_list" },
+        department: { column: "e.department", kind: "text" },
+        status: { column: "e.status", kind: "text" },
+    },
+    audit_events: {
+        actor_id: { column: "a.actor_id", kind: "uuid" },
+        target_id: { column: "a.target_id", kind: "uuid" },
+        target_type: { column: "a.target_type", kind: "text" },
+        event_category: { column: "a.event_category", kind: "text" },
+        from: { column: "a.occurred_at", kind: "from" },
+        to: { column: "a.occurred_at", kind: "to" },
+    },
+};
+
+/**
+ * Validate scope criteria and build the SELECT returning the ids of matching records.
+ * $1 is always the tenant id; further parameters are appended to params.
+ */
+export function buildScopeQuery(resourceType: HoldResourceType, criteria: any): { sql: string; params: any[] } {
+    const filters = SCOPE_FILTERS[resourceType];
+    if (!criteria || typeof criteria !== "object" || Array.isArray(criteria)) {
+        throw new LegalHoldError(400, "bad_request", "criteria must be an object");
+    }
+
+    const unknown = Object.keys(criteria).filter(key => !filters[key]);
+    if (unknown.length > 0) {
+        throw new LegalHoldError(
+            400,
+            "bad_request",
+            `Unsupported criteria for ${resourceType}: ${unknown.join(", ")} (allowed: ${Object.keys(filters).join(", ")})`
+        );
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    for (const [key, filter] of Object.entries(filters)) {
+        const value = criteria[key];
+        if (value === undefined || value === null || value === "") continue;
+        const placeholder = `$${params.length + 2}`;
+
+        switch (filter.kind) {
+            case "uuid_list":
+                if (!Array.isArray(value) || value.length === 0 || value.some((v: any) => !UUID_PATTERN.test(String(v)))) {
+                    throw new LegalHoldError(400, "bad_request", `${key} must be a non-empty array of UUIDs`);
+                }
+                conditions.push(`${filter.column} = ANY(${placeholder}::uuid[])`);
+                params.push(value.map(String));
+                break;
+            case "uuid":
+                if (!UUID_PATTERN.test(String(value))) {
+                    throw new LegalHoldError(400, "bad_request", `${key} must be a UUID`);
+                }
+                conditions.push(`${filter.column} = ${placeholder}`);
+                params.push(String(value));
+                break;
+            case "from":
+            case "to":
+                if (isNaN(new Date(String(value)).getTime())) {
+                    throw new LegalHoldError(400, "bad_request", `${key} must be an ISO 8601 timestamp`);
+                }
+                conditions.push(`${filter.column} ${filter.kind === "from" ? ">=" : "<"} ${placeholder}`);
+                params.push(new Date(String(value)).toISOString());
+                break;
+            default:
+                conditions.push(`${filter.column} = ${placeholder}`);
+                params.push(String(value));
+        }
+    }
+
+    // A hold on "everything" is never intended; require at least one narrowing criterion
+    if (conditions.length === 0) {
+        throw new LegalHoldError(400, "bad_request", `criteria for ${resourceType} must set at least one of: ${Object.keys(filters).join(", ")}`);
+    }
+
+    const where = conditions.join(" AND ");
+    switch (resourceType) {
+        case "documents":
+            return {
+                sql: `SELECT v.id FROM documents v
+                      WHERE v.tenant_id = $1 AND v.purged_at IS NULL
+                        AND v.document_number IN (SELECT d.document_number FROM documents d WHERE d.tenant_id = $1 AND ${where})`,
+                params,
+            };
+        case "employees":
+            return { sql: `SELECT e.id FROM employees e WHERE e.tenant_id = $1 AND ${where}`, params };
+        default:
+            return { sql: `SELECT a.id FROM audit_events a WHERE a.tenant_id = $1 AND ${where}`, params };
+    }
+}
+
+/**
+ * Active matters holding one record
+ */
+export async function findActiveHolds(
+    db: Queryable,
+    tenantId: string,
+    resourceType: HoldResourceType,
+    resourceId: string
+): Promise<ActiveHold[]> {
+    const result = await db.query(
+        `SELECT m.id, m.name, m.matter_reference
+         FROM legal_hold_items i
+         JOIN legal_hold_matters m ON m.id = i.matter_id
+         WHERE i.tenant_id = $1 AND i.resource_type = $2 AND i.resource_id = $3
+           AND i.released_at IS NULL AND m.status = 'active'
+         ORDER BY m.created_at ASC`,
+        [tenantId, resourceType, resourceId]
+    );
+    return result.rows.map((r: any) => ({ matterId: r.id, name: r.name, matterReference: r.matter_reference }));
+}
+
+/**
+ * Apply a scope to an active matter (inside the caller's transaction)
+ */
+export async function applyHoldScope(
+    client: PoolClient,
+    input: { tenantId: string; matterId: string; resourceType: HoldResourceType; criteria: any; actorId: string | null }
+): Promise<{ scope: any; itemsAdded: number }> {
+    const matterResult = await client.query(
+        `SELECT id, name, status FROM legal_hold_matters WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+        [input.matterId, input.tenantId]
+    );
+    const matter = matterResult.rows[0];
+    if (!matter) throw new LegalHoldError(404, "not_found", "Legal hold matter not found");
+    if (matter.status !== "active") {
+        throw new LegalHoldError(409, "matter_released", "Legal hold matter has been released");
+    }
+
+    const { sql, params } = buildScopeQuery(input.resourceType, input.criteria);
+
+    const scopeResult = await client.query(
+        `INSERT INTO legal_hold_scopes (tenant_id, matter_id, resource_type, criteria, applied_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.tenantId, input.matterId, input.resourceType, JSON.stringify(input.criteria), input.actorId]
+    );
+    const scope = scopeResult.rows[0];
+
+    const n = params.length;
+    const inserted = await client.query(
+        `INSERT INTO legal_hold_items (tenant_id, matter_id, scope_id, resource_type, resource_id)
+         SELECT $1::uuid, $${n + 2}::uuid, $${n + 3}::uuid, $${n + 4}::varchar, matched.id FROM (${sql}) matched
+         ON CONFLICT (matter_id, resource_type, resource_id) DO NOTHING`,
+        [input.tenantId, ...params, input.matterId, scope.id, input.resourceType]
+    );
+    const itemsAdded = inserted.rowCount || 0;
+
+    if (input.resourceType === "documents") {
+        await client.query(
+            `UPDATE documents
+             SET legal_hold = TRUE,
+                 legal_hold_reason = CASE WHEN legal_hold THEN legal_hold_reason ELSE $3 END,
+                 updated_at = NOW()
+             WHERE tenant_id = $1
+               AND id IN (SELECT resource_id FROM legal_hold_items WHERE scope_id = $2)`,
+            [input.tenantId, scope.id, `Legal hold: ${matter.name}`]
+        );
+    }
+
+    const updated = await client.query(
+        `UPDATE legal_hold_scopes SET items_added = $2 WHERE id = $1 RETURNING *`,
+        [scope.id, itemsAdded]
+    );
+    await client.query(`UPDATE legal_hold_matters SET updated_at = NOW() WHERE id = $1`, [input.matterId]);
+
+    return { scope: updated.rows[0], itemsAdded };
+}
+
+/**
+ * Release a matter and all of its items (inside the caller's transaction).
+ * Documents stay flagged while another active matter still holds them.
+ */
+export async function releaseMatter(
+    client: PoolClient,
+    input: { tenantId: string; matterId: string; actorId: string | null; reason: string }
+): Promise<{ matter: any; itemsReleased: number; documentsReleased: number }> {
+    const matterResult = await client.query(
+        `UPDATE legal_hold_matters
+         SET status = 'released', released_at = NOW(), released_by = $3, release_reason = $4, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2 AND status = 'active'
+         RETURNING *`,
+        [input.matterId, input.tenantId, input.actorId, input.reason]
+    );
+
+    if (matterResult.rows.length === 0) {
+        const exists = await client.query(
+            `SELECT 1 FROM legal_hold_matters WHERE id = $1 AND tenant_id = $2`,
+            [input.matterId, input.tenantId]
+        );
+        if (exists.rows.length === 0) throw new LegalHoldError(404, "not_found", "Legal hold matter not found");
+        throw new LegalHoldError(409, "matter_released", "Legal hold matter has already been released");
+    }
+
+    const items = await client.query(
+        `UPDATE legal_hold_items SET released_at = NOW()
+         WHERE matter_id = $1 AND released_at IS NULL`,
+        [input.matterId]
+    );
+
+    const cleared = await client.query(
+        `UPDATE documents d
+         SET legal_hold = FALSE, legal_hold_reason = NULL, updated_at = NOW()
+         WHERE d.tenant_id = $2
+           AND d.id IN (SELECT resource_id FROM legal_hold_items WHERE matter_id = $1 AND resource_type = 'documents')
+           AND NOT EXISTS (
+               SELECT 1 FROM legal_hold_items o
+               WHERE o.resource_type = 'documents' AND o.resource_id = d.id AND o.released_at IS NULL
+           )`,
+        [input.matterId, input.tenantId]
+    );
+
+    // Still held elsewhere: point the reason at a matter that is still active
+    await client.query(
+        `UPDATE documents d
+         SET legal_hold_reason = 'Legal hold: ' || (
+             SELECT m.name FROM legal_hold_items o
+             JOIN legal_hold_matters m ON m.id = o.matter_id
+             WHERE o.resource_type = 'documents' AND o.resource_id = d.id AND o.released_at IS NULL
+             ORDER BY m.created_at ASC LIMIT 1
+         )
+         WHERE d.tenant_id = $2 AND d.legal_hold = TRUE
+           AND d.id IN (SELECT resource_id FROM legal_hold_items WHERE matter_id = $1 AND resource_type = 'documents')`,
+        [input.matterId, input.tenantId]
+    );
+
+    return {
+        matter: matterResult.rows[0],
+        itemsReleased: items.rowCount || 0,
+        documentsReleased: cleared.rowCount || 0,
+    };
+}
+
+/**
+ * Carry the active holds of a document over to a newly created version of it
+ */
+export async function propagateDocumentHolds(db: Queryable, tenantId: string, fromDocumentId: string, toDocumentId: string) {
+    await db.query(
+        `INSERT INTO legal_hold_items (tenant_id, matter_id, scope_id, resource_type, resource_id)
+         SELECT tenant_id, matter_id, scope_id, 'documents', $3::uuid
+         FROM legal_hold_items
+         WHERE tenant_id = $1 AND resource_type = 'documents' AND resource_id = $2 AND released_at IS NULL
+         ON CONFLICT (matter_id, resource_type, resource_id) DO NOTHING`,
+        [tenantId, fromDocumentId, toDocumentId]
+    );
+}
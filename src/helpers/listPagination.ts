@@ -0,0 +1,98 @@
+// Keyset pagination and NDJSON streaming for list endpoints.
+// Offset pages (page / page_size) stay the default. `pagination=cursor` (or a
+// `cursor` param) returns keyset pages ordered by (sort column, id) without a
+// COUNT(*); `format=ndjson` streams the whole filtered result set in keyset batches.
+
+import { Response } from "express";
+import { decodeCursor, encodeCursor, KeysetCursor } from "./cursor";
+
+export type ListMode = "offset" | "cursor" | "ndjson";
+
+// Keyset modes need a timestamp sort key that is set on every row
+export const KEYSET_SORT_COLUMNS = ["created_at", "updated_at"];
+export const NDJSON_BATCH_SIZE = 500;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function getListMode(query: any): ListMode {
+    if (String(query.format || "").toLowerCase() === "ndjson") return "ndjson";
+    if (query.pagination === "cursor" || query.cursor) return "cursor";
+    return "offset";
+}
+
+/**
+ * Decode a list cursor; returns null if it is malformed
+ */
+export function parseListCursor(raw: string): KeysetCursor | null {
+    const cursor = decodeCursor(raw);
+    if (!cursor || isNaN(new Date(cursor.sortValue).getTime()) || !UUID_PATTERN.test(cursor.id)) return null;
+    return cursor;
+}
+
+/**
+ * WHERE fragment selecting rows after the cursor; binds $paramIndex (sort value) and $paramIndex + 1 (id)
+ */
+export function keysetCondition(column: string, direction: "ASC" | "DESC", paramIndex: number): string {
+    const operator = direction === "ASC" ? ">" : "<";
+    return `(${column}, id) ${operator} ($${paramIndex}::timestamptz, $${paramIndex + 1}::uuid)`;
+}
+
+/**
+ * Select-list entry carrying the sort key at full precision for the next cursor
+ */
+export function keysetSortValue(column: string): string {
+    return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_sort_value`;
+}
+
+/**
+ * Split a LIMIT pageSize + 1 result into the page and the cursor for the next one
+ */
+export function toKeysetPage(rows: any[], pageSize: number): { rows: any[]; nextCursor: string | null } {
+    const hasMore = rows.length > pageSize;
+    const page = rows.slice(0, pageSize);
+    const last = page[page.length - 1];
+    return {
+        rows: page.map(({ cursor_sort_value, ...row }) => row),
+        nextCursor: hasMore && last ? encodeCursor(last.cursor_sort_value, last.id) : null
+    };
+}
+
+/**
+ * Write every row as one JSON line, fetching keyset batches until the result set is exhausted.
+ * Waits for the socket to drain between batches so memory stays bounded by one batch.
+ * Returns the number of rows written; the caller ends the response.
+ */
+export async function streamNdjson(
+    res: Response,
+    filename: string,
+    fetchBatch: (after: KeysetCursor | null, limit: number) => Promise<any[]>,
+    toRecord: (row: any) => any
+): Promise<number> {
+    res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    let after: KeysetCursor | null = null;
+    let written = 0;
+    while (!res.destroyed) {
+        const rows = await fetchBatch(after, NDJSON_BATCH_SIZE);
+
+        if (rows.length > 0) {
+            const chunk = rows
+                .map(({ cursor_sort_value, ...row }) => JSON.stringify(toRecord(row)) + "\n")
+                .join("");
+            if (!res.write(chunk)) {
+                // A client that disconnects never drains; stop instead of waiting forever
+                await new Promise(resolve => {
+                    res.once("drain", resolve);
+                    res.once("close", resolve);
+                });
+            }
+            written += rows.length;
+            const last = rows[rows.length - 1];
+            after = { sortValue: last.cursor_sort_value, id: last.id };
+        }
+
+        if (rows.length < NDJSON_BATCH_SIZE) break;
+    }
+    return written;
+}
@@ -0,0 +1,125 @@
+// Embedded policy engine: evaluates the declarative rules bundle (policies/agent_policy/data.yaml)
+// when OPA is not deployed. policies/agent.rego implements the same semantics in OPA, so one
+// bundle serves both; keep the two in step.
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { CONFIG } from "../config";
+
+export type PolicyRule = {
+    id: string;
+    description?: string;
+    effect: "allow" | "deny";
+    resource?: any;
+    subresource?: any;
+    action?: any;
+    role?: any;
+    when?: Record<string, any>;
+    unless?: Record<string, any>;
+};
+
+export type PolicyBundle = {
+    default: "allow" | "deny";
+    rules: PolicyRule[];
+};
+
+export type LocalDecision = {
+    allow: boolean;
+    reason: string;
+};
+
+// Top-level rule keys and the input path they match
+const SHORTHAND: Record<string, string> = {
+    resource: "resource.type",
+    subresource: "resource.subresource",
+    action: "action",
+    role: "actor.role",
+};
+
+let cached: { file: string; mtimeMs: number; bundle: PolicyBundle } | null = null;
+
+/**
+ * Parse and validate a rules bundle (YAML is a superset of JSON, so both formats load)
+ */
+export function parsePolicyBundle(source: string): PolicyBundle {
+    const raw = YAML.parse(source) || {};
+    const defaultEffect = raw.default ?? "deny";
+    if (defaultEffect !== "allow" && defaultEffect !== "deny") {
+        throw new Error(`Invalid policy default "${defaultEffect}" (expected allow or deny)`);
+    }
+    if (!Array.isArray(raw.rules ?? [])) throw new Error("Policy rules must be a list");
+
+    const rules: PolicyRule[] = (raw.rules ?? []).map((rule: any, index: number) => {
+        if (!rule || typeof rule.id !== "string" || !rule.id) {
+            throw new Error(`Policy rule #${index + 1} needs an id`);
+        }
+        if (rule.effect !== "allow" && rule.effect !== "deny") {
+            throw new Error(`Policy rule "${rule.id}" needs effect allow or deny`);
+        }
+        for (const key of ["when", "unless"]) {
+            if (rule[key] !== undefined && (typeof rule[key] !== "object" || Array.isArray(rule[key]))) {
+                throw new Error(`Policy rule "${rule.id}": ${key} must be a map of input paths`);
+            }
+        }
+        return rule as PolicyRule;
+    });
+
+    return { default: defaultEffect, rules };
+}
+
+/**
+ * Load the configured bundle, re-reading it when the file changes
+ */
+export function loadPolicyBundle(): PolicyBundle {
+    const file = path.resolve(CONFIG.POLICY_RULES_FILE);
+    const { mtimeMs } = fs.statSync(file);
+    if (cached && cached.file === file && cached.mtimeMs === mtimeMs) return cached.bundle;
+
+    const bundle = parsePolicyBundle(fs.readFileSync(file, "utf8"));
+    cached = { file, mtimeMs, bundle };
+    return bundle;
+}
+
+function inputValue(input: any, dottedPath: string): any {
+    let value = input;
+    for (const key of dottedPath.split(".")) {
+        if (value === null || value === undefined || typeof value !== "object") return null;
+        value = value[key];
+    }
+    return value === undefined ? null : value;
+}
+
+function holds(input: any, dottedPath: string, expected: any): boolean {
+    const value = inputValue(input, dottedPath);
+    return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+function conditionsOf(rule: PolicyRule): [string, any][] {
+    const conditions: [string, any][] = [];
+    for (const [key, inputPath] of Object.entries(SHORTHAND)) {
+        if ((rule as any)[key] !== undefined) conditions.push([inputPath, (rule as any)[key]]);
+    }
+    return conditions.concat(Object.entries(rule.when || {}));
+}
+
+function applies(rule: PolicyRule, input: any): boolean {
+    if (!conditionsOf(rule).every(([p, expected]) => holds(input, p, expected))) return false;
+    return !Object.entries(rule.unless || {}).some(([p, expected]) => holds(input, p, expected));
+}
+
+/**
+ * Deny overrides allow; the first applying rule in file order is reported as the reason
+ */
+export function evaluateBundle(bundle: PolicyBundle, input: any): LocalDecision {
+    const denied = bundle.rules.find(rule => rule.effect === "deny" && applies(rule, input));
+    if (denied) return { allow: false, reason: denied.id };
+
+    const allowed = bundle.rules.find(rule => rule.effect === "allow" && applies(rule, input));
+    if (allowed) return { allow: true, reason: allowed.id };
+
+    return { allow: bundle.default === "allow", reason: `default_${bundle.default}` };
+}
+
+export function evaluateLocalPolicy(input: any): LocalDecision {
+    return evaluateBundle(loadPolicyBundle(), input);
+}
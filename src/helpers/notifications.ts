@@ -0,0 +1,64 @@
+// document_notifications writer shared by the background jobs and routes.
+// Delivery happens separately; this only queues rows with status 'pending'.
+import { pool } from "../lib/db";
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> };
+
+export type NotificationType =
+    | "expiry_warning_90" | "expiry_warning_60" | "expiry_warning_30" | "expiry_warning_7"
+    | "expired" | "renewal_required" | "approval_requested" | "approval_approved"
+    | "approval_rejected" | "document_updated" | "document_shared" | "comment_added"
+    | "review_required" | "grace_period_ending";
+
+export type NotificationInput = {
+    tenantId: string;
+    documentId: string;
+    type: NotificationType;
+    recipientId: string;
+    recipientEmail?: string | null;
+    recipientRole?: string | null;
+    title: string;
+    message: string;
+    priority?: "low" | "normal" | "high" | "urgent";
+    sendEmail?: boolean;
+    sendInApp?: boolean;
+    sendSms?: boolean;
+    scheduledAt?: Date | null;
+    metadata?: Record<string, any>;
+    // Same key twice for a tenant enqueues only once (see migration 025)
+    dedupeKey?: string | null;
+};
+
+/**
+ * Queue a notification; returns its id, or null when the dedupe key was already used
+ */
+export async function enqueueNotification(n: NotificationInput, db: Queryable = pool): Promise<string | null> {
+    const metadata: Record<string, any> = { ...(n.metadata || {}) };
+    if (n.dedupeKey) metadata.dedupe_key = n.dedupeKey;
+
+    const result = await db.query(
+        `INSERT INTO document_notifications
+           (tenant_id, document_id, notification_type, recipient_id, recipient_email, recipient_role,
+            title, message, priority, send_email, send_in_app, send_sms, scheduled_at, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, COALESCE($13, NOW()), $14)
+         ON CONFLICT DO NOTHING
+         RETURNING id`,
+        [
+            n.tenantId,
+            n.documentId,
+            n.type,
+            n.recipientId,
+            n.recipientEmail ?? null,
+            n.recipientRole ?? null,
+            n.title,
+            n.message,
+            n.priority || "normal",
+            n.sendEmail ?? true,
+            n.sendInApp ?? true,
+            n.sendSms ?? false,
+            n.scheduledAt ?? null,
+            Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+        ]
+    );
+    return result.rows[0]?.id ?? null;
+}
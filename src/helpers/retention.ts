@@ -0,0 +1,264 @@
+/**
+ * Document Retention and Disposal
+ *
+ * A document becomes due for disposal on its disposal_date, or otherwise
+ * retention_period_years after its expiry date (creation date when it never
+ * expires). Documents without either never become due.
+ *
+ * Certified disposal purges the file (the data key is destroyed, then the
+ * stored bytes are deleted) and every content/PII field on the row, removes
+ * dependent content rows, and leaves a tombstone in document_disposals whose
+ * certificate_hash is an HMAC over its fields. A legal hold always blocks it.
+ * A file still used by another live version (a rollback copies the file
+ * reference) is only unlinked; the last version to go destroys it.
+ */
+
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { CONFIG } from "../config";
+import { canonicalJson } from "./auditChain";
+import { destroyEncryptionKey, isAgentManagedFile } from "./documentFiles";
+
+export type RetentionBlocker = "legal_hold" | "retention_period" | "no_retention_rule" | "already_disposed";
+
+export type RetentionStatus = {
+    disposalDue: string | null;
+    eligible: boolean;
+    blockers: RetentionBlocker[];
+};
+
+export type DisposalTombstone = {
+    id: string;
+    tenant_id: string;
+    document_id: string;
+    document_number: string | null;
+    category: string | null;
+    entity_type: string | null;
+    sensitivity_level: string | null;
+    version: number | null;
+    file_hash: string | null;
+    retention_period_years: number | null;
+    disposal_due: string;
+    file_disposition: "destroyed" | "shared_unlinked" | "external_unlinked" | "no_file";
+    disposed_at: Date | string;
+    disposed_by: string | null;
+    disposed_by_role: string | null;
+    reason: string | null;
+    certificate_hash: string;
+};
+
+/**
+ * SQL expression for the disposal due date of documents aliased as `d`
+ */
+export const DISPOSAL_DUE_SQL = `COALESCE(
+    d.disposal_date,
+    (COALESCE(d.expiry_date, d.created_at::date) + make_interval(years => d.retention_period_years))::date
+)`;
+
+// Dependent rows holding document content; approvals, access log and relationships stay as records
+const CONTENT_TABLES = [
+    "document_sections",
+    "document_comments",
+    "document_shares",
+    "document_notifications",
+    "document_parsing_log",
+    "document_collab_steps",
+    "document_drafts",
+];
+
+/**
+ * Raised when a document cannot be disposed; routes map status/code onto the response
+ */
+export class RetentionError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+        this.name = "RetentionError";
+    }
+}
+
+function toDateString(value: any): string | null {
+    if (!value) return null;
+    if (value instanceof Date) {
+        // DATE columns come back as local midnight
+        const y = value.getFullYear();
+        const m = String(value.getMonth() + 1).padStart(2, "0");
+        const d = String(value.getDate()).padStart(2, "0");
+        return `${y}-${m}-${d}`;
+    }
+    return String(value).slice(0, 10);
+}
+
+/**
+ * Eligibility of a row selected with `${DISPOSAL_DUE_SQL} AS disposal_due`
+ */
+export function getRetentionStatus(
+    row: { legal_hold?: boolean | null; purged_at?: any; disposal_due?: any },
+    today: string = toDateString(new Date()) as string
+): RetentionStatus {
+    const disposalDue = toDateString(row.disposal_due);
+    const blockers: RetentionBlocker[] = [];
+
+    if (row.purged_at) blockers.push("already_disposed");
+    if (row.legal_hold) blockers.push("legal_hold");
+    if (!disposalDue) blockers.push("no_retention_rule");
+    else if (disposalDue > today) blockers.push("retention_period");
+
+    return { disposalDue, eligible: blockers.length === 0, blockers };
+}
+
+/**
+ * HMAC over the tombstone fields; recomputing it proves the record was not altered
+ */
+export function computeDisposalCertificate(t: Omit<DisposalTombstone, "id" | "certificate_hash">): string {
+    const canonical = canonicalJson({
+        tenant_id: String(t.tenant_id).toLowerCase(),
+        document_id: String(t.document_id).toLowerCase(),
+        document_number: t.document_number ?? null,
+        category: t.category ?? null,
+        entity_type: t.entity_type ?? null,
+        sensitivity_level: t.sensitivity_level ?? null,
+        version: t.version ?? null,
+        file_hash: t.file_hash ?? null,
+        retention_period_years: t.retention_period_years ?? null,
+        disposal_due: toDateString(t.disposal_due),
+        file_disposition: t.file_disposition,
+        disposed_at: new Date(t.disposed_at).toISOString(),
+        disposed_by: t.disposed_by ? String(t.disposed_by).toLowerCase() : null,
+        disposed_by_role: t.disposed_by_role ?? null,
+        reason: t.reason ?? null,
+    });
+    return crypto.createHmac("sha256", CONFIG.AUDIT_CHAIN_KEY).update(canonical).digest("hex");
+}
+
+export type DisposalResult = {
+    tombstone: DisposalTombstone;
+    // Stored bytes to delete once the transaction has committed (key is already destroyed);
+    // null when no agent-managed file is left for this row alone
+    filePath: string | null;
+};
+
+/**
+ * Dispose one document inside the caller's transaction.
+ * The row is locked and eligibility re-checked, so a hold placed meanwhile wins.
+ */
+export async function disposeDocument(
+    client: PoolClient,
+    input: { tenantId: string; documentId: string; actorId: string | null; actorRole: string; reason: string | null }
+): Promise<DisposalResult> {
+    const docResult = await client.query(
+        `SELECT d.*, ${DISPOSAL_DUE_SQL} AS disposal_due
+         FROM documents d
+         WHERE d.id = $1 AND d.tenant_id = $2
+         FOR UPDATE`,
+        [input.documentId, input.tenantId]
+    );
+    const doc = docResult.rows[0];
+    if (!doc) throw new RetentionError(404, "not_found", "Document not found");
+
+    const status = getRetentionStatus(doc);
+    if (status.blockers.includes("already_disposed")) {
+        throw new RetentionError(409, "already_disposed", "Document has already been disposed");
+    }
+    if (status.blockers.includes("legal_hold")) {
+        throw new RetentionError(409, "legal_hold", "Document is under legal hold and cannot be disposed");
+    }
+    if (!status.eligible) {
+        throw new RetentionError(
+            409,
+            "retention_period",
+            status.disposalDue
+                ? `Document must be retained until ${status.disposalDue}`
+                : "Document has no retention rule and is retained indefinitely"
+        );
+    }
+
+    // A restored version shares its file with the version it was copied from; the key and
+    // bytes are destroyed only with the last row that still uses them
+    const agentManaged = isAgentManagedFile(doc);
+    let fileShared = false;
+    if (agentManaged) {
+        const shared = await client.query(
+            `SELECT 1 FROM documents
+             WHERE tenant_id = $1 AND id <> $2 AND purged_at IS NULL
+               AND (encryption_key_id = $3 OR file_path = $4)
+             LIMIT 1`,
+            [input.tenantId, input.documentId, doc.encryption_key_id, doc.file_path]
+        );
+        fileShared = shared.rows.length > 0;
+        if (!fileShared) {
+            await destroyEncryptionKey(client, input.tenantId, doc.encryption_key_id);
+        }
+    }
+
+    for (const table of CONTENT_TABLES) {
+        await client.query(`DELETE FROM ${table} WHERE document_id = $1`, [input.documentId]);
+    }
+
+    await client.query(
+        `UPDATE documents
+         SET title = '[disposed]',
+             description = NULL,
+             tags = NULL,
+             entity_id = NULL,
+             file_name = '[disposed]',
+             file_path = '',
+             file_size = 0,
+             mime_type = NULL,
+             change_summary = NULL,
+             ai_extracted_data = NULL,
+             custom_metadata = NULL,
+             structured_content = NULL,
+             editor_state = NULL,
+             version_metadata = NULL,
+             parsing_error = NULL,
+             status = 'disposed',
+             deleted_at = COALESCE(deleted_at, NOW()),
+             purged_at = NOW(),
+             updated_by = $3,
+             updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [input.documentId, input.tenantId, input.actorId]
+    );
+
+    const fields: Omit<DisposalTombstone, "id" | "certificate_hash"> = {
+        tenant_id: input.tenantId,
+        document_id: input.documentId,
+        document_number: doc.document_number ?? null,
+        category: doc.category ?? null,
+        entity_type: doc.entity_type ?? null,
+        sensitivity_level: doc.sensitivity_level ?? null,
+        version: doc.version ?? null,
+        file_hash: doc.file_hash ?? null,
+        retention_period_years: doc.retention_period_years ?? null,
+        disposal_due: status.disposalDue as string,
+        file_disposition: agentManaged
+            ? (fileShared ? "shared_unlinked" : "destroyed")
+            : doc.file_path ? "external_unlinked" : "no_file",
+        disposed_at: new Date(),
+        disposed_by: input.actorId,
+        disposed_by_role: input.actorRole,
+        reason: input.reason,
+    };
+    const certificateHash = computeDisposalCertificate(fields);
+
+    const inserted = await client.query(
+        `INSERT INTO document_disposals (
+            tenant_id, document_id, document_number, category, entity_type, sensitivity_level,
+            version, file_hash, retention_period_years, disposal_due, file_disposition,
+            disposed_at, disposed_by, disposed_by_role, reason, certificate_hash
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         RETURNING id`,
+        [
+            fields.tenant_id, fields.document_id, fields.document_number, fields.category,
+            fields.entity_type, fields.sensitivity_level, fields.version, fields.file_hash,
+            fields.retention_period_years, fields.disposal_due, fields.file_disposition,
+            fields.disposed_at, fields.disposed_by, fields.disposed_by_role, fields.reason,
+            certificateHash,
+        ]
+    );
+
+    return {
+        tombstone: { id: inserted.rows[0].id, ...fields, certificate_hash: certificateHash },
+        filePath: agentManaged && !fileShared ? doc.file_path : null,
+    };
+}
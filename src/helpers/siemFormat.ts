@@ -0,0 +1,163 @@
+// Render audit_events rows for external SIEMs (ADHICS SA).
+// Used by the bulk export endpoint and the continuous forwarder (jobs/siemForwarder.ts).
+// Input rows are raw audit_events rows (snake_case), output is one line per event.
+import os from "os";
+import { CONFIG } from "../config";
+import { transformAuditEvent } from "./transform";
+
+export type SiemFormat = "cef" | "syslog" | "ndjson";
+
+export const SIEM_FORMATS: SiemFormat[] = ["cef", "syslog", "ndjson"];
+
+const VENDOR = "CISOShare";
+const PRODUCT = "BYOD Agent";
+const APP_NAME = "byod-agent";
+
+// RFC 5424 facility 13 = log audit
+const SYSLOG_FACILITY = 13;
+
+function isoTime(value: any): string {
+    return new Date(value).toISOString();
+}
+
+/**
+ * CEF severity (0-10): failed security/auth events rank highest
+ */
+function cefSeverity(row: any): number {
+    if (row.result === "failure") {
+        return row.event_category === "security" || row.event_category === "auth" ? 7 : 5;
+    }
+    return row.result === "partial" ? 4 : 3;
+}
+
+/**
+ * RFC 5424 severity: 4 warning, 5 notice, 6 informational
+ */
+function syslogSeverity(row: any): number {
+    if (row.result === "failure") return 4;
+    if (row.result === "partial") return 5;
+    return 6;
+}
+
+function escapeCefHeader(value: any): string {
+    return String(value ?? "").replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
+function escapeCefExtension(value: any): string {
+    return String(value)
+        .replace(/\\/g, "\\\\")
+        .replace(/=/g, "\\=")
+        .replace(/\r/g, "\\r")
+        .replace(/\n/g, "\\n");
+}
+
+function escapeSdParam(value: any): string {
+    return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/]/g, "\\]");
+}
+
+/**
+ * RFC 5424 header fields are printable US-ASCII without spaces, bounded in length
+ */
+function syslogToken(value: any, maxLength: number): string {
+    const token = String(value ?? "").replace(/[^\x21-\x7e]/g, "_").slice(0, maxLength);
+    return token || "-";
+}
+
+/**
+ * ArcSight Common Event Format
+ */
+export function formatCef(row: any): string {
+    const extensions: [string, any][] = [
+        ["rt", new Date(row.occurred_at).getTime()],
+        ["externalId", row.id],
+        ["cat", row.event_category],
+        ["act", row.action],
+        ["outcome", row.result],
+        ["suid", row.actor_id],
+        ["suser", row.actor_email],
+        ["spriv", row.actor_role],
+        ["src", row.actor_ip],
+        ["msg", row.target_name],
+    ];
+
+    // Custom fields: the label is only emitted alongside a value
+    const customFields: [string, string, any][] = [
+        ["cs1", "tenantId", row.tenant_id],
+        ["cs2", "targetType", row.target_type],
+        ["cs3", "targetId", row.target_id],
+        ["cs4", "eventHash", row.event_hash],
+        ["cn1", "chainSeq", row.chain_seq],
+    ];
+    for (const [key, label, value] of customFields) {
+        if (value === null || value === undefined || value === "") continue;
+        extensions.push([`${key}Label`, label], [key, value]);
+    }
+
+    const header = [
+        "CEF:0",
+        escapeCefHeader(VENDOR),
+        escapeCefHeader(PRODUCT),
+        escapeCefHeader(CONFIG.SCHEMA_VERSION),
+        escapeCefHeader(row.event_type),
+        escapeCefHeader(`${row.event_type} ${row.result}`),
+        cefSeverity(row),
+    ].join("|");
+
+    const extension = extensions
+        .filter(([, value]) => value !== null && value !== undefined && value !== "")
+        .map(([key, value]) => `${key}=${escapeCefExtension(value)}`)
+        .join(" ");
+
+    return `${header}|${extension}`;
+}
+
+/**
+ * RFC 5424 syslog message; structured data carries the audit fields, MSG the full event as JSON
+ */
+export function formatSyslog(row: any): string {
+    const pri = SYSLOG_FACILITY * 8 + syslogSeverity(row);
+    const params: [string, any][] = [
+        ["eventId", row.id],
+        ["tenantId", row.tenant_id],
+        ["category", row.event_category],
+        ["action", row.action],
+        ["result", row.result],
+        ["actorId", row.actor_id],
+        ["targetType", row.target_type],
+        ["targetId", row.target_id],
+        ["chainSeq", row.chain_seq],
+    ];
+    const sdParams = params
+        .filter(([, value]) => value !== null && value !== undefined && value !== "")
+        .map(([key, value]) => `${key}="${escapeSdParam(value)}"`)
+        .join(" ");
+
+    return [
+        `<${pri}>1`,
+        isoTime(row.occurred_at),
+        syslogToken(os.hostname(), 255),
+        APP_NAME,
+        String(process.pid),
+        syslogToken(row.event_type, 32),
+        `[${CONFIG.SIEM_SYSLOG_SD_ID} ${sdParams}]`,
+        formatNdjson(row),
+    ].join(" ");
+}
+
+/**
+ * JSON Lines: same shape as the audit search API
+ */
+export function formatNdjson(row: any): string {
+    return JSON.stringify(transformAuditEvent(row));
+}
+
+export function formatAuditEvent(row: any, format: SiemFormat): string {
+    switch (format) {
+        case "cef":
+            return formatCef(row);
+        case "syslog":
+            return formatSyslog(row);
+        default:
+            return formatNdjson(row);
+    }
+}
@@ -0,0 +1,222 @@
+/**
+ * Electronic Signatures on Workflow Roles
+ *
+ * Signing a signatory role stores a record binding the signer, the document version
+ * and its content hash / file_hash, the signing time and the request IP, sealed with
+ * an HMAC under the agent's signature key (kept outside the database, like the audit
+ * chain key). Verification recomputes the HMAC - detecting edits to the record - and
+ * compares the bound hashes with the document as it is now.
+ *
+ * The content hash is computed from the stored content on both sides rather than read
+ * from documents.content_hash, which autosave and field population do not update.
+ */
+
+import crypto from "crypto";
+import { PoolClient, Pool } from "pg";
+import { CONFIG } from "../config";
+import { canonicalJson } from "./auditChain";
+import { generateContentHash } from "./collab";
+import { WorkflowRoleError, actingUserOf, listRoles, workflowSummary } from "./workflowRoles";
+
+type Queryable = Pool | PoolClient;
+
+export const SIGNATURE_ALGORITHM = "HMAC-SHA256";
+
+// Default statement of what the signature means, stored with the signature
+const DEFAULT_SIGNING_STATEMENT = "I have reviewed this document and approve its content.";
+
+export type SignedPayload = {
+    v: 1;
+    tenant_id: string;
+    document_id: string;
+    document_version: number;
+    role_id: string;
+    role_type: string;
+    signer_id: string;
+    signer_email: string | null;
+    statement: string;
+    content_hash: string | null;
+    file_hash: string | null;
+    signed_at: string;
+    ip: string | null;
+    key_id: string;
+};
+
+export type SignatureVerification = {
+    roleId: string;
+    signerId: string | null;
+    signedAt: string | null;
+    keyId: string | null;
+    // null when the key the record was signed with is not loaded
+    signatureValid: boolean | null;
+    contentHashMatches: boolean | null;
+    fileHashMatches: boolean | null;
+    documentChanged: boolean;
+    signedVersion: number | null;
+    currentVersion: number | null;
+    supersededBy: string | null;
+    valid: boolean;
+    reasons: string[];
+};
+
+function hmac(payload: SignedPayload): string {
+    return crypto.createHmac("sha256", CONFIG.SIGNATURE_KEY).update(canonicalJson(payload)).digest("hex");
+}
+
+function lowerOrNull(v: string | null | undefined): string | null {
+    return v ? String(v).toLowerCase() : null;
+}
+
+function currentContentHash(doc: { structured_content: any; editor_state: any }): string | null {
+    const content = doc.structured_content || doc.editor_state;
+    return content ? generateContentHash(content) : null;
+}
+
+/**
+ * Sign an actionable signatory role with the document's current hashes and complete
+ * it (inside the caller's transaction). Only the assigned user (or delegate) can sign.
+ */
+export async function signRole(
+    client: PoolClient,
+    input: {
+        tenantId: string;
+        documentId: string;
+        roleId: string;
+        signerId: string;
+        signerEmail: string | null;
+        ip: string | null;
+        statement: string | null;
+        comments: string | null;
+    }
+) {
+    const docResult = await client.query(
+        `SELECT id, version, status, structured_content, editor_state, file_hash
+         FROM documents
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL
+         FOR SHARE`,
+        [input.documentId, input.tenantId]
+    );
+    const doc = docResult.rows[0];
+    if (!doc) {
+        throw new WorkflowRoleError(404, "not_found", "Document not found");
+    }
+    if (doc.status === "disposed") {
+        throw new WorkflowRoleError(409, "disposed", "Document has been disposed");
+    }
+    const contentHash = currentContentHash(doc);
+    if (!contentHash && !doc.file_hash) {
+        throw new WorkflowRoleError(409, "nothing_to_sign", "Document has no content or file hash to sign");
+    }
+
+    const roles = await listRoles(client, input.tenantId, input.documentId, true);
+    const role = roles.find(r => r.id === input.roleId);
+    if (!role) {
+        throw new WorkflowRoleError(404, "not_found", "Workflow role not found");
+    }
+    if (role.role_type !== "signatory") {
+        throw new WorkflowRoleError(409, "not_signatory", `Only signatory roles can be signed (role is ${role.role_type})`);
+    }
+    if (role.signature_data) {
+        throw new WorkflowRoleError(409, "already_signed", "Workflow role has already been signed");
+    }
+    if (!role.actionable) {
+        throw new WorkflowRoleError(409, "role_not_active", `Workflow role is not active yet (sequence ${role.sequence_order})`);
+    }
+    if (input.signerId.toLowerCase() !== actingUserOf(role)) {
+        throw new WorkflowRoleError(403, "not_assigned_user", "Only the user assigned to this role can sign it");
+    }
+
+    const payload: SignedPayload = {
+        v: 1,
+        tenant_id: input.tenantId.toLowerCase(),
+        document_id: input.documentId.toLowerCase(),
+        document_version: doc.version,
+        role_id: input.roleId.toLowerCase(),
+        role_type: role.role_type,
+        signer_id: input.signerId.toLowerCase(),
+        signer_email: input.signerEmail,
+        statement: input.statement || DEFAULT_SIGNING_STATEMENT,
+        content_hash: contentHash,
+        file_hash: doc.file_hash,
+        signed_at: new Date().toISOString(),
+        ip: input.ip,
+        key_id: CONFIG.SIGNATURE_KEY_ID
+    };
+    const signatureData = { payload, algorithm: SIGNATURE_ALGORITHM, signature: hmac(payload) };
+
+    await client.query(
+        `UPDATE document_workflow_roles
+         SET status = 'completed', action_date = $3, action_comments = $4,
+             signature_data = $5, signature_timestamp = $3, signature_ip = $6, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [input.roleId, input.tenantId, payload.signed_at, input.comments, JSON.stringify(signatureData), input.ip]
+    );
+
+    const all = await listRoles(client, input.tenantId, input.documentId);
+    return { role: all.find(r => r.id === input.roleId), workflow: workflowSummary(all), signature: signatureData };
+}
+
+/**
+ * Verify a role's signature record against the signature key and the document now
+ */
+export async function verifyRoleSignature(db: Queryable, role: any): Promise<SignatureVerification> {
+    const data = role.signature_data;
+    const payload: SignedPayload | null = data?.payload || null;
+    const reasons: string[] = [];
+
+    const docResult = await db.query(
+        `SELECT id, version, structured_content, editor_state, file_hash, superseded_by, deleted_at
+         FROM documents
+         WHERE id = $1 AND tenant_id = $2`,
+        [role.document_id, role.tenant_id]
+    );
+    const doc = docResult.rows[0];
+
+    if (!payload) {
+        return {
+            roleId: role.id, signerId: null, signedAt: null, keyId: null,
+            signatureValid: false, contentHashMatches: null, fileHashMatches: null,
+            documentChanged: false, signedVersion: null, currentVersion: doc?.version ?? null,
+            supersededBy: doc?.superseded_by ?? null, valid: false, reasons: ["not_signed"]
+        };
+    }
+
+    let signatureValid: boolean | null = null;
+    if (payload.key_id !== CONFIG.SIGNATURE_KEY_ID) {
+        reasons.push("key_not_loaded");
+    } else {
+        const expected = Buffer.from(hmac(payload), "hex");
+        const actual = Buffer.from(String(data.signature || ""), "hex");
+        signatureValid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+        if (!signatureValid) reasons.push("signature_mismatch");
+    }
+
+    // The record must describe the role it is stored on
+    if (payload.role_id !== lowerOrNull(role.id) || payload.document_id !== lowerOrNull(role.document_id)) {
+        signatureValid = false;
+        reasons.push("record_mismatch");
+    }
+
+    const contentHashMatches = payload.content_hash ? !!doc && currentContentHash(doc) === payload.content_hash : null;
+    const fileHashMatches = payload.file_hash ? doc?.file_hash === payload.file_hash : null;
+    if (!doc || doc.deleted_at) reasons.push("document_deleted");
+    if (contentHashMatches === false) reasons.push("content_changed");
+    if (fileHashMatches === false) reasons.push("file_changed");
+    const documentChanged = !doc || !!doc.deleted_at || contentHashMatches === false || fileHashMatches === false;
+
+    return {
+        roleId: role.id,
+        signerId: payload.signer_id,
+        signedAt: payload.signed_at,
+        keyId: payload.key_id,
+        signatureValid,
+        contentHashMatches,
+        fileHashMatches,
+        documentChanged,
+        signedVersion: payload.document_version,
+        currentVersion: doc?.version ?? null,
+        supersededBy: doc?.superseded_by ?? null,
+        valid: signatureValid === true && !documentChanged,
+        reasons
+    };
+}
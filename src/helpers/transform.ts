@@ -129,9 +129,13 @@ export function transformApproval(approval: any) {
         escalatedTo: approval.escalated_to,
         escalatedAt: approval.escalated_at,
         escalationReason: approval.escalation_reason,
+        autoEscalated: approval.auto_escalated,
         requestedAt: approval.requested_at,
         dueDate: approval.due_date,
         reminderSentAt: approval.reminder_sent_at,
+        overdueNotifiedAt: approval.overdue_notified_at,
+        workflowRound: approval.workflow_round,
+        approvalPolicyId: approval.approval_policy_id,
         createdAt: approval.created_at,
         updatedAt: approval.updated_at
     };
@@ -282,6 +286,60 @@ export function transformTemplateField(field: any) {
     };
 }
 
+/**
+ * Transform an audit event from snake_case to camelCase
+ */
+export function transformAuditEvent(event: any) {
+    if (!event) return null;
+
+    return {
+        id: event.id,
+        tenantId: event.tenant_id,
+        occurredAt: event.occurred_at,
+        eventType: event.event_type,
+        eventCategory: event.event_category,
+        actorId: event.actor_id,
+        actorEmail: event.actor_email,
+        actorRole: event.actor_role,
+        actorIp: event.actor_ip,
+        targetType: event.target_type,
+        targetId: event.target_id,
+        targetName: event.target_name,
+        action: event.action,
+        result: event.result,
+        changes: event.changes,
+        metadata: event.metadata,
+        chainSeq: event.chain_seq != null ? Number(event.chain_seq) : null,
+        eventHash: event.event_hash
+    };
+}
+
+/**
+ * Transform a notification from snake_case to camelCase
+ */
+export function transformNotification(notification: any) {
+    if (!notification) return null;
+
+    return {
+        id: notification.id,
+        tenantId: notification.tenant_id,
+        documentId: notification.document_id,
+        notificationType: notification.notification_type,
+        recipientId: notification.recipient_id,
+        title: notification.title,
+        message: notification.message,
+        priority: notification.priority,
+        status: notification.status,
+        isRead: notification.read_at != null,
+        scheduledAt: notification.scheduled_at,
+        sentAt: notification.sent_at,
+        deliveredAt: notification.delivered_at,
+        readAt: notification.read_at,
+        metadata: notification.metadata,
+        createdAt: notification.created_at
+    };
+}
+
 /**
  * Transform array of items
  */
@@ -289,3 +347,263 @@ export function transformArray<T>(items: any[], transformFn: (item: any) => T):
     if (!Array.isArray(items)) return [];
     return items.map(transformFn);
 }
+
+/**
+ * Transform document disposal tombstone from snake_case to camelCase
+ */
+export function transformDisposal(disposal: any) {
+    if (!disposal) return null;
+
+    return {
+        id: disposal.id,
+        tenantId: disposal.tenant_id,
+        documentId: disposal.document_id,
+        documentNumber: disposal.document_number,
+        category: disposal.category,
+        entityType: disposal.entity_type,
+        sensitivityLevel: disposal.sensitivity_level,
+        version: disposal.version,
+        fileHash: disposal.file_hash,
+        retentionPeriodYears: disposal.retention_period_years,
+        disposalDue: disposal.disposal_due,
+        fileDisposition: disposal.file_disposition,
+        disposedAt: disposal.disposed_at,
+        disposedBy: disposal.disposed_by,
+        disposedByRole: disposal.disposed_by_role,
+        reason: disposal.reason,
+        certificateHash: disposal.certificate_hash
+    };
+}
+
+/**
+ * Transform legal hold matter from snake_case to camelCase
+ */
+export function transformLegalHoldMatter(matter: any) {
+    if (!matter) return null;
+
+    return {
+        id: matter.id,
+        tenantId: matter.tenant_id,
+        name: matter.name,
+        matterReference: matter.matter_reference,
+        description: matter.description,
+        reason: matter.reason,
+        custodianId: matter.custodian_id,
+        custodianEmail: matter.custodian_email,
+        status: matter.status,
+        createdBy: matter.created_by,
+        createdAt: matter.created_at,
+        updatedAt: matter.updated_at,
+        releasedAt: matter.released_at,
+        releasedBy: matter.released_by,
+        releaseReason: matter.release_reason
+    };
+}
+
+/**
+ * Transform legal hold scope from snake_case to camelCase
+ */
+export function transformLegalHoldScope(scope: any) {
+    if (!scope) return null;
+
+    return {
+        id: scope.id,
+        matterId: scope.matter_id,
+        resourceType: scope.resource_type,
+        criteria: scope.criteria,
+        itemsAdded: scope.items_added,
+        appliedBy: scope.applied_by,
+        appliedAt: scope.applied_at
+    };
+}
+
+/**
+ * Transform legal hold item from snake_case to camelCase
+ */
+export function transformLegalHoldItem(item: any) {
+    if (!item) return null;
+
+    return {
+        id: item.id,
+        matterId: item.matter_id,
+        scopeId: item.scope_id,
+        resourceType: item.resource_type,
+        resourceId: item.resource_id,
+        heldAt: item.held_at,
+        releasedAt: item.released_at
+    };
+}
+
+/**
+ * Transform document checkout lock from snake_case to camelCase
+ */
+export function transformDocumentLock(lock: any) {
+    if (!lock) return null;
+
+    return {
+        documentId: lock.document_id,
+        lockedBy: lock.locked_by,
+        lockedByEmail: lock.locked_by_email,
+        lockedByRole: lock.locked_by_role,
+        acquiredAt: lock.acquired_at,
+        heartbeatAt: lock.heartbeat_at,
+        expiresAt: lock.expires_at
+    };
+}
+
+/**
+ * Transform autosave draft from snake_case to camelCase (content only when selected)
+ */
+export function transformDraft(draft: any) {
+    if (!draft) return null;
+
+    return {
+        id: draft.id,
+        documentId: draft.document_id,
+        userId: draft.user_id,
+        contentHash: draft.content_hash,
+        sizeBytes: draft.size_bytes,
+        changedBytes: draft.changed_bytes,
+        baseVersion: draft.base_version,
+        source: draft.source,
+        createdAt: draft.created_at,
+        ...(draft.editor_state !== undefined && {
+            editorState: draft.editor_state,
+            structuredContent: draft.structured_content
+        })
+    };
+}
+
+/**
+ * Transform document version branch from snake_case to camelCase (head when loaded)
+ */
+export function transformDocumentBranch(branch: any) {
+    if (!branch) return null;
+
+    return {
+        id: branch.id,
+        name: branch.name,
+        status: branch.status,
+        rootDocumentId: branch.root_document_id,
+        baseDocumentId: branch.base_document_id,
+        promotedDocumentId: branch.promoted_document_id,
+        promotedBy: branch.promoted_by,
+        promotedAt: branch.promoted_at,
+        closedAt: branch.closed_at,
+        createdBy: branch.created_by,
+        createdAt: branch.created_at,
+        ...(branch.head !== undefined && {
+            head: branch.head ? {
+                id: branch.head.id,
+                version: branch.head.version,
+                status: branch.head.status,
+                changeSummary: branch.head.change_summary,
+                createdBy: branch.head.created_by,
+                createdAt: branch.head.created_at
+            } : null
+        })
+    };
+}
+
+/**
+ * Transform document workflow role from snake_case to camelCase
+ */
+export function transformWorkflowRole(role: any) {
+    if (!role) return null;
+
+    return {
+        id: role.id,
+        documentId: role.document_id,
+        roleType: role.role_type,
+        userId: role.user_id,
+        sequenceOrder: role.sequence_order,
+        isParallel: role.is_parallel,
+        status: role.status,
+        actionable: role.actionable,
+        eligibilityValidated: role.eligibility_validated,
+        eligibilityCriteria: role.eligibility_criteria,
+        eligibilityValidatedAt: role.eligibility_validated_at,
+        eligibilityErrors: role.eligibility_errors,
+        actionDate: role.action_date,
+        actionComments: role.action_comments,
+        rejectionReason: role.rejection_reason,
+        delegatedTo: role.delegated_to,
+        delegatedAt: role.delegated_at,
+        delegationReason: role.delegation_reason,
+        assignedAt: role.assigned_at,
+        dueDate: role.due_date,
+        reminderSentAt: role.reminder_sent_at,
+        signatureTimestamp: role.signature_timestamp,
+        createdBy: role.created_by,
+        createdAt: role.created_at,
+        updatedAt: role.updated_at
+    };
+}
+
+/**
+ * Transform approval SLA settings from snake_case to camelCase
+ */
+export function transformApprovalSlaSettings(settings: any) {
+    if (!settings) return null;
+
+    return {
+        tenantId: settings.tenant_id,
+        reminderHoursBefore: settings.reminder_hours_before,
+        autoEscalate: settings.auto_escalate,
+        escalationGraceHours: settings.escalation_grace_hours,
+        escalationTarget: settings.escalation_target,
+        defaultEscalationUserId: settings.default_escalation_user_id,
+        configured: settings.configured,
+        updatedBy: settings.updated_by,
+        updatedAt: settings.updated_at
+    };
+}
+
+/**
+ * Transform approval policy from snake_case to camelCase
+ */
+export function transformApprovalPolicy(policy: any) {
+    if (!policy) return null;
+
+    return {
+        id: policy.id,
+        tenantId: policy.tenant_id,
+        name: policy.name,
+        description: policy.description,
+        category: policy.category,
+        templateId: policy.template_id,
+        approvalType: policy.approval_type,
+        steps: (policy.steps || []).map((step: any) => ({
+            role: step.role,
+            level: step.level ?? null,
+            allAssignees: step.all_assignees === true,
+            dueInHours: step.due_in_hours ?? null
+        })),
+        dueInHours: policy.due_in_hours,
+        isActive: policy.is_active,
+        createdBy: policy.created_by,
+        updatedBy: policy.updated_by,
+        createdAt: policy.created_at,
+        updatedAt: policy.updated_at
+    };
+}
+
+/**
+ * Transform approval role assignment from snake_case to camelCase
+ */
+export function transformApprovalRoleAssignment(assignment: any) {
+    if (!assignment) return null;
+
+    return {
+        id: assignment.id,
+        roleName: assignment.role_name,
+        userId: assignment.user_id,
+        userEmail: assignment.user_email,
+        userStatus: assignment.user_status,
+        department: assignment.department,
+        priority: assignment.priority,
+        createdBy: assignment.created_by,
+        createdAt: assignment.created_at,
+        updatedAt: assignment.updated_at
+    };
+}
@@ -0,0 +1,292 @@
+/**
+ * Document Version Branches
+ *
+ * All versions of a document form one lineage under the root document
+ * (parent_document_id = root). The published line is the implicit "published"
+ * branch (branch_id NULL); its head is the is_latest_version row. Named branches
+ * (document_branches) let a revision be drafted - and go through approval - while
+ * the published version stays current:
+ * - a branch starts at a base version, which is its head until a version is created on it
+ * - versions created on a branch get the next version number of the lineage but are
+ *   not latest; the previous head of the branch is superseded_by the new one
+ * - promoting makes the branch head the latest published version: it joins the
+ *   published line, the previous published head is superseded_by it
+ */
+
+import { Pool, PoolClient } from "pg";
+import { getWorkflowState } from "./approvalWorkflow";
+import { requiresApproval } from "./approvalPolicies";
+
+type Queryable = Pool | PoolClient;
+
+export const PUBLISHED_BRANCH = "published";
+
+export const BRANCH_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+/**
+ * Raised for branch rule violations; routes map status/code onto the response
+ */
+export class BranchError extends Error {
+    constructor(public status: number, public code: string, message: string, public details: any = null) {
+        super(message);
+        this.name = "BranchError";
+    }
+}
+
+const HEAD_COLUMNS = `id, version, status, change_summary, branch_id, is_latest_version, superseded_by, created_by, created_at`;
+
+/**
+ * Root document of the lineage a version belongs to; null when it does not exist
+ */
+export async function getLineageRoot(db: Queryable, tenantId: string, documentId: string): Promise<string | null> {
+    const result = await db.query(
+        `SELECT COALESCE(parent_document_id, id) AS root_id
+         FROM documents
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL`,
+        [documentId, tenantId]
+    );
+    return result.rows[0]?.root_id || null;
+}
+
+/**
+ * Highest version number used in the lineage (on any branch)
+ */
+export async function getMaxLineageVersion(db: Queryable, tenantId: string, rootId: string): Promise<number> {
+    const result = await db.query(
+        `SELECT COALESCE(MAX(version), 0) AS max_version
+         FROM documents
+         WHERE (id = $1 OR parent_document_id = $1) AND tenant_id = $2`,
+        [rootId, tenantId]
+    );
+    return Number(result.rows[0].max_version);
+}
+
+/**
+ * Active branch of the lineage by name
+ */
+export async function findActiveBranch(db: Queryable, tenantId: string, rootId: string, name: string, forUpdate = false) {
+    const result = await db.query(
+        `SELECT * FROM document_branches
+         WHERE root_document_id = $1 AND tenant_id = $2 AND name = $3 AND status = 'active'
+         ${forUpdate ? "FOR UPDATE" : ""}`,
+        [rootId, tenantId, name]
+    );
+    return result.rows[0] || null;
+}
+
+/**
+ * Head version of the published line
+ */
+export async function getPublishedHead(db: Queryable, tenantId: string, rootId: string) {
+    const result = await db.query(
+        `SELECT ${HEAD_COLUMNS}
+         FROM documents
+         WHERE (id = $1 OR parent_document_id = $1) AND tenant_id = $2 AND deleted_at IS NULL
+           AND branch_id IS NULL
+         ORDER BY is_latest_version IS TRUE DESC, version DESC
+         LIMIT 1`,
+        [rootId, tenantId]
+    );
+    return result.rows[0] || null;
+}
+
+/**
+ * Head version of a named branch: its newest version, else its base
+ */
+export async function getBranchHead(db: Queryable, branch: any) {
+    const result = await db.query(
+        `SELECT ${HEAD_COLUMNS}
+         FROM documents
+         WHERE tenant_id = $1 AND deleted_at IS NULL
+           AND (branch_id = $2 OR id = $3)
+         ORDER BY (branch_id = $2) DESC NULLS LAST, version DESC
+         LIMIT 1`,
+        [branch.tenant_id, branch.id, branch.base_document_id]
+    );
+    return result.rows[0] || null;
+}
+
+/**
+ * The published line plus the active branches of a lineage, each with its head
+ */
+export async function listBranches(db: Queryable, tenantId: string, rootId: string, includeInactive = false) {
+    const rows = await db.query(
+        `SELECT * FROM document_branches
+         WHERE root_document_id = $1 AND tenant_id = $2 ${includeInactive ? "" : "AND status = 'active'"}
+         ORDER BY created_at ASC`,
+        [rootId, tenantId]
+    );
+
+    const branches: any[] = [{
+        id: null,
+        name: PUBLISHED_BRANCH,
+        status: "active",
+        base_document_id: null,
+        head: await getPublishedHead(db, tenantId, rootId)
+    }];
+    for (const branch of rows.rows) {
+        branches.push({ ...branch, head: branch.status === "active" ? await getBranchHead(db, branch) : null });
+    }
+    return branches;
+}
+
+/**
+ * Start a branch from a version of the lineage (the published head by default)
+ */
+export async function createBranch(
+    client: PoolClient,
+    input: { tenantId: string; rootId: string; name: string; fromVersionId: string | null; actorId: string }
+) {
+    if (input.name === PUBLISHED_BRANCH || !BRANCH_NAME_PATTERN.test(input.name)) {
+        throw new BranchError(400, "invalid_branch_name", `Branch name must match ${BRANCH_NAME_PATTERN} and not be "${PUBLISHED_BRANCH}"`);
+    }
+
+    let baseId = input.fromVersionId;
+    if (baseId) {
+        const base = await client.query(
+            `SELECT id, status FROM documents
+             WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL AND (id = $3 OR parent_document_id = $3)`,
+            [baseId, input.tenantId, input.rootId]
+        );
+        if (base.rows.length === 0) {
+            throw new BranchError(404, "not_found", "Base version not found for this document");
+        }
+        if (base.rows[0].status === "disposed") {
+            throw new BranchError(409, "disposed", "Base version has been disposed");
+        }
+    } else {
+        const head = await getPublishedHead(client, input.tenantId, input.rootId);
+        if (!head) throw new BranchError(404, "not_found", "Document not found");
+        baseId = head.id;
+    }
+
+    if (await findActiveBranch(client, input.tenantId, input.rootId, input.name)) {
+        throw new BranchError(409, "branch_exists", `Branch "${input.name}" already exists`);
+    }
+
+    const inserted = await client.query(
+        `INSERT INTO document_branches (tenant_id, root_document_id, name, base_document_id, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.tenantId, input.rootId, input.name, baseId, input.actorId]
+    );
+    return inserted.rows[0];
+}
+
+/**
+ * Make the head of a branch the latest published version and mark the branch promoted.
+ * Refused while the lineage is under legal hold or either head is in an active
+ * approval workflow, or while the head is not approved and its category or template
+ * requires approval; when the published line moved on since the branch started,
+ * `force` is required (the branch head replaces it as is, nothing is merged).
+ */
+export async function promoteBranch(
+    client: PoolClient,
+    input: { tenantId: string; rootId: string; name: string; actorId: string; force: boolean }
+) {
+    const branch = await findActiveBranch(client, input.tenantId, input.rootId, input.name, true);
+    if (!branch) {
+        throw new BranchError(404, "not_found", `Branch "${input.name}" not found`);
+    }
+
+    // Serialise with other version changes of the lineage
+    const lineage = await client.query(
+        `SELECT id, legal_hold, legal_hold_reason
+         FROM documents
+         WHERE (id = $1 OR parent_document_id = $1) AND tenant_id = $2 AND deleted_at IS NULL
+         FOR UPDATE`,
+        [input.rootId, input.tenantId]
+    );
+    const held = lineage.rows.find((r: any) => r.legal_hold === true);
+    if (held) {
+        throw new BranchError(409, "legal_hold", "Document is under legal hold; the published version cannot change", {
+            legalHoldReason: held.legal_hold_reason
+        });
+    }
+
+    const head = await getBranchHead(client, branch);
+    const published = await getPublishedHead(client, input.tenantId, input.rootId);
+    if (!head || !published) {
+        throw new BranchError(404, "not_found", "Document not found");
+    }
+    if (head.id === published.id) {
+        throw new BranchError(409, "nothing_to_promote", "Branch has no versions beyond the published version");
+    }
+    if (head.status === "rejected" || head.status === "disposed") {
+        throw new BranchError(409, "invalid_status", `Branch head is ${head.status} and cannot be published`);
+    }
+
+    for (const doc of [published, head]) {
+        const workflow = await getWorkflowState(client, input.tenantId, doc.id);
+        if (workflow.outcome === "pending" || doc.status === "pending_approval") {
+            throw new BranchError(409, "approval_in_progress", `Version ${doc.version} is in an active approval workflow`, {
+                documentId: doc.id,
+                round: workflow.round
+            });
+        }
+    }
+
+    if (head.status !== "approved" && await requiresApproval(client, input.tenantId, head.id)) {
+        throw new BranchError(409, "approval_required", `Version ${head.version} requires approval before it can be published`, {
+            documentId: head.id,
+            status: head.status
+        });
+    }
+
+    if (published.id !== branch.base_document_id && !input.force) {
+        throw new BranchError(409, "branch_diverged", "The published version changed after the branch was created; compare the versions and retry with force to replace it", {
+            baseVersionId: branch.base_document_id,
+            publishedVersionId: published.id,
+            branchHeadId: head.id
+        });
+    }
+
+    await client.query(
+        `UPDATE documents SET is_latest_version = FALSE
+         WHERE (id = $1 OR parent_document_id = $1) AND tenant_id = $2 AND id <> $3 AND is_latest_version = TRUE`,
+        [input.rootId, input.tenantId, head.id]
+    );
+    const promoted = await client.query(
+        `UPDATE documents
+         SET branch_id = NULL, is_latest_version = TRUE, status = 'published', superseded_by = NULL, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2
+         RETURNING ${HEAD_COLUMNS}`,
+        [head.id, input.tenantId]
+    );
+    await client.query(
+        `UPDATE documents SET superseded_by = $3, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [published.id, input.tenantId, head.id]
+    );
+    const updatedBranch = await client.query(
+        `UPDATE document_branches
+         SET status = 'promoted', promoted_document_id = $2, promoted_by = $3, promoted_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [branch.id, head.id, input.actorId]
+    );
+
+    return {
+        branch: updatedBranch.rows[0],
+        promoted: promoted.rows[0],
+        superseded: { id: published.id, version: published.version },
+        forced: published.id !== branch.base_document_id
+    };
+}
+
+/**
+ * Abandon a branch; its versions are kept
+ */
+export async function closeBranch(client: PoolClient, input: { tenantId: string; rootId: string; name: string }) {
+    const branch = await findActiveBranch(client, input.tenantId, input.rootId, input.name, true);
+    if (!branch) {
+        throw new BranchError(404, "not_found", `Branch "${input.name}" not found`);
+    }
+    const result = await client.query(
+        `UPDATE document_branches SET status = 'closed', closed_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [branch.id]
+    );
+    return result.rows[0];
+}
@@ -0,0 +1,205 @@
+/**
+ * Document Version Rollback
+ *
+ * Restoring a previous version never rewrites history: it creates a new latest
+ * version (max version + 1) copied from the chosen one - file reference, structured
+ * content, editor state, sections and metadata - and records the rollback in
+ * version_metadata. The replaced latest version points at it through superseded_by.
+ * The stored file and its data key are shared with the restored version, not copied;
+ * disposal (helpers/retention) keeps them while another version still uses them.
+ *
+ * Versions of a document share the root document as parent_document_id (see GET
+ * /versions); the ensure_single_latest_version trigger clears is_latest_version on
+ * the others when the new row is inserted.
+ */
+
+import { PoolClient } from "pg";
+import { getWorkflowState } from "./approvalWorkflow";
+
+/**
+ * Raised when a rollback is not allowed; routes map status/code onto the response
+ */
+export class VersionRollbackError extends Error {
+    constructor(public status: number, public code: string, message: string, public details: any = null) {
+        super(message);
+        this.name = "VersionRollbackError";
+    }
+}
+
+// Copied from the restored version; everything else is set for the new version
+const COPIED_COLUMNS = [
+    "document_number", "title", "description", "entity_type", "entity_id", "category", "tags",
+    "file_name", "file_size", "file_type", "file_path", "file_hash", "mime_type",
+    "is_encrypted", "encryption_key_id",
+    "issue_date", "expiry_date", "renewal_required", "renewal_period_days", "grace_period_days",
+    "auto_archive_on_expiry", "contains_pii", "contains_phi", "sensitivity_level",
+    "retention_period_years", "custom_metadata",
+    "structured_content", "content_format", "editor_state", "content_hash",
+    "template_id", "template_version",
+];
+
+export type RollbackInput = {
+    tenantId: string;
+    documentId: string; // any version of the document
+    versionId: string; // the version to restore
+    reason: string;
+    actorId: string;
+};
+
+export type RollbackResult = {
+    newVersion: any;
+    restoredVersion: { id: string; version: number };
+    supersededVersion: { id: string; version: number };
+    sectionsCopied: number;
+};
+
+/**
+ * Versions of the document's chain with the current latest one locked; the version to
+ * restore must belong to the same chain
+ */
+async function loadChain(client: PoolClient, input: RollbackInput) {
+    const rootResult = await client.query(
+        `SELECT COALESCE(parent_document_id, id) AS root_id
+         FROM documents
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL`,
+        [input.documentId, input.tenantId]
+    );
+    if (rootResult.rows.length === 0) {
+        throw new VersionRollbackError(404, "not_found", "Document not found");
+    }
+    const rootId = rootResult.rows[0].root_id;
+
+    const chain = await client.query(
+        `SELECT id, version, status, legal_hold, legal_hold_reason, is_latest_version, branch_id
+         FROM documents
+         WHERE (id = $1 OR parent_document_id = $1) AND tenant_id = $2 AND deleted_at IS NULL
+         ORDER BY version DESC
+         FOR UPDATE`,
+        [rootId, input.tenantId]
+    );
+
+    // Head of the published line; versions on named branches are never latest
+    const latest = chain.rows.find((r: any) => r.is_latest_version) || chain.rows.find((r: any) => !r.branch_id) || chain.rows[0];
+    const target = chain.rows.find((r: any) => r.id === input.versionId);
+    if (!target) {
+        throw new VersionRollbackError(404, "not_found", "Version not found for this document");
+    }
+    return { rootId, latest, target, maxVersion: chain.rows[0].version as number, chain: chain.rows };
+}
+
+/**
+ * Create a new latest version from a previous one (inside the caller's transaction)
+ */
+export async function rollbackToVersion(client: PoolClient, input: RollbackInput): Promise<RollbackResult> {
+    const { rootId, latest, target, maxVersion, chain } = await loadChain(client, input);
+
+    if (target.id === latest.id) {
+        throw new VersionRollbackError(409, "already_latest", "Version is already the latest version");
+    }
+    if (target.status === "disposed") {
+        throw new VersionRollbackError(409, "disposed", "Version has been disposed; its content no longer exists");
+    }
+
+    // A hold preserves every version as it is, including which one is current
+    const held = chain.find((r: any) => r.legal_hold === true);
+    if (held) {
+        throw new VersionRollbackError(409, "legal_hold", "Document is under legal hold; versions cannot be rolled back", {
+            legalHoldReason: held.legal_hold_reason
+        });
+    }
+
+    const workflow = await getWorkflowState(client, input.tenantId, latest.id);
+    if (workflow.outcome === "pending" || latest.status === "pending_approval") {
+        throw new VersionRollbackError(409, "approval_in_progress", "Latest version is in an active approval workflow", {
+            round: workflow.round,
+            currentLevel: workflow.currentLevel
+        });
+    }
+
+    const newVersionNumber = maxVersion + 1;
+    const versionMetadata = {
+        versionNumber: newVersionNumber,
+        changeType: "rollback",
+        changeSummary: `Rollback to version ${target.version}`,
+        changeDescription: input.reason,
+        rollbackReason: input.reason,
+        restoredFromVersionId: target.id,
+        restoredFromVersionNumber: target.version,
+        parentVersionId: latest.id,
+        parentVersionNumber: latest.version,
+        isLatestVersion: true,
+        isDraft: true,
+        isPublished: false,
+        createdBy: input.actorId,
+        createdAt: new Date().toISOString()
+    };
+
+    const inserted = await client.query(
+        `INSERT INTO documents (
+            tenant_id, ${COPIED_COLUMNS.join(", ")},
+            version, version_metadata, parent_document_id, is_latest_version,
+            change_summary, status, created_by
+        )
+        SELECT
+            tenant_id, ${COPIED_COLUMNS.join(", ")},
+            $3, $4, $5, TRUE,
+            $6, 'draft', $7
+        FROM documents
+        WHERE id = $1 AND tenant_id = $2
+        RETURNING id, version, version_metadata, is_latest_version, status, created_at, updated_at`,
+        [
+            target.id,
+            input.tenantId,
+            newVersionNumber,
+            JSON.stringify(versionMetadata),
+            rootId,
+            `Rollback to version ${target.version}`,
+            input.actorId
+        ]
+    );
+    const newVersion = inserted.rows[0];
+
+    await client.query(
+        `UPDATE documents SET superseded_by = $3, updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $2`,
+        [latest.id, input.tenantId, newVersion.id]
+    );
+
+    // Latest version of each section of the restored version becomes version 1 of the new one;
+    // sections whose latest row is 'removed' did not exist in that version
+    const sections = await client.query(
+        `INSERT INTO document_sections (
+            document_id, tenant_id, section_id, version_number, title, title_ar, section_type,
+            content, content_html, order_index, level, parent_section_id, adhics_reference,
+            mcp_requirement_id, is_required, is_completed, compliance_status, compliance_issues,
+            compliance_suggestions, last_mcp_check, change_type, change_summary, change_reason, created_by
+        )
+        SELECT
+            $3, tenant_id, section_id, 1, title, title_ar, section_type,
+            content, content_html, order_index, level, parent_section_id, adhics_reference,
+            mcp_requirement_id, is_required, is_completed, compliance_status, compliance_issues,
+            compliance_suggestions, last_mcp_check, 'added', $4, $5, $6
+        FROM (
+            SELECT DISTINCT ON (section_id) *
+            FROM document_sections
+            WHERE document_id = $1 AND tenant_id = $2
+            ORDER BY section_id, version_number DESC
+        ) s
+        WHERE s.change_type IS DISTINCT FROM 'removed'`,
+        [
+            target.id,
+            input.tenantId,
+            newVersion.id,
+            `Restored from version ${target.version}`,
+            input.reason,
+            input.actorId
+        ]
+    );
+
+    return {
+        newVersion,
+        restoredVersion: { id: target.id, version: target.version },
+        supersededVersion: { id: latest.id, version: latest.version },
+        sectionsCopied: sections.rowCount || 0
+    };
+}
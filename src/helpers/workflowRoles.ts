@@ -0,0 +1,374 @@
+/**
+ * Document Workflow Roles
+ *
+ * Role assignments on a document (document_workflow_roles) worked in sequence_order:
+ * a role is actionable once every role of a lower sequence is closed; roles sharing a
+ * sequence act together when is_parallel, otherwise one after another. A rejection
+ * closes the workflow (remaining open roles are skipped).
+ *
+ * The validate_workflow_role_eligibility trigger (migration 019) refuses to insert or
+ * update a security_officer role whose user is not an active employee with completed
+ * ADHICS security training. checkEligibility runs the same checks up front so callers
+ * get the reasons as data, and guards delegation, which the trigger does not see.
+ */
+
+import { Pool, PoolClient } from "pg";
+
+type Queryable = Pool | PoolClient;
+
+export type WorkflowRoleType =
+    | "creator" | "reviewer" | "approver" | "signatory"
+    | "security_officer" | "legal_counsel" | "department_head";
+
+export const WORKFLOW_ROLE_TYPES: WorkflowRoleType[] = [
+    "creator", "reviewer", "approver", "signatory", "security_officer", "legal_counsel", "department_head",
+];
+
+// Roles the eligibility trigger enforces
+export const ELIGIBILITY_ENFORCED_ROLES: WorkflowRoleType[] = ["security_officer"];
+
+// delegated = awaiting the delegate, escalated = awaiting the escalation target
+const OPEN_STATUSES = ["pending", "in_progress", "delegated", "escalated"];
+
+// Training that qualifies for security_officer (same filter as the trigger)
+const QUALIFYING_TRAINING_TYPES = ["security-awareness", "compliance"];
+
+/**
+ * Raised for role rule violations; routes map status/code onto the response
+ */
+export class WorkflowRoleError extends Error {
+    constructor(public status: number, public code: string, message: string, public details: any = null) {
+        super(message);
+        this.name = "WorkflowRoleError";
+    }
+}
+
+export type EligibilityResult = {
+    userId: string;
+    roleType: WorkflowRoleType;
+    eligible: boolean;
+    enforced: boolean;
+    checks: {
+        employeeFound: boolean;
+        employeeActive: boolean;
+        trainingComplete: boolean | null; // null when the role does not require training
+    };
+    errors: string[];
+};
+
+export function isOpenRole(row: any): boolean {
+    return OPEN_STATUSES.includes(row.status);
+}
+
+/**
+ * The user currently expected to act on a role
+ */
+export function actingUserOf(row: any): string {
+    return String(row.delegated_to || row.user_id).toLowerCase();
+}
+
+/**
+ * Eligibility of users for a role type. Only enforced roles can be refused; for the
+ * others an unknown or inactive employee is reported but not an error.
+ */
+export async function checkEligibility(
+    db: Queryable,
+    tenantId: string,
+    roleType: WorkflowRoleType,
+    userIds: string[]
+): Promise<EligibilityResult[]> {
+    const enforced = ELIGIBILITY_ENFORCED_ROLES.includes(roleType);
+
+    const result = await db.query(
+        `SELECT u.user_id, e.id AS employee_id, e.employment_status,
+                EXISTS (
+                    SELECT 1 FROM training_records t
+                    WHERE t.employee_id = u.user_id
+                      AND t.training_type = ANY($3::text[])
+                      AND t.training_status = 'completed'
+                      AND t.completion_date IS NOT NULL
+                      AND t.adhics_compliant = TRUE
+                      AND t.deleted_at IS NULL
+                ) AS training_complete
+         FROM unnest($2::uuid[]) AS u(user_id)
+         LEFT JOIN employees e ON e.id = u.user_id AND e.tenant_id = $1`,
+        [tenantId, userIds, QUALIFYING_TRAINING_TYPES]
+    );
+    const byUser = new Map(result.rows.map((r: any) => [String(r.user_id).toLowerCase(), r]));
+
+    return userIds.map(userId => {
+        const row: any = byUser.get(userId.toLowerCase());
+        const employeeFound = !!row?.employee_id;
+        const employeeActive = employeeFound && row.employment_status === "active";
+        const trainingComplete = enforced ? !!row?.training_complete : null;
+
+        // Same messages as the trigger
+        const errors: string[] = [];
+        if (!employeeFound) {
+            errors.push("Employee not found");
+        } else {
+            if (!employeeActive) errors.push("Employee is not active");
+            if (enforced && !trainingComplete) errors.push("Required ADHICS security training not completed");
+        }
+
+        return {
+            userId,
+            roleType,
+            eligible: errors.length === 0,
+            enforced,
+            checks: { employeeFound, employeeActive, trainingComplete },
+            errors
+        };
+    });
+}
+
+/**
+ * Turn the eligibility trigger's exception into a WorkflowRoleError (other errors are
+ * returned unchanged)
+ */
+export function mapEligibilityException(err: any): any {
+    const match = typeof err?.message === "string"
+        ? err.message.match(/^User (\S+) is not eligible for (\w+) role: (.*)$/)
+        : null;
+    if (err?.code !== "P0001" || !match) return err;
+
+    return new WorkflowRoleError(422, "not_eligible", `User is not eligible for the ${match[2]} role`, {
+        userId: match[1],
+        roleType: match[2],
+        errors: match[3].split("; ").filter(Boolean)
+    });
+}
+
+/**
+ * Roles of a document in workflow order, each flagged actionable
+ */
+export async function listRoles(db: Queryable, tenantId: string, documentId: string, forUpdate = false) {
+    const result = await db.query(
+        `SELECT * FROM document_workflow_roles
+         WHERE document_id = $1 AND tenant_id = $2
+         ORDER BY sequence_order ASC, created_at ASC, id ASC
+         ${forUpdate ? "FOR UPDATE" : ""}`,
+        [documentId, tenantId]
+    );
+    return withActionable(result.rows);
+}
+
+/**
+ * Flag the open roles that can act now
+ */
+export function withActionable(rows: any[]): any[] {
+    const rejected = rows.some(r => r.status === "rejected");
+    const open = rows.filter(isOpenRole);
+    const activeSequence = open.length > 0 ? Math.min(...open.map(r => r.sequence_order)) : null;
+
+    // In the active sequence, the parallel roles plus the first open sequential one act
+    const activeRows = open.filter(r => r.sequence_order === activeSequence);
+    const firstSequential = activeRows.find(r => !r.is_parallel);
+
+    return rows.map(row => ({
+        ...row,
+        actionable: !rejected && isOpenRole(row) && row.sequence_order === activeSequence
+            && (row.is_parallel === true || row === firstSequential)
+    }));
+}
+
+/**
+ * Summary of the role workflow
+ */
+export function workflowSummary(rows: any[]) {
+    const open = rows.filter(isOpenRole);
+    const outcome = rows.length === 0
+        ? "not_started"
+        : rows.some(r => r.status === "rejected")
+            ? "rejected"
+            : open.length > 0 ? "in_progress" : "completed";
+
+    return {
+        outcome,
+        currentSequence: open.length > 0 ? Math.min(...open.map(r => r.sequence_order)) : null,
+        totalRoles: rows.length,
+        openRoles: open.length
+    };
+}
+
+export type RoleAssignment = {
+    roleType: WorkflowRoleType;
+    userId: string;
+    sequenceOrder: number;
+    isParallel: boolean;
+    dueDate: string | null;
+};
+
+/**
+ * Assign roles (inside the caller's transaction). Every assignment of an enforced role
+ * is pre-checked; nothing is inserted when one of them is not eligible.
+ */
+export async function assignRoles(
+    client: PoolClient,
+    input: { tenantId: string; documentId: string; roles: RoleAssignment[]; actorId: string }
+) {
+    const ineligible: EligibilityResult[] = [];
+    for (const roleType of ELIGIBILITY_ENFORCED_ROLES) {
+        const users = input.roles.filter(r => r.roleType === roleType).map(r => r.userId);
+        if (users.length === 0) continue;
+        const results = await checkEligibility(client, input.tenantId, roleType, users);
+        ineligible.push(...results.filter(r => !r.eligible));
+    }
+    if (ineligible.length > 0) {
+        throw new WorkflowRoleError(422, "not_eligible", "One or more users are not eligible for the assigned role", {
+            eligibility: ineligible
+        });
+    }
+
+    const created: any[] = [];
+    for (const role of input.roles) {
+        try {
+            const inserted = await client.query(
+                `INSERT INTO document_workflow_roles (
+                    document_id, tenant_id, role_type, user_id, sequence_order, is_parallel, due_date, created_by
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                RETURNING *`,
+                [
+                    input.documentId,
+                    input.tenantId,
+                    role.roleType,
+                    role.userId,
+                    role.sequenceOrder,
+                    role.isParallel,
+                    role.dueDate,
+                    input.actorId
+                ]
+            );
+            created.push(inserted.rows[0]);
+        } catch (err) {
+            throw mapEligibilityException(err);
+        }
+    }
+    return created;
+}
+
+/**
+ * Change sequence_order / is_parallel of open roles (inside the caller's transaction)
+ */
+export async function reorderRoles(
+    client: PoolClient,
+    input: { tenantId: string; documentId: string; order: Array<{ id: string; sequenceOrder: number; isParallel?: boolean }> }
+) {
+    const rows = await listRoles(client, input.tenantId, input.documentId, true);
+    const byId = new Map(rows.map(r => [r.id, r]));
+
+    for (const entry of input.order) {
+        const row = byId.get(entry.id);
+        if (!row) {
+            throw new WorkflowRoleError(404, "not_found", `Workflow role ${entry.id} not found on this document`);
+        }
+        if (!isOpenRole(row)) {
+            throw new WorkflowRoleError(409, "role_closed", `Workflow role ${entry.id} is already ${row.status}`);
+        }
+    }
+
+    for (const entry of input.order) {
+        try {
+            await client.query(
+                `UPDATE document_workflow_roles
+                 SET sequence_order = $3, is_parallel = COALESCE($4, is_parallel), updated_at = NOW()
+                 WHERE id = $1 AND tenant_id = $2`,
+                [entry.id, input.tenantId, entry.sequenceOrder, entry.isParallel ?? null]
+            );
+        } catch (err) {
+            throw mapEligibilityException(err);
+        }
+    }
+
+    return listRoles(client, input.tenantId, input.documentId);
+}
+
+export type RoleActionInput = {
+    tenantId: string;
+    documentId: string;
+    roleId: string;
+    action: "complete" | "reject" | "delegate";
+    actorId: string | null;
+    comments?: string | null;
+    rejectionReason?: string | null;
+    delegateTo?: string | null;
+    delegationReason?: string | null;
+};
+
+/**
+ * Complete, reject or delegate an actionable role (inside the caller's transaction).
+ * System callers (no X-User-Id) may act on behalf of the assigned user.
+ */
+export async function actOnRole(client: PoolClient, input: RoleActionInput) {
+    const rows = await listRoles(client, input.tenantId, input.documentId, true);
+    const role = rows.find(r => r.id === input.roleId);
+
+    if (!role) {
+        throw new WorkflowRoleError(404, "not_found", "Workflow role not found");
+    }
+    if (!isOpenRole(role)) {
+        throw new WorkflowRoleError(409, "role_closed", `Workflow role already ${role.status}`);
+    }
+    if (!role.actionable) {
+        throw new WorkflowRoleError(409, "role_not_active", `Workflow role is not active yet (sequence ${role.sequence_order})`);
+    }
+    if (input.actorId && input.actorId.toLowerCase() !== actingUserOf(role)) {
+        throw new WorkflowRoleError(403, "not_assigned_user", "Actor is not the user assigned to this role");
+    }
+    if (input.action === "complete" && role.role_type === "signatory") {
+        throw new WorkflowRoleError(409, "signature_required", "Signatory roles are completed by signing (PUT /:roleId/sign)");
+    }
+
+    let updated;
+    try {
+        if (input.action === "delegate") {
+            const delegateTo = String(input.delegateTo || "");
+            if (delegateTo.toLowerCase() === actingUserOf(role)) {
+                throw new WorkflowRoleError(400, "bad_request", "Cannot delegate a role to its current assignee");
+            }
+            const [eligibility] = await checkEligibility(client, input.tenantId, role.role_type, [delegateTo]);
+            if (eligibility.enforced && !eligibility.eligible) {
+                throw new WorkflowRoleError(422, "not_eligible", `Delegate is not eligible for the ${role.role_type} role`, {
+                    eligibility: [eligibility]
+                });
+            }
+
+            updated = await client.query(
+                `UPDATE document_workflow_roles
+                 SET status = 'delegated', delegated_to = $3, delegated_at = NOW(), delegation_reason = $4, updated_at = NOW()
+                 WHERE id = $1 AND tenant_id = $2
+                 RETURNING *`,
+                [role.id, input.tenantId, delegateTo, input.delegationReason || null]
+            );
+        } else {
+            updated = await client.query(
+                `UPDATE document_workflow_roles
+                 SET status = $3, action_date = NOW(), action_comments = $4, rejection_reason = $5, updated_at = NOW()
+                 WHERE id = $1 AND tenant_id = $2
+                 RETURNING *`,
+                [
+                    role.id,
+                    input.tenantId,
+                    input.action === "complete" ? "completed" : "rejected",
+                    input.comments || null,
+                    input.action === "reject" ? input.rejectionReason || null : null
+                ]
+            );
+
+            if (input.action === "reject") {
+                // Short-circuit: nothing else in the workflow needs to act
+                await client.query(
+                    `UPDATE document_workflow_roles
+                     SET status = 'skipped', updated_at = NOW()
+                     WHERE document_id = $1 AND tenant_id = $2 AND id <> $3 AND status = ANY($4::text[])`,
+                    [input.documentId, input.tenantId, role.id, OPEN_STATUSES]
+                );
+            }
+        }
+    } catch (err) {
+        throw mapEligibilityException(err);
+    }
+
+    const all = await listRoles(client, input.tenantId, input.documentId);
+    return { role: all.find(r => r.id === role.id), roles: all, workflow: workflowSummary(all) };
+}
@@ -0,0 +1,282 @@
+// Approval SLA monitor (see helpers/approvalSla for the tenant settings).
+// Periodically sweeps outstanding approvals with a due_date that are on the active level
+// of their document's current workflow round and:
+//  - reminds the acting approver reminder_hours_before the due date (once; reminder_sent_at),
+//  - escalates pending approvals escalation_grace_hours past due to the approver's manager
+//    or the tenant's default escalation user, and notifies the new approver.
+// Approvals that are already escalated are not escalated again. An approval with no
+// escalation target gets one overdue reminder instead (overdue_notified_at) and is not
+// retried until the tenant's SLA settings change.
+import { pool } from "../lib/db";
+import { CONFIG } from "../config";
+import { recordAudit } from "../helpers/audit";
+import { enqueueNotification, NotificationInput } from "../helpers/notifications";
+import { actingApproverOf, getWorkflowState } from "../helpers/approvalWorkflow";
+import { resolveEscalationTarget } from "../helpers/approvalSla";
+
+let timer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+export type ApprovalSlaSweepResult = {
+    approvals: number;
+    reminders: number;
+    escalated: number;
+    noTarget: number;
+};
+
+async function notifyUser(
+    approval: any,
+    recipientId: string,
+    input: Omit<NotificationInput, "tenantId" | "documentId" | "recipientId" | "recipientEmail" | "recipientRole">
+) {
+    const user = await pool.query(
+        "SELECT email, role FROM agent_users WHERE id = $1 AND tenant_id = $2",
+        [recipientId, approval.tenant_id]
+    );
+    return enqueueNotification({
+        tenantId: approval.tenant_id,
+        documentId: approval.document_id,
+        recipientId,
+        recipientEmail: user.rows[0]?.email ?? null,
+        recipientRole: user.rows[0]?.role ?? null,
+        ...input,
+        metadata: {
+            source: "approval_sla_monitor",
+            approval_id: approval.id,
+            due_date: approval.due_date_text,
+            ...(input.metadata || {}),
+        },
+    });
+}
+
+async function sendReminder(approval: any): Promise<boolean> {
+    const recipientId = actingApproverOf(approval);
+    const overdue = approval.overdue === true;
+
+    const id = await notifyUser(approval, recipientId, {
+        type: "approval_requested",
+        title: overdue ? "Approval overdue" : "Approval due soon",
+        message: overdue
+            ? `Your approval of "${approval.title}" was due on ${approval.due_date_text}.`
+            : `Your approval of "${approval.title}" is due on ${approval.due_date_text}.`,
+        priority: overdue ? "urgent" : "high",
+        dedupeKey: `approval_reminder:${approval.id}:${approval.due_date_text}:${recipientId}`,
+    });
+
+    await pool.query(
+        "UPDATE document_approvals SET reminder_sent_at = NOW(), updated_at = NOW() WHERE id = $1",
+        [approval.id]
+    );
+    return id !== null;
+}
+
+async function sendOverdueReminder(approval: any): Promise<boolean> {
+    const recipientId = actingApproverOf(approval);
+
+    const id = await notifyUser(approval, recipientId, {
+        type: "approval_requested",
+        title: "Approval overdue",
+        message: `Your approval of "${approval.title}" was due on ${approval.due_date_text} and could not be escalated.`,
+        priority: "urgent",
+        dedupeKey: `approval_overdue:${approval.id}:${approval.due_date_text}:${recipientId}`,
+    });
+
+    await pool.query(
+        // Stands in for the pre-due reminder too, so the row does not come back as a reminder candidate
+        `UPDATE document_approvals
+         SET overdue_notified_at = NOW(), reminder_sent_at = COALESCE(reminder_sent_at, NOW()), updated_at = NOW()
+         WHERE id = $1`,
+        [approval.id]
+    );
+    return id !== null;
+}
+
+async function escalate(approval: any): Promise<"escalated" | "no_target" | null> {
+    const actingId = actingApproverOf(approval);
+    const target = await resolveEscalationTarget(pool, approval.tenant_id, approval.approver_id, actingId, approval);
+    if (!target) return "no_target";
+
+    const reason = `SLA breached: approval was due on ${approval.due_date_text}`;
+    const updated = await pool.query(
+        `UPDATE document_approvals
+         SET status = 'escalated', escalated_to = $1, escalated_at = NOW(), escalation_reason = $2,
+             auto_escalated = TRUE, updated_at = NOW()
+         WHERE id = $3 AND tenant_id = $4 AND status = 'pending'
+         RETURNING id`,
+        [target.userId, reason, approval.id, approval.tenant_id]
+    );
+    // Decided or escalated by hand since the sweep read it
+    if (updated.rows.length === 0) return null;
+
+    await enqueueNotification({
+        tenantId: approval.tenant_id,
+        documentId: approval.document_id,
+        type: "approval_requested",
+        recipientId: target.userId,
+        recipientEmail: target.email,
+        recipientRole: target.role,
+        title: "Overdue approval escalated to you",
+        message: `The approval of "${approval.title}" was due on ${approval.due_date_text} and has been escalated to you.`,
+        priority: "urgent",
+        dedupeKey: `approval_escalated:${approval.id}:${target.userId}`,
+        metadata: {
+            source: "approval_sla_monitor",
+            approval_id: approval.id,
+            due_date: approval.due_date_text,
+            escalated_from: actingId,
+            escalation_source: target.source,
+        },
+    });
+
+    await recordAudit({
+        tenantId: approval.tenant_id,
+        actorRole: "system",
+        action: "update",
+        resource: "documents",
+        eventCategory: "compliance",
+        targetId: approval.id,
+        targetType: "document_approval",
+        targetName: "Approval auto-escalated (SLA breached)",
+        outcome: "success",
+        changes: {
+            status: { from: approval.status, to: "escalated" },
+            escalated_to: { from: approval.escalated_to, to: target.userId },
+        },
+        metadata: {
+            source: "approval_sla_monitor",
+            document_id: approval.document_id,
+            approver_id: approval.approver_id,
+            due_date: approval.due_date_text,
+            escalation_source: target.source,
+        },
+    });
+    return "escalated";
+}
+
+async function processApproval(approval: any, result: ApprovalSlaSweepResult) {
+    if (approval.escalation_due && approval.auto_escalate && approval.status === "pending") {
+        const outcome = await escalate(approval);
+        if (outcome === "escalated") {
+            result.escalated++;
+            return;
+        }
+        if (outcome === null) return;
+        result.noTarget++;
+        if (await sendOverdueReminder(approval)) result.reminders++;
+        return;
+    }
+
+    if (!approval.reminder_sent_at && approval.reminder_due) {
+        if (await sendReminder(approval)) result.reminders++;
+    }
+}
+
+/**
+ * One sweep over every tenant. Guarded by an advisory lock so only one agent instance sweeps at a time.
+ */
+export async function runApprovalSlaSweep(): Promise<ApprovalSlaSweepResult | null> {
+    const lockClient = await pool.connect();
+    try {
+        const lock = await lockClient.query("SELECT pg_try_advisory_lock(hashtext('approval_sla_monitor')) AS locked");
+        if (!lock.rows[0].locked) return null;
+
+        try {
+            const result: ApprovalSlaSweepResult = { approvals: 0, reminders: 0, escalated: 0, noTarget: 0 };
+            const candidates = await pool.query(
+                `SELECT * FROM (
+                    SELECT
+                        a.id,
+                        a.tenant_id,
+                        a.document_id,
+                        a.approver_id,
+                        a.delegated_to,
+                        a.escalated_to,
+                        a.status,
+                        a.reminder_sent_at,
+                        a.overdue_notified_at,
+                        s.updated_at AS settings_updated_at,
+                        to_char(a.due_date AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"') AS due_date_text,
+                        d.title,
+                        a.due_date < NOW() AS overdue,
+                        a.due_date - make_interval(hours => COALESCE(s.reminder_hours_before, $1)) <= NOW() AS reminder_due,
+                        a.due_date + make_interval(hours => COALESCE(s.escalation_grace_hours, $2)) <= NOW() AS escalation_due,
+                        COALESCE(s.auto_escalate, $3) AS auto_escalate,
+                        COALESCE(s.escalation_target, 'manager') AS escalation_target,
+                        s.default_escalation_user_id
+                    FROM document_approvals a
+                    JOIN documents d ON d.id = a.document_id AND d.tenant_id = a.tenant_id
+                    LEFT JOIN approval_sla_settings s ON s.tenant_id = a.tenant_id
+                    WHERE a.status IN ('pending', 'escalated')
+                      AND a.due_date IS NOT NULL
+                      AND d.deleted_at IS NULL
+                      AND a.workflow_round = (
+                          SELECT MAX(r.workflow_round) FROM document_approvals r
+                          WHERE r.document_id = a.document_id AND r.tenant_id = a.tenant_id
+                      )
+                 ) c
+                 WHERE (c.reminder_sent_at IS NULL AND c.reminder_due)
+                    OR (c.status = 'pending' AND c.auto_escalate AND c.escalation_due
+                        AND (c.overdue_notified_at IS NULL OR c.settings_updated_at > c.overdue_notified_at))
+                 ORDER BY c.document_id`,
+                [CONFIG.APPROVAL_REMINDER_HOURS, CONFIG.APPROVAL_ESCALATION_GRACE_HOURS, CONFIG.APPROVAL_AUTO_ESCALATE]
+            );
+
+            // Later levels of a sequential workflow are not waiting on their approver yet
+            const actionable = new Map<string, Set<string>>();
+            for (const approval of candidates.rows) {
+                if (stopped) break;
+                try {
+                    let ids = actionable.get(approval.document_id);
+                    if (!ids) {
+                        const state = await getWorkflowState(pool, approval.tenant_id, approval.document_id);
+                        ids = new Set(state.pendingApprovers.map(p => p.approvalId));
+                        actionable.set(approval.document_id, ids);
+                    }
+                    if (!ids.has(approval.id)) continue;
+
+                    await processApproval(approval, result);
+                    result.approvals++;
+                } catch (err) {
+                    // One bad row must not stall the sweep for every other approval
+                    console.error(`[ApprovalSLA] Failed to process approval ${approval.id}:`, err);
+                }
+            }
+            return result;
+        } finally {
+            await lockClient.query("SELECT pg_advisory_unlock(hashtext('approval_sla_monitor'))");
+        }
+    } finally {
+        lockClient.release();
+    }
+}
+
+function schedule(delayMs: number) {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+        try {
+            const result = await runApprovalSlaSweep();
+            if (result && (result.reminders > 0 || result.escalated > 0 || result.noTarget > 0)) {
+                console.log(
+                    `[ApprovalSLA] Sweep: ${result.approvals} approvals, ${result.reminders} reminders queued, ` +
+                    `${result.escalated} escalated, ${result.noTarget} without an escalation target`
+                );
+            }
+        } catch (err: any) {
+            console.error("[ApprovalSLA] Sweep failed:", err?.message || err);
+        }
+        schedule(CONFIG.APPROVAL_SLA_INTERVAL_MS);
+    }, delayMs);
+}
+
+export function startApprovalSlaMonitor() {
+    if (!CONFIG.APPROVAL_SLA_ENABLED) return;
+    stopped = false;
+    console.log(`[ApprovalSLA] Monitor running every ${Math.round(CONFIG.APPROVAL_SLA_INTERVAL_MS / 60000)} min`);
+    // First sweep shortly after startup, then on the interval
+    schedule(15_000);
+}
+
+export function stopApprovalSlaMonitor() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+}
@@ -0,0 +1,233 @@
+// Document expiry and renewal scheduler (ADHICS DP: expired certificates/contracts).
+// Periodically sweeps latest document versions with an expiry_date and:
+//  - queues expiry_warning_90/60/30/7 for the window the document is currently in,
+//  - queues renewal_required once renewal_period_days before expiry,
+//  - queues expired / grace_period_ending around the grace period,
+//  - flips status to 'expired' (or 'archived' with auto_archive_on_expiry) once the grace period is over.
+// Every notification carries a dedupe key bound to the expiry_date, so each fires once per window
+// and again only after the document is renewed with a new expiry date.
+import { pool } from "../lib/db";
+import { CONFIG } from "../config";
+import { recordAudit } from "../helpers/audit";
+import { enqueueNotification, NotificationInput } from "../helpers/notifications";
+
+const WARNING_WINDOWS: { days: number; priority: NotificationInput["priority"] }[] = [
+    { days: 7, priority: "urgent" },
+    { days: 30, priority: "high" },
+    { days: 60, priority: "normal" },
+    { days: 90, priority: "low" },
+];
+
+// Warn about the end of the grace period this many days ahead
+const GRACE_ENDING_NOTICE_DAYS = 7;
+
+let timer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+export type ExpirySweepResult = {
+    documents: number;
+    notifications: number;
+    expired: number;
+    archived: number;
+};
+
+async function notifyOwner(doc: any, input: Omit<NotificationInput, "tenantId" | "documentId" | "recipientId" | "recipientEmail" | "recipientRole">) {
+    return enqueueNotification({
+        tenantId: doc.tenant_id,
+        documentId: doc.id,
+        recipientId: doc.created_by,
+        recipientEmail: doc.owner_email,
+        recipientRole: doc.owner_role,
+        ...input,
+        metadata: {
+            source: "expiry_scheduler",
+            expiry_date: doc.expiry_date,
+            days_remaining: doc.days_left,
+            ...(input.metadata || {}),
+        },
+    });
+}
+
+async function expireDocument(doc: any): Promise<"expired" | "archived" | null> {
+    const newStatus = doc.auto_archive_on_expiry ? "archived" : "expired";
+    const result = await pool.query(
+        `UPDATE documents
+         SET status = $1, updated_at = NOW()
+         WHERE id = $2 AND tenant_id = $3 AND deleted_at IS NULL
+           AND status NOT IN ('expired', 'archived', 'disposed')
+         RETURNING id`,
+        [newStatus, doc.id, doc.tenant_id]
+    );
+    if (result.rows.length === 0) return null;
+
+    await recordAudit({
+        tenantId: doc.tenant_id,
+        actorRole: "system",
+        action: "update",
+        resource: "documents",
+        eventCategory: "compliance",
+        targetId: doc.id,
+        targetName: newStatus === "archived" ? "Auto-archived on expiry" : "Expired after grace period",
+        outcome: "success",
+        changes: { status: { from: doc.status, to: newStatus } },
+        metadata: { source: "expiry_scheduler", expiry_date: doc.expiry_date, grace_period_days: doc.grace_period_days }
+    });
+    return newStatus;
+}
+
+async function processDocument(doc: any, result: ExpirySweepResult) {
+    const daysLeft = Number(doc.days_left);
+    const graceDays = Number(doc.grace_period_days);
+    const keyBase = `${doc.id}:${doc.expiry_date}:${doc.created_by}`;
+    const queued: (string | null)[] = [];
+
+    if (daysLeft >= 0) {
+        // Only the tightest window applies: a document first seen 20 days out gets the 30-day warning, not 90/60
+        const window = WARNING_WINDOWS.find(w => daysLeft <= w.days);
+        if (window) {
+            queued.push(await notifyOwner(doc, {
+                type: `expiry_warning_${window.days}` as NotificationInput["type"],
+                title: `Document expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`,
+                message: `"${doc.title}" expires on ${doc.expiry_date}.`,
+                priority: window.priority,
+                dedupeKey: `expiry_warning_${window.days}:${keyBase}`,
+                metadata: { window_days: window.days },
+            }));
+        }
+
+        if (doc.renewal_required && doc.renewal_period_days != null && daysLeft <= Number(doc.renewal_period_days)) {
+            const id = await notifyOwner(doc, {
+                type: "renewal_required",
+                title: "Document renewal required",
+                message: `"${doc.title}" must be renewed before ${doc.expiry_date}.`,
+                priority: "high",
+                dedupeKey: `renewal_required:${keyBase}`,
+            });
+            if (id) {
+                await pool.query(
+                    "UPDATE documents SET last_renewal_notification_date = CURRENT_DATE WHERE id = $1",
+                    [doc.id]
+                );
+            }
+            queued.push(id);
+        }
+    } else {
+        const graceLeft = daysLeft + graceDays;
+
+        queued.push(await notifyOwner(doc, {
+            type: "expired",
+            title: "Document expired",
+            message: graceDays > 0 && graceLeft >= 0
+                ? `"${doc.title}" expired on ${doc.expiry_date}; the grace period ends in ${graceLeft} day${graceLeft === 1 ? "" : "s"}.`
+                : `"${doc.title}" expired on ${doc.expiry_date}.`,
+            priority: "urgent",
+            dedupeKey: `expired:${keyBase}`,
+        }));
+
+        if (graceDays > 0 && graceLeft >= 0 && graceLeft <= GRACE_ENDING_NOTICE_DAYS) {
+            queued.push(await notifyOwner(doc, {
+                type: "grace_period_ending",
+                title: "Grace period ending",
+                message: `The grace period for "${doc.title}" ends in ${graceLeft} day${graceLeft === 1 ? "" : "s"}.`,
+                priority: "urgent",
+                dedupeKey: `grace_period_ending:${keyBase}`,
+                metadata: { grace_days_remaining: graceLeft },
+            }));
+        }
+
+        if (graceLeft < 0) {
+            const status = await expireDocument(doc);
+            if (status === "expired") result.expired++;
+            if (status === "archived") result.archived++;
+        }
+    }
+
+    result.notifications += queued.filter(Boolean).length;
+}
+
+/**
+ * One sweep over every tenant. Guarded by an advisory lock so only one agent instance sweeps at a time.
+ */
+export async function runExpirySweep(): Promise<ExpirySweepResult | null> {
+    const lockClient = await pool.connect();
+    try {
+        const lock = await lockClient.query("SELECT pg_try_advisory_lock(hashtext('expiry_scheduler')) AS locked");
+        if (!lock.rows[0].locked) return null;
+
+        try {
+            const result: ExpirySweepResult = { documents: 0, notifications: 0, expired: 0, archived: 0 };
+            const candidates = await pool.query(
+                `SELECT
+                    d.id,
+                    d.tenant_id,
+                    d.title,
+                    d.status,
+                    d.expiry_date::text AS expiry_date,
+                    (d.expiry_date - CURRENT_DATE) AS days_left,
+                    d.renewal_required,
+                    d.renewal_period_days,
+                    COALESCE(d.grace_period_days, 0) AS grace_period_days,
+                    COALESCE(d.auto_archive_on_expiry, FALSE) AS auto_archive_on_expiry,
+                    d.created_by,
+                    au.email AS owner_email,
+                    au.role AS owner_role
+                 FROM documents d
+                 LEFT JOIN agent_users au ON au.id = d.created_by AND au.tenant_id = d.tenant_id
+                 WHERE d.deleted_at IS NULL
+                   AND d.expiry_date IS NOT NULL
+                   AND d.is_latest_version = TRUE
+                   AND d.status NOT IN ('expired', 'archived', 'disposed')
+                   AND d.expiry_date - CURRENT_DATE <= GREATEST($1, COALESCE(d.renewal_period_days, 0))
+                 ORDER BY d.expiry_date ASC`,
+                [WARNING_WINDOWS[WARNING_WINDOWS.length - 1].days]
+            );
+
+            for (const doc of candidates.rows) {
+                if (stopped) break;
+                try {
+                    await processDocument(doc, result);
+                    result.documents++;
+                } catch (err) {
+                    // One bad row must not stall the sweep for every other document
+                    console.error(`[Expiry] Failed to process document ${doc.id}:`, err);
+                }
+            }
+            return result;
+        } finally {
+            await lockClient.query("SELECT pg_advisory_unlock(hashtext('expiry_scheduler'))");
+        }
+    } finally {
+        lockClient.release();
+    }
+}
+
+function schedule(delayMs: number) {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+        try {
+            const result = await runExpirySweep();
+            if (result && (result.notifications > 0 || result.expired > 0 || result.archived > 0)) {
+                console.log(
+                    `[Expiry] Sweep: ${result.documents} documents, ${result.notifications} notifications queued, ` +
+                    `${result.expired} expired, ${result.archived} archived`
+                );
+            }
+        } catch (err: any) {
+            console.error("[Expiry] Sweep failed:", err?.message || err);
+        }
+        schedule(CONFIG.EXPIRY_SCHEDULER_INTERVAL_MS);
+    }, delayMs);
+}
+
+export function startExpiryScheduler() {
+    if (!CONFIG.EXPIRY_SCHEDULER_ENABLED) return;
+    stopped = false;
+    console.log(`[Expiry] Scheduler running every ${Math.round(CONFIG.EXPIRY_SCHEDULER_INTERVAL_MS / 60000)} min`);
+    // First sweep shortly after startup, then on the interval
+    schedule(10_000);
+}
+
+export function stopExpiryScheduler() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+}
@@ -0,0 +1,213 @@
+// Delivery worker for document_notifications.
+// Claims due 'pending' rows with a lease (next_retry_at pushed forward, FOR UPDATE SKIP LOCKED),
+// dispatches each enabled channel, and records the outcome:
+//  - all channels done  -> status 'delivered', sent_at/delivered_at set
+//  - a channel failed   -> retry_count + 1, next_retry_at with exponential backoff, failure_reason
+//  - retries exhausted or a permanent error -> status 'failed', failed_at
+//  - no requested channel is configured -> status 'failed' (channel_not_configured)
+// Per-channel results are kept in metadata.delivery so a retry never resends a channel that succeeded.
+import { pool } from "../lib/db";
+import { CONFIG } from "../config";
+import { ChannelError, ChannelName, getNotificationChannel, OutgoingNotification } from "../lib/notificationChannels";
+
+type ChannelState = "delivered" | "skipped" | "failed";
+
+// A claimed row is invisible to other workers for this long; a crash mid-send releases it afterwards
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt - 1), capped
+ */
+export function retryDelayMs(attempt: number): number {
+    const delay = Math.min(CONFIG.NOTIFY_RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), CONFIG.NOTIFY_RETRY_MAX_MS);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+async function claimBatch(): Promise<any[]> {
+    const result = await pool.query(
+        `UPDATE document_notifications n
+         SET next_retry_at = NOW() + ($1 || ' milliseconds')::interval
+         FROM (
+             SELECT id FROM document_notifications
+             WHERE status = 'pending'
+               AND COALESCE(scheduled_at, created_at) <= NOW()
+               AND (next_retry_at IS NULL OR next_retry_at <= NOW())
+             ORDER BY
+                 CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END,
+                 scheduled_at ASC
+             LIMIT $2
+             FOR UPDATE SKIP LOCKED
+         ) due
+         WHERE n.id = due.id
+         RETURNING n.*`,
+        [String(CLAIM_LEASE_MS), CONFIG.NOTIFY_BATCH_SIZE]
+    );
+    return result.rows;
+}
+
+async function resolveRecipient(row: any): Promise<{ email: string | null; phone: string | null }> {
+    const result = await pool.query(
+        `SELECT au.email, e.phone
+         FROM agent_users au
+         LEFT JOIN employees e ON e.id = au.employee_id
+         WHERE au.id = $1 AND au.tenant_id = $2`,
+        [row.recipient_id, row.tenant_id]
+    );
+    const match = result.rows[0];
+    return {
+        email: row.recipient_email || match?.email || null,
+        phone: match?.phone || null,
+    };
+}
+
+async function deliver(row: any) {
+    const metadata = row.metadata || {};
+    const delivery: Partial<Record<ChannelName, ChannelState>> = { ...(metadata.delivery || {}) };
+    const wanted: ChannelName[] = [];
+    if (row.send_in_app) wanted.push("in_app");
+    if (row.send_email) wanted.push("email");
+    if (row.send_sms) wanted.push("sms");
+
+    const recipient = await resolveRecipient(row);
+    const outgoing: OutgoingNotification = {
+        id: row.id,
+        tenantId: row.tenant_id,
+        documentId: row.document_id,
+        type: row.notification_type,
+        priority: row.priority,
+        title: row.title,
+        message: row.message,
+        recipientId: row.recipient_id,
+        recipientEmail: recipient.email,
+        recipientPhone: recipient.phone,
+    };
+
+    const errors: string[] = [];
+    let permanent = false;
+
+    for (const name of wanted) {
+        if (delivery[name] === "delivered" || delivery[name] === "skipped") continue;
+
+        const channel = getNotificationChannel(name);
+        if (!channel) {
+            // Channel not configured on this agent (e.g. no SMTP server): nothing to retry
+            delivery[name] = "skipped";
+            continue;
+        }
+
+        try {
+            await channel.send(outgoing);
+            delivery[name] = "delivered";
+        } catch (err: any) {
+            delivery[name] = "failed";
+            errors.push(`${name}: ${err?.message || err}`);
+            if (err instanceof ChannelError && err.permanent) permanent = true;
+        }
+    }
+
+    const anyDelivered = Object.values(delivery).includes("delivered");
+    if (errors.length === 0 && !anyDelivered) {
+        // Every requested channel was skipped: the recipient got nothing, so this is not a delivery
+        const skipped = wanted.filter(name => delivery[name] === "skipped");
+        if (skipped.length > 0) {
+            errors.push(...skipped.map(name => `${name}: channel_not_configured`));
+            permanent = true;
+        }
+    }
+    const newMetadata = JSON.stringify({ ...metadata, delivery });
+
+    if (errors.length === 0) {
+        await pool.query(
+            `UPDATE document_notifications
+             SET status = 'delivered',
+                 sent_at = COALESCE(sent_at, NOW()),
+                 delivered_at = NOW(),
+                 next_retry_at = NULL,
+                 failure_reason = NULL,
+                 metadata = $2
+             WHERE id = $1`,
+            [row.id, newMetadata]
+        );
+        return;
+    }
+
+    const attempt = Number(row.retry_count || 0) + 1;
+    const exhausted = permanent || attempt > Number(row.max_retries ?? 3);
+
+    if (exhausted) {
+        await pool.query(
+            `UPDATE document_notifications
+             SET status = 'failed',
+                 retry_count = $2,
+                 sent_at = CASE WHEN $3 THEN COALESCE(sent_at, NOW()) ELSE sent_at END,
+                 failed_at = NOW(),
+                 next_retry_at = NULL,
+                 failure_reason = $4,
+                 metadata = $5
+             WHERE id = $1`,
+            [row.id, attempt, anyDelivered, errors.join("; "), newMetadata]
+        );
+        return;
+    }
+
+    await pool.query(
+        `UPDATE document_notifications
+         SET retry_count = $2,
+             sent_at = CASE WHEN $3 THEN COALESCE(sent_at, NOW()) ELSE sent_at END,
+             next_retry_at = NOW() + ($4 || ' milliseconds')::interval,
+             failure_reason = $5,
+             metadata = $6
+         WHERE id = $1`,
+        [row.id, attempt, anyDelivered, String(retryDelayMs(attempt)), errors.join("; "), newMetadata]
+    );
+}
+
+/**
+ * One polling cycle: claim and deliver until nothing is due
+ */
+export async function deliverPendingNotifications(): Promise<number> {
+    let processed = 0;
+    while (!stopped) {
+        const batch = await claimBatch();
+        for (const row of batch) {
+            try {
+                await deliver(row);
+            } catch (err) {
+                // Left claimed: the lease expires and the row is retried on a later cycle
+                console.error(`[Notify] Failed to deliver notification ${row.id}:`, err);
+            }
+            processed++;
+        }
+        if (batch.length < CONFIG.NOTIFY_BATCH_SIZE) break;
+    }
+    return processed;
+}
+
+function schedule() {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+        try {
+            const processed = await deliverPendingNotifications();
+            if (processed > 0) console.log(`[Notify] Processed ${processed} notifications`);
+        } catch (err: any) {
+            console.error("[Notify] Delivery cycle failed:", err?.message || err);
+        }
+        schedule();
+    }, CONFIG.NOTIFY_POLL_INTERVAL_MS);
+}
+
+export function startNotificationWorker() {
+    if (!CONFIG.NOTIFY_WORKER_ENABLED) return;
+    stopped = false;
+    const configured = (["in_app", "email", "sms"] as ChannelName[]).filter(name => getNotificationChannel(name));
+    console.log(`[Notify] Delivery worker running (channels: ${configured.join(", ")})`);
+    schedule();
+}
+
+export function stopNotificationWorker() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+}
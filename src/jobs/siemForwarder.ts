@@ -0,0 +1,194 @@
+// Continuous audit forwarder to an external SIEM over TCP (ADHICS SA).
+// Follows each tenant's audit hash chain from its checkpoint in siem_forward_checkpoints:
+// chain_seq is gapless and assigned in commit order, so nothing is skipped, and the
+// checkpoint only advances after a batch has been written to the socket.
+// Delivery is at-least-once across a crash between write and checkpoint; every message
+// carries the event id and chainSeq so the SIEM can deduplicate.
+import net from "net";
+import { pool } from "../lib/db";
+import { CONFIG } from "../config";
+import { formatAuditEvent, SiemFormat, SIEM_FORMATS } from "../helpers/siemFormat";
+
+let socket: net.Socket | null = null;
+let timer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+function siemFormat(): SiemFormat {
+    const format = CONFIG.SIEM_FORMAT as SiemFormat;
+    return SIEM_FORMATS.includes(format) ? format : "syslog";
+}
+
+/**
+ * Octet-counting (RFC 6587 3.4.1) is safe for any payload; LF framing suits NDJSON collectors
+ */
+function frame(message: string): string {
+    if (CONFIG.SIEM_TCP_FRAMING === "lf") return `${message}\n`;
+    return `${Buffer.byteLength(message, "utf8")} ${message}`;
+}
+
+function connect(): Promise<net.Socket> {
+    if (socket && !socket.destroyed) return Promise.resolve(socket);
+
+    return new Promise((resolve, reject) => {
+        const s = net.createConnection({ host: CONFIG.SIEM_HOST, port: CONFIG.SIEM_PORT });
+        s.setKeepAlive(true);
+        s.once("connect", () => {
+            s.removeListener("error", reject);
+            s.on("error", (err) => {
+                console.error("[SIEM] Connection error:", err.message);
+                s.destroy();
+            });
+            s.on("close", () => {
+                if (socket === s) socket = null;
+            });
+            socket = s;
+            resolve(s);
+        });
+        s.once("error", reject);
+    });
+}
+
+function send(s: net.Socket, payload: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        s.write(payload, "utf8", (err) => (err ? reject(err) : resolve()));
+    });
+}
+
+/**
+ * Forward the next batch for one tenant; returns the number of events sent
+ */
+async function forwardTenantBatch(tenantId: string): Promise<number> {
+    const destination = CONFIG.SIEM_DESTINATION;
+    const client = await pool.connect();
+
+    try {
+        await client.query("BEGIN");
+
+        // Another agent instance may be forwarding this tenant already
+        const lock = await client.query(
+            "SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked",
+            [`siem_forward:${destination}:${tenantId}`]
+        );
+        if (!lock.rows[0].locked) {
+            await client.query("ROLLBACK");
+            return 0;
+        }
+
+        await client.query(
+            `INSERT INTO siem_forward_checkpoints (destination, tenant_id)
+             VALUES ($1, $2)
+             ON CONFLICT (destination, tenant_id) DO NOTHING`,
+            [destination, tenantId]
+        );
+        const checkpoint = await client.query(
+            "SELECT last_chain_seq FROM siem_forward_checkpoints WHERE destination = $1 AND tenant_id = $2",
+            [destination, tenantId]
+        );
+        const lastSeq = Number(checkpoint.rows[0].last_chain_seq);
+
+        const events = await client.query(
+            `SELECT * FROM audit_events
+             WHERE tenant_id = $1 AND chain_seq > $2
+             ORDER BY chain_seq ASC
+             LIMIT $3`,
+            [tenantId, lastSeq, CONFIG.SIEM_BATCH_SIZE]
+        );
+        if (events.rows.length === 0) {
+            await client.query("COMMIT");
+            return 0;
+        }
+
+        const format = siemFormat();
+        const payload = events.rows.map(row => frame(formatAuditEvent(row, format))).join("");
+
+        try {
+            await send(await connect(), payload);
+        } catch (err: any) {
+            socket?.destroy();
+            await client.query(
+                `UPDATE siem_forward_checkpoints
+                 SET last_error = $3, last_error_at = NOW(), updated_at = NOW()
+                 WHERE destination = $1 AND tenant_id = $2`,
+                [destination, tenantId, String(err?.message || err)]
+            );
+            await client.query("COMMIT");
+            throw err;
+        }
+
+        const last = events.rows[events.rows.length - 1];
+        await client.query(
+            `UPDATE siem_forward_checkpoints
+             SET last_chain_seq = $3,
+                 last_event_id = $4,
+                 events_forwarded = events_forwarded + $5,
+                 last_error = NULL,
+                 last_error_at = NULL,
+                 updated_at = NOW()
+             WHERE destination = $1 AND tenant_id = $2`,
+            [destination, tenantId, last.chain_seq, last.id, events.rows.length]
+        );
+        await client.query("COMMIT");
+        return events.rows.length;
+    } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * One polling cycle: drain every tenant whose chain head is past its checkpoint
+ */
+export async function forwardPendingAuditEvents(): Promise<number> {
+    const pending = await pool.query(
+        `SELECT heads.tenant_id
+         FROM (
+             SELECT tenant_id, MAX(chain_seq) AS head
+             FROM audit_events
+             WHERE chain_seq IS NOT NULL
+             GROUP BY tenant_id
+         ) heads
+         LEFT JOIN siem_forward_checkpoints c
+             ON c.tenant_id = heads.tenant_id AND c.destination = $1
+         WHERE heads.head > COALESCE(c.last_chain_seq, 0)`,
+        [CONFIG.SIEM_DESTINATION]
+    );
+
+    let forwarded = 0;
+    for (const { tenant_id } of pending.rows) {
+        let sent: number;
+        do {
+            sent = await forwardTenantBatch(tenant_id);
+            forwarded += sent;
+        } while (sent === CONFIG.SIEM_BATCH_SIZE && !stopped);
+    }
+    return forwarded;
+}
+
+function schedule() {
+    if (stopped) return;
+    timer = setTimeout(async () => {
+        try {
+            const forwarded = await forwardPendingAuditEvents();
+            if (forwarded > 0) console.log(`[SIEM] Forwarded ${forwarded} audit events`);
+        } catch (err: any) {
+            console.error("[SIEM] Forwarding cycle failed:", err?.message || err);
+        }
+        schedule();
+    }, CONFIG.SIEM_POLL_INTERVAL_MS);
+}
+
+export function startSiemForwarder() {
+    if (!CONFIG.SIEM_HOST) return;
+    stopped = false;
+    console.log(`[SIEM] Forwarding audit events to ${CONFIG.SIEM_HOST}:${CONFIG.SIEM_PORT} (${siemFormat()})`);
+    schedule();
+}
+
+export function stopSiemForwarder() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    socket?.end();
+    socket = null;
+}
@@ -0,0 +1,70 @@
+// Envelope encryption for stored files (AES-256-GCM).
+// Each file gets its own data key; the data key is wrapped with the agent master key (KEK)
+// and stored in document_encryption_keys. Destroying the wrapped key renders the file unreadable.
+import crypto from "crypto";
+import { CONFIG } from "../config";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Stored object layout: [iv (12)][auth tag (16)][ciphertext]
+export const PAYLOAD_HEADER_LENGTH = IV_LENGTH + TAG_LENGTH;
+export const ENVELOPE_ALGORITHM = ALGORITHM;
+
+function masterKey(): Buffer {
+    // Normalise any configured secret to a 256-bit key
+    return crypto.createHash("sha256").update(CONFIG.STORAGE_MASTER_KEY).digest();
+}
+
+export function generateDataKey(): Buffer {
+    return crypto.randomBytes(32);
+}
+
+/**
+ * Wrap a data key with the master key -> base64(iv | tag | ciphertext)
+ */
+export function wrapDataKey(dataKey: Buffer): { wrappedKey: string; kekId: string } {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return {
+        wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64"),
+        kekId: CONFIG.STORAGE_MASTER_KEY_ID,
+    };
+}
+
+export function unwrapDataKey(wrappedKey: string, kekId: string): Buffer {
+    if (kekId !== CONFIG.STORAGE_MASTER_KEY_ID) {
+        throw new Error(`Master key ${kekId} is not loaded (active: ${CONFIG.STORAGE_MASTER_KEY_ID})`);
+    }
+    const raw = Buffer.from(wrappedKey, "base64");
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey(), raw.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(raw.subarray(IV_LENGTH, PAYLOAD_HEADER_LENGTH));
+    return Buffer.concat([decipher.update(raw.subarray(PAYLOAD_HEADER_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Encrypt a file payload; aad binds the ciphertext to its key reference
+ */
+export function encryptPayload(dataKey: Buffer, plaintext: Buffer, aad: string): Buffer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+    cipher.setAAD(Buffer.from(aad));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Build a streaming decipher from the stored payload header.
+ * The auth tag is checked when the stream ends; a tampered file errors the stream.
+ */
+export function createPayloadDecipher(dataKey: Buffer, header: Buffer, aad: string): crypto.DecipherGCM {
+    if (header.length < PAYLOAD_HEADER_LENGTH) {
+        throw new Error("Encrypted payload header is truncated");
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, header.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(header.subarray(IV_LENGTH, PAYLOAD_HEADER_LENGTH));
+    return decipher;
+}
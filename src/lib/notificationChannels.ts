@@ -0,0 +1,128 @@
+// Notification delivery channels used by the delivery worker (jobs/notificationWorker.ts).
+// Channels are pluggable: register another implementation under the same name to replace one.
+import crypto from "crypto";
+import fetch from "node-fetch";
+import nodemailer from "nodemailer";
+import { CONFIG } from "../config";
+
+export type ChannelName = "email" | "sms" | "in_app";
+
+export type OutgoingNotification = {
+    id: string;
+    tenantId: string;
+    documentId: string;
+    type: string;
+    priority: string;
+    title: string;
+    message: string;
+    recipientId: string;
+    recipientEmail: string | null;
+    recipientPhone: string | null;
+};
+
+export interface NotificationChannel {
+    readonly name: ChannelName;
+    send(notification: OutgoingNotification): Promise<void>;
+}
+
+/**
+ * Thrown by channels; permanent failures (bad address, missing phone) are not retried
+ */
+export class ChannelError extends Error {
+    constructor(message: string, public permanent: boolean = false) {
+        super(message);
+    }
+}
+
+export class SmtpEmailChannel implements NotificationChannel {
+    readonly name = "email";
+    private transport = nodemailer.createTransport({
+        host: CONFIG.SMTP_HOST,
+        port: CONFIG.SMTP_PORT,
+        secure: CONFIG.SMTP_SECURE,
+        auth: CONFIG.SMTP_USER ? { user: CONFIG.SMTP_USER, pass: CONFIG.SMTP_PASSWORD } : undefined,
+    });
+
+    async send(n: OutgoingNotification) {
+        if (!n.recipientEmail) throw new ChannelError("no_recipient_email", true);
+        try {
+            await this.transport.sendMail({
+                from: CONFIG.SMTP_FROM,
+                to: n.recipientEmail,
+                subject: n.title,
+                text: n.message,
+                headers: { "X-Notification-Id": n.id },
+                priority: n.priority === "urgent" || n.priority === "high" ? "high" : "normal",
+            });
+        } catch (err: any) {
+            // 5xx SMTP replies are permanent (mailbox unknown, rejected); everything else is retried
+            const code = Number(err?.responseCode);
+            throw new ChannelError(`smtp_error: ${err?.message || err}`, code >= 500 && code < 600);
+        }
+    }
+}
+
+/**
+ * Posts to an SMS gateway webhook; the body is signed with SMS_WEBHOOK_SECRET (X-Signature: sha256=<hmac>)
+ */
+export class SmsWebhookChannel implements NotificationChannel {
+    readonly name = "sms";
+
+    async send(n: OutgoingNotification) {
+        if (!n.recipientPhone) throw new ChannelError("no_recipient_phone", true);
+
+        const body = JSON.stringify({
+            notification_id: n.id,
+            tenant_id: n.tenantId,
+            to: n.recipientPhone,
+            text: `${n.title}: ${n.message}`,
+            priority: n.priority,
+        });
+        const signature = crypto.createHmac("sha256", CONFIG.SMS_WEBHOOK_SECRET).update(body).digest("hex");
+
+        let r;
+        try {
+            r = await fetch(CONFIG.SMS_WEBHOOK_URL, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", "X-Signature": `sha256=${signature}` },
+                body,
+                timeout: 10_000,
+            });
+        } catch (err: any) {
+            throw new ChannelError(`sms_webhook_unreachable: ${err?.message || err}`);
+        }
+        if (!r.ok) {
+            // 4xx (other than rate limiting) means the gateway rejected the message itself
+            throw new ChannelError(`sms_webhook_http_${r.status}`, r.status >= 400 && r.status < 500 && r.status !== 429);
+        }
+    }
+}
+
+/**
+ * In-app notifications are read straight from document_notifications by the inbox API,
+ * so delivery only marks the row as available there
+ */
+export class InAppChannel implements NotificationChannel {
+    readonly name = "in_app";
+
+    async send() {
+        return;
+    }
+}
+
+const channels: Partial<Record<ChannelName, NotificationChannel>> = {};
+
+export function registerNotificationChannel(channel: NotificationChannel) {
+    channels[channel.name] = channel;
+}
+
+registerNotificationChannel(new InAppChannel());
+if (CONFIG.SMTP_HOST) registerNotificationChannel(new SmtpEmailChannel());
+if (CONFIG.SMS_WEBHOOK_URL) registerNotificationChannel(new SmsWebhookChannel());
+
+/**
+ * Returns null when the channel is not configured on this agent
+ */
+export function getNotificationChannel(name: ChannelName): NotificationChannel | null {
+    return channels[name] || null;
+}
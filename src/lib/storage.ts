@@ -0,0 +1,93 @@
+// Pluggable blob storage for document bytes — BYOD principle: files stay on the customer side.
+// Objects are addressed by URI ("local://<key>") so rows keep working if the default backend changes.
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { CONFIG } from "../config";
+
+export interface StorageBackend {
+    readonly name: string;
+    put(key: string, data: Buffer): Promise<void>;
+    read(key: string, start: number, length: number): Promise<Buffer>;
+    createReadStream(key: string, start?: number): Promise<Readable>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Local filesystem backend rooted at STORAGE_LOCAL_DIR
+ */
+export class LocalStorageBackend implements StorageBackend {
+    readonly name = "local";
+
+    constructor(private rootDir: string) {}
+
+    private resolve(key: string): string {
+        const root = path.resolve(this.rootDir);
+        const full = path.resolve(root, key);
+        // Keys are generated by the agent, but never allow escaping the root
+        if (full !== root && !full.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return full;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const full = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(full), { recursive: true });
+        // Write to a temp file first so readers never see a partial object
+        const tmp = `${full}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmp, data, { mode: 0o600 });
+        await fs.promises.rename(tmp, full);
+    }
+
+    async read(key: string, start: number, length: number): Promise<Buffer> {
+        const handle = await fs.promises.open(this.resolve(key), "r");
+        try {
+            const buf = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buf, 0, length, start);
+            return buf.subarray(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    async createReadStream(key: string, start = 0): Promise<Readable> {
+        const full = this.resolve(key);
+        await fs.promises.access(full, fs.constants.R_OK);
+        return fs.createReadStream(full, { start });
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+}
+
+const backends: Record<string, StorageBackend> = {};
+
+/**
+ * Register an additional backend (e.g. an S3-compatible one) under its URI scheme
+ */
+export function registerStorageBackend(backend: StorageBackend) {
+    backends[backend.name] = backend;
+}
+
+registerStorageBackend(new LocalStorageBackend(CONFIG.STORAGE_LOCAL_DIR));
+
+export function getStorageBackend(name: string = CONFIG.STORAGE_BACKEND): StorageBackend {
+    const backend = backends[name];
+    if (!backend) throw new Error(`Storage backend not configured: ${name}`);
+    return backend;
+}
+
+export function toStorageUri(backend: StorageBackend, key: string): string {
+    return `${backend.name}://${key}`;
+}
+
+/**
+ * Split "scheme://key" into backend + key; returns null for paths the agent does not manage
+ */
+export function parseStorageUri(uri: string | null | undefined): { backend: StorageBackend; key: string } | null {
+    const match = /^([a-z0-9]+):\/\/(.+)$/.exec(String(uri || ""));
+    if (!match || !backends[match[1]]) return null;
+    return { backend: backends[match[1]], key: match[2] };
+}
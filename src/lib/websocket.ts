@@ -0,0 +1,129 @@
+// Server-side WebSocket channel on top of Node's HTTP "upgrade" event, backed by the ws
+// package (handshake, framing, UTF-8 and close-code validation). Text messages only: the
+// agent's realtime channels exchange JSON. A server ping every interval drops connections
+// that stopped answering.
+import { EventEmitter } from "events";
+import { IncomingMessage, STATUS_CODES } from "http";
+import { Duplex } from "stream";
+import { WebSocket, WebSocketServer, RawData } from "ws";
+
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_GOING_AWAY = 1001;
+export const CLOSE_PROTOCOL_ERROR = 1002;
+export const CLOSE_UNSUPPORTED_DATA = 1003;
+export const CLOSE_POLICY_VIOLATION = 1008;
+export const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+// Close reasons are limited to 123 bytes (RFC 6455 5.5: 125-byte control payload minus the code)
+const MAX_CLOSE_REASON_BYTES = 123;
+
+export type WebSocketOptions = {
+    maxMessageBytes: number;
+    pingIntervalMs: number;
+};
+
+/**
+ * One accepted connection. Emits "message" (text) and "close" (code, reason) once.
+ */
+export class WebSocketConnection extends EventEmitter {
+    private closed = false;
+    private alive = true;
+    private pingTimer: NodeJS.Timeout;
+
+    constructor(private ws: WebSocket, options: WebSocketOptions) {
+        super();
+        ws.on("message", (data: RawData, isBinary: boolean) => {
+            if (isBinary) {
+                this.close(CLOSE_UNSUPPORTED_DATA, "only text messages are supported");
+                return;
+            }
+            this.alive = true;
+            this.emit("message", data.toString());
+        });
+        ws.on("pong", () => {
+            this.alive = true;
+        });
+        ws.on("close", (code: number, reason: Buffer) => this.finish(code, reason.toString()));
+        // ws closes the connection itself after protocol errors (1002, 1007, 1009)
+        ws.on("error", () => undefined);
+
+        this.pingTimer = setInterval(() => {
+            if (!this.alive) {
+                ws.terminate();
+                return;
+            }
+            this.alive = false;
+            ws.ping();
+        }, options.pingIntervalMs);
+    }
+
+    get isOpen(): boolean {
+        return !this.closed && this.ws.readyState === WebSocket.OPEN;
+    }
+
+    send(text: string): void {
+        if (!this.isOpen) return;
+        this.ws.send(text);
+    }
+
+    close(code = CLOSE_NORMAL, reason = ""): void {
+        if (this.closed) return;
+        let bytes = Buffer.from(reason, "utf8");
+        if (bytes.length > MAX_CLOSE_REASON_BYTES) {
+            // Cut on a character boundary
+            bytes = bytes.subarray(0, MAX_CLOSE_REASON_BYTES);
+            reason = bytes.toString("utf8").replace(/\uFFFD+$/, "");
+        }
+        this.ws.close(code, reason);
+        this.finish(code, reason);
+    }
+
+    private finish(code: number, reason: string): void {
+        if (this.closed) return;
+        this.closed = true;
+        clearInterval(this.pingTimer);
+        this.emit("close", code, reason);
+    }
+}
+
+/**
+ * Refuse an upgrade with a plain HTTP response carrying the usual JSON error body
+ */
+export function rejectUpgrade(socket: Duplex, status: number, body: any): void {
+    const json = JSON.stringify(body);
+    socket.end(
+        `HTTP/1.1 ${status} ${STATUS_CODES[status] || "Error"}\r\n` +
+        "Content-Type: application/json; charset=utf-8\r\n" +
+        `Content-Length: ${Buffer.byteLength(json)}\r\n` +
+        "Connection: close\r\n\r\n" +
+        json
+    );
+}
+
+/**
+ * Complete the handshake for a validated upgrade request and hand the connection to
+ * onOpen. A request that is not a well-formed WebSocket handshake is answered with 400
+ * and onOpen is never called.
+ */
+export function acceptWebSocket(
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+    options: WebSocketOptions,
+    onOpen: (connection: WebSocketConnection) => void
+): void {
+    const upgrade = String(req.headers.upgrade || "").toLowerCase();
+    if (req.method !== "GET" || upgrade !== "websocket" || req.headers["sec-websocket-version"] !== "13"
+        || Buffer.from(String(req.headers["sec-websocket-key"] || ""), "base64").length !== 16) {
+        rejectUpgrade(socket, 400, { ok: false, error: "bad_request", message: "Invalid WebSocket handshake" });
+        return;
+    }
+
+    const server = new WebSocketServer({
+        noServer: true,
+        clientTracking: false,
+        perMessageDeflate: false,
+        maxPayload: options.maxMessageBytes
+    });
+    server.handleUpgrade(req, socket, head, ws => onOpen(new WebSocketConnection(ws, options)));
+}
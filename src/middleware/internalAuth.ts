@@ -2,26 +2,44 @@ import { Request, Response, NextFunction } from "express";
 import { CONFIG } from "../config";
 
 /**
- * Middleware to protect internal endpoints.
- * Expects X-Agent-Secret header to match AGENT_API_SECRET.
+ * Check an X-Agent-Secret value; returns the error response to send, or null when it matches.
+ * Shared with the WebSocket upgrade handlers, which cannot run Express middleware.
  */
-export function requireInternalAuth(req: Request, res: Response, next: NextFunction) {
-    const providedSecret = req.header("X-Agent-Secret");
-
+export function verifyInternalSecret(providedSecret: string | undefined): { status: number; body: any } | null {
     if (!providedSecret) {
-        return res.status(401).json({
-            ok: false,
-            error: "unauthorized",
-            message: "X-Agent-Secret header required"
-        });
+        return {
+            status: 401,
+            body: {
+                ok: false,
+                error: "unauthorized",
+                message: "X-Agent-Secret header required"
+            }
+        };
     }
 
     if (providedSecret !== CONFIG.AGENT_API_SECRET) {
-        return res.status(403).json({
-            ok: false,
-            error: "forbidden",
-            message: "Invalid secret"
-        });
+        return {
+            status: 403,
+            body: {
+                ok: false,
+                error: "forbidden",
+                message: "Invalid secret"
+            }
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Middleware to protect internal endpoints.
+ * Expects X-Agent-Secret header to match AGENT_API_SECRET.
+ */
+export function requireInternalAuth(req: Request, res: Response, next: NextFunction) {
+    const failure = verifyInternalSecret(req.header("X-Agent-Secret"));
+
+    if (failure) {
+        return res.status(failure.status).json(failure.body);
     }
 
     next();
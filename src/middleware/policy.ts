@@ -0,0 +1,230 @@
+import { Request, Response, NextFunction } from "express";
+import { pool } from "../lib/db";
+import { IncomingMessage } from "http";
+import { evaluatePolicy, PolicyDecision, PolicyInput } from "../policy";
+import { recordAudit, AuditInput } from "../helpers/audit";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resource attributes exposed to policies, loaded from the addressed record
+ */
+const RESOURCE_ATTRIBUTES: Record<string, { table: string; columns: string[] }> = {
+    documents: {
+        table: "documents",
+        columns: ["sensitivity_level", "contains_phi", "contains_pii", "status", "category", "entity_type", "created_by"],
+    },
+    employees: {
+        table: "employees",
+        columns: ["status", "department", "employment_type", "manager_id"],
+    },
+    templates: {
+        table: "document_templates",
+        columns: ["category", "entity_type", "is_active", "require_approval", "created_by"],
+    },
+};
+
+// Role of a request without X-User-Role: the least privileged role of the bundle.
+// "system" is reserved for internal jobs, which do not go through the HTTP routes.
+const DEFAULT_ACTOR_ROLE = "member";
+
+// Roles exempt from the bundle's highly_restricted_admin_only rule
+const HIGHLY_RESTRICTED_ROLES = ["admin", "owner"];
+
+/**
+ * SQL condition hiding highly restricted documents from roles the highly_restricted_admin_only
+ * rule denies them to; null when the role may see them. Lists, search, facets and exports
+ * return many records at once, so the policy's per-record attribute check never sees them.
+ */
+export function restrictedDocumentsCondition(req: Request, column: string = "sensitivity_level"): string | null {
+    const role = String(req.header("X-User-Role") || "");
+    return HIGHLY_RESTRICTED_ROLES.includes(role) ? null : `${column} IS DISTINCT FROM 'highly_restricted'`;
+}
+
+function deriveAction(method: string, resourceId: string | null): PolicyInput["action"] {
+    switch (method) {
+        case "POST":
+            return "create";
+        case "PUT":
+        case "PATCH":
+            return "update";
+        case "DELETE":
+            return "delete";
+        default:
+            // Reads addressing a record (including its sub-resources) are "get", everything else "list"
+            return resourceId ? "get" : "list";
+    }
+}
+
+async function loadAttributes(resourceType: string, tenantId: string | null, resourceId: string | null) {
+    const spec = RESOURCE_ATTRIBUTES[resourceType];
+    if (!spec || !tenantId || !resourceId || !UUID_PATTERN.test(tenantId)) return null;
+
+    const result = await pool.query(
+        `SELECT ${spec.columns.join(", ")} FROM ${spec.table}
+         WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL`,
+        [resourceId, tenantId]
+    );
+    return result.rows[0] || null;
+}
+
+function pickProposed(resourceType: string, body: any) {
+    const spec = RESOURCE_ATTRIBUTES[resourceType];
+    if (!spec || !body || typeof body !== "object" || Buffer.isBuffer(body)) return null;
+
+    const proposed: Record<string, any> = {};
+    for (const column of spec.columns) {
+        if (body[column] !== undefined) proposed[column] = body[column];
+    }
+    return Object.keys(proposed).length > 0 ? proposed : null;
+}
+
+/**
+ * Build the standard policy input for a request under a router mounted for resourceType
+ */
+export async function buildPolicyInput(req: Request, resourceType: string): Promise<PolicyInput> {
+    const segments = req.path.split("/").filter(Boolean);
+    const resourceId = segments.length > 0 && UUID_PATTERN.test(segments[0]) ? segments[0] : null;
+    const subresource = resourceId ? segments[1] || null : segments[0] || null;
+    const tenantId = String(req.header("X-Tenant-Id") || req.body?.tenant_id || "").trim() || null;
+    const action = deriveAction(req.method, resourceId);
+
+    return {
+        tenant: { id: tenantId },
+        actor: {
+            id: req.header("X-User-Id") || null,
+            email: req.header("X-User-Email") || null,
+            role: String(req.header("X-User-Role") || DEFAULT_ACTOR_ROLE),
+            ip: req.header("X-User-IP") || null,
+        },
+        action,
+        resource: {
+            type: resourceType,
+            id: resourceId,
+            subresource,
+            attributes: await loadAttributes(resourceType, tenantId, resourceId),
+            proposed: action === "create" || action === "update" ? pickProposed(resourceType, req.body) : null,
+        },
+        request: {
+            method: req.method,
+            path: req.originalUrl.split("?")[0],
+            requestId: (req as any).reqId || null,
+        },
+    };
+}
+
+async function auditDenial(input: PolicyInput, decision: PolicyDecision, resourceType: AuditInput["resource"], reqId: string) {
+    await recordAudit({
+        tenantId: input.tenant.id || "unknown",
+        actorId: input.actor.id,
+        actorEmail: input.actor.email,
+        actorRole: input.actor.role,
+        actorIp: input.actor.ip,
+        action: input.action,
+        resource: resourceType,
+        eventCategory: "security",
+        targetId: input.resource.id,
+        decision: "deny",
+        outcome: "failure",
+        reason: decision.reason,
+        metadata: {
+            policy_engine: decision.engine,
+            policy_fallback_reason: decision.fallbackReason || null,
+            subresource: input.resource.subresource,
+            method: input.request.method,
+            path: input.request.path,
+        },
+        requestId: reqId
+    });
+}
+
+/**
+ * Middleware enforcing the policy decision before any handler of the router runs.
+ * Mount after requireInternalAuth: app.use(path, requireInternalAuth, enforcePolicy("documents"), router)
+ * Denials are audited with decision "deny"; the input is exposed as req.policyInput for handlers.
+ */
+export function enforcePolicy(resourceType: AuditInput["resource"]) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const reqId = (req as any).reqId as string;
+
+        try {
+            const input = await buildPolicyInput(req, resourceType);
+            const decision = await evaluatePolicy(input);
+            (req as any).policyInput = input;
+
+            if (decision.allow) return next();
+
+            await auditDenial(input, decision, resourceType, reqId);
+
+            // Fail-closed without a decision is an availability problem, not a permission one
+            if (decision.engineError) {
+                return res.status(503).json({
+                    ok: false,
+                    error: "policy_unavailable",
+                    message: "Policy decision unavailable"
+                });
+            }
+
+            return res.status(403).json({
+                ok: false,
+                error: "forbidden",
+                message: "Denied by policy",
+                reason: decision.reason
+            });
+        } catch (err) {
+            console.error("[Policy] Error evaluating policy:", err);
+            return res.status(500).json({
+                ok: false,
+                error: "internal_error",
+                message: "Failed to evaluate policy"
+            });
+        }
+    };
+}
+
+/**
+ * Policy decision for a WebSocket upgrade, which never reaches Express middleware.
+ * The input has the same shape as for REST requests; the caller names the action the
+ * channel performs. Denials are audited like enforcePolicy's.
+ */
+export async function authorizeUpgrade(
+    req: IncomingMessage,
+    resourceType: AuditInput["resource"],
+    resourceId: string,
+    subresource: string,
+    action: PolicyInput["action"],
+    reqId: string
+): Promise<PolicyDecision> {
+    const header = (name: string) => {
+        const value = req.headers[name];
+        return (Array.isArray(value) ? value[0] : value) || null;
+    };
+    const tenantId = String(header("x-tenant-id") || "").trim() || null;
+
+    const input: PolicyInput = {
+        tenant: { id: tenantId },
+        actor: {
+            id: header("x-user-id"),
+            email: header("x-user-email"),
+            role: String(header("x-user-role") || DEFAULT_ACTOR_ROLE),
+            ip: header("x-user-ip"),
+        },
+        action,
+        resource: {
+            type: resourceType,
+            id: resourceId,
+            subresource,
+            attributes: await loadAttributes(resourceType, tenantId, resourceId),
+            proposed: null,
+        },
+        request: {
+            method: req.method || "GET",
+            path: String(req.url || "").split("?")[0],
+            requestId: reqId,
+        },
+    };
+
+    const decision = await evaluatePolicy(input);
+    if (!decision.allow) await auditDenial(input, decision, resourceType, reqId);
+    return decision;
+}
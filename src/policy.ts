@@ -1,26 +1,107 @@
 // OPA/OPAL policy check helper. Your code remains the PEP; OPA is the PDP.
+// Without OPA the embedded engine (helpers/localPolicy.ts) evaluates the same rules bundle.
 import fetch from "node-fetch";
 import { CONFIG } from "./config";
+import { evaluateLocalPolicy } from "./helpers/localPolicy";
 
 /**
- * checkPolicy(input) -> boolean
- * - input example:
- *   { action: "delete", resource: "contacts", user: { role: "admin" } }
+ * Standard policy input built by the enforcement middleware (middleware/policy.ts)
  */
-export async function checkPolicy(input: unknown): Promise<boolean> {
-    // For the PoC, if OPA is not configured, allow to avoid blocking.
-    if (!CONFIG.OPA_URL) return true;
+export type PolicyInput = {
+    tenant: { id: string | null };
+    actor: { id: string | null; email: string | null; role: string; ip: string | null };
+    action: "create" | "list" | "get" | "update" | "delete";
+    resource: {
+        type: string;
+        id: string | null;
+        subresource: string | null;
+        attributes: Record<string, any> | null;  // current state (sensitivity_level, contains_phi, ...)
+        proposed: Record<string, any> | null;    // same attributes as requested in the body (create/update)
+    };
+    request: { method: string; path: string; requestId: string | null };
+};
+
+export type PolicyDecision = {
+    allow: boolean;
+    reason: string;
+    engine: "opa" | "local" | "none";
+    engineError: boolean; // true when no decision could be obtained and POLICY_FAIL_MODE applied
+    fallbackReason?: string; // set when OPA failed and the local bundle decided (POLICY_LOCAL_FALLBACK)
+};
+
+/**
+ * No decision available (OPA not configured or unreachable): POLICY_FAIL_MODE decides
+ */
+function failureDecision(reason: string, engine: PolicyDecision["engine"]): PolicyDecision {
+    return {
+        allow: CONFIG.POLICY_FAIL_MODE === "open",
+        reason,
+        engine,
+        engineError: true,
+    };
+}
 
+async function evaluateOpa(input: unknown): Promise<PolicyDecision> {
     try {
         const r = await fetch(CONFIG.OPA_URL, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({ input }),
+            timeout: CONFIG.OPA_TIMEOUT_MS,
         });
+        if (!r.ok) return failureDecision(`policy_engine_http_${r.status}`, "opa");
+
         const json: any = await r.json();
-        return Boolean(json?.result);
+        const result = json?.result;
+        if (result === undefined) return failureDecision("policy_undefined", "opa");
+
+        const allow = typeof result === "object" && result !== null ? Boolean(result.allow) : Boolean(result);
+        const reason = (typeof result === "object" && result?.reason) || (allow ? "policy_allowed" : "policy_denied");
+        return { allow, reason: String(reason), engine: "opa", engineError: false };
     } catch {
-        // In production: fail-closed (deny). Here we allow to reduce friction.
-        return false;
+        return failureDecision("policy_engine_unreachable", "opa");
+    }
+}
+
+function evaluateLocal(input: unknown): PolicyDecision {
+    try {
+        const decision = evaluateLocalPolicy(input);
+        return { ...decision, engine: "local", engineError: false };
+    } catch (err) {
+        console.error("[Policy] Local policy bundle unavailable:", err);
+        return failureDecision("local_policy_unavailable", "local");
+    }
+}
+
+/**
+ * evaluatePolicy(input) -> decision
+ * POLICY_ENGINE: opa | local | auto (OPA when OPA_URL is set, otherwise the local bundle).
+ * An OPA error is decided by POLICY_FAIL_MODE; in auto mode POLICY_LOCAL_FALLBACK=true lets
+ * the local bundle decide instead, and the decision carries the OPA failure as fallbackReason.
+ * OPA may answer with a boolean result or { allow, reason }.
+ */
+export async function evaluatePolicy(input: unknown): Promise<PolicyDecision> {
+    switch (CONFIG.POLICY_ENGINE) {
+        case "local":
+            return evaluateLocal(input);
+        case "opa":
+            if (!CONFIG.OPA_URL) return failureDecision("policy_engine_not_configured", "none");
+            return evaluateOpa(input);
+        default: {
+            if (!CONFIG.OPA_URL) return evaluateLocal(input);
+            const decision = await evaluateOpa(input);
+            if (!decision.engineError || !CONFIG.POLICY_LOCAL_FALLBACK) return decision;
+            return { ...evaluateLocal(input), fallbackReason: decision.reason };
+        }
     }
 }
+
+/**
+ * checkPolicy(input) -> boolean
+ * - input example (subset of PolicyInput):
+ *   { action: "delete", actor: { role: "admin" }, resource: { type: "contacts", id } }
+ */
+export async function checkPolicy(input: unknown): Promise<boolean> {
+    const decision = await evaluatePolicy(input);
+    return decision.allow;
+}
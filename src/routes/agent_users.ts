@@ -238,8 +238,8 @@ agentUsers.delete("/:id", async (req, res) => {
 
         const allowed = await checkPolicy({
             action: "delete",
-            resource: "agent_users",
-            user: { role: actorRole },
+            actor: { role: actorRole },
+            resource: { type: "agent_users", id },
         });
 
         if (!allowed) {
@@ -387,37 +387,24 @@ agentUsers.post("/internal/users.login-notify", requireInternalAuth, async (req,
         const user = r.rows[0];
 
         // Record audit event (AC 6.1 - Secure Log-On Procedures)
-        const auditSQL = `
-            INSERT INTO audit_events (
-                tenant_id,
-                event_type,
-                event_category,
-                actor_id,
-                actor_email,
-                actor_role,
-                actor_ip,
-                action,
-                result,
-                metadata,
-                occurred_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
-        `;
-        await pool.query(auditSQL, [
-            tenant_id,
-            "agent_user_login",
-            "auth",
-            agent_user_id,
-            user.email,
-            user.role,
-            ip_address || null,
-            "login",
-            "success",
-            JSON.stringify({
+        await recordAudit({
+            tenantId: tenant_id,
+            actorId: agent_user_id,
+            actorEmail: user.email,
+            actorRole: user.role,
+            actorIp: ip_address || null,
+            action: "login",
+            resource: "agent_user_login",
+            eventCategory: "auth",
+            targetType: "agent_users",
+            targetId: agent_user_id,
+            outcome: "success",
+            metadata: {
                 display_name: user.display_name,
                 user_agent: user_agent || null,
                 last_login_at: user.last_login_at,
-            })
-        ]);
+            }
+        });
 
         return res.json({
             ok: true,
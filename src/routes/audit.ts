@@ -1,38 +0,0 @@
-import { Router } from "express";
-import { pool } from "../lib/db";
-
-export const audit = Router();
-
-// GET /audit: list latest N events (no sensitive data)
-audit.get("/audit", async (req, res) => {
-    const limit = Math.min(Number(req.query.limit || 50), 200);
-    try {
-        const q = `
-      SELECT
-        id,
-        tenant_id,
-        occurred_at,
-        event_type,
-        event_category,
-        actor_id,
-        actor_email,
-        actor_role,
-        actor_ip,
-        target_type,
-        target_id,
-        target_name,
-        action,
-        result,
-        changes,
-        metadata
-      FROM audit_events
-      ORDER BY occurred_at DESC
-      LIMIT $1
-    `;
-        const r = await pool.query(q, [limit]);
-        res.json({ ok: true, data: r.rows });
-    } catch (err) {
-        console.error('[Audit] Error fetching audit logs:', err);
-        res.status(500).json({ ok: false, error: "audit_list_failed" });
-    }
-});
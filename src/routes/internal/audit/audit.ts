@@ -0,0 +1,498 @@
+/**
+ * Agent Internal API - Audit Log
+ *
+ * Tenant-scoped access to audit_events for compliance officers and auditors
+ *
+ * Base path: /agent/internal/audit
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { verifyAuditChain } from "../../../helpers/auditChain";
+import { decodeCursor, encodeCursor } from "../../../helpers/cursor";
+import { formatAuditEvent, SiemFormat, SIEM_FORMATS } from "../../../helpers/siemFormat";
+import { transformArray, transformAuditEvent } from "../../../helpers/transform";
+
+export const internalAuditRouter = Router();
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * Parse an optional ISO timestamp query parameter; returns undefined when invalid
+ */
+function parseTimestamp(value: any): string | null | undefined {
+    const raw = String(value || "").trim();
+    if (!raw) return null;
+    const date = new Date(raw);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+const EVENT_CATEGORIES = ["auth", "data", "system", "compliance", "security"];
+const EVENT_RESULTS = ["success", "failure", "partial"];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_CONTENT_TYPES: Record<SiemFormat, string> = {
+    cef: "text/plain; charset=utf-8",
+    syslog: "text/plain; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * GET /agent/internal/audit/events
+ * Search the tenant's audit events, newest first, with cursor pagination
+ *
+ * Query params:
+ * - event_category: auth | data | system | compliance | security (optional)
+ * - event_type: e.g. "employees.update" (optional)
+ * - actor_id: UUID (optional)
+ * - target_type: e.g. "employees" (optional)
+ * - target_id: UUID (optional)
+ * - action: e.g. "update" (optional)
+ * - result: success | failure | partial (optional)
+ * - from: ISO timestamp (optional)
+ * - to: ISO timestamp (optional)
+ * - limit: number (default: 50, max: 200)
+ * - cursor: nextCursor from the previous page (optional)
+ */
+internalAuditRouter.get("/events", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const eventCategory = String(req.query.event_category || "").trim();
+        const eventType = String(req.query.event_type || "").trim();
+        const filterActorId = String(req.query.actor_id || "").trim();
+        const targetType = String(req.query.target_type || "").trim();
+        const targetId = String(req.query.target_id || "").trim();
+        const action = String(req.query.action || "").trim();
+        const result = String(req.query.result || "").trim();
+        const from = parseTimestamp(req.query.from);
+        const to = parseTimestamp(req.query.to);
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 200);
+        const rawCursor = String(req.query.cursor || "").trim();
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (eventCategory && !EVENT_CATEGORIES.includes(eventCategory)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `event_category must be one of: ${EVENT_CATEGORIES.join(", ")}`
+            });
+        }
+
+        if (result && !EVENT_RESULTS.includes(result)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `result must be one of: ${EVENT_RESULTS.join(", ")}`
+            });
+        }
+
+        if ((filterActorId && !UUID_PATTERN.test(filterActorId)) || (targetId && !UUID_PATTERN.test(targetId))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "actor_id and target_id must be UUIDs"
+            });
+        }
+
+        if (from === undefined || to === undefined) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "from and to must be ISO timestamps"
+            });
+        }
+
+        const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+        if (rawCursor && (!cursor || isNaN(new Date(cursor.sortValue).getTime()) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        // Tenant filter is always applied
+        const conditions: string[] = ["tenant_id = $1"];
+        const params: any[] = [tenantId];
+        let paramIndex = 2;
+
+        if (eventCategory) {
+            conditions.push(`event_category = $${paramIndex}`);
+            params.push(eventCategory);
+            paramIndex++;
+        }
+
+        if (eventType) {
+            conditions.push(`event_type = $${paramIndex}`);
+            params.push(eventType);
+            paramIndex++;
+        }
+
+        if (filterActorId) {
+            conditions.push(`actor_id = $${paramIndex}`);
+            params.push(filterActorId);
+            paramIndex++;
+        }
+
+        if (targetType) {
+            conditions.push(`target_type = $${paramIndex}`);
+            params.push(targetType);
+            paramIndex++;
+        }
+
+        if (targetId) {
+            conditions.push(`target_id = $${paramIndex}`);
+            params.push(targetId);
+            paramIndex++;
+        }
+
+        if (action) {
+            conditions.push(`action = $${paramIndex}`);
+            params.push(action);
+            paramIndex++;
+        }
+
+        if (result) {
+            conditions.push(`result = $${paramIndex}`);
+            params.push(result);
+            paramIndex++;
+        }
+
+        if (from) {
+            conditions.push(`occurred_at >= $${paramIndex}`);
+            params.push(from);
+            paramIndex++;
+        }
+
+        if (to) {
+            conditions.push(`occurred_at <= $${paramIndex}`);
+            params.push(to);
+            paramIndex++;
+        }
+
+        // Keyset pagination: continue strictly after the last row of the previous page
+        if (cursor) {
+            conditions.push(`(occurred_at, id) < ($${paramIndex}, $${paramIndex + 1})`);
+            params.push(cursor.sortValue, cursor.id);
+            paramIndex += 2;
+        }
+
+        // Fetch one extra row to know whether another page exists. The cursor carries
+        // occurred_at at full microsecond precision (a JS Date would truncate it)
+        const dataQuery = `
+            SELECT
+                id,
+                tenant_id,
+                occurred_at,
+                event_type,
+                event_category,
+                actor_id,
+                actor_email,
+                actor_role,
+                actor_ip,
+                target_type,
+                target_id,
+                target_name,
+                action,
+                result,
+                changes,
+                metadata,
+                chain_seq,
+                event_hash,
+                to_char(occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_occurred_at
+            FROM audit_events
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY occurred_at DESC, id DESC
+            LIMIT $${paramIndex}
+        `;
+        params.push(limit + 1);
+
+        const dataResult = await pool.query(dataQuery, params);
+        const hasMore = dataResult.rows.length > limit;
+        const rows = hasMore ? dataResult.rows.slice(0, limit) : dataResult.rows;
+        const last = rows[rows.length - 1];
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "audit",
+            eventCategory: "compliance",
+            targetName: "Audit event search",
+            outcome: "success",
+            metadata: {
+                filters: {
+                    event_category: eventCategory || null,
+                    event_type: eventType || null,
+                    actor_id: filterActorId || null,
+                    target_type: targetType || null,
+                    target_id: targetId || null,
+                    action: action || null,
+                    result: result || null,
+                    from,
+                    to
+                },
+                returned: rows.length
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                events: transformArray(rows, transformAuditEvent),
+                limit,
+                nextCursor: hasMore && last ? encodeCursor(last.cursor_occurred_at, last.id) : null
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error searching audit events:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "audit",
+            eventCategory: "compliance",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to search audit events"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/audit/export
+ * Bulk download of the tenant's audit events for a time range, oldest first, one event per line
+ *
+ * Query params:
+ * - format: cef | syslog | ndjson (default: ndjson)
+ * - from: ISO timestamp (required)
+ * - to: ISO timestamp (required)
+ */
+internalAuditRouter.get("/export", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+    const format = String(req.query.format || "ndjson").trim().toLowerCase() as SiemFormat;
+    let exported = 0;
+
+    try {
+        const from = parseTimestamp(req.query.from);
+        const to = parseTimestamp(req.query.to);
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (!SIEM_FORMATS.includes(format)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `format must be one of: ${SIEM_FORMATS.join(", ")}`
+            });
+        }
+
+        if (!from || !to) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "from and to are required ISO timestamps"
+            });
+        }
+
+        const extension = format === "ndjson" ? "ndjson" : "log";
+        res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+        res.setHeader("Content-Disposition", `attachment; filename="audit-${tenantId}-${format}.${extension}"`);
+
+        // Walk the range in keyset batches so large exports never sit in memory
+        let after: { occurredAt: string; id: string } | null = null;
+        while (!res.destroyed) {
+            const params: any[] = [tenantId, from, to];
+            let keyset = "";
+            if (after) {
+                params.push(after.occurredAt, after.id);
+                keyset = "AND (occurred_at, id) > ($4, $5)";
+            }
+
+            const batch = await pool.query(
+                `SELECT *,
+                    to_char(occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_occurred_at
+                 FROM audit_events
+                 WHERE tenant_id = $1 AND occurred_at >= $2 AND occurred_at <= $3 ${keyset}
+                 ORDER BY occurred_at ASC, id ASC
+                 LIMIT ${EXPORT_BATCH_SIZE}`,
+                params
+            );
+
+            if (batch.rows.length > 0) {
+                const chunk = batch.rows.map(row => formatAuditEvent(row, format) + "\n").join("");
+                if (!res.write(chunk)) {
+                    // A client that disconnects never drains; stop instead of waiting forever
+                    await new Promise<void>(resolve => {
+                        const done = () => {
+                            res.off("drain", done);
+                            res.off("close", done);
+                            resolve();
+                        };
+                        res.once("drain", done);
+                        res.once("close", done);
+                    });
+                }
+                exported += batch.rows.length;
+                const last = batch.rows[batch.rows.length - 1];
+                after = { occurredAt: last.cursor_occurred_at, id: last.id };
+            }
+
+            if (batch.rows.length < EXPORT_BATCH_SIZE) break;
+        }
+
+        const completed = !res.destroyed;
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "audit",
+            eventCategory: "compliance",
+            targetName: "Audit export",
+            outcome: completed ? "success" : "failure",
+            reason: completed ? undefined : "client_disconnected",
+            metadata: { format, from, to, exported },
+            requestId: reqId
+        });
+
+        if (completed) res.end();
+        return;
+    } catch (err) {
+        console.error("[Agent] Error exporting audit events:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "audit",
+            eventCategory: "compliance",
+            targetName: "Audit export",
+            outcome: "failure",
+            reason: "internal_error",
+            metadata: { format, exported },
+            requestId: reqId
+        });
+        // Headers are already out once streaming started: abort so the client sees a truncated download
+        if (res.headersSent) return res.destroy(err as Error);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to export audit events"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/audit/verify
+ * Verify the tenant's audit hash chain and report the first broken link
+ *
+ * Query params:
+ * - from: ISO timestamp (optional)
+ * - to: ISO timestamp (optional)
+ */
+internalAuditRouter.get("/verify", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const from = parseTimestamp(req.query.from);
+        const to = parseTimestamp(req.query.to);
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (from === undefined || to === undefined) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "from and to must be ISO timestamps"
+            });
+        }
+
+        const verification = await verifyAuditChain(tenantId, from, to);
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "audit",
+            eventCategory: "compliance",
+            targetName: "Audit chain verification",
+            outcome: "success",
+            metadata: {
+                chain_valid: verification.valid,
+                events_checked: verification.checked,
+                broken_at_seq: verification.firstBrokenLink?.chainSeq ?? null
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: verification
+        });
+    } catch (err) {
+        console.error("[Agent] Error verifying audit chain:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to verify audit chain"
+        });
+    }
+});
@@ -0,0 +1,529 @@
+/**
+ * Agent Internal API - Approval Policies
+ *
+ * Reusable approval policies per document category or template, and the users
+ * holding each approval role. Policies are applied when a document enters
+ * pending_approval without explicit approvers (see helpers/approvalPolicies).
+ *
+ * Base path: /agent/internal/documents/approval-policies
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import {
+    ApprovalPolicyError, ROLE_NAME_PATTERN, assignRole, createPolicy, getPolicy, listPolicies,
+    listRoleAssignments, removeRoleAssignment, updatePolicy
+} from "../../../helpers/approvalPolicies";
+import { transformApprovalPolicy, transformApprovalRoleAssignment, transformArray } from "../../../helpers/transform";
+
+export const documentApprovalPoliciesRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * Validate X-Tenant-Id (and X-User-Id for changes); sends the 400 and returns null when invalid
+ */
+function readContext(req: any, res: any, requireActor: boolean) {
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+    const actorId = String(req.header("X-User-Id") || "").trim();
+
+    if (!tenantId) {
+        res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "X-Tenant-Id header required"
+        });
+        return null;
+    }
+    if (requireActor && !UUID_PATTERN.test(actorId)) {
+        res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "X-User-Id header (UUID) required"
+        });
+        return null;
+    }
+    return { tenantId, actorId };
+}
+
+function sendPolicyError(res: any, err: ApprovalPolicyError) {
+    return res.status(err.status).json({
+        ok: false,
+        error: err.code,
+        message: err.message,
+        ...(err.details || {})
+    });
+}
+
+/**
+ * GET /agent/internal/documents/approval-policies
+ * List approval policies
+ *
+ * Query params:
+ * - category: only policies for this category (optional)
+ * - include_inactive: true to also list deactivated policies
+ * Headers: X-Tenant-Id
+ */
+documentApprovalPoliciesRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const ctx = readContext(req, res, false);
+        if (!ctx) return;
+
+        const category = String(req.query.category || "").trim();
+        const policies = await listPolicies(pool, ctx.tenantId, {
+            category: category || null,
+            includeInactive: req.query.include_inactive === "true"
+        });
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "approval_policy",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformArray(policies, transformApprovalPolicy)
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing approval policies:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list approval policies"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/approval-policies
+ * Create an approval policy for a category or a template (one active policy each)
+ *
+ * Body: {
+ *   name: string,
+ *   description?: string,
+ *   category?: string (documents.category),
+ *   template_id?: UUID,
+ *   approval_type?: 'sequential' | 'parallel' (default: sequential),
+ *   steps: Array<string | { role: string, level?: number, all_assignees?: boolean, due_in_hours?: number }>,
+ *   due_in_hours?: number (default for steps without their own)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalPoliciesRouter.post("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        const policy = await createPolicy(pool, ctx.tenantId, req.body || {}, ctx.actorId);
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: policy.id,
+            targetType: "approval_policy",
+            targetName: policy.name,
+            outcome: "success",
+            metadata: { category: policy.category, template_id: policy.template_id, steps: policy.steps },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformApprovalPolicy(policy)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalPolicyError) return sendPolicyError(res, err);
+        console.error("[Agent] Error creating approval policy:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to create approval policy"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/approval-policies/roles
+ * Users holding approval roles
+ *
+ * Query params:
+ * - role_name: only this role (optional)
+ * Headers: X-Tenant-Id
+ */
+documentApprovalPoliciesRouter.get("/roles", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const ctx = readContext(req, res, false);
+        if (!ctx) return;
+
+        const roleName = String(req.query.role_name || "").trim();
+        if (roleName && !ROLE_NAME_PATTERN.test(roleName)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "role_name must be a role name (lowercase letters, digits, _)"
+            });
+        }
+
+        const assignments = await listRoleAssignments(pool, ctx.tenantId, roleName || null);
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "approval_role_assignment",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformArray(assignments, transformApprovalRoleAssignment)
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing approval role assignments:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list approval role assignments"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/approval-policies/roles
+ * Give a user an approval role
+ *
+ * Body: {
+ *   role_name: string,
+ *   user_id: UUID (active agent user),
+ *   department?: string (only for documents owned by this department),
+ *   priority?: number (lower is picked first; default 0)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalPoliciesRouter.post("/roles", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        const assignment = await assignRole(pool, ctx.tenantId, req.body || {}, ctx.actorId);
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "documents",
+            eventCategory: "security",
+            targetId: assignment.user_id,
+            targetType: "approval_role_assignment",
+            targetName: assignment.role_name,
+            outcome: "success",
+            metadata: { assignment_id: assignment.id, department: assignment.department, priority: assignment.priority },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformApprovalRoleAssignment(assignment)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalPolicyError) return sendPolicyError(res, err);
+        console.error("[Agent] Error assigning approval role:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to assign approval role"
+        });
+    }
+});
+
+/**
+ * DELETE /agent/internal/documents/approval-policies/roles/:assignmentId
+ * Remove a role assignment (workflows already started keep their approvers)
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalPoliciesRouter.delete("/roles/:assignmentId", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const assignmentId = String(req.params.assignmentId || "").trim();
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        if (!UUID_PATTERN.test(assignmentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid assignmentId parameter required"
+            });
+        }
+
+        const assignment = await removeRoleAssignment(pool, ctx.tenantId, assignmentId);
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "delete",
+            resource: "documents",
+            eventCategory: "security",
+            targetId: assignment.user_id,
+            targetType: "approval_role_assignment",
+            targetName: assignment.role_name,
+            outcome: "success",
+            metadata: { assignment_id: assignment.id, department: assignment.department },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformApprovalRoleAssignment(assignment)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalPolicyError) return sendPolicyError(res, err);
+        console.error("[Agent] Error removing approval role assignment:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to remove approval role assignment"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/approval-policies/:policyId
+ * Get an approval policy
+ *
+ * Headers: X-Tenant-Id
+ */
+documentApprovalPoliciesRouter.get("/:policyId", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const policyId = String(req.params.policyId || "").trim();
+
+    try {
+        const ctx = readContext(req, res, false);
+        if (!ctx) return;
+
+        if (!UUID_PATTERN.test(policyId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid policyId parameter required"
+            });
+        }
+
+        const policy = await getPolicy(pool, ctx.tenantId, policyId);
+        if (!policy) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Approval policy not found"
+            });
+        }
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: policyId,
+            targetType: "approval_policy",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformApprovalPolicy(policy)
+        });
+    } catch (err) {
+        console.error("[Agent] Error getting approval policy:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to get approval policy"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/approval-policies/:policyId
+ * Update an approval policy; omitted fields keep their value. The category or
+ * template it applies to cannot change. Running workflows are not affected.
+ *
+ * Body: {
+ *   name?, description?, approval_type?, steps?, due_in_hours?, is_active?: boolean
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalPoliciesRouter.put("/:policyId", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const policyId = String(req.params.policyId || "").trim();
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        if (!UUID_PATTERN.test(policyId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid policyId parameter required"
+            });
+        }
+
+        const { previous, policy } = await updatePolicy(pool, ctx.tenantId, policyId, req.body || {}, ctx.actorId);
+
+        const changes: Record<string, { from: any; to: any }> = {};
+        for (const key of ["name", "description", "approval_type", "steps", "due_in_hours", "is_active"]) {
+            if (JSON.stringify(previous[key]) !== JSON.stringify(policy[key])) {
+                changes[key] = { from: previous[key], to: policy[key] };
+            }
+        }
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: policyId,
+            targetType: "approval_policy",
+            targetName: policy.name,
+            outcome: "success",
+            changes,
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformApprovalPolicy(policy)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalPolicyError) return sendPolicyError(res, err);
+        console.error("[Agent] Error updating approval policy:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to update approval policy"
+        });
+    }
+});
+
+/**
+ * DELETE /agent/internal/documents/approval-policies/:policyId
+ * Deactivate an approval policy (kept for the approvals generated from it)
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalPoliciesRouter.delete("/:policyId", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const policyId = String(req.params.policyId || "").trim();
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        if (!UUID_PATTERN.test(policyId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid policyId parameter required"
+            });
+        }
+
+        const { policy } = await updatePolicy(pool, ctx.tenantId, policyId, { is_active: false }, ctx.actorId);
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "delete",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: policyId,
+            targetType: "approval_policy",
+            targetName: policy.name,
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformApprovalPolicy(policy)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalPolicyError) return sendPolicyError(res, err);
+        console.error("[Agent] Error deactivating approval policy:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to deactivate approval policy"
+        });
+    }
+});
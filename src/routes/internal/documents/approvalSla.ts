@@ -0,0 +1,235 @@
+/**
+ * Agent Internal API - Approval SLA
+ *
+ * Tenant settings for the approval SLA monitor (reminders before due_date and
+ * auto-escalation past it) and SLA breach statistics. See helpers/approvalSla.
+ *
+ * Base path: /agent/internal/documents/approval-sla
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { ApprovalSlaError, getSlaSettings, getSlaStats, updateSlaSettings } from "../../../helpers/approvalSla";
+import { transformApprovalSlaSettings } from "../../../helpers/transform";
+
+export const documentApprovalSlaRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * GET /agent/internal/documents/approval-sla/settings
+ * The tenant's SLA settings (agent defaults when none are stored)
+ *
+ * Headers: X-Tenant-Id
+ */
+documentApprovalSlaRouter.get("/settings", requireInternalAuth, async (req, res) => {
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        const settings = await getSlaSettings(pool, tenantId);
+
+        return res.json({
+            ok: true,
+            data: transformApprovalSlaSettings(settings)
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching approval SLA settings:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch approval SLA settings"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/approval-sla/settings
+ * Update the tenant's SLA settings; omitted fields keep their value
+ *
+ * Body: {
+ *   reminder_hours_before?: number,
+ *   auto_escalate?: boolean,
+ *   escalation_grace_hours?: number,
+ *   escalation_target?: 'manager' | 'default',
+ *   default_escalation_user_id?: UUID | null
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentApprovalSlaRouter.put("/settings", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        const { previous, settings } = await updateSlaSettings(
+            pool,
+            tenantId,
+            req.body || {},
+            actorId && UUID_PATTERN.test(actorId) ? actorId : null
+        );
+
+        const changes: Record<string, { from: any; to: any }> = {};
+        for (const key of [
+            "reminder_hours_before", "auto_escalate", "escalation_grace_hours",
+            "escalation_target", "default_escalation_user_id"
+        ] as const) {
+            if (previous[key] !== settings[key]) changes[key] = { from: previous[key], to: settings[key] };
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetType: "approval_sla_settings",
+            targetName: "Approval SLA settings",
+            outcome: "success",
+            changes,
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformApprovalSlaSettings(settings)
+        });
+    } catch (err) {
+        if (err instanceof ApprovalSlaError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
+        console.error("[Agent] Error updating approval SLA settings:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to update approval SLA settings"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/approval-sla/stats
+ * SLA breach statistics for approvals with a due date: overall, per approver and
+ * per document category. A breach is a decision after the due date, or an approval
+ * still outstanding past it; breaches count against the original approver.
+ *
+ * Query params:
+ * - from, to: YYYY-MM-DD, approvals requested in [from, to) (optional)
+ * - category: document category (optional)
+ * - approver_id: UUID (optional)
+ * Headers: X-Tenant-Id
+ */
+documentApprovalSlaRouter.get("/stats", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const from = String(req.query.from || "").trim();
+        const to = String(req.query.to || "").trim();
+        const category = String(req.query.category || "").trim();
+        const approverId = String(req.query.approver_id || "").trim();
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        for (const [name, value] of [["from", from], ["to", to]]) {
+            if (value && (!DATE_PATTERN.test(value) || isNaN(new Date(value).getTime()))) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: `${name} must be a date (YYYY-MM-DD)`
+                });
+            }
+        }
+
+        if (approverId && !UUID_PATTERN.test(approverId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "approver_id must be a UUID"
+            });
+        }
+
+        const stats = await getSlaStats(pool, tenantId, {
+            from: from || null,
+            to: to || null,
+            category: category || null,
+            approverId: approverId || null
+        });
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetType: "approval_sla",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                from: from || null,
+                to: to || null,
+                category: category || null,
+                approverId: approverId || null,
+                ...stats
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error building approval SLA statistics:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to build approval SLA statistics"
+        });
+    }
+});
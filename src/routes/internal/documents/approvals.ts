@@ -10,6 +10,8 @@ import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
 import { recordAudit } from "../../../helpers/audit";
 import { transformApproval, transformArray } from "../../../helpers/transform";
+import { startWorkflow, decideApproval, getWorkflowState, WorkflowError } from "../../../helpers/approvalWorkflow";
+import { ApprovalPolicyError, planApprovalWorkflow } from "../../../helpers/approvalPolicies";
 
 export const documentApprovalsRouter = Router({ mergeParams: true });
 
@@ -64,14 +66,18 @@ documentApprovalsRouter.get("/", requireInternalAuth, async (req, res) => {
                 escalated_to,
                 escalated_at,
                 escalation_reason,
+                auto_escalated,
+                approval_policy_id,
                 requested_at,
                 due_date,
                 reminder_sent_at,
+                overdue_notified_at,
+                workflow_round,
                 created_at,
                 updated_at
             FROM document_approvals
             WHERE document_id = $1 AND tenant_id = $2
-            ORDER BY approval_level ASC, created_at ASC
+            ORDER BY workflow_round ASC, approval_level ASC, created_at ASC
         `;
 
         const result = await pool.query(query, [documentId, tenantId]);
@@ -101,24 +107,136 @@ documentApprovalsRouter.get("/", requireInternalAuth, async (req, res) => {
     }
 });
 
+/**
+ * GET /agent/internal/documents/:documentId/approvals/workflow
+ * Get the state of the current approval workflow round
+ * (current level, actionable approvers, outcome)
+ */
+documentApprovalsRouter.get("/workflow", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorRole } = getActorContext(req);
+
+    try {
+        const documentId = String(req.params.documentId || req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!documentId || !tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "document_id and X-Tenant-Id header required"
+            });
+        }
+
+        const workflow = await getWorkflowState(pool, tenantId, documentId);
+
+        await recordAudit({
+            tenantId,
+            actorRole,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetName: "Approval workflow state",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: workflow
+        });
+    } catch (err) {
+        console.error("[Agent] Error getting approval workflow state:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to get approval workflow state"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/approvals/policy
+ * Preview the approvers the document's approval policy resolves to, without
+ * starting a workflow. data is null when no policy applies and approval is optional.
+ */
+documentApprovalsRouter.get("/policy", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorRole } = getActorContext(req);
+
+    try {
+        const documentId = String(req.params.documentId || req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!documentId || !tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "document_id and X-Tenant-Id header required"
+            });
+        }
+
+        const plan = await planApprovalWorkflow(pool, tenantId, documentId);
+
+        await recordAudit({
+            tenantId,
+            actorRole,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetName: "Approval policy preview",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: plan
+        });
+    } catch (err: any) {
+        if (err instanceof ApprovalPolicyError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                ...(err.details || {})
+            });
+        }
+        console.error("[Agent] Error resolving approval policy:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to resolve approval policy"
+        });
+    }
+});
+
 /**
  * POST /agent/internal/documents/:documentId/approvals
- * Create approval workflow for a document
+ * Start an approval workflow round for a document
+ *
+ * Moves the document to pending_approval. Refused with 409 while a previous
+ * round is still pending. For sequential workflows, approvers without an
+ * explicit approval_level get one level each in array order.
+ * Without approvers, the document's approval policy is resolved into approvers
+ * (422 when no policy applies or one of its roles has no eligible user).
  *
  * Body: {
  *   tenant_id: UUID,
- *   approvers: Array<{
+ *   approvers?: Array<{
  *     approver_id: UUID,
- *     approval_level: number,
+ *     approval_level?: number,
  *     approver_role?: string,
  *     due_date?: string
  *   }>,
- *   approval_type: 'sequential' | 'parallel'
+ *   approval_type?: 'sequential' | 'parallel' (ignored when a policy is applied)
  * }
  */
 documentApprovalsRouter.post("/", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
-    const { actorRole } = getActorContext(req);
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
 
     try {
         const documentId = String(req.params.documentId || req.params.id || "").trim();
@@ -128,83 +246,109 @@ documentApprovalsRouter.post("/", requireInternalAuth, async (req, res) => {
             approval_type
         } = req.body || {};
 
-        if (!documentId || !tenant_id || !approvers || !Array.isArray(approvers) || approvers.length === 0) {
+        if (!documentId || !tenant_id) {
             return res.status(400).json({
                 ok: false,
                 error: "bad_request",
-                message: "document_id, tenant_id, and approvers array are required"
+                message: "document_id and tenant_id are required"
             });
         }
 
-        // Verify document exists
-        const docCheck = await pool.query(
-            "SELECT id FROM documents WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL",
-            [documentId, tenant_id]
-        );
+        if (approvers !== undefined && (!Array.isArray(approvers) || approvers.length === 0)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "approvers must be a non-empty array when given"
+            });
+        }
 
-        if (docCheck.rows.length === 0) {
-            return res.status(404).json({
+        if (approval_type && approval_type !== 'sequential' && approval_type !== 'parallel') {
+            return res.status(400).json({
                 ok: false,
-                error: "not_found",
-                message: "Document not found"
+                error: "bad_request",
+                message: "approval_type must be 'sequential' or 'parallel'"
             });
         }
 
-        // Insert approval workflow items
-        const insertQuery = `
-            INSERT INTO document_approvals (
-                tenant_id,
-                document_id,
-                approval_level,
-                approval_type,
-                approver_id,
-                approver_role,
-                status,
-                due_date,
-                requested_at
-            )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
-            RETURNING
-                id, tenant_id, document_id, approval_level, approval_type,
-                approver_id, approver_role, status, due_date, requested_at,
-                created_at, updated_at
-        `;
+        if (approvers && approvers.some((a: any) => !a || !a.approver_id)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Each approver requires an approver_id"
+            });
+        }
 
-        const createdApprovals = [];
+        const plan = approvers ? null : await planApprovalWorkflow(pool, tenant_id, documentId);
+        if (!approvers && !plan) {
+            return res.status(422).json({
+                ok: false,
+                error: "approval_policy_required",
+                message: "No approval policy applies to this document; approvers are required"
+            });
+        }
 
-        for (const approver of approvers) {
-            const values = [
-                tenant_id,
+        const client = await pool.connect();
+        let started;
+        try {
+            await client.query("BEGIN");
+            started = await startWorkflow(client, plan ? {
+                tenantId: tenant_id,
                 documentId,
-                approver.approval_level || 1,
-                approval_type || 'sequential',
-                approver.approver_id,
-                approver.approver_role || null,
-                'pending',
-                approver.due_date || null
-            ];
-
-            const result = await pool.query(insertQuery, values);
-            createdApprovals.push(result.rows[0]);
+                approvalType: plan.approvalType,
+                approvers: plan.approvers,
+                approvalPolicyId: plan.policyId
+            } : {
+                tenantId: tenant_id,
+                documentId,
+                approvalType: approval_type || 'sequential',
+                approvers
+            });
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
         }
 
         await recordAudit({
             tenantId: tenant_id,
+            actorId,
+            actorEmail,
             actorRole,
+            actorIp,
             action: "create",
             resource: "documents",
             eventCategory: "data",
             targetId: documentId,
-            targetName: `Approval workflow with ${approvers.length} approvers`,
+            targetName: `Approval workflow round ${started.workflow.round} with ${started.approvals.length} approvers`,
             outcome: "success",
+            ...(plan && { metadata: { approval_policy_id: plan.policyId, policy_source: plan.source } }),
             requestId: reqId
         });
 
         return res.status(201).json({
             ok: true,
-            data: transformArray(createdApprovals, transformApproval)
+            data: transformArray(started.approvals, transformApproval),
+            workflow: started.workflow,
+            ...(plan && { policy: plan })
         });
     } catch (err: any) {
+        if (err instanceof ApprovalPolicyError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                ...(err.details || {})
+            });
+        }
+        if (err instanceof WorkflowError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
         console.error("[Agent] Error creating approval workflow:", err);
         return res.status(500).json({
             ok: false,
@@ -215,8 +359,13 @@ documentApprovalsRouter.post("/", requireInternalAuth, async (req, res) => {
 });
 
 /**
- * PUT /agent/internal/documents/approvals/:approvalId/decide
- * Make an approval decision (approve or reject)
+ * PUT /agent/internal/documents/:documentId/approvals/:approvalId/decide
+ * Make an approval decision (approve or reject) and advance the workflow
+ *
+ * Only approvals on the active level are actionable. When X-User-Id is sent
+ * it must match the approver (or its delegate / escalation target).
+ * A rejection skips the rest of the round and rejects the document; the last
+ * approval moves the document to approved.
  *
  * Body: {
  *   tenant_id: UUID,
@@ -227,10 +376,11 @@ documentApprovalsRouter.post("/", requireInternalAuth, async (req, res) => {
  */
 documentApprovalsRouter.put("/:approvalId/decide", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
-    const { actorRole } = getActorContext(req);
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
 
     try {
         const approvalId = String(req.params.approvalId || "").trim();
+        const documentId = String(req.params.documentId || "").trim();
         const {
             tenant_id,
             decision,
@@ -254,98 +404,71 @@ documentApprovalsRouter.put("/:approvalId/decide", requireInternalAuth, async (r
             });
         }
 
-        // Get current approval
-        const approvalCheck = await pool.query(
-            "SELECT id, status, document_id FROM document_approvals WHERE id = $1 AND tenant_id = $2",
-            [approvalId, tenant_id]
-        );
-
-        if (approvalCheck.rows.length === 0) {
-            return res.status(404).json({
-                ok: false,
-                error: "not_found",
-                message: "Approval not found"
-            });
-        }
-
-        const approval = approvalCheck.rows[0];
-
-        if (approval.status !== 'pending') {
-            return res.status(400).json({
-                ok: false,
-                error: "bad_request",
-                message: `Approval already ${approval.status}`
+        const client = await pool.connect();
+        let decided;
+        try {
+            await client.query("BEGIN");
+            decided = await decideApproval(client, {
+                tenantId: tenant_id,
+                documentId: documentId || null,
+                approvalId,
+                decision,
+                actorId,
+                comments,
+                rejectionReason: rejection_reason
             });
-        }
-
-        const newStatus = decision === 'approve' ? 'approved' : 'rejected';
-
-        const updateQuery = `
-            UPDATE document_approvals
-            SET
-                status = $1,
-                decision_date = NOW(),
-                comments = $2,
-                rejection_reason = $3,
-                updated_at = NOW()
-            WHERE id = $4 AND tenant_id = $5
-            RETURNING
-                id, tenant_id, document_id, approval_level, approval_type,
-                approver_id, approver_role, status, decision_date,
-                comments, rejection_reason, created_at, updated_at
-        `;
-
-        const result = await pool.query(updateQuery, [
-            newStatus,
-            comments || null,
-            decision === 'reject' ? rejection_reason : null,
-            approvalId,
-            tenant_id
-        ]);
-
-        // If approved, check if all approvals are done and update document status
-        if (decision === 'approve') {
-            const pendingCheck = await pool.query(
-                `SELECT COUNT(*) as pending_count
-                 FROM document_approvals
-                 WHERE document_id = $1 AND status = 'pending'`,
-                [approval.document_id]
-            );
-
-            if (parseInt(pendingCheck.rows[0].pending_count) === 0) {
-                // All approvals done, mark document as approved
-                await pool.query(
-                    "UPDATE documents SET status = 'approved', updated_at = NOW() WHERE id = $1",
-                    [approval.document_id]
-                );
-            }
-        }
-
-        // If rejected, mark document as rejected
-        if (decision === 'reject') {
-            await pool.query(
-                "UPDATE documents SET status = 'rejected', updated_at = NOW() WHERE id = $1",
-                [approval.document_id]
-            );
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
         }
 
         await recordAudit({
             tenantId: tenant_id,
+            actorId,
+            actorEmail,
             actorRole,
+            actorIp,
             action: "update",
             resource: "documents",
             eventCategory: "data",
             targetId: approvalId,
-            targetName: `Approval ${newStatus}`,
+            targetName: `Approval ${decided.approval.status}`,
             outcome: "success",
+            changes: { workflow_outcome: decided.workflow.outcome, current_level: decided.workflow.currentLevel },
             requestId: reqId
         });
 
         return res.json({
             ok: true,
-            data: transformApproval(result.rows[0])
+            data: transformApproval(decided.approval),
+            workflow: decided.workflow
         });
     } catch (err: any) {
+        if (err instanceof WorkflowError) {
+            await recordAudit({
+                tenantId: (req.body as any)?.tenant_id || "unknown",
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: String(req.params.approvalId || "") || null,
+                outcome: "failure",
+                decision: err.status === 403 ? "deny" : "n/a",
+                reason: err.code,
+                requestId: reqId
+            });
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
         console.error("[Agent] Error processing approval decision:", err);
         return res.status(500).json({
             ok: false,
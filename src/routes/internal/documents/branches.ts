@@ -0,0 +1,351 @@
+/**
+ * Agent Internal API - Document Version Branches
+ *
+ * Named branches of a document lineage (see helpers/versionBranches). Versions are
+ * created on a branch through POST /:documentId/versions with `branch`.
+ *
+ * Base path: /agent/internal/documents/:documentId/branches
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import {
+    BranchError, closeBranch, createBranch, getLineageRoot, listBranches, promoteBranch
+} from "../../../helpers/versionBranches";
+import { transformArray, transformDocumentBranch } from "../../../helpers/transform";
+
+export const documentBranchesRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * Validate documentId and X-Tenant-Id (and X-User-Id for changes); sends the 400
+ * and returns null when invalid
+ */
+function readContext(req: any, res: any, requireActor: boolean) {
+    const documentId = String(req.params.documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+    const actorId = String(req.header("X-User-Id") || "").trim();
+
+    if (!tenantId || !UUID_PATTERN.test(documentId)) {
+        res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "Valid documentId parameter and X-Tenant-Id header required"
+        });
+        return null;
+    }
+    if (requireActor && !UUID_PATTERN.test(actorId)) {
+        res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "X-User-Id header (UUID) required"
+        });
+        return null;
+    }
+    return { documentId, tenantId, actorId };
+}
+
+/**
+ * Run a branch operation in a transaction on the document's lineage
+ */
+async function inLineageTransaction<T>(tenantId: string, documentId: string, fn: (client: any, rootId: string) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+        await client.query("BEGIN");
+        const rootId = await getLineageRoot(client, tenantId, documentId);
+        if (!rootId) throw new BranchError(404, "not_found", "Document not found");
+        const result = await fn(client, rootId);
+        await client.query("COMMIT");
+        return result;
+    } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+function sendBranchError(res: any, err: BranchError) {
+    return res.status(err.status).json({
+        ok: false,
+        error: err.code,
+        message: err.message,
+        ...(err.details || {})
+    });
+}
+
+/**
+ * GET /agent/internal/documents/:documentId/branches
+ * The published line and the active branches, each with its head version
+ *
+ * Query params:
+ * - include_inactive: true to also list promoted and closed branches
+ * Headers: X-Tenant-Id
+ */
+documentBranchesRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const ctx = readContext(req, res, false);
+        if (!ctx) return;
+
+        const rootId = await getLineageRoot(pool, ctx.tenantId, ctx.documentId);
+        if (!rootId) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Document not found"
+            });
+        }
+
+        const branches = await listBranches(pool, ctx.tenantId, rootId, req.query.include_inactive === "true");
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: rootId,
+            targetType: "document_branch",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                documentId: rootId,
+                branches: transformArray(branches, transformDocumentBranch)
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing document branches:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list document branches"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/branches
+ * Start a branch
+ *
+ * Body: {
+ *   name: string,
+ *   from_version_id?: UUID (default: the published version)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentBranchesRouter.post("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        const fromVersionId = req.body?.from_version_id ? String(req.body.from_version_id) : null;
+        if (fromVersionId && !UUID_PATTERN.test(fromVersionId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "from_version_id must be a UUID"
+            });
+        }
+
+        const branch = await inLineageTransaction(ctx.tenantId, ctx.documentId, (client, rootId) =>
+            createBranch(client, { tenantId: ctx.tenantId, rootId, name, fromVersionId, actorId: ctx.actorId })
+        );
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: branch.root_document_id,
+            targetType: "document_branch",
+            targetName: branch.name,
+            outcome: "success",
+            metadata: { branch_id: branch.id, base_document_id: branch.base_document_id },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformDocumentBranch(branch)
+        });
+    } catch (err) {
+        if (err instanceof BranchError) return sendBranchError(res, err);
+        console.error("[Agent] Error creating document branch:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to create document branch"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/branches/:name/promote
+ * Make the branch head the latest published version; the head must be approved
+ * when its category or template requires approval
+ *
+ * Body: {
+ *   force?: boolean (replace a published version created after the branch started)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentBranchesRouter.post("/:name/promote", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const name = String(req.params.name || "").trim();
+    const documentId = String(req.params.documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        const result = await inLineageTransaction(ctx.tenantId, ctx.documentId, (client, rootId) =>
+            promoteBranch(client, { tenantId: ctx.tenantId, rootId, name, actorId: ctx.actorId, force: req.body?.force === true })
+        );
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: result.promoted.id,
+            targetType: "document_branch",
+            targetName: `Promote ${name} (version ${result.promoted.version})`,
+            outcome: "success",
+            metadata: {
+                branch_id: result.branch.id,
+                superseded_version_id: result.superseded.id,
+                superseded_version: result.superseded.version,
+                forced: result.forced
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                branch: transformDocumentBranch(result.branch),
+                published: {
+                    id: result.promoted.id,
+                    version: result.promoted.version,
+                    status: result.promoted.status
+                },
+                supersedes: result.superseded
+            }
+        });
+    } catch (err) {
+        const reason = err instanceof BranchError ? err.code : "internal_error";
+        if (!(err instanceof BranchError)) console.error("[Agent] Error promoting document branch:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: UUID_PATTERN.test(documentId) ? documentId : null,
+            targetType: "document_branch",
+            targetName: name,
+            outcome: "failure",
+            reason,
+            requestId: reqId
+        });
+        if (err instanceof BranchError) return sendBranchError(res, err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to promote document branch"
+        });
+    }
+});
+
+/**
+ * DELETE /agent/internal/documents/:documentId/branches/:name
+ * Close a branch without promoting it (its versions are kept)
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentBranchesRouter.delete("/:name", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const name = String(req.params.name || "").trim();
+
+    try {
+        const ctx = readContext(req, res, true);
+        if (!ctx) return;
+
+        const branch = await inLineageTransaction(ctx.tenantId, ctx.documentId, (client, rootId) =>
+            closeBranch(client, { tenantId: ctx.tenantId, rootId, name })
+        );
+
+        await recordAudit({
+            tenantId: ctx.tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "delete",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: branch.root_document_id,
+            targetType: "document_branch",
+            targetName: branch.name,
+            outcome: "success",
+            metadata: { branch_id: branch.id },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformDocumentBranch(branch)
+        });
+    } catch (err) {
+        if (err instanceof BranchError) return sendBranchError(res, err);
+        console.error("[Agent] Error closing document branch:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to close document branch"
+        });
+    }
+});
@@ -0,0 +1,518 @@
+/**
+ * Agent Internal API - Real-time Collaborative Editing
+ *
+ * WebSocket channel per document. The agent is the central authority of the
+ * ProseMirror collab protocol: it orders and stores steps, relays them to every
+ * editor in the room, tracks presence/cursors and asks an editor for a snapshot
+ * of the document every COLLAB_SNAPSHOT_STEPS steps or COLLAB_SNAPSHOT_INTERVAL_MS
+ * (see helpers/collab for persistence).
+ *
+ * The upgrade request carries the REST headers (X-Agent-Secret, X-Tenant-Id,
+ * X-User-*) and passes the same secret, tenant, policy ("update" on the document),
+ * legal hold and checkout checks before the handshake completes; steps and
+ * snapshots are checked again when they arrive.
+ *
+ * Endpoint: GET /agent/internal/documents/:documentId/collab (Upgrade: websocket)
+ *
+ * Client messages (JSON text):
+ * - { type: "steps", version, steps: [...], clientId }: steps made on top of `version`
+ * - { type: "presence", cursor: { anchor, head } | null }
+ * - { type: "snapshot", version, editorState, structuredContent? }: the document at `version`
+ *
+ * Agent messages:
+ * - { type: "init" | "resync", sessionId, version, snapshotVersion, editorState, structuredContent, steps, presence }
+ * - { type: "steps", version, steps: [{ version, step, clientId }] } (to everyone, the author included)
+ * - { type: "rejected", version, reason }: behind the room; apply the relayed steps, rebase, resend
+ * - { type: "presence", sessions: [{ sessionId, userId, email, cursor, joinedAt }] }
+ * - { type: "snapshot_request", version } / { type: "snapshot_saved", version, contentHash }
+ * - { type: "error", error, message }
+ */
+
+import crypto from "crypto";
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { pool } from "../../../lib/db";
+import { CONFIG } from "../../../config";
+import { verifyInternalSecret } from "../../../middleware/internalAuth";
+import { authorizeUpgrade } from "../../../middleware/policy";
+import { recordAudit } from "../../../helpers/audit";
+import { assertWritable, DocumentLockError, lockDocumentForWrite } from "../../../helpers/documentLocks";
+import { assertDocumentNotHeld, LegalHoldError } from "../../../helpers/legalHolds";
+import { appendSteps, loadCollabState, saveCollabSnapshot, CollabState } from "../../../helpers/collab";
+import {
+    acceptWebSocket,
+    rejectUpgrade,
+    WebSocketConnection,
+    CLOSE_GOING_AWAY,
+    CLOSE_POLICY_VIOLATION,
+} from "../../../lib/websocket";
+
+const COLLAB_PATH = /^\/agent\/internal\/documents\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/collab\/?$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_STEPS_PER_MESSAGE = 500;
+const MAX_CLIENT_ID_LENGTH = 64;
+
+type Participant = {
+    sessionId: string;
+    connection: WebSocketConnection;
+    reqId: string;
+    actorId: string;
+    actorEmail: string | null;
+    actorRole: string;
+    actorIp: string | null;
+    cursor: { anchor: number; head: number } | null;
+    joinedAt: string;
+    stepsAccepted: number;
+};
+
+type Room = {
+    tenantId: string;
+    documentId: string;
+    version: number;
+    snapshotVersion: number;
+    participants: Map<string, Participant>;
+    // Messages of a room are handled one at a time, in arrival order
+    queue: Promise<void>;
+    lastAuthor: string | null;
+    // Accepted connections that have not joined yet; the room stays open for them
+    pendingJoins: number;
+    snapshotTimer: NodeJS.Timeout;
+};
+
+const rooms = new Map<string, Room>();
+
+/**
+ * True while editors are connected to the document's collaboration channel
+ */
+export function hasCollabSession(documentId: string): boolean {
+    const room = rooms.get(documentId.toLowerCase());
+    return !!room && room.participants.size > 0;
+}
+
+function header(req: IncomingMessage, name: string): string | null {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value) || null;
+}
+
+function send(participant: Participant, message: any): void {
+    participant.connection.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: any): void {
+    const text = JSON.stringify(message);
+    for (const participant of room.participants.values()) {
+        participant.connection.send(text);
+    }
+}
+
+function presenceOf(room: Room) {
+    return Array.from(room.participants.values()).map(p => ({
+        sessionId: p.sessionId,
+        userId: p.actorId,
+        email: p.actorEmail,
+        cursor: p.cursor,
+        joinedAt: p.joinedAt
+    }));
+}
+
+function stateMessage(type: "init" | "resync", participant: Participant, room: Room, state: CollabState) {
+    return {
+        type,
+        sessionId: participant.sessionId,
+        version: state.version,
+        snapshotVersion: state.snapshotVersion,
+        editorState: state.editorState,
+        structuredContent: state.structuredContent,
+        steps: state.steps,
+        presence: presenceOf(room)
+    };
+}
+
+function enqueue(room: Room, task: () => Promise<void>): void {
+    room.queue = room.queue.then(task).catch(err => {
+        console.error(`[collab] Error in document ${room.documentId}:`, err);
+    });
+}
+
+/**
+ * Reload the room from the database and send everyone the full state
+ * (after the stored history changed underneath the room)
+ */
+async function resyncRoom(room: Room): Promise<void> {
+    const state = await loadCollabState(pool, room.tenantId, room.documentId);
+    if (!state) {
+        for (const participant of room.participants.values()) {
+            participant.connection.close(CLOSE_GOING_AWAY, "document removed");
+        }
+        return;
+    }
+    room.version = state.version;
+    room.snapshotVersion = state.snapshotVersion;
+    for (const participant of room.participants.values()) {
+        send(participant, stateMessage("resync", participant, room, state));
+    }
+}
+
+function requestSnapshot(room: Room): void {
+    if (room.version <= room.snapshotVersion || room.participants.size === 0) return;
+    const target = (room.lastAuthor && room.participants.get(room.lastAuthor))
+        || room.participants.values().next().value;
+    if (target) send(target, { type: "snapshot_request", version: room.version });
+}
+
+function openRoom(tenantId: string, documentId: string): Room {
+    const room: Room = {
+        tenantId,
+        documentId,
+        version: 0,
+        snapshotVersion: 0,
+        participants: new Map(),
+        queue: Promise.resolve(),
+        lastAuthor: null,
+        pendingJoins: 0,
+        snapshotTimer: setInterval(() => enqueue(room, async () => requestSnapshot(room)), CONFIG.COLLAB_SNAPSHOT_INTERVAL_MS)
+    };
+    rooms.set(documentId, room);
+    return room;
+}
+
+async function handleSteps(room: Room, participant: Participant, message: any): Promise<void> {
+    const { version, steps, clientId } = message;
+
+    if (!Number.isInteger(version) || !Array.isArray(steps) || steps.length === 0 || steps.length > MAX_STEPS_PER_MESSAGE
+        || steps.some((step: any) => !step || typeof step !== "object" || Array.isArray(step))
+        || (typeof clientId !== "string" && typeof clientId !== "number")
+        || String(clientId).length === 0 || String(clientId).length > MAX_CLIENT_ID_LENGTH) {
+        send(participant, {
+            type: "error",
+            error: "validation_error",
+            message: `steps message needs an integer version, 1 to ${MAX_STEPS_PER_MESSAGE} step objects and a clientId`
+        });
+        return;
+    }
+
+    if (version !== room.version) {
+        send(participant, { type: "rejected", version: room.version, reason: "version_mismatch" });
+        return;
+    }
+
+    try {
+        await assertDocumentNotHeld(pool, room.tenantId, room.documentId);
+        await assertWritable(pool, room.tenantId, room.documentId, participant.actorId);
+    } catch (err) {
+        if (!(err instanceof DocumentLockError) && !(err instanceof LegalHoldError)) throw err;
+        send(participant, { type: "error", error: err.code, message: err.message });
+        return;
+    }
+
+    // The checkout is checked again under the document row lock, in the same transaction as the write
+    const client = await pool.connect();
+    let accepted;
+    try {
+        await client.query("BEGIN");
+        await lockDocumentForWrite(client, room.tenantId, room.documentId, participant.actorId);
+        accepted = await appendSteps(client, {
+            tenantId: room.tenantId,
+            documentId: room.documentId,
+            fromVersion: room.version,
+            steps,
+            clientId: String(clientId),
+            userId: participant.actorId
+        });
+        await client.query("COMMIT");
+    } catch (err: any) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        if (err instanceof DocumentLockError) {
+            send(participant, { type: "error", error: err.code, message: err.message });
+            return;
+        }
+        // Another writer took these versions (e.g. a REST save reset the history)
+        if (err?.code === "23505") {
+            await resyncRoom(room);
+            return;
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+
+    room.version += accepted.length;
+    room.lastAuthor = participant.sessionId;
+    participant.stepsAccepted += accepted.length;
+    broadcast(room, { type: "steps", version: room.version, steps: accepted });
+
+    if (room.version - room.snapshotVersion >= CONFIG.COLLAB_SNAPSHOT_STEPS) {
+        requestSnapshot(room);
+    }
+}
+
+async function handleSnapshot(room: Room, participant: Participant, message: any): Promise<void> {
+    const { version, editorState, structuredContent } = message;
+
+    if (!Number.isInteger(version) || !editorState || typeof editorState !== "object"
+        || (structuredContent !== undefined && structuredContent !== null && typeof structuredContent !== "object")) {
+        send(participant, {
+            type: "error",
+            error: "validation_error",
+            message: "snapshot message needs an integer version and an editorState object"
+        });
+        return;
+    }
+
+    // Older than the stored snapshot, or ahead of the room: nothing to store
+    if (version <= room.snapshotVersion || version > room.version) return;
+
+    try {
+        await assertDocumentNotHeld(pool, room.tenantId, room.documentId);
+        await assertWritable(pool, room.tenantId, room.documentId, participant.actorId);
+    } catch (err) {
+        if (!(err instanceof DocumentLockError) && !(err instanceof LegalHoldError)) throw err;
+        send(participant, { type: "error", error: err.code, message: err.message });
+        return;
+    }
+
+    const client = await pool.connect();
+    let saved;
+    try {
+        await client.query("BEGIN");
+        await lockDocumentForWrite(client, room.tenantId, room.documentId, participant.actorId);
+        saved = await saveCollabSnapshot(client, {
+            tenantId: room.tenantId,
+            documentId: room.documentId,
+            version,
+            editorState,
+            structuredContent: structuredContent || null,
+            actorId: participant.actorId
+        });
+        await client.query("COMMIT");
+    } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        if (err instanceof DocumentLockError) {
+            send(participant, { type: "error", error: err.code, message: err.message });
+            return;
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+
+    if (!saved) {
+        await resyncRoom(room);
+        return;
+    }
+
+    room.snapshotVersion = version;
+    broadcast(room, { type: "snapshot_saved", version, contentHash: saved.contentHash });
+
+    await recordAudit({
+        tenantId: room.tenantId,
+        actorId: participant.actorId,
+        actorEmail: participant.actorEmail,
+        actorRole: participant.actorRole,
+        actorIp: participant.actorIp,
+        action: "update",
+        resource: "documents",
+        eventCategory: "data",
+        targetId: room.documentId,
+        targetType: "editor_state",
+        outcome: "success",
+        metadata: { collab_version: version, content_hash: saved.contentHash, editors: room.participants.size },
+        requestId: participant.reqId
+    });
+}
+
+function handleMessage(room: Room, participant: Participant, raw: string): void {
+    let message: any;
+    try {
+        message = JSON.parse(raw);
+    } catch {
+        send(participant, { type: "error", error: "bad_request", message: "Messages must be JSON" });
+        return;
+    }
+
+    switch (message?.type) {
+        case "steps":
+            enqueue(room, () => handleSteps(room, participant, message));
+            return;
+        case "snapshot":
+            enqueue(room, () => handleSnapshot(room, participant, message));
+            return;
+        case "presence": {
+            const cursor = message.cursor;
+            participant.cursor = cursor && Number.isInteger(cursor.anchor) && Number.isInteger(cursor.head)
+                ? { anchor: cursor.anchor, head: cursor.head }
+                : null;
+            broadcast(room, { type: "presence", sessions: presenceOf(room) });
+            return;
+        }
+        default:
+            send(participant, { type: "error", error: "bad_request", message: `Unknown message type: ${message?.type}` });
+    }
+}
+
+function join(room: Room, participant: Participant): void {
+    participant.connection.on("message", (raw: string) => handleMessage(room, participant, raw));
+    participant.connection.on("close", () => {
+        enqueue(room, async () => {
+            room.participants.delete(participant.sessionId);
+            if (room.participants.size === 0 && room.pendingJoins === 0) {
+                clearInterval(room.snapshotTimer);
+                rooms.delete(room.documentId);
+            } else {
+                broadcast(room, { type: "presence", sessions: presenceOf(room) });
+            }
+
+            await recordAudit({
+                tenantId: room.tenantId,
+                actorId: participant.actorId,
+                actorEmail: participant.actorEmail,
+                actorRole: participant.actorRole,
+                actorIp: participant.actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: room.documentId,
+                targetType: "collab_session",
+                outcome: "success",
+                metadata: { collab_event: "leave", steps_accepted: participant.stepsAccepted, version: room.version },
+                requestId: participant.reqId
+            });
+        });
+    });
+
+    enqueue(room, async () => {
+        room.pendingJoins--;
+        const state = await loadCollabState(pool, room.tenantId, room.documentId);
+        if (!state) {
+            participant.connection.close(CLOSE_GOING_AWAY, "document removed");
+            return;
+        }
+        // First editor in: the room starts from the stored history
+        if (room.participants.size === 0) {
+            room.version = state.version;
+            room.snapshotVersion = state.snapshotVersion;
+        }
+        room.participants.set(participant.sessionId, participant);
+        send(participant, stateMessage("init", participant, room, state));
+        broadcast(room, { type: "presence", sessions: presenceOf(room) });
+
+        await recordAudit({
+            tenantId: room.tenantId,
+            actorId: participant.actorId,
+            actorEmail: participant.actorEmail,
+            actorRole: participant.actorRole,
+            actorIp: participant.actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: room.documentId,
+            targetType: "collab_session",
+            outcome: "success",
+            metadata: { collab_event: "join", version: room.version, editors: room.participants.size },
+            requestId: participant.reqId
+        });
+    });
+}
+
+async function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const reqId = `req_${Math.random().toString(36).slice(2, 10)}`;
+    const match = COLLAB_PATH.exec(String(req.url || "").split("?")[0]);
+
+    if (!match) {
+        rejectUpgrade(socket, 404, { ok: false, error: "not_found", message: "No WebSocket endpoint at this path" });
+        return;
+    }
+
+    const secretFailure = verifyInternalSecret(header(req, "x-agent-secret") || undefined);
+    if (secretFailure) {
+        rejectUpgrade(socket, secretFailure.status, secretFailure.body);
+        return;
+    }
+
+    const documentId = match[1].toLowerCase();
+    const tenantId = String(header(req, "x-tenant-id") || "").trim();
+    const actorId = String(header(req, "x-user-id") || "").trim().toLowerCase();
+    const actorEmail = header(req, "x-user-email");
+    const actorRole = String(header(req, "x-user-role") || "system");
+    const actorIp = header(req, "x-user-ip");
+
+    if (!tenantId || !UUID_PATTERN.test(actorId)) {
+        rejectUpgrade(socket, 400, {
+            ok: false,
+            error: "bad_request",
+            message: "X-Tenant-Id and X-User-Id (UUID) headers required"
+        });
+        return;
+    }
+
+    const doc = await pool.query(
+        `SELECT status FROM documents WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL`,
+        [tenantId, documentId]
+    );
+    if (doc.rows.length === 0) {
+        rejectUpgrade(socket, 404, { ok: false, error: "not_found", message: "Document not found" });
+        return;
+    }
+    if (doc.rows[0].status === "disposed") {
+        rejectUpgrade(socket, 409, { ok: false, error: "invalid_state", message: "Disposed documents cannot be edited" });
+        return;
+    }
+
+    const decision = await authorizeUpgrade(req, "documents", documentId, "collab", "update", reqId);
+    if (!decision.allow) {
+        rejectUpgrade(socket, decision.engineError ? 503 : 403, decision.engineError
+            ? { ok: false, error: "policy_unavailable", message: "Policy decision unavailable" }
+            : { ok: false, error: "forbidden", message: "Denied by policy", reason: decision.reason });
+        return;
+    }
+
+    try {
+        await assertDocumentNotHeld(pool, tenantId, documentId);
+        await assertWritable(pool, tenantId, documentId, actorId);
+    } catch (err) {
+        if (!(err instanceof DocumentLockError) && !(err instanceof LegalHoldError)) throw err;
+        rejectUpgrade(socket, err.status, { ok: false, error: err.code, message: err.message });
+        return;
+    }
+
+    acceptWebSocket(req, socket, head, {
+        maxMessageBytes: CONFIG.COLLAB_MAX_MESSAGE_BYTES,
+        pingIntervalMs: CONFIG.COLLAB_PING_INTERVAL_MS
+    }, connection => {
+        const room = rooms.get(documentId) || openRoom(tenantId, documentId);
+        if (room.tenantId !== tenantId) {
+            // Document ids are global; a room never mixes tenants
+            connection.close(CLOSE_POLICY_VIOLATION, "tenant mismatch");
+            return;
+        }
+
+        room.pendingJoins++;
+        join(room, {
+            sessionId: crypto.randomUUID(),
+            connection,
+            reqId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            cursor: null,
+            joinedAt: new Date().toISOString(),
+            stepsAccepted: 0
+        });
+    });
+}
+
+/**
+ * Serve the collaboration channel on the agent's HTTP server
+ */
+export function attachDocumentCollab(server: Server): void {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        socket.on("error", err => console.error("[collab] Socket error:", err.message));
+        handleUpgrade(req, socket, head).catch(err => {
+            console.error("[collab] Error accepting connection:", err);
+            if (!socket.destroyed) {
+                rejectUpgrade(socket, 500, { ok: false, error: "internal_error", message: "Failed to open collaboration session" });
+            }
+        });
+    });
+}
@@ -10,8 +10,23 @@
 import { Router } from "express";
 import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { restrictedDocumentsCondition } from "../../../middleware/policy";
 import { recordAudit } from "../../../helpers/audit";
-import { transformDocument, transformArray } from "../../../helpers/transform";
+import { transformDocument, transformArray, transformDocumentLock } from "../../../helpers/transform";
+import { assertDocumentNotHeld, HOLD_PROTECTED_DOCUMENT_FIELDS, LegalHoldError } from "../../../helpers/legalHolds";
+import { assertWritable, DocumentLockError, lockDocumentForWrite } from "../../../helpers/documentLocks";
+import { getWorkflowState, startWorkflow, WorkflowError } from "../../../helpers/approvalWorkflow";
+import { ApprovalPlan, ApprovalPolicyError, planApprovalWorkflow, requiresApproval } from "../../../helpers/approvalPolicies";
+import { KeysetCursor } from "../../../helpers/cursor";
+import {
+    getListMode,
+    KEYSET_SORT_COLUMNS,
+    keysetCondition,
+    keysetSortValue,
+    parseListCursor,
+    streamNdjson,
+    toKeysetPage
+} from "../../../helpers/listPagination";
 
 export const internalDocumentsRouter = Router();
 
@@ -27,9 +42,180 @@ function getActorContext(req: any) {
     };
 }
 
+const DOCUMENT_LIST_COLUMNS = `
+    id,
+    tenant_id,
+    document_number,
+    title,
+    description,
+    entity_type,
+    entity_id,
+    category,
+    tags,
+    file_name,
+    file_size,
+    file_type,
+    file_path,
+    file_hash,
+    mime_type,
+    is_encrypted,
+    version,
+    parent_document_id,
+    is_latest_version,
+    change_summary,
+    status,
+    issue_date,
+    expiry_date,
+    renewal_required,
+    contains_pii,
+    contains_phi,
+    sensitivity_level,
+    retention_period_years,
+    custom_metadata,
+    created_by,
+    created_at,
+    updated_by,
+    updated_at
+`;
+
+// Facet buckets (also accepted as filter values)
+const FACET_STATUSES = ['draft', 'pending_review', 'under_review', 'pending_approval', 'approved', 'published', 'archived', 'expired', 'rejected', 'disposed'];
+const FACET_ENTITY_TYPES = ['employee', 'vendor', 'policy', 'general', 'contract', 'certificate'];
+const FACET_SENSITIVITY_LEVELS = ['public', 'internal', 'confidential', 'restricted', 'highly_restricted'];
+
+const EXPIRY_BUCKET_SQL = `CASE
+    WHEN expiry_date IS NULL THEN 'none'
+    WHEN expiry_date < CURRENT_DATE THEN 'expired'
+    WHEN expiry_date < CURRENT_DATE + 30 THEN 'within_30_days'
+    WHEN expiry_date < CURRENT_DATE + 90 THEN 'within_90_days'
+    ELSE 'later'
+END`;
+const EXPIRY_BUCKETS = ['expired', 'within_30_days', 'within_90_days', 'later', 'none'];
+
+// mcp_compliance_score is 0-100
+const COMPLIANCE_BAND_SQL = `CASE
+    WHEN mcp_compliance_score IS NULL THEN 'unscored'
+    WHEN mcp_compliance_score < 50 THEN 'low'
+    WHEN mcp_compliance_score < 80 THEN 'medium'
+    ELSE 'high'
+END`;
+const COMPLIANCE_BANDS = ['high', 'medium', 'low', 'unscored'];
+
+// SQL expression each facet groups and filters on (tags is an array, handled apart)
+const FACET_EXPRESSIONS: Record<string, string> = {
+    status: "status",
+    category: "category",
+    entity_type: "entity_type",
+    sensitivity_level: "sensitivity_level",
+    expiry: EXPIRY_BUCKET_SQL,
+    compliance: COMPLIANCE_BAND_SQL,
+};
+
+/**
+ * Comma-separated multi-value query parameter
+ */
+function parseMultiValue(value: any): string[] {
+    return String(value || "")
+        .split(",")
+        .map(v => v.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Search and facet filters shared by /list and /facets. Facet filters take
+ * comma-separated values; conditions are kept per facet so /facets can count each
+ * facet without its own filter. Unknown facet values return an error message, or are
+ * dropped when `lenient` is set (/list has always ignored them).
+ * Highly restricted documents are left out for roles that may not see them.
+ */
+function buildDocumentFilters(req: any, tenantId: string, lenient = false) {
+    const query = req.query;
+    const search = String(query.search || "").trim();
+    const entityId = String(query.entity_id || "").trim();
+    const isLatestVersion = query.is_latest_version === "true";
+
+    const selected: Record<string, string[]> = {
+        status: parseMultiValue(query.status),
+        category: parseMultiValue(query.category),
+        entity_type: parseMultiValue(query.entity_type),
+        sensitivity_level: parseMultiValue(query.sensitivity_level),
+        tags: parseMultiValue(query.tags),
+        expiry: parseMultiValue(query.expiry),
+        compliance: parseMultiValue(query.compliance),
+    };
+
+    const allowed: Record<string, string[]> = {
+        status: FACET_STATUSES,
+        entity_type: FACET_ENTITY_TYPES,
+        sensitivity_level: FACET_SENSITIVITY_LEVELS,
+        expiry: EXPIRY_BUCKETS,
+        compliance: COMPLIANCE_BANDS,
+    };
+    for (const [facet, values] of Object.entries(allowed)) {
+        const invalid = selected[facet].filter(v => !values.includes(v));
+        if (lenient) {
+            selected[facet] = selected[facet].filter(v => values.includes(v));
+        } else if (invalid.length > 0) {
+            return { error: `Invalid ${facet}: ${invalid.join(", ")} (allowed: ${values.join(", ")})` };
+        }
+    }
+
+    // Conditions shared by every facet
+    const baseConditions: string[] = ["tenant_id = $1", "deleted_at IS NULL"];
+    const params: any[] = [tenantId];
+    let paramIndex = 2;
+
+    // Searches title, description, document_number, file_name
+    if (search) {
+        baseConditions.push(`(
+            title ILIKE $${paramIndex} OR
+            description ILIKE $${paramIndex} OR
+            document_number ILIKE $${paramIndex} OR
+            file_name ILIKE $${paramIndex}
+        )`);
+        params.push(`%${search}%`);
+        paramIndex++;
+    }
+
+    if (entityId) {
+        baseConditions.push(`entity_id = $${paramIndex}`);
+        params.push(entityId);
+        paramIndex++;
+    }
+
+    if (isLatestVersion) {
+        baseConditions.push(`is_latest_version = TRUE`);
+    }
+
+    const restricted = restrictedDocumentsCondition(req);
+    if (restricted) baseConditions.push(restricted);
+
+    // One condition per facet filter
+    const facetConditions: Record<string, string> = {};
+    for (const [facet, values] of Object.entries(selected)) {
+        if (values.length === 0) continue;
+        facetConditions[facet] = facet === "tags"
+            ? `tags && $${paramIndex}::text[]`
+            : `(${FACET_EXPRESSIONS[facet]}) = ANY($${paramIndex}::text[])`;
+        params.push(values);
+        paramIndex++;
+    }
+
+    return { error: null, selected, baseConditions, facetConditions, params, paramIndex };
+}
+
 /**
  * GET /agent/internal/documents/list
  * List documents for a tenant with pagination, search, and filtering
+ *
+ * Pagination modes:
+ * - default: page / page_size with total counts
+ * - pagination=cursor: keyset pages, pass nextCursor back as cursor (sort_by created_at or updated_at)
+ * - format=ndjson: streams every matching document, one JSON object per line
+ *
+ * Filters: search, entity_id, is_latest_version and the facet filters of /facets
+ * (status, category, entity_type, sensitivity_level, tags, expiry, compliance;
+ * comma-separated values match any of them; unknown values are ignored)
  */
 internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -42,12 +228,6 @@ internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
         // Extract query parameters
         const page = Math.max(1, parseInt(String(req.query.page || "1")));
         const pageSize = Math.min(100, Math.max(1, parseInt(String(req.query.page_size || "20"))));
-        const search = String(req.query.search || "").trim();
-        const entityType = String(req.query.entity_type || "").trim();
-        const entityId = String(req.query.entity_id || "").trim();
-        const category = String(req.query.category || "").trim();
-        const status = String(req.query.status || "").trim();
-        const isLatestVersion = req.query.is_latest_version === "true";
         const sortBy = String(req.query.sort_by || "created_at");
         const sortOrder = String(req.query.sort_order || "desc").toUpperCase();
 
@@ -72,60 +252,105 @@ internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
             });
         }
 
-        // Build dynamic WHERE clause
-        const conditions: string[] = ["tenant_id = $1", "deleted_at IS NULL"];
-        const params: any[] = [tenantId];
-        let paramIndex = 2;
-
-        // Add search filter (searches title, description, document_number, file_name)
-        if (search) {
-            conditions.push(`(
-                title ILIKE $${paramIndex} OR
-                description ILIKE $${paramIndex} OR
-                document_number ILIKE $${paramIndex} OR
-                file_name ILIKE $${paramIndex}
-            )`);
-            params.push(`%${search}%`);
-            paramIndex++;
+        const filters = buildDocumentFilters(req, tenantId, true);
+        if (filters.error !== null) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: filters.error
+            });
         }
+        const conditions = [...filters.baseConditions, ...Object.values(filters.facetConditions)];
+        const params = filters.params;
+        const paramIndex = filters.paramIndex;
 
-        // Add entity type filter
-        if (entityType && ['employee', 'vendor', 'policy', 'general', 'contract', 'certificate'].includes(entityType)) {
-            conditions.push(`entity_type = $${paramIndex}`);
-            params.push(entityType);
-            paramIndex++;
-        }
+        // Validate sort column
+        const allowedSortColumns = ['created_at', 'updated_at', 'title', 'expiry_date', 'status'];
+        const sortColumn = allowedSortColumns.includes(sortBy) ? sortBy : 'created_at';
+        const sortDirection = sortOrder === 'ASC' ? 'ASC' : 'DESC';
 
-        // Add entity ID filter
-        if (entityId) {
-            conditions.push(`entity_id = $${paramIndex}`);
-            params.push(entityId);
-            paramIndex++;
-        }
+        const mode = getListMode(req.query);
+        const rawCursor = String(req.query.cursor || "").trim();
+        const cursor = rawCursor ? parseListCursor(rawCursor) : null;
 
-        // Add category filter
-        if (category) {
-            conditions.push(`category = $${paramIndex}`);
-            params.push(category);
-            paramIndex++;
+        if (mode !== "offset" && !KEYSET_SORT_COLUMNS.includes(sortColumn)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `Cursor pagination and ndjson export support sort_by: ${KEYSET_SORT_COLUMNS.join(", ")}`
+            });
         }
 
-        // Add status filter
-        if (status && ['draft', 'pending_review', 'under_review', 'pending_approval', 'approved', 'published', 'archived', 'expired', 'rejected', 'disposed'].includes(status)) {
-            conditions.push(`status = $${paramIndex}`);
-            params.push(status);
-            paramIndex++;
+        if (rawCursor && !cursor) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
         }
 
-        // Add latest version filter
-        if (isLatestVersion) {
-            conditions.push(`is_latest_version = TRUE`);
+        const fetchKeyset = async (after: KeysetCursor | null, limit: number) => {
+            const keysetParams = [...params];
+            let keyset = "";
+            if (after) {
+                keyset = `AND ${keysetCondition(sortColumn, sortDirection, paramIndex)}`;
+                keysetParams.push(after.sortValue, after.id);
+            }
+            const result = await pool.query(`
+                SELECT ${DOCUMENT_LIST_COLUMNS}, ${keysetSortValue(sortColumn)}
+                FROM documents
+                WHERE ${conditions.join(" AND ")} ${keyset}
+                ORDER BY ${sortColumn} ${sortDirection}, id ${sortDirection}
+                LIMIT ${limit}
+            `, keysetParams);
+            return result.rows;
+        };
+
+        if (mode === "ndjson") {
+            const exported = await streamNdjson(res, `documents-${tenantId}.ndjson`, fetchKeyset, transformDocument);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "documents",
+                eventCategory: "data",
+                outcome: "success",
+                metadata: { format: "ndjson", exported },
+                requestId: reqId
+            });
+
+            return res.end();
         }
 
-        // Validate sort column
-        const allowedSortColumns = ['created_at', 'updated_at', 'title', 'expiry_date', 'status'];
-        const sortColumn = allowedSortColumns.includes(sortBy) ? sortBy : 'created_at';
-        const sortDirection = sortOrder === 'ASC' ? 'ASC' : 'DESC';
+        if (mode === "cursor") {
+            const keysetPage = toKeysetPage(await fetchKeyset(cursor, pageSize + 1), pageSize);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "documents",
+                eventCategory: "data",
+                outcome: "success",
+                requestId: reqId
+            });
+
+            return res.json({
+                ok: true,
+                data: {
+                    documents: transformArray(keysetPage.rows, transformDocument),
+                    pageSize,
+                    nextCursor: keysetPage.nextCursor
+                }
+            });
+        }
 
         // Calculate offset
         const offset = (page - 1) * pageSize;
@@ -141,40 +366,7 @@ internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
 
         // Get paginated data
         const dataQuery = `
-            SELECT
-                id,
-                tenant_id,
-                document_number,
-                title,
-                description,
-                entity_type,
-                entity_id,
-                category,
-                tags,
-                file_name,
-                file_size,
-                file_type,
-                file_path,
-                file_hash,
-                mime_type,
-                is_encrypted,
-                version,
-                parent_document_id,
-                is_latest_version,
-                change_summary,
-                status,
-                issue_date,
-                expiry_date,
-                renewal_required,
-                contains_pii,
-                contains_phi,
-                sensitivity_level,
-                retention_period_years,
-                custom_metadata,
-                created_by,
-                created_at,
-                updated_by,
-                updated_at
+            SELECT ${DOCUMENT_LIST_COLUMNS}
             FROM documents
             WHERE ${conditions.join(" AND ")}
             ORDER BY ${sortColumn} ${sortDirection}
@@ -224,6 +416,8 @@ internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
             reason: "internal_error",
             requestId: reqId
         });
+        // Headers are already out once an ndjson stream started: abort so the client sees a truncated download
+        if (res.headersSent) return res.destroy(err as Error);
         return res.status(500).json({
             ok: false,
             error: "internal_error",
@@ -232,6 +426,133 @@ internalDocumentsRouter.get("/list", requireInternalAuth, async (req, res) => {
     }
 });
 
+/**
+ * GET /agent/internal/documents/facets
+ * Aggregate counts for the document library sidebar. Filters combine across facets;
+ * each facet is counted with every filter except its own, so selecting a value
+ * keeps the other values of that facet visible.
+ *
+ * Query params (facet filters take comma-separated values):
+ * - status, category, entity_type, sensitivity_level, tags (any of)
+ * - expiry: expired | within_30_days | within_90_days | later | none
+ * - compliance: high (>= 80) | medium (50-79) | low (< 50) | unscored
+ * - search, entity_id, is_latest_version: as for /list
+ * Headers: X-Tenant-Id
+ */
+internalDocumentsRouter.get("/facets", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        const filters = buildDocumentFilters(req, tenantId);
+        if (filters.error !== null) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: filters.error
+            });
+        }
+        const { selected, baseConditions, facetConditions, params } = filters;
+
+        const whereExcept = (facet: string | null) => [
+            ...baseConditions,
+            ...Object.entries(facetConditions).filter(([name]) => name !== facet).map(([, condition]) => condition)
+        ].join(" AND ");
+
+        const facetQueries = Object.entries(FACET_EXPRESSIONS).map(([facet, expression]) => `
+            SELECT '${facet}' AS facet, (${expression})::text AS value, COUNT(*)::int AS count
+            FROM documents
+            WHERE ${whereExcept(facet)}
+            GROUP BY 2
+        `);
+        facetQueries.push(`
+            SELECT 'tags' AS facet, tag AS value, COUNT(*)::int AS count
+            FROM documents, unnest(tags) AS tag
+            WHERE ${whereExcept("tags")}
+            GROUP BY 2
+        `);
+        facetQueries.push(`
+            SELECT 'total' AS facet, NULL AS value, COUNT(*)::int AS count
+            FROM documents
+            WHERE ${whereExcept(null)}
+        `);
+
+        const result = await pool.query(facetQueries.join(" UNION ALL "), params);
+
+        const facets: Record<string, { value: string | null; count: number; selected: boolean }[]> = {
+            status: [], category: [], entity_type: [], sensitivity_level: [], tags: [], expiry: [], compliance: []
+        };
+        let total = 0;
+        for (const row of result.rows) {
+            if (row.facet === "total") {
+                total = row.count;
+                continue;
+            }
+            facets[row.facet].push({
+                value: row.value,
+                count: row.count,
+                selected: row.value != null && selected[row.facet].includes(row.value)
+            });
+        }
+        for (const list of Object.values(facets)) {
+            list.sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_facets",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                facets,
+                total
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error computing document facets:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_facets",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to compute document facets"
+        });
+    }
+});
+
 /**
  * GET /agent/internal/documents/:id
  * Get a single document by ID
@@ -606,9 +927,18 @@ internalDocumentsRouter.post("/", requireInternalAuth, async (req, res) => {
     }
 });
 
+// Document statuses only the approval workflow engine sets (PUT answers 409)
+const WORKFLOW_MANAGED_STATUSES = ['approved', 'rejected'];
+
 /**
  * PUT /agent/internal/documents/:id
- * Update an existing document (with optimistic locking)
+ * Update an existing document (with optimistic locking).
+ * 423 document_locked while another user has the document checked out.
+ * 409 disposal_not_allowed for disposed (see POST /retention/dispose).
+ * 409 workflow_managed_status for approved/rejected, and for published unless the
+ * document is approved or its category/template does not require approval.
+ * Setting status to pending_approval starts the approval workflow from the
+ * document's approval policy (422 when approval is required but cannot be resolved).
  */
 internalDocumentsRouter.put("/:id", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -642,14 +972,154 @@ internalDocumentsRouter.put("/:id", requireInternalAuth, async (req, res) => {
         const values: any[] = [];
         let paramIndex = 1;
 
-        // Allowed update fields
+        // Allowed update fields (legal_hold is managed through /agent/internal/legal-holds)
         const allowedFields = [
             'title', 'description', 'category', 'tags', 'status',
             'issue_date', 'expiry_date', 'renewal_required', 'renewal_period_days', 'grace_period_days',
             'contains_pii', 'contains_phi', 'sensitivity_level', 'retention_period_years',
-            'legal_hold', 'legal_hold_reason', 'custom_metadata', 'auto_archive_on_expiry'
+            'custom_metadata', 'auto_archive_on_expiry'
         ];
 
+        // Disposal purges the file and leaves a tombstone and certificate; a status change would not
+        if (updateFields.status === 'disposed') {
+            await recordAudit({
+                tenantId: tenant_id,
+                actorRole,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: id,
+                outcome: "failure",
+                reason: "disposal_not_allowed",
+                requestId: reqId
+            });
+            return res.status(409).json({
+                ok: false,
+                error: "disposal_not_allowed",
+                message: "Documents are disposed through POST /agent/internal/documents/retention/dispose"
+            });
+        }
+
+        // Held documents keep their content and retention as they are
+        const protectedChanges = HOLD_PROTECTED_DOCUMENT_FIELDS.filter(field => updateFields[field] !== undefined);
+        if (protectedChanges.length > 0) {
+            try {
+                await assertDocumentNotHeld(pool, tenant_id, id,
+                    `Document is under legal hold; these fields cannot be changed: ${protectedChanges.join(", ")}`);
+            } catch (holdErr) {
+                if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+                await recordAudit({
+                    tenantId: tenant_id,
+                    actorRole,
+                    action: "update",
+                    resource: "documents",
+                    eventCategory: "compliance",
+                    targetId: id,
+                    outcome: "failure",
+                    reason: "legal_hold",
+                    requestId: reqId
+                });
+                return res.status(holdErr.status).json({
+                    ok: false,
+                    error: holdErr.code,
+                    message: holdErr.message,
+                    ...holdErr.details
+                });
+            }
+        }
+
+        // Only the holder of a live checkout may write; checked again under the row lock of the write
+        const refuseLocked = async (lockErr: DocumentLockError) => {
+            await recordAudit({
+                tenantId: tenant_id,
+                actorRole,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: id,
+                outcome: "failure",
+                reason: lockErr.code,
+                metadata: { lock_holder: lockErr.lock.locked_by },
+                requestId: reqId
+            });
+            return res.status(lockErr.status).json({
+                ok: false,
+                error: lockErr.code,
+                message: lockErr.message,
+                lock: transformDocumentLock(lockErr.lock)
+            });
+        };
+        try {
+            await assertWritable(pool, tenant_id, id, actorId || updated_by);
+        } catch (lockErr) {
+            if (!(lockErr instanceof DocumentLockError)) throw lockErr;
+            return refuseLocked(lockErr);
+        }
+
+        // Decisions belong to the workflow engine; publishing needs an approved document
+        // unless its category or template does not require approval
+        if (WORKFLOW_MANAGED_STATUSES.includes(updateFields.status) || updateFields.status === 'published') {
+            const current = await pool.query(
+                "SELECT status FROM documents WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL",
+                [id, tenant_id]
+            );
+            const currentStatus = current.rows[0]?.status;
+            const refused = WORKFLOW_MANAGED_STATUSES.includes(updateFields.status)
+                || (currentStatus !== 'approved' && currentStatus !== 'published' && await requiresApproval(pool, tenant_id, id));
+            if (current.rows.length > 0 && refused) {
+                await recordAudit({
+                    tenantId: tenant_id,
+                    actorRole,
+                    action: "update",
+                    resource: "documents",
+                    eventCategory: "compliance",
+                    targetId: id,
+                    outcome: "failure",
+                    reason: "workflow_managed_status",
+                    metadata: { from: currentStatus, to: updateFields.status },
+                    requestId: reqId
+                });
+                return res.status(409).json({
+                    ok: false,
+                    error: "workflow_managed_status",
+                    message: updateFields.status === 'published'
+                        ? "Document requires approval before it can be published; submit it with status pending_approval"
+                        : `Status ${updateFields.status} is set by the approval workflow`,
+                    status: currentStatus
+                });
+            }
+        }
+
+        // Entering pending_approval resolves the approval policy, unless a round is already running
+        let approvalPlan: ApprovalPlan | null = null;
+        if (updateFields.status === 'pending_approval') {
+            const workflow = await getWorkflowState(pool, tenant_id, id);
+            if (workflow.outcome !== 'pending') {
+                try {
+                    approvalPlan = await planApprovalWorkflow(pool, tenant_id, id);
+                } catch (policyErr) {
+                    if (!(policyErr instanceof ApprovalPolicyError)) throw policyErr;
+                    await recordAudit({
+                        tenantId: tenant_id,
+                        actorRole,
+                        action: "update",
+                        resource: "documents",
+                        eventCategory: "compliance",
+                        targetId: id,
+                        outcome: "failure",
+                        reason: policyErr.code,
+                        requestId: reqId
+                    });
+                    return res.status(policyErr.status).json({
+                        ok: false,
+                        error: policyErr.code,
+                        message: policyErr.message,
+                        ...(policyErr.details || {})
+                    });
+                }
+            }
+        }
+
         for (const field of allowedFields) {
             if (updateFields[field] !== undefined) {
                 fields.push(`${field} = $${paramIndex}`);
@@ -711,7 +1181,30 @@ internalDocumentsRouter.put("/:id", requireInternalAuth, async (req, res) => {
         `;
         values.push(id, tenant_id, version);
 
-        const result = await pool.query(updateQuery, values);
+        let result;
+        let started = null;
+        const client = await pool.connect();
+        try {
+            await client.query("BEGIN");
+            await lockDocumentForWrite(client, tenant_id, id, actorId || updated_by);
+            result = await client.query(updateQuery, values);
+            if (approvalPlan && result.rowCount) {
+                started = await startWorkflow(client, {
+                    tenantId: tenant_id,
+                    documentId: id,
+                    approvalType: approvalPlan.approvalType,
+                    approvers: approvalPlan.approvers,
+                    approvalPolicyId: approvalPlan.policyId
+                });
+            }
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            if (txErr instanceof DocumentLockError) return refuseLocked(txErr);
+            throw txErr;
+        } finally {
+            client.release();
+        }
 
         if (result.rowCount === 0) {
             await recordAudit({
@@ -741,14 +1234,29 @@ internalDocumentsRouter.put("/:id", requireInternalAuth, async (req, res) => {
             targetId: id,
             outcome: "success",
             changes: updateFields,
+            ...(started && approvalPlan && {
+                metadata: {
+                    approval_round: started.workflow.round,
+                    approval_policy_id: approvalPlan.policyId,
+                    policy_source: approvalPlan.source
+                }
+            }),
             requestId: reqId
         });
 
         return res.json({
             ok: true,
-            data: result.rows[0]
+            data: result.rows[0],
+            ...(started && { workflow: started.workflow, policy: approvalPlan })
         });
     } catch (err) {
+        if (err instanceof WorkflowError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
         console.error("[Agent] Error updating document:", err);
         await recordAudit({
             tenantId: (req.body as any).tenant_id || "unknown",
@@ -803,13 +1311,38 @@ internalDocumentsRouter.delete("/:id", requireInternalAuth, async (req, res) =>
             UPDATE documents
             SET deleted_at = NOW(),
                 status = 'disposed'
-            WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL
+            WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL AND legal_hold IS NOT TRUE
             RETURNING id
         `;
 
         const result = await pool.query(deleteQuery, [id, tenantId]);
 
         if (result.rowCount === 0) {
+            const held = await pool.query(
+                `SELECT legal_hold_reason FROM documents
+                 WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL AND legal_hold = TRUE`,
+                [id, tenantId]
+            );
+            if (held.rows.length > 0) {
+                await recordAudit({
+                    tenantId,
+                    actorRole,
+                    action: "delete",
+                    resource: "documents",
+                    eventCategory: "compliance",
+                    targetId: id,
+                    outcome: "failure",
+                    reason: "legal_hold",
+                    requestId: reqId
+                });
+                return res.status(409).json({
+                    ok: false,
+                    error: "legal_hold",
+                    message: "Document is under legal hold and cannot be deleted",
+                    legalHoldReason: held.rows[0].legal_hold_reason
+                });
+            }
+
             await recordAudit({
                 tenantId,
                 actorRole,
@@ -0,0 +1,407 @@
+/**
+ * Agent Internal API - Autosave Draft History
+ *
+ * Restore points written by POST /editor/autosave (see helpers/drafts): list them,
+ * open one, and restore one into the editor. Restoring keeps the replaced content
+ * as a "pre_restore" draft.
+ *
+ * Base path: /agent/internal/documents/:documentId/editor/drafts
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { assertWritable, DocumentLockError, lockDocumentForWrite } from "../../../helpers/documentLocks";
+import { assertDocumentNotHeld, LegalHoldError } from "../../../helpers/legalHolds";
+import { generateContentHash, resetCollabHistory } from "../../../helpers/collab";
+import { recordDraft, DRAFT_SUMMARY_COLUMNS } from "../../../helpers/drafts";
+import { transformArray, transformDocumentLock, transformDraft } from "../../../helpers/transform";
+import { hasCollabSession } from "./collab";
+
+export const documentDraftsRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * GET /agent/internal/documents/:documentId/editor/drafts
+ * Draft history of the document, newest first (content not included)
+ *
+ * Query params:
+ * - user_id: whose drafts (default: X-User-Id; all users when neither is given)
+ * - all_users: true to list every user's drafts
+ * - limit: number (default: 50, max: 200)
+ * Headers: X-Tenant-Id
+ */
+documentDraftsRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const allUsers = req.query.all_users === "true";
+        const userId = allUsers ? "" : String(req.query.user_id || actorId || "").trim();
+        const limit = Math.min(200, Math.max(1, parseInt(String(req.query.limit || "50")) || 50));
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        if (userId && !UUID_PATTERN.test(userId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "user_id must be a UUID"
+            });
+        }
+
+        const params: any[] = [tenantId, documentId];
+        let userFilter = "";
+        if (userId) {
+            params.push(userId);
+            userFilter = "AND user_id = $3";
+        }
+
+        const result = await pool.query(
+            `SELECT ${DRAFT_SUMMARY_COLUMNS}
+             FROM document_drafts
+             WHERE tenant_id = $1 AND document_id = $2 ${userFilter}
+             ORDER BY created_at DESC, id DESC
+             LIMIT ${limit}`,
+            params
+        );
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_draft",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformArray(result.rows, transformDraft)
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing document drafts:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list document drafts"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/editor/drafts/:draftId
+ * One draft with its editor content
+ *
+ * Headers: X-Tenant-Id
+ */
+documentDraftsRouter.get("/:draftId", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const draftId = String(req.params.draftId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(draftId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId and draftId parameters and X-Tenant-Id header required"
+            });
+        }
+
+        const result = await pool.query(
+            `SELECT ${DRAFT_SUMMARY_COLUMNS}, editor_state, structured_content
+             FROM document_drafts
+             WHERE tenant_id = $1 AND document_id = $2 AND id = $3`,
+            [tenantId, documentId, draftId]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Draft not found"
+            });
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_draft",
+            outcome: "success",
+            metadata: { draft_id: draftId },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformDraft(result.rows[0])
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching document draft:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch document draft"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/editor/drafts/:draftId/restore
+ * Put a draft back into the editor (no version increment, like autosave).
+ * The current content is kept as a pre_restore draft of the caller first.
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentDraftsRouter.post("/:draftId/restore", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String((req.params as any).documentId || "").trim();
+    const draftId = String(req.params.draftId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(draftId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId and draftId parameters and X-Tenant-Id header required"
+            });
+        }
+
+        // Held content may not be overwritten in place
+        try {
+            await assertDocumentNotHeld(pool, tenantId, documentId);
+        } catch (holdErr) {
+            if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+            await recordAudit({
+                tenantId: tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "document_draft",
+                outcome: "failure",
+                reason: holdErr.code,
+                metadata: { draft_id: draftId },
+                requestId: reqId
+            });
+            return res.status(holdErr.status).json({
+                ok: false,
+                error: holdErr.code,
+                message: holdErr.message,
+                ...holdErr.details
+            });
+        }
+
+        // Checked again under the row lock of the restore
+        const refuseLocked = async (lockErr: DocumentLockError) => {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: documentId,
+                targetType: "document_draft",
+                outcome: "failure",
+                reason: lockErr.code,
+                metadata: { draft_id: draftId, lock_holder: lockErr.lock.locked_by },
+                requestId: reqId
+            });
+            return res.status(lockErr.status).json({
+                ok: false,
+                error: lockErr.code,
+                message: lockErr.message,
+                lock: transformDocumentLock(lockErr.lock)
+            });
+        };
+        try {
+            await assertWritable(pool, tenantId, documentId, actorId);
+        } catch (lockErr) {
+            if (!(lockErr instanceof DocumentLockError)) throw lockErr;
+            return refuseLocked(lockErr);
+        }
+
+        if (hasCollabSession(documentId)) {
+            return res.status(409).json({
+                ok: false,
+                error: "collab_session_active",
+                message: "Document is being edited in a collaboration session; changes are saved through the session"
+            });
+        }
+
+        const client = await pool.connect();
+        let restored;
+        let preRestore;
+        try {
+            await client.query("BEGIN");
+            await lockDocumentForWrite(client, tenantId, documentId, actorId);
+
+            const docResult = await client.query(
+                `SELECT editor_state, structured_content, version, status
+                 FROM documents
+                 WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL
+                 FOR UPDATE`,
+                [tenantId, documentId]
+            );
+            const draftResult = await client.query(
+                `SELECT editor_state, structured_content, created_at
+                 FROM document_drafts
+                 WHERE tenant_id = $1 AND document_id = $2 AND id = $3`,
+                [tenantId, documentId, draftId]
+            );
+
+            if (docResult.rows.length === 0 || draftResult.rows.length === 0) {
+                await client.query("ROLLBACK");
+                return res.status(404).json({
+                    ok: false,
+                    error: "not_found",
+                    message: docResult.rows.length === 0 ? "Document not found" : "Draft not found"
+                });
+            }
+
+            const current = docResult.rows[0];
+            const draft = draftResult.rows[0];
+
+            preRestore = await recordDraft(client, {
+                tenantId,
+                documentId,
+                userId: actorId && UUID_PATTERN.test(actorId) ? actorId : null,
+                editorState: current.editor_state,
+                structuredContent: current.structured_content,
+                baseVersion: current.version,
+                source: "pre_restore"
+            });
+
+            const updated = await client.query(
+                `UPDATE documents
+                 SET editor_state = $3,
+                     structured_content = $4,
+                     content_hash = $5,
+                     updated_by = $6,
+                     updated_at = NOW()
+                 WHERE tenant_id = $1 AND id = $2
+                 RETURNING version, updated_at`,
+                [
+                    tenantId,
+                    documentId,
+                    draft.editor_state ? JSON.stringify(draft.editor_state) : null,
+                    draft.structured_content ? JSON.stringify(draft.structured_content) : null,
+                    generateContentHash(draft.structured_content || draft.editor_state),
+                    actorId
+                ]
+            );
+            await resetCollabHistory(client, tenantId, documentId);
+
+            await client.query("COMMIT");
+            restored = { ...updated.rows[0], draftCreatedAt: draft.created_at };
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            if (txErr instanceof DocumentLockError) return refuseLocked(txErr);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_draft",
+            outcome: "success",
+            metadata: {
+                draft_id: draftId,
+                draft_created_at: restored.draftCreatedAt,
+                pre_restore_draft_id: preRestore ? preRestore.id : null
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                restoredDraftId: draftId,
+                savedAt: restored.updated_at,
+                version: restored.version,
+                // null when the replaced content was already the caller's newest draft
+                preRestoreDraft: transformDraft(preRestore)
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error restoring document draft:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: UUID_PATTERN.test(documentId) ? documentId : null,
+            targetType: "document_draft",
+            outcome: "failure",
+            reason: "internal_error",
+            metadata: { draft_id: draftId },
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to restore document draft"
+        });
+    }
+});
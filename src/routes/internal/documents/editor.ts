@@ -11,11 +11,17 @@ import { Router } from "express";
 import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
 import { recordAudit } from "../../../helpers/audit";
-import { transformDocument, transformArray } from "../../../helpers/transform";
-import crypto from "crypto";
+import { transformDocument, transformArray, transformDocumentLock, transformDraft } from "../../../helpers/transform";
+import { assertWritable, getActiveLock, DocumentLockError, lockDocumentForWrite } from "../../../helpers/documentLocks";
+import { assertDocumentNotHeld, LegalHoldError } from "../../../helpers/legalHolds";
+import { generateContentHash, resetCollabHistory } from "../../../helpers/collab";
+import { recordDraft } from "../../../helpers/drafts";
+import { hasCollabSession } from "./collab";
 
 export const editorRouter = Router({ mergeParams: true });
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Extract actor context from request headers for ADHICS-compliant audit logging
  */
@@ -29,16 +35,22 @@ function getActorContext(req: any) {
 }
 
 /**
- * Generate SHA-256 hash of content
+ * 409 while editors are connected to the collaboration channel: a whole-document
+ * write would silently discard their steps
  */
-function generateContentHash(content: any): string {
-    const contentString = typeof content === 'string' ? content : JSON.stringify(content);
-    return crypto.createHash('sha256').update(contentString).digest('hex');
+function rejectDuringCollab(res: any, documentId: string) {
+    if (!hasCollabSession(documentId)) return false;
+    res.status(409).json({
+        ok: false,
+        error: "collab_session_active",
+        message: "Document is being edited in a collaboration session; changes are saved through the session"
+    });
+    return true;
 }
 
 /**
  * GET /agent/internal/documents/:documentId/editor
- * Get editor state for document
+ * Get editor state for document, with the current checkout lock (null when not checked out)
  */
 editorRouter.get("/", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -108,6 +120,7 @@ editorRouter.get("/", requireInternalAuth, async (req, res) => {
         }
 
         const doc = result.rows[0];
+        const lock = await getActiveLock(pool, tenantId, documentId);
 
         await recordAudit({
             tenantId,
@@ -133,7 +146,8 @@ editorRouter.get("/", requireInternalAuth, async (req, res) => {
                 contentFormat: doc.content_format,
                 templateId: doc.template_id,
                 version: doc.version,
-                updatedAt: doc.updated_at
+                updatedAt: doc.updated_at,
+                lock: transformDocumentLock(lock)
             }
         });
     } catch (error: any) {
@@ -162,7 +176,9 @@ editorRouter.get("/", requireInternalAuth, async (req, res) => {
 
 /**
  * POST /agent/internal/documents/:documentId/editor/save
- * Save document content (full save with validation and optimistic locking)
+ * Save document content (full save with validation and optimistic locking).
+ * 423 document_locked while another user has the document checked out,
+ * 409 legal_hold while the document is held.
  */
 editorRouter.post("/save", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -213,6 +229,68 @@ editorRouter.post("/save", requireInternalAuth, async (req, res) => {
             });
         }
 
+        // Held content may not be overwritten in place
+        try {
+            await assertDocumentNotHeld(pool, tenantId, documentId);
+        } catch (holdErr) {
+            if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+            await recordAudit({
+                tenantId: tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "editor_state",
+                outcome: "failure",
+                reason: holdErr.code,
+                requestId: reqId
+            });
+            return res.status(holdErr.status).json({
+                ok: false,
+                error: holdErr.code,
+                message: holdErr.message,
+                ...holdErr.details
+            });
+        }
+
+        // Only the holder of a live checkout may save; checked again under the row lock of the write
+        const refuseLocked = async (lockErr: DocumentLockError) => {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: documentId,
+                targetType: "editor_state",
+                outcome: "failure",
+                reason: lockErr.code,
+                metadata: { lock_holder: lockErr.lock.locked_by },
+                requestId: reqId
+            });
+            return res.status(lockErr.status).json({
+                ok: false,
+                error: lockErr.code,
+                message: lockErr.message,
+                lock: transformDocumentLock(lockErr.lock)
+            });
+        };
+        try {
+            await assertWritable(pool, tenantId, documentId, actorId || updated_by);
+        } catch (lockErr) {
+            if (!(lockErr instanceof DocumentLockError)) throw lockErr;
+            return refuseLocked(lockErr);
+        }
+
+        if (rejectDuringCollab(res, documentId)) return;
+
         // Optimistic locking check
         if (current_version !== undefined && existingDoc.rows[0].version !== current_version) {
             await recordAudit({
@@ -255,16 +333,30 @@ editorRouter.post("/save", requireInternalAuth, async (req, res) => {
             RETURNING version, updated_at
         `;
 
-        const result = await pool.query(updateQuery, [
-            tenantId,
-            documentId,
-            editor_state ? JSON.stringify(editor_state) : null,
-            structured_content ? JSON.stringify(structured_content) : null,
-            content_format,
-            contentHash,
-            change_summary,
-            updated_by || actorId
-        ]);
+        let result;
+        const client = await pool.connect();
+        try {
+            await client.query("BEGIN");
+            await lockDocumentForWrite(client, tenantId, documentId, actorId || updated_by);
+            result = await client.query(updateQuery, [
+                tenantId,
+                documentId,
+                editor_state ? JSON.stringify(editor_state) : null,
+                structured_content ? JSON.stringify(structured_content) : null,
+                content_format,
+                contentHash,
+                change_summary,
+                updated_by || actorId
+            ]);
+            await resetCollabHistory(client, tenantId, documentId);
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            if (txErr instanceof DocumentLockError) return refuseLocked(txErr);
+            throw txErr;
+        } finally {
+            client.release();
+        }
 
         await recordAudit({
             tenantId,
@@ -316,7 +408,8 @@ editorRouter.post("/save", requireInternalAuth, async (req, res) => {
 
 /**
  * POST /agent/internal/documents/:documentId/editor/autosave
- * Auto-save document content (non-blocking, no validation)
+ * Auto-save document content (no version increment) and keep it as a draft restore point
+ * (see /editor/drafts). 423 document_locked while another user has the document checked out.
  */
 editorRouter.post("/autosave", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -340,76 +433,183 @@ editorRouter.post("/autosave", requireInternalAuth, async (req, res) => {
             updated_by
         } = req.body;
 
-        // Return immediately - process in background
-        res.json({
-            ok: true,
-            data: {
-                success: true,
-                message: "Auto-save in progress"
-            }
-        });
+        // Held content may not be overwritten in place
+        try {
+            await assertDocumentNotHeld(pool, tenantId, documentId);
+        } catch (holdErr) {
+            if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+            await recordAudit({
+                tenantId: tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "editor_state",
+                outcome: "failure",
+                reason: holdErr.code,
+                requestId: reqId
+            });
+            return res.status(holdErr.status).json({
+                ok: false,
+                error: holdErr.code,
+                message: holdErr.message,
+                ...holdErr.details
+            });
+        }
+
+        // Rejected up front (not in the background) so the editor can tell the user
+        const refuseLocked = async (lockErr: DocumentLockError) => {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: documentId,
+                targetType: "editor_state",
+                outcome: "failure",
+                reason: lockErr.code,
+                metadata: { lock_holder: lockErr.lock.locked_by },
+                requestId: reqId
+            });
+            return res.status(lockErr.status).json({
+                ok: false,
+                error: lockErr.code,
+                message: lockErr.message,
+                lock: transformDocumentLock(lockErr.lock)
+            });
+        };
+        try {
+            await assertWritable(pool, tenantId, documentId, actorId || updated_by);
+        } catch (lockErr) {
+            if (!(lockErr instanceof DocumentLockError)) throw lockErr;
+            return refuseLocked(lockErr);
+        }
+
+        if (rejectDuringCollab(res, documentId)) return;
+
+        if (!editor_state && !structured_content) {
+            return res.status(400).json({
+                ok: false,
+                error: "validation_error",
+                message: "Either editor_state or structured_content is required"
+            });
+        }
 
-        // Background processing (after response sent)
-        setImmediate(async () => {
-            try {
-                // Check if document exists
-                const existingDoc = await pool.query(
-                    `SELECT id FROM documents
-                     WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL`,
-                    [tenantId, documentId]
-                );
-
-                if (existingDoc.rows.length === 0) {
-                    console.error(`[editor.autosave] Document not found: ${documentId}`);
-                    return;
-                }
-
-                // Update only editor_state and structured_content (no version increment)
-                await pool.query(
-                    `UPDATE documents
-                     SET
-                         editor_state = COALESCE($3, editor_state),
-                         structured_content = COALESCE($4, structured_content),
-                         updated_by = $5,
-                         updated_at = NOW()
-                     WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL`,
-                    [
-                        tenantId,
-                        documentId,
-                        editor_state ? JSON.stringify(editor_state) : null,
-                        structured_content ? JSON.stringify(structured_content) : null,
-                        updated_by || actorId
-                    ]
-                );
-
-                await recordAudit({
+        const userId = UUID_PATTERN.test(String(actorId || updated_by || "")) ? String(actorId || updated_by) : null;
+
+        // Saved before answering: the editor must know when an autosave did not land
+        const client = await pool.connect();
+        let saved;
+        let draft;
+        try {
+            await client.query("BEGIN");
+            await lockDocumentForWrite(client, tenantId, documentId, actorId || updated_by);
+
+            // Update only editor_state and structured_content (no version increment)
+            const updated = await client.query(
+                `UPDATE documents
+                 SET
+                     editor_state = COALESCE($3, editor_state),
+                     structured_content = COALESCE($4, structured_content),
+                     updated_by = $5,
+                     updated_at = NOW()
+                 WHERE tenant_id = $1 AND id = $2 AND deleted_at IS NULL
+                 RETURNING editor_state, structured_content, version, updated_at`,
+                [
                     tenantId,
-                    actorId,
-                    actorEmail,
-                    actorRole,
-                    actorIp,
-                    action: "autosave",
-                    resource: "editor_state",
-                    resourceId: documentId,
-                    eventCategory: "data",
-                    outcome: "success",
-                    requestId: reqId
+                    documentId,
+                    editor_state ? JSON.stringify(editor_state) : null,
+                    structured_content ? JSON.stringify(structured_content) : null,
+                    updated_by || actorId
+                ]
+            );
+
+            if (updated.rows.length === 0) {
+                await client.query("ROLLBACK");
+                return res.status(404).json({
+                    ok: false,
+                    error: "not_found",
+                    message: "Document not found"
                 });
-            } catch (error: any) {
-                console.error(`[editor.autosave] Background error:`, error);
-                // Don't re-throw - autosave failures are non-critical
             }
+
+            saved = updated.rows[0];
+            draft = await recordDraft(client, {
+                tenantId,
+                documentId,
+                userId,
+                editorState: saved.editor_state,
+                structuredContent: saved.structured_content,
+                baseVersion: saved.version,
+                source: "autosave"
+            });
+            await resetCollabHistory(client, tenantId, documentId);
+
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            if (txErr instanceof DocumentLockError) return refuseLocked(txErr);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "editor_state",
+            outcome: "success",
+            metadata: { autosave: true, draft_id: draft ? draft.id : null },
+            requestId: reqId
         });
-    } catch (error: any) {
-        console.error(`[editor.autosave] Error in autosave:`, error);
-        // Return success even on error (non-blocking)
+
         return res.json({
             ok: true,
             data: {
                 success: true,
-                message: "Auto-save queued"
+                savedAt: saved.updated_at,
+                version: saved.version,
+                // null when the content equals the newest draft
+                draft: transformDraft(draft)
             }
         });
+    } catch (error: any) {
+        console.error(`[editor.autosave] Error in autosave:`, error);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: req.params.documentId,
+            targetType: "editor_state",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to auto-save editor content"
+        });
     }
 });
 
@@ -459,6 +659,36 @@ editorRouter.post("/populate-fields", requireInternalAuth, async (req, res) => {
             });
         }
 
+        // Held content may not be overwritten in place
+        try {
+            await assertDocumentNotHeld(pool, tenantId, documentId);
+        } catch (holdErr) {
+            if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+            await recordAudit({
+                tenantId: tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "editor_state",
+                outcome: "failure",
+                reason: holdErr.code,
+                requestId: reqId
+            });
+            return res.status(holdErr.status).json({
+                ok: false,
+                error: holdErr.code,
+                message: holdErr.message,
+                ...holdErr.details
+            });
+        }
+
+        if (rejectDuringCollab(res, documentId)) return;
+
         const doc = docQuery.rows[0];
 
         if (!doc.template_id) {
@@ -533,6 +763,7 @@ editorRouter.post("/populate-fields", requireInternalAuth, async (req, res) => {
                 updated_by || actorId
             ]
         );
+        await resetCollabHistory(pool, tenantId, documentId);
 
         await recordAudit({
             tenantId,
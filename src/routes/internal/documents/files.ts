@@ -0,0 +1,306 @@
+/**
+ * Agent Internal API - Document File Storage
+ *
+ * Upload and download of document bytes. Files are encrypted at rest with a
+ * per-file envelope key (documents.encryption_key_id) and never leave the
+ * agent unencrypted except through the download stream below.
+ *
+ * Base path: /agent/internal/documents/:documentId/file
+ */
+
+import express, { Router } from "express";
+import path from "path";
+import { pool } from "../../../lib/db";
+import { CONFIG } from "../../../config";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { recordDocumentAccess } from "../../../helpers/accessLog";
+import { isAgentManagedFile, openDocumentFile, storeDocumentFile } from "../../../helpers/documentFiles";
+import { transformDocument } from "../../../helpers/transform";
+import { assertDocumentNotHeld, LegalHoldError } from "../../../helpers/legalHolds";
+
+export const documentFilesRouter = Router({ mergeParams: true });
+
+/**
+ * Extract actor context from request headers
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * PUT /agent/internal/documents/:documentId/file
+ * Upload (or replace) the file for a document
+ *
+ * Body: raw file bytes (any Content-Type; used as mime_type)
+ * Query: {
+ *   file_name: string,
+ *   file_type?: string (defaults to the file extension)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentFilesRouter.put(
+    "/",
+    requireInternalAuth,
+    express.raw({ type: () => true, limit: CONFIG.MAX_UPLOAD_BYTES }),
+    async (req, res) => {
+        const reqId = (req as any).reqId as string;
+        const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+        try {
+            const documentId = String(req.params.documentId || "").trim();
+            const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+            const fileName = String(req.query.file_name || "").trim();
+            const fileType = String(req.query.file_type || path.extname(fileName).replace(".", "") || "bin").toLowerCase();
+            const mimeType = String(req.header("Content-Type") || "application/octet-stream");
+
+            if (!documentId || !tenantId || !actorId || !fileName) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: "document_id, X-Tenant-Id, X-User-Id header and file_name query parameter required"
+                });
+            }
+
+            // express.json() runs first for JSON content types; only raw bodies are accepted here
+            if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: "Request body must contain the raw file bytes"
+                });
+            }
+
+            const docCheck = await pool.query(
+                "SELECT id FROM documents WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL",
+                [documentId, tenantId]
+            );
+
+            if (docCheck.rows.length === 0) {
+                return res.status(404).json({
+                    ok: false,
+                    error: "not_found",
+                    message: "Document not found"
+                });
+            }
+
+            // Replacing the file of a held document would drop the preserved one
+            try {
+                await assertDocumentNotHeld(pool, tenantId, documentId,
+                    "Document is under legal hold; upload a new version instead of replacing the file");
+            } catch (holdErr) {
+                if (!(holdErr instanceof LegalHoldError)) throw holdErr;
+                return res.status(holdErr.status).json({
+                    ok: false,
+                    error: holdErr.code,
+                    message: holdErr.message,
+                    ...holdErr.details
+                });
+            }
+
+            const stored = await storeDocumentFile(tenantId, documentId, req.body);
+
+            const updateQuery = `
+                UPDATE documents
+                SET
+                    file_name = $1,
+                    file_size = $2,
+                    file_type = $3,
+                    file_path = $4,
+                    file_hash = $5,
+                    mime_type = $6,
+                    is_encrypted = TRUE,
+                    encryption_key_id = $7,
+                    version = version + 1,
+                    updated_by = $8,
+                    updated_at = NOW()
+                WHERE id = $9 AND tenant_id = $10 AND deleted_at IS NULL
+                RETURNING *
+            `;
+
+            const result = await pool.query(updateQuery, [
+                fileName,
+                stored.fileSize,
+                fileType,
+                stored.filePath,
+                stored.fileHash,
+                mimeType,
+                stored.encryptionKeyId,
+                actorId,
+                documentId,
+                tenantId
+            ]);
+
+            await recordDocumentAccess({
+                tenantId,
+                documentId,
+                userId: actorId,
+                userEmail: actorEmail,
+                userRole: actorRole,
+                action: "upload",
+                details: { file_name: fileName, file_size: stored.fileSize, file_hash: stored.fileHash },
+                ipAddress: actorIp,
+                userAgent: req.header("User-Agent") || null,
+                requestId: reqId
+            });
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: documentId,
+                targetName: "File uploaded",
+                outcome: "success",
+                changes: { file_hash: stored.fileHash, file_size: stored.fileSize },
+                requestId: reqId
+            });
+
+            return res.json({
+                ok: true,
+                data: transformDocument(result.rows[0])
+            });
+        } catch (err) {
+            console.error("[Agent] Error uploading document file:", err);
+            await recordAudit({
+                tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: String(req.params.documentId || "") || null,
+                outcome: "failure",
+                reason: "upload_failed",
+                requestId: reqId
+            });
+            return res.status(500).json({
+                ok: false,
+                error: "internal_error",
+                message: "Failed to upload document file"
+            });
+        }
+    }
+);
+
+/**
+ * GET /agent/internal/documents/:documentId/file
+ * Stream the decrypted file back to the caller
+ *
+ * Headers: X-Tenant-Id, X-User-Id (required: every download is access-logged)
+ */
+documentFilesRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    const documentId = String(req.params.documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        if (!documentId || !tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "document_id, X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        const docResult = await pool.query(
+            `SELECT id, file_name, file_size, file_path, file_hash, mime_type, encryption_key_id
+             FROM documents
+             WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL`,
+            [documentId, tenantId]
+        );
+        const doc = docResult.rows[0];
+
+        if (!doc) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Document not found"
+            });
+        }
+
+        if (!isAgentManagedFile(doc)) {
+            return res.status(404).json({
+                ok: false,
+                error: "file_not_stored",
+                message: "No file has been uploaded to the agent for this document"
+            });
+        }
+
+        const stream = await openDocumentFile(tenantId, doc);
+
+        await recordDocumentAccess({
+            tenantId,
+            documentId,
+            userId: actorId,
+            userEmail: actorEmail,
+            userRole: actorRole,
+            action: "download",
+            details: { file_name: doc.file_name, file_hash: doc.file_hash },
+            ipAddress: actorIp,
+            userAgent: req.header("User-Agent") || null,
+            requestId: reqId
+        });
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetName: "File downloaded",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        res.setHeader("Content-Type", doc.mime_type || "application/octet-stream");
+        res.setHeader("Content-Length", String(doc.file_size));
+        res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(doc.file_name)}"`);
+        if (doc.file_hash) res.setHeader("X-File-Hash", doc.file_hash);
+
+        stream.on("error", (err) => {
+            // Auth tag mismatch or storage error mid-stream: abort rather than serve bad bytes
+            console.error("[Agent] Error streaming document file:", err);
+            res.destroy(err);
+        });
+        stream.pipe(res);
+    } catch (err) {
+        console.error("[Agent] Error downloading document file:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId || null,
+            outcome: "failure",
+            reason: "download_failed",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to download document file"
+        });
+    }
+});
@@ -15,24 +15,47 @@ import { editorRouter } from './editor';
 import { sectionsRouter } from './sections';
 import { complianceRouter } from './compliance';
 import { parserLogRouter } from './parser-log';
+import { documentFilesRouter } from './files';
+import { documentNotificationsRouter } from './notifications';
+import { documentRetentionRouter } from './retention';
+import { documentSearchRouter } from './search';
+import { documentLockRouter } from './locks';
+import { documentDraftsRouter } from './drafts';
+import { documentBranchesRouter } from './branches';
+import { documentWorkflowRolesRouter } from './workflowRoles';
+import { documentApprovalSlaRouter } from './approvalSla';
+import { documentApprovalPoliciesRouter } from './approvalPolicies';
 
 // Create combined router
 const router = Router();
 
+// Mounted before the CRUD routes so these paths are not taken for a document id
+router.use('/notifications', documentNotificationsRouter); // In-app notification inbox
+router.use('/retention', documentRetentionRouter); // Disposal candidates and certified disposal
+router.use('/search', documentSearchRouter); // Full-text search
+router.use('/approval-sla', documentApprovalSlaRouter); // Approval SLA settings and breach statistics
+router.use('/approval-policies', documentApprovalPoliciesRouter); // Approval policies per category/template and role assignments
+
 // Mount main documents CRUD routes
 router.use('/', documentsRouter);
 
 // Mount sub-resource routes
 router.use('/:documentId/comments', documentCommentsRouter);
 router.use('/:documentId/versions', documentVersionsRouter);
+router.use('/:documentId/branches', documentBranchesRouter); // Named version branches and promotion
 router.use('/:documentId/approvals', documentApprovalsRouter);
+router.use('/:documentId/workflow-roles', documentWorkflowRolesRouter); // Role-based workflow with eligibility checks
 router.use('/:documentId/share', documentSharesRouter);
 router.use('/shares', documentSharesRouter); // For share-specific operations
 router.use('/:documentId/relationships', documentRelationshipsRouter);
 router.use('/relationships', documentRelationshipsRouter); // For relationship-specific operations
 router.use('/versions/compare', documentVersionsRouter); // For version comparison
+router.use('/:documentId/file', documentFilesRouter); // Encrypted file upload/download
+router.use('/:documentId/retention', documentRetentionRouter); // Retention status and disposal certificate
+router.use('/:documentId/lock', documentLockRouter); // Checkout lock with heartbeat
 
 // Mount editor, sections, compliance, and parser-log routes
+router.use('/:documentId/editor/drafts', documentDraftsRouter); // Autosave draft history and restore
 router.use('/:documentId/editor', editorRouter);
 router.use('/:documentId/sections', sectionsRouter);
 router.use('/:documentId/compliance', complianceRouter);
@@ -0,0 +1,471 @@
+/**
+ * Agent Internal API - Document Checkout
+ *
+ * Exclusive edit lock on a document with TTL and heartbeat (see helpers/documentLocks).
+ * Checkout, release and admin break are audited; heartbeats are not.
+ *
+ * Base path: /agent/internal/documents/:documentId/lock
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import {
+    acquireLock,
+    breakLock,
+    getActiveLock,
+    heartbeatLock,
+    releaseLock,
+    resolveLockTtl,
+    DocumentLockError,
+    LOCK_BREAK_ROLES,
+} from "../../../helpers/documentLocks";
+import { CONFIG } from "../../../config";
+import { transformDocumentLock } from "../../../helpers/transform";
+
+export const documentLockRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+function lockResponse(lock: any, actorId: string | null) {
+    return {
+        locked: lock !== null,
+        heldByYou: lock !== null && lock.locked_by === String(actorId || "").toLowerCase(),
+        lock: transformDocumentLock(lock)
+    };
+}
+
+/**
+ * GET /agent/internal/documents/:documentId/lock
+ * Current checkout of the document (who holds it and until when)
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentLockRouter.get("/", requireInternalAuth, async (req, res) => {
+    const { actorId } = getActorContext(req);
+
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const lock = await getActiveLock(pool, tenantId, documentId);
+
+        return res.json({
+            ok: true,
+            data: lockResponse(lock, actorId)
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching document lock:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch document lock"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/lock
+ * Check the document out, or renew your own checkout. A lapsed lock of another user is taken over.
+ *
+ * Body:
+ * - ttl_seconds: lock lifetime without heartbeat (default: DOCUMENT_LOCK_TTL_SECONDS, 30 to DOCUMENT_LOCK_MAX_TTL_SECONDS)
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentLockRouter.post("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String((req.params as any).documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    if (!tenantId || !UUID_PATTERN.test(documentId)) {
+        return res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "Valid documentId parameter and X-Tenant-Id header required"
+        });
+    }
+
+    if (!actorId || !UUID_PATTERN.test(actorId)) {
+        return res.status(400).json({
+            ok: false,
+            error: "bad_request",
+            message: "X-User-Id header (UUID) required to check out a document"
+        });
+    }
+
+    const ttlSeconds = resolveLockTtl(req.body?.ttl_seconds);
+    if (ttlSeconds === null) {
+        return res.status(400).json({
+            ok: false,
+            error: "validation_error",
+            message: `ttl_seconds must be an integer between 30 and ${CONFIG.DOCUMENT_LOCK_MAX_TTL_SECONDS}`
+        });
+    }
+
+    const client = await pool.connect();
+    try {
+        await client.query("BEGIN");
+        const { lock, lapsed } = await acquireLock(client, {
+            tenantId,
+            documentId,
+            actorId,
+            actorEmail,
+            actorRole,
+            ttlSeconds
+        });
+        await client.query("COMMIT");
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_lock",
+            outcome: "success",
+            metadata: {
+                lock_event: "checkout",
+                ttl_seconds: ttlSeconds,
+                expires_at: lock.expires_at,
+                lapsed_lock_holder: lapsed ? lapsed.locked_by : null
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: lockResponse(lock, actorId)
+        });
+    } catch (err: any) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        if (err instanceof DocumentLockError) {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: documentId,
+                targetType: "document_lock",
+                outcome: "failure",
+                reason: err.code,
+                metadata: { lock_event: "checkout", lock_holder: err.lock ? err.lock.locked_by : null },
+                requestId: reqId
+            });
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                lock: transformDocumentLock(err.lock)
+            });
+        }
+        console.error("[Agent] Error checking out document:", err);
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_lock",
+            outcome: "failure",
+            reason: "internal_error",
+            metadata: { lock_event: "checkout" },
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to check out document"
+        });
+    } finally {
+        client.release();
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/lock/heartbeat
+ * Keep your checkout alive; 409 lock_not_held once it has lapsed or was broken
+ *
+ * Body:
+ * - ttl_seconds: new lifetime from now (optional, same bounds as checkout)
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentLockRouter.post("/heartbeat", requireInternalAuth, async (req, res) => {
+    const { actorId } = getActorContext(req);
+
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !actorId || !UUID_PATTERN.test(actorId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter, X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        const ttlSeconds = resolveLockTtl(req.body?.ttl_seconds);
+        if (ttlSeconds === null) {
+            return res.status(400).json({
+                ok: false,
+                error: "validation_error",
+                message: `ttl_seconds must be an integer between 30 and ${CONFIG.DOCUMENT_LOCK_MAX_TTL_SECONDS}`
+            });
+        }
+
+        const lock = await heartbeatLock(pool, tenantId, documentId, actorId, ttlSeconds);
+
+        return res.json({
+            ok: true,
+            data: lockResponse(lock, actorId)
+        });
+    } catch (err: any) {
+        if (err instanceof DocumentLockError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                lock: transformDocumentLock(err.lock)
+            });
+        }
+        console.error("[Agent] Error extending document lock:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to extend document lock"
+        });
+    }
+});
+
+/**
+ * DELETE /agent/internal/documents/:documentId/lock
+ * Check the document back in (release your own lock)
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentLockRouter.delete("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String((req.params as any).documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !actorId || !UUID_PATTERN.test(actorId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter, X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        const released = await releaseLock(pool, tenantId, documentId, actorId);
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "document_lock",
+            outcome: "success",
+            metadata: { lock_event: "release", acquired_at: released.acquired_at },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: lockResponse(null, actorId)
+        });
+    } catch (err: any) {
+        if (err instanceof DocumentLockError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                lock: transformDocumentLock(err.lock)
+            });
+        }
+        console.error("[Agent] Error releasing document lock:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: UUID_PATTERN.test(documentId) ? documentId : null,
+            targetType: "document_lock",
+            outcome: "failure",
+            reason: "internal_error",
+            metadata: { lock_event: "release" },
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to release document lock"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/lock/break
+ * Remove another user's checkout (admin/owner only); the holder's unsaved work is not kept
+ *
+ * Body:
+ * - reason: why the lock is broken (required, recorded in the audit trail)
+ * Headers: X-Tenant-Id, X-User-Role
+ */
+documentLockRouter.post("/break", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String((req.params as any).documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        if (!LOCK_BREAK_ROLES.includes(actorRole)) {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "security",
+                targetId: documentId,
+                targetType: "document_lock",
+                outcome: "failure",
+                decision: "deny",
+                reason: "role_not_permitted",
+                metadata: { lock_event: "break" },
+                requestId: reqId
+            });
+            return res.status(403).json({
+                ok: false,
+                error: "forbidden",
+                message: `Only ${LOCK_BREAK_ROLES.join(" or ")} can break a document lock`
+            });
+        }
+
+        if (!reason) {
+            return res.status(400).json({
+                ok: false,
+                error: "validation_error",
+                message: "reason is required"
+            });
+        }
+
+        const broken = await breakLock(pool, tenantId, documentId);
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "security",
+            targetId: documentId,
+            targetType: "document_lock",
+            outcome: "success",
+            reason,
+            metadata: {
+                lock_event: "break",
+                lock_holder: broken.locked_by,
+                acquired_at: broken.acquired_at,
+                expires_at: broken.expires_at
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                ...lockResponse(null, actorId),
+                brokenLock: transformDocumentLock(broken)
+            }
+        });
+    } catch (err: any) {
+        if (err instanceof DocumentLockError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
+        console.error("[Agent] Error breaking document lock:", err);
+        await recordAudit({
+            tenantId: tenantId || "unknown",
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "security",
+            targetId: UUID_PATTERN.test(documentId) ? documentId : null,
+            targetType: "document_lock",
+            outcome: "failure",
+            reason: "internal_error",
+            metadata: { lock_event: "break" },
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to break document lock"
+        });
+    }
+});
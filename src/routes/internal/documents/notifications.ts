@@ -0,0 +1,423 @@
+/**
+ * Agent Internal API - Notification Inbox
+ *
+ * In-app notifications (document_notifications with send_in_app) for the calling user.
+ * The recipient is always the X-User-Id of the request; users only ever see their own inbox.
+ *
+ * Base path: /agent/internal/documents/notifications
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { decodeCursor, encodeCursor } from "../../../helpers/cursor";
+import { transformNotification, transformArray } from "../../../helpers/transform";
+
+export const documentNotificationsRouter = Router({ mergeParams: true });
+
+const PRIORITIES = ["low", "normal", "high", "urgent"];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Visible in the inbox once the in-app channel has delivered (the row may still be retrying email/SMS)
+const IN_APP_VISIBLE = `send_in_app = TRUE
+    AND (status IN ('sent', 'delivered', 'read') OR metadata->'delivery'->>'in_app' = 'delivered')`;
+
+// Reading only finishes delivery: a row still pending (email/SMS retries) or failed keeps its status
+const READ_STATUS = `CASE WHEN status IN ('sent', 'delivered') THEN 'read' ELSE status END`;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * GET /agent/internal/documents/notifications
+ * List the caller's in-app notifications, newest first
+ *
+ * Query params:
+ * - status: unread | read | all (default: all)
+ * - priority: low | normal | high | urgent (optional)
+ * - type: notification_type, e.g. expiry_warning_30 (optional)
+ * - document_id: UUID (optional)
+ * - limit: number (default: 20, max: 100)
+ * - cursor: nextCursor from the previous page (optional)
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentNotificationsRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const status = String(req.query.status || "all").trim();
+        const priority = String(req.query.priority || "").trim();
+        const type = String(req.query.type || "").trim();
+        const documentId = String(req.query.document_id || "").trim();
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20")) || 20, 1), 100);
+        const rawCursor = String(req.query.cursor || "").trim();
+
+        if (!tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        if (!["unread", "read", "all"].includes(status) || (priority && !PRIORITIES.includes(priority))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `status must be unread, read or all; priority must be one of: ${PRIORITIES.join(", ")}`
+            });
+        }
+
+        if (documentId && !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "document_id must be a UUID"
+            });
+        }
+
+        const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+        if (rawCursor && (!cursor || isNaN(new Date(cursor.sortValue).getTime()) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const conditions: string[] = ["tenant_id = $1", "recipient_id = $2", IN_APP_VISIBLE];
+        const params: any[] = [tenantId, actorId];
+        let paramIndex = 3;
+
+        if (status === "unread") conditions.push("read_at IS NULL");
+        if (status === "read") conditions.push("read_at IS NOT NULL");
+
+        if (priority) {
+            conditions.push(`priority = $${paramIndex}`);
+            params.push(priority);
+            paramIndex++;
+        }
+
+        if (type) {
+            conditions.push(`notification_type = $${paramIndex}`);
+            params.push(type);
+            paramIndex++;
+        }
+
+        if (documentId) {
+            conditions.push(`document_id = $${paramIndex}`);
+            params.push(documentId);
+            paramIndex++;
+        }
+
+        if (cursor) {
+            conditions.push(`(created_at, id) < ($${paramIndex}, $${paramIndex + 1})`);
+            params.push(cursor.sortValue, cursor.id);
+            paramIndex += 2;
+        }
+
+        const dataQuery = `
+            SELECT
+                *,
+                to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at
+            FROM document_notifications
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY created_at DESC, id DESC
+            LIMIT $${paramIndex}
+        `;
+        params.push(limit + 1);
+
+        const dataResult = await pool.query(dataQuery, params);
+        const hasMore = dataResult.rows.length > limit;
+        const rows = hasMore ? dataResult.rows.slice(0, limit) : dataResult.rows;
+        const last = rows[rows.length - 1];
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                notifications: transformArray(rows, transformNotification),
+                limit,
+                nextCursor: hasMore && last ? encodeCursor(last.cursor_created_at, last.id) : null
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing notifications:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list notifications"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/notifications/unread-count
+ * Unread counts for badge display, in total and per priority
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentNotificationsRouter.get("/unread-count", requireInternalAuth, async (req, res) => {
+    const { actorId } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        const result = await pool.query(
+            `SELECT priority, COUNT(*) AS count
+             FROM document_notifications
+             WHERE tenant_id = $1 AND recipient_id = $2 AND read_at IS NULL AND ${IN_APP_VISIBLE}
+             GROUP BY priority`,
+            [tenantId, actorId]
+        );
+
+        const byPriority: Record<string, number> = { low: 0, normal: 0, high: 0, urgent: 0 };
+        for (const row of result.rows) {
+            byPriority[row.priority || "normal"] = parseInt(row.count);
+        }
+
+        // Polled for badges: not audited, it exposes no notification content
+        return res.json({
+            ok: true,
+            data: {
+                total: Object.values(byPriority).reduce((sum, n) => sum + n, 0),
+                byPriority
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error counting unread notifications:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to count unread notifications"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/notifications/read
+ * Mark several (or all) of the caller's notifications as read
+ *
+ * Body: {
+ *   notification_ids?: string[],
+ *   all?: boolean (mark every unread notification as read)
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentNotificationsRouter.put("/read", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const { notification_ids, all } = req.body || {};
+        const ids: string[] = Array.isArray(notification_ids) ? notification_ids.map(String) : [];
+
+        if (!tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        if (all !== true && (ids.length === 0 || !ids.every(id => UUID_PATTERN.test(id)))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "notification_ids (array of UUIDs) or all: true required"
+            });
+        }
+
+        const params: any[] = [tenantId, actorId];
+        let idFilter = "";
+        if (all !== true) {
+            params.push(ids);
+            idFilter = "AND id = ANY($3::uuid[])";
+        }
+
+        const result = await pool.query(
+            `UPDATE document_notifications
+             SET read_at = NOW(), status = ${READ_STATUS}
+             WHERE tenant_id = $1 AND recipient_id = $2 AND read_at IS NULL AND ${IN_APP_VISIBLE} ${idFilter}
+             RETURNING id`,
+            params
+        );
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            targetName: "Notifications marked read",
+            outcome: "success",
+            metadata: { all: all === true, marked: result.rows.length },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                marked: result.rows.length,
+                notificationIds: result.rows.map((row: any) => row.id)
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error marking notifications read:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to mark notifications as read"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/notifications/:notificationId/read
+ * Mark a single notification as read
+ *
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentNotificationsRouter.put("/:notificationId/read", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const notificationId = String(req.params.notificationId || "").trim();
+
+        if (!tenantId || !actorId || !UUID_PATTERN.test(notificationId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers and a valid notification id required"
+            });
+        }
+
+        // Idempotent: an already-read notification keeps its original read_at
+        const result = await pool.query(
+            `UPDATE document_notifications
+             SET read_at = COALESCE(read_at, NOW()), status = ${READ_STATUS}
+             WHERE id = $1 AND tenant_id = $2 AND recipient_id = $3 AND ${IN_APP_VISIBLE}
+             RETURNING *`,
+            [notificationId, tenantId, actorId]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Notification not found"
+            });
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            targetId: notificationId,
+            targetName: "Notification marked read",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformNotification(result.rows[0])
+        });
+    } catch (err) {
+        console.error("[Agent] Error marking notification read:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_notifications",
+            targetId: String(req.params.notificationId || "") || null,
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to mark notification as read"
+        });
+    }
+});
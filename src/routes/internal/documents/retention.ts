@@ -0,0 +1,499 @@
+/**
+ * Agent Internal API - Document Retention and Disposal
+ *
+ * Disposal-candidate report, per-document retention status and certified
+ * disposal (see helpers/retention for the rules). Legal hold always wins.
+ *
+ * Base paths: /agent/internal/documents/retention
+ *             /agent/internal/documents/:documentId/retention
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { restrictedDocumentsCondition } from "../../../middleware/policy";
+import { recordAudit } from "../../../helpers/audit";
+import { decodeCursor, encodeCursor } from "../../../helpers/cursor";
+import { deleteDocumentFile } from "../../../helpers/documentFiles";
+import {
+    computeDisposalCertificate,
+    disposeDocument,
+    getRetentionStatus,
+    DisposalTombstone,
+    RetentionError,
+    DISPOSAL_DUE_SQL,
+} from "../../../helpers/retention";
+import { transformDisposal } from "../../../helpers/transform";
+
+export const documentRetentionRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DISPOSAL_BATCH = 100;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+function transformCandidate(row: any) {
+    const status = getRetentionStatus(row);
+    return {
+        id: row.id,
+        documentNumber: row.document_number,
+        title: row.title,
+        category: row.category,
+        entityType: row.entity_type,
+        status: row.status,
+        sensitivityLevel: row.sensitivity_level,
+        retentionPeriodYears: row.retention_period_years,
+        expiryDate: row.expiry_date,
+        disposalDue: status.disposalDue,
+        legalHold: row.legal_hold === true,
+        legalHoldReason: row.legal_hold_reason,
+        deletedAt: row.deleted_at,
+        eligible: status.eligible,
+        blockers: status.blockers
+    };
+}
+
+/**
+ * GET /agent/internal/documents/retention/candidates
+ * Disposal-candidate report for review: documents whose retention has run out,
+ * oldest due first. Held documents are listed with the legal_hold blocker.
+ * Soft-deleted documents are included (their content has not been purged yet).
+ *
+ * Query params:
+ * - due_before: YYYY-MM-DD, report documents due on or before this date (default: today)
+ * - category, entity_type: filters (optional)
+ * - include_held: true | false (default: true)
+ * - limit: number (default: 50, max: 200)
+ * - cursor: nextCursor from the previous page (optional)
+ * Headers: X-Tenant-Id
+ */
+documentRetentionRouter.get("/candidates", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const dueBefore = String(req.query.due_before || "").trim();
+        const category = String(req.query.category || "").trim();
+        const entityType = String(req.query.entity_type || "").trim();
+        const includeHeld = req.query.include_held !== "false";
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 200);
+        const rawCursor = String(req.query.cursor || "").trim();
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (dueBefore && (!DATE_PATTERN.test(dueBefore) || isNaN(new Date(dueBefore).getTime()))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "due_before must be a date (YYYY-MM-DD)"
+            });
+        }
+
+        const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+        if (rawCursor && (!cursor || !DATE_PATTERN.test(cursor.sortValue) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const conditions: string[] = [
+            "d.tenant_id = $1",
+            "d.purged_at IS NULL",
+            `${DISPOSAL_DUE_SQL} <= COALESCE($2::date, CURRENT_DATE)`,
+        ];
+        const params: any[] = [tenantId, dueBefore || null];
+        let paramIndex = 3;
+
+        if (category) {
+            conditions.push(`d.category = $${paramIndex}`);
+            params.push(category);
+            paramIndex++;
+        }
+
+        if (entityType) {
+            conditions.push(`d.entity_type = $${paramIndex}`);
+            params.push(entityType);
+            paramIndex++;
+        }
+
+        const restricted = restrictedDocumentsCondition(req, "d.sensitivity_level");
+        if (restricted) conditions.push(restricted);
+
+        // Summary counts ignore include_held and the cursor so reviewers see what is blocked
+        const summaryResult = await pool.query(
+            `SELECT
+                COUNT(*) FILTER (WHERE d.legal_hold IS NOT TRUE)::int AS eligible,
+                COUNT(*) FILTER (WHERE d.legal_hold = TRUE)::int AS held
+             FROM documents d
+             WHERE ${conditions.join(" AND ")}`,
+            params
+        );
+
+        if (!includeHeld) conditions.push("d.legal_hold IS NOT TRUE");
+
+        if (cursor) {
+            conditions.push(`(${DISPOSAL_DUE_SQL}, d.id) > ($${paramIndex}::date, $${paramIndex + 1})`);
+            params.push(cursor.sortValue, cursor.id);
+            paramIndex += 2;
+        }
+
+        const dataQuery = `
+            SELECT
+                d.id, d.document_number, d.title, d.category, d.entity_type, d.status,
+                d.sensitivity_level, d.retention_period_years, d.expiry_date, d.legal_hold,
+                d.legal_hold_reason, d.deleted_at, d.purged_at,
+                to_char(${DISPOSAL_DUE_SQL}, 'YYYY-MM-DD') AS disposal_due
+            FROM documents d
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY ${DISPOSAL_DUE_SQL} ASC, d.id ASC
+            LIMIT $${paramIndex}
+        `;
+        params.push(limit + 1);
+
+        const dataResult = await pool.query(dataQuery, params);
+        const hasMore = dataResult.rows.length > limit;
+        const rows = hasMore ? dataResult.rows.slice(0, limit) : dataResult.rows;
+        const last = rows[rows.length - 1];
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetType: "document_retention",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                candidates: rows.map(transformCandidate),
+                summary: summaryResult.rows[0],
+                dueBefore: dueBefore || null,
+                limit,
+                nextCursor: hasMore && last ? encodeCursor(last.disposal_due, last.id) : null
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error building disposal candidate report:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetType: "document_retention",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to build disposal candidate report"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/retention/dispose
+ * Certified disposal of reviewed candidates. Each document is disposed in its own
+ * transaction; documents that are held or still in retention are reported, not disposed.
+ *
+ * Body:
+ * - document_ids: UUID[] (max 100)
+ * - reason: string (optional, recorded on the certificate)
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentRetentionRouter.post("/dispose", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const documentIds = req.body?.document_ids;
+        const reason = req.body?.reason ? String(req.body.reason).slice(0, 1000) : null;
+
+        if (!tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        if (
+            !Array.isArray(documentIds) ||
+            documentIds.length === 0 ||
+            documentIds.length > MAX_DISPOSAL_BATCH ||
+            documentIds.some((id: any) => typeof id !== "string" || !UUID_PATTERN.test(id))
+        ) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `document_ids must be an array of 1-${MAX_DISPOSAL_BATCH} UUIDs`
+            });
+        }
+
+        const results: any[] = [];
+
+        for (const documentId of Array.from(new Set<string>(documentIds))) {
+            const client = await pool.connect();
+            let disposed;
+            try {
+                await client.query("BEGIN");
+                disposed = await disposeDocument(client, { tenantId, documentId, actorId, actorRole, reason });
+                await client.query("COMMIT");
+            } catch (err) {
+                await client.query("ROLLBACK");
+                if (!(err instanceof RetentionError)) throw err;
+
+                await recordAudit({
+                    tenantId,
+                    actorId,
+                    actorEmail,
+                    actorRole,
+                    actorIp,
+                    action: "delete",
+                    resource: "documents",
+                    eventCategory: "compliance",
+                    targetId: documentId,
+                    targetType: "document_disposal",
+                    outcome: "failure",
+                    reason: err.code,
+                    requestId: reqId
+                });
+                results.push({ documentId, disposed: false, error: err.code, message: err.message });
+                continue;
+            } finally {
+                client.release();
+            }
+
+            // The data key is gone, so a failed byte delete leaves only unreadable ciphertext
+            if (disposed.filePath) {
+                try {
+                    await deleteDocumentFile(disposed.filePath);
+                } catch (err) {
+                    console.error(`[Agent] Failed to delete stored file of disposed document ${documentId}:`, err);
+                }
+            }
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "delete",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "document_disposal",
+                targetName: disposed.tombstone.document_number,
+                outcome: "success",
+                reason: "certified_disposal",
+                metadata: {
+                    certificate_hash: disposed.tombstone.certificate_hash,
+                    file_disposition: disposed.tombstone.file_disposition,
+                    disposal_due: disposed.tombstone.disposal_due,
+                },
+                requestId: reqId
+            });
+            results.push({ documentId, disposed: true, certificate: transformDisposal(disposed.tombstone) });
+        }
+
+        const disposedCount = results.filter(r => r.disposed).length;
+
+        return res.json({
+            ok: true,
+            data: {
+                results,
+                disposed: disposedCount,
+                skipped: results.length - disposedCount
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error disposing documents:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "delete",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetType: "document_disposal",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to dispose documents"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/retention
+ * Retention status of one document: disposal due date, eligibility and blockers
+ *
+ * Headers: X-Tenant-Id
+ */
+documentRetentionRouter.get("/", requireInternalAuth, async (req, res) => {
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!documentId || !tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const result = await pool.query(
+            `SELECT d.id, d.retention_period_years, d.disposal_date, d.expiry_date, d.legal_hold,
+                    d.legal_hold_reason, d.deleted_at, d.purged_at,
+                    to_char(${DISPOSAL_DUE_SQL}, 'YYYY-MM-DD') AS disposal_due
+             FROM documents d
+             WHERE d.id = $1 AND d.tenant_id = $2`,
+            [documentId, tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Document not found"
+            });
+        }
+
+        const row = result.rows[0];
+        const status = getRetentionStatus(row);
+
+        return res.json({
+            ok: true,
+            data: {
+                documentId: row.id,
+                retentionPeriodYears: row.retention_period_years,
+                disposalDate: row.disposal_date,
+                expiryDate: row.expiry_date,
+                legalHold: row.legal_hold === true,
+                legalHoldReason: row.legal_hold_reason,
+                purgedAt: row.purged_at,
+                ...status
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching retention status:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch retention status"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/retention/certificate
+ * Disposal certificate (tombstone) of a disposed document, with its HMAC re-verified
+ *
+ * Headers: X-Tenant-Id
+ */
+documentRetentionRouter.get("/certificate", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String((req.params as any).documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!documentId || !tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const result = await pool.query(
+            `SELECT *, to_char(disposal_due, 'YYYY-MM-DD') AS disposal_due
+             FROM document_disposals
+             WHERE document_id = $1 AND tenant_id = $2`,
+            [documentId, tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "No disposal certificate for this document"
+            });
+        }
+
+        const tombstone: DisposalTombstone = result.rows[0];
+        const verified = computeDisposalCertificate(tombstone) === tombstone.certificate_hash;
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: documentId,
+            targetType: "document_disposal",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                ...transformDisposal(tombstone),
+                verified
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching disposal certificate:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch disposal certificate"
+        });
+    }
+});
@@ -0,0 +1,274 @@
+/**
+ * Agent Internal API - Document Full-Text Search
+ *
+ * Ranked search over documents.search_vector and the latest version of every
+ * document section (document_sections.search_vector), both maintained by
+ * triggers (migration 029) with the English and Arabic stemmers.
+ *
+ * Base path: /agent/internal/documents/search
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { restrictedDocumentsCondition } from "../../../middleware/policy";
+import { recordAudit } from "../../../helpers/audit";
+
+export const documentSearchRouter = Router({ mergeParams: true });
+
+const MAX_QUERY_LENGTH = 200;
+const ENTITY_TYPES = ['employee', 'vendor', 'policy', 'general', 'contract', 'certificate'];
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F]/;
+
+// ts_headline marks matches with control characters; the text is HTML-escaped before they become <mark>
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * HTML-safe highlight with matches wrapped in <mark>; null when the headline has no match
+ */
+function toHighlight(headline: string | null): string | null {
+    if (!headline || !headline.includes(HIGHLIGHT_START)) return null;
+    return escapeHtml(headline)
+        .split(HIGHLIGHT_START).join("<mark>")
+        .split(HIGHLIGHT_STOP).join("</mark>");
+}
+
+/**
+ * GET /agent/internal/documents/search
+ * Full-text search with ranking, highlights and the best matching section.
+ * Highly restricted documents are only searched for admins and owners.
+ *
+ * Query params:
+ * - q: search text (web search syntax: "exact phrase", -excluded, or)
+ * - lang: auto | english | arabic, language used for highlights (default: auto, Arabic when q has Arabic script)
+ * - category, entity_type, status: filters (optional)
+ * - all_versions: true to search every version instead of only the latest (default: false)
+ * - page: number (default: 1)
+ * - page_size: number (default: 20, max: 50)
+ * Headers: X-Tenant-Id
+ */
+documentSearchRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const q = String(req.query.q || "").trim();
+        const lang = String(req.query.lang || "auto").trim();
+        const category = String(req.query.category || "").trim();
+        const entityType = String(req.query.entity_type || "").trim();
+        const status = String(req.query.status || "").trim();
+        const allVersions = req.query.all_versions === "true";
+        const page = Math.max(1, parseInt(String(req.query.page || "1")) || 1);
+        const pageSize = Math.min(50, Math.max(1, parseInt(String(req.query.page_size || "20")) || 20));
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (!q || q.length > MAX_QUERY_LENGTH) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `q is required (at most ${MAX_QUERY_LENGTH} characters)`
+            });
+        }
+
+        if (!["auto", "english", "arabic"].includes(lang)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "lang must be auto, english or arabic"
+            });
+        }
+
+        const headlineConfig = lang === "auto" ? (ARABIC_PATTERN.test(q) ? "arabic" : "english") : lang;
+
+        const conditions: string[] = [
+            "d.tenant_id = $1",
+            "d.deleted_at IS NULL",
+            "(d.search_vector @@ q.query OR sh.document_id IS NOT NULL)",
+        ];
+        const params: any[] = [tenantId, q];
+        let paramIndex = 3;
+
+        if (!allVersions) conditions.push("d.is_latest_version = TRUE");
+
+        const restricted = restrictedDocumentsCondition(req, "d.sensitivity_level");
+        if (restricted) conditions.push(restricted);
+
+        if (category) {
+            conditions.push(`d.category = $${paramIndex}`);
+            params.push(category);
+            paramIndex++;
+        }
+
+        if (entityType && ENTITY_TYPES.includes(entityType)) {
+            conditions.push(`d.entity_type = $${paramIndex}`);
+            params.push(entityType);
+            paramIndex++;
+        }
+
+        if (status) {
+            conditions.push(`d.status = $${paramIndex}`);
+            params.push(status);
+            paramIndex++;
+        }
+
+        // Headlines are only computed for the returned page
+        const searchQuery = `
+            WITH q AS (
+                SELECT websearch_to_tsquery('english', $2) || websearch_to_tsquery('arabic', $2) AS query
+            ),
+            section_hits AS (
+                SELECT DISTINCT ON (s.document_id)
+                    s.document_id,
+                    s.section_id,
+                    s.title AS section_title,
+                    s.content AS section_content,
+                    ts_rank_cd(s.search_vector, q.query) AS section_rank
+                FROM document_sections s
+                CROSS JOIN q
+                WHERE s.tenant_id = $1
+                  AND s.search_vector @@ q.query
+                  AND s.change_type IS DISTINCT FROM 'removed'
+                  AND NOT EXISTS (
+                      SELECT 1 FROM document_sections n
+                      WHERE n.document_id = s.document_id
+                        AND n.section_id = s.section_id
+                        AND n.version_number > s.version_number
+                  )
+                ORDER BY s.document_id, section_rank DESC
+            ),
+            ranked AS (
+                SELECT
+                    d.id, d.document_number, d.title, d.description, d.category, d.entity_type,
+                    d.status, d.version, d.is_latest_version, d.sensitivity_level, d.updated_at,
+                    d.structured_content,
+                    sh.section_id, sh.section_title, sh.section_content,
+                    GREATEST(ts_rank_cd(d.search_vector, q.query), COALESCE(sh.section_rank, 0)) AS rank,
+                    COUNT(*) OVER () AS total_count
+                FROM documents d
+                CROSS JOIN q
+                LEFT JOIN section_hits sh ON sh.document_id = d.id
+                WHERE ${conditions.join(" AND ")}
+                ORDER BY rank DESC, d.id ASC
+                LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+            )
+            SELECT
+                r.*,
+                ts_headline($${paramIndex + 2}::regconfig, COALESCE(r.title, ''), q.query, $${paramIndex + 3}) AS title_headline,
+                ts_headline($${paramIndex + 2}::regconfig, COALESCE(r.description, ''), q.query, $${paramIndex + 3}) AS description_headline,
+                CASE
+                    WHEN r.section_content IS NOT NULL
+                        THEN ts_headline($${paramIndex + 2}::regconfig, r.section_content, q.query, $${paramIndex + 3})
+                    WHEN r.structured_content IS NOT NULL
+                        THEN ts_headline($${paramIndex + 2}::regconfig, COALESCE(jsonb_string_values(r.structured_content), ''), q.query, $${paramIndex + 3})
+                END AS content_headline
+            FROM ranked r
+            CROSS JOIN q
+            ORDER BY r.rank DESC, r.id ASC
+        `;
+        params.push(pageSize, (page - 1) * pageSize, headlineConfig, HEADLINE_OPTIONS);
+
+        const result = await pool.query(searchQuery, params);
+        const total = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0;
+
+        const hits = result.rows.map((row: any) => ({
+            id: row.id,
+            documentNumber: row.document_number,
+            title: row.title,
+            category: row.category,
+            entityType: row.entity_type,
+            status: row.status,
+            version: row.version,
+            isLatestVersion: row.is_latest_version,
+            sensitivityLevel: row.sensitivity_level,
+            updatedAt: row.updated_at,
+            rank: Number(row.rank),
+            highlights: {
+                title: toHighlight(row.title_headline),
+                description: toHighlight(row.description_headline),
+                content: toHighlight(row.content_headline)
+            },
+            matchedSection: row.section_id
+                ? { sectionId: row.section_id, title: row.section_title }
+                : null
+        }));
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_search",
+            outcome: "success",
+            // Search text may contain personal data; only the size of the result is recorded
+            metadata: { result_count: total },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                hits,
+                page,
+                pageSize,
+                total,
+                totalPages: Math.ceil(total / pageSize)
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error searching documents:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetType: "document_search",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to search documents"
+        });
+    }
+});
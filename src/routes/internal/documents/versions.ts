@@ -9,9 +9,20 @@ import { Router } from "express";
 import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
 import { recordAudit } from "../../../helpers/audit";
+import { propagateDocumentHolds } from "../../../helpers/legalHolds";
+import { diffSections, sectionsFromRows, sectionsFromStructuredContent } from "../../../helpers/contentDiff";
+import { rollbackToVersion, VersionRollbackError } from "../../../helpers/versionRollback";
+import { assertWritable, DocumentLockError, lockDocumentForWrite } from "../../../helpers/documentLocks";
+import { transformDocumentLock } from "../../../helpers/transform";
+import {
+    PUBLISHED_BRANCH, findActiveBranch, getBranchHead, getLineageRoot, getMaxLineageVersion, getPublishedHead
+} from "../../../helpers/versionBranches";
+import { hasCollabSession } from "./collab";
 
 export const documentVersionsRouter = Router({ mergeParams: true });
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Extract actor context from request headers
  */
@@ -99,6 +110,8 @@ documentVersionsRouter.get("/", requireInternalAuth, async (req, res) => {
                 version_metadata,
                 status,
                 is_latest_version,
+                branch_id,
+                superseded_by,
                 file_size,
                 created_by,
                 created_at,
@@ -127,6 +140,8 @@ documentVersionsRouter.get("/", requireInternalAuth, async (req, res) => {
                 changeType: row.version_metadata?.changeType || 'revision',
                 status: row.status,
                 isLatestVersion: row.is_latest_version,
+                branchId: row.branch_id,
+                supersededBy: row.superseded_by,
                 createdBy: row.created_by,
                 createdByName: null, // Would need to join with employees table
                 createdAt: row.created_at,
@@ -174,7 +189,9 @@ documentVersionsRouter.get("/", requireInternalAuth, async (req, res) => {
 
 /**
  * POST /agent/internal/documents/:documentId/versions
- * Create a new version of a document
+ * Create a new version of a document. On the published branch (default) it becomes the
+ * latest version; on a named branch it follows that branch's head and the published
+ * version stays latest (see helpers/versionBranches).
  *
  * Body: {
  *   tenant_id: UUID,
@@ -188,6 +205,7 @@ documentVersionsRouter.get("/", requireInternalAuth, async (req, res) => {
  *   change_description?: string,
  *   change_type: 'major' | 'minor' | 'patch' | 'revision' | 'amendment' | 'correction',
  *   version_metadata?: object,
+ *   branch?: string (default: "published"),
  *   created_by: UUID
  * }
  */
@@ -209,6 +227,7 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             change_description,
             change_type,
             version_metadata,
+            branch,
             created_by
         } = req.body || {};
 
@@ -220,6 +239,40 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             });
         }
 
+        const branchName = typeof branch === "string" && branch.trim() ? branch.trim() : PUBLISHED_BRANCH;
+        const onPublished = branchName === PUBLISHED_BRANCH;
+
+        const rootId = await getLineageRoot(pool, tenant_id, parentDocumentId);
+        if (!rootId) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Parent document not found"
+            });
+        }
+
+        // A branch version follows the branch head; the version it replaces as head is
+        // superseded by it (a branch still at its base supersedes nothing)
+        let parentId = parentDocumentId;
+        let branchId: string | null = null;
+        let supersededId: string | null = null;
+        if (onPublished) {
+            supersededId = (await getPublishedHead(pool, tenant_id, rootId))?.id || null;
+        } else {
+            const targetBranch = await findActiveBranch(pool, tenant_id, rootId, branchName);
+            if (!targetBranch) {
+                return res.status(404).json({
+                    ok: false,
+                    error: "branch_not_found",
+                    message: `Branch "${branchName}" not found`
+                });
+            }
+            const head = await getBranchHead(pool, targetBranch);
+            parentId = head.id;
+            branchId = targetBranch.id;
+            supersededId = head.branch_id === targetBranch.id ? head.id : null;
+        }
+
         // Get parent document details
         const parentQuery = `
             SELECT
@@ -251,7 +304,7 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL
         `;
 
-        const parentResult = await pool.query(parentQuery, [parentDocumentId, tenant_id]);
+        const parentResult = await pool.query(parentQuery, [parentId, tenant_id]);
 
         if (parentResult.rows.length === 0) {
             return res.status(404).json({
@@ -262,7 +315,8 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
         }
 
         const parent = parentResult.rows[0];
-        const newVersion = parent.version + 1;
+        // Numbers are unique across the lineage, whichever branch they are on
+        const newVersion = (await getMaxLineageVersion(pool, tenant_id, rootId)) + 1;
 
         // Build version metadata
         const fullVersionMetadata = {
@@ -271,9 +325,10 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             changeType: change_type || 'revision',
             changeSummary: change_summary,
             changeDescription: change_description || null,
-            parentVersionId: parentDocumentId,
+            parentVersionId: parentId,
             parentVersionNumber: parent.version,
-            isLatestVersion: true,
+            branch: branchName,
+            isLatestVersion: onPublished,
             isDraft: false,
             isPublished: false,
             createdBy: created_by,
@@ -318,17 +373,18 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
                 legal_hold,
                 legal_hold_reason,
                 custom_metadata,
-                created_by
+                created_by,
+                branch_id
             )
             VALUES (
                 $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
                 $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
                 $21, $22, $23, $24, $25, $26, $27, $28, $29, $30,
-                $31, $32, $33, $34, $35, $36
+                $31, $32, $33, $34, $35, $36, $37
             )
             RETURNING
                 id, version, version_metadata, is_latest_version,
-                created_at, updated_at
+                branch_id, created_at, updated_at
         `;
 
         const values = [
@@ -350,8 +406,8 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             parent.encryption_key_id,
             newVersion,
             JSON.stringify(fullVersionMetadata),
-            parentDocumentId,
-            true, // is_latest_version (trigger will handle marking others as false)
+            rootId, // parent_document_id is the lineage root for every version
+            onPublished, // is_latest_version (trigger will handle marking others as false)
             change_summary,
             'draft', // New versions start as draft
             parent.issue_date,
@@ -367,12 +423,25 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
             parent.legal_hold,
             parent.legal_hold_reason,
             parent.custom_metadata,
-            created_by
+            created_by,
+            branchId
         ];
 
         const result = await pool.query(insertQuery, values);
         const newDoc = result.rows[0];
 
+        if (supersededId) {
+            await pool.query(
+                "UPDATE documents SET superseded_by = $1, updated_at = NOW() WHERE id = $2 AND tenant_id = $3",
+                [newDoc.id, supersededId, tenant_id]
+            );
+        }
+
+        // The new version inherits legal_hold from its parent; hold it under the same matters
+        if (parent.legal_hold) {
+            await propagateDocumentHolds(pool, tenant_id, parentId, newDoc.id);
+        }
+
         await recordAudit({
             tenantId: tenant_id,
             actorRole,
@@ -409,6 +478,179 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
     }
 });
 
+/**
+ * POST /agent/internal/documents/:documentId/versions/:versionId/restore
+ * Roll back to a previous version: creates a new latest (draft) version copied from
+ * :versionId and marks the current latest as superseded by it.
+ * Refused while the document is under legal hold, in an active approval workflow,
+ * checked out by another user or open in a collaboration session.
+ *
+ * Body: {
+ *   reason: string
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentVersionsRouter.post("/:versionId/restore", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String(req.params.documentId || "").trim();
+    const versionId = String(req.params.versionId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    const auditFailure = (reason: string, metadata: any = {}) => recordAudit({
+        tenantId: tenantId || "unknown",
+        actorId,
+        actorEmail,
+        actorRole,
+        actorIp,
+        action: "create",
+        resource: "documents",
+        eventCategory: "data",
+        targetId: UUID_PATTERN.test(documentId) ? documentId : null,
+        targetType: "document_version",
+        outcome: "failure",
+        reason,
+        metadata: { rollback_to: versionId, ...metadata },
+        requestId: reqId
+    });
+
+    try {
+        const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(versionId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId and versionId parameters and X-Tenant-Id header required"
+            });
+        }
+
+        if (!actorId || !UUID_PATTERN.test(actorId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-User-Id header (UUID) required"
+            });
+        }
+
+        if (!reason) {
+            await auditFailure("validation_error");
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "reason is required"
+            });
+        }
+
+        const latestResult = await pool.query(
+            `SELECT l.id
+             FROM documents d
+             JOIN documents l
+               ON (l.id = COALESCE(d.parent_document_id, d.id) OR l.parent_document_id = COALESCE(d.parent_document_id, d.id))
+              AND l.tenant_id = d.tenant_id AND l.is_latest_version = TRUE AND l.deleted_at IS NULL
+             WHERE d.id = $1 AND d.tenant_id = $2 AND d.deleted_at IS NULL
+             LIMIT 1`,
+            [documentId, tenantId]
+        );
+        const latestId = latestResult.rows[0]?.id;
+
+        // Checked again under the row lock of the rollback
+        const refuseLocked = async (lockErr: DocumentLockError) => {
+            await auditFailure(lockErr.code, { lock_holder: lockErr.lock.locked_by });
+            return res.status(lockErr.status).json({
+                ok: false,
+                error: lockErr.code,
+                message: lockErr.message,
+                lock: transformDocumentLock(lockErr.lock)
+            });
+        };
+
+        if (latestId) {
+            try {
+                await assertWritable(pool, tenantId, latestId, actorId);
+            } catch (lockErr) {
+                if (!(lockErr instanceof DocumentLockError)) throw lockErr;
+                return refuseLocked(lockErr);
+            }
+
+            if (hasCollabSession(latestId)) {
+                await auditFailure("collab_session_active");
+                return res.status(409).json({
+                    ok: false,
+                    error: "collab_session_active",
+                    message: "Latest version is being edited in a collaboration session"
+                });
+            }
+        }
+
+        const client = await pool.connect();
+        let result;
+        try {
+            await client.query("BEGIN");
+            if (latestId) await lockDocumentForWrite(client, tenantId, latestId, actorId);
+            result = await rollbackToVersion(client, { tenantId, documentId, versionId, reason, actorId });
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            if (txErr instanceof DocumentLockError) return refuseLocked(txErr);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: result.newVersion.id,
+            targetType: "document_version",
+            targetName: `Version ${result.newVersion.version} (rollback to version ${result.restoredVersion.version})`,
+            outcome: "success",
+            metadata: {
+                change_type: "rollback",
+                reason,
+                restored_version_id: result.restoredVersion.id,
+                restored_version: result.restoredVersion.version,
+                superseded_version_id: result.supersededVersion.id,
+                sections_copied: result.sectionsCopied
+            },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: {
+                ...result.newVersion,
+                restoredFrom: result.restoredVersion,
+                supersedes: result.supersededVersion,
+                sectionsCopied: result.sectionsCopied
+            }
+        });
+    } catch (err) {
+        if (err instanceof VersionRollbackError) {
+            await auditFailure(err.code);
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message,
+                ...(err.details || {})
+            });
+        }
+        console.error("[Agent] Error rolling back document version:", err);
+        await auditFailure("internal_error");
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to restore document version"
+        });
+    }
+});
+
 /**
  * GET /agent/internal/documents/versions/compare
  * Compare two document versions
@@ -417,6 +659,8 @@ documentVersionsRouter.post("/", requireInternalAuth, async (req, res) => {
  * - source: UUID (source version ID)
  * - target: UUID (target version ID)
  * - include_file_diff: boolean (whether to include file diff stats)
+ * - include_content_diff: boolean (default: true) section and word-level diff of the
+ *   content (document_sections, else structured_content), with renderable HTML
  */
 documentVersionsRouter.get("/compare", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -426,6 +670,7 @@ documentVersionsRouter.get("/compare", requireInternalAuth, async (req, res) =>
         const sourceId = String(req.query.source || "").trim();
         const targetId = String(req.query.target || "").trim();
         const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const includeContentDiff = req.query.include_content_diff !== "false";
 
         if (!sourceId || !targetId || !tenantId) {
             return res.status(400).json({
@@ -455,6 +700,7 @@ documentVersionsRouter.get("/compare", requireInternalAuth, async (req, res) =>
                 sensitivity_level,
                 version_metadata,
                 change_summary,
+                structured_content,
                 created_at
             FROM documents
             WHERE id IN ($1, $2) AND tenant_id = $3 AND deleted_at IS NULL
@@ -526,6 +772,28 @@ documentVersionsRouter.get("/compare", requireInternalAuth, async (req, res) =>
             });
         }
 
+        // Section-level content diff; a version without document_sections rows is read
+        // from its structured_content. A section whose latest row is 'removed' is gone.
+        let contentDiff = null;
+        if (includeContentDiff) {
+            const sectionsResult = await pool.query(
+                `SELECT DISTINCT ON (document_id, section_id) document_id, section_id, title, content, order_index, change_type
+                 FROM document_sections
+                 WHERE document_id IN ($1, $2) AND tenant_id = $3
+                 ORDER BY document_id, section_id, version_number DESC`,
+                [sourceId, targetId, tenantId]
+            );
+            const sectionsOf = (doc: any) => {
+                const rows = sectionsResult.rows
+                    .filter(row => row.document_id === doc.id)
+                    .sort((a, b) => a.order_index - b.order_index);
+                return rows.length > 0
+                    ? sectionsFromRows(rows.filter(row => row.change_type !== 'removed'))
+                    : sectionsFromStructuredContent(doc.structured_content);
+            };
+            contentDiff = diffSections(sectionsOf(source), sectionsOf(target));
+        }
+
         const comparison = {
             sourceVersionId: sourceId,
             sourceVersionNumber: source.version,
@@ -536,11 +804,13 @@ documentVersionsRouter.get("/compare", requireInternalAuth, async (req, res) =>
             fieldsChanged: differences.map(d => d.field),
             changePercentage: Math.round((differences.length / fieldsToCompare.length) * 100),
             fileChanged: source.file_name !== target.file_name || source.file_size !== target.file_size,
-            fileDiff: source.file_size !== target.file_size ? {
-                additions: 0,
-                deletions: 0,
+            fileDiff: source.file_size !== target.file_size || (contentDiff && (contentDiff.stats.wordsAdded > 0 || contentDiff.stats.wordsRemoved > 0)) ? {
+                // Words added/removed in the content; null when the content diff was not requested
+                additions: contentDiff ? contentDiff.stats.wordsAdded : null,
+                deletions: contentDiff ? contentDiff.stats.wordsRemoved : null,
                 modifications: Math.abs(target.file_size - source.file_size)
-            } : null
+            } : null,
+            contentDiff
         };
 
         await recordAudit({
@@ -0,0 +1,765 @@
+/**
+ * Agent Internal API - Document Workflow Roles
+ *
+ * Role-based workflow on a document (see helpers/workflowRoles): assign roles,
+ * list and reorder them, act on them, and pre-check eligibility so an ineligible
+ * security officer is reported with reasons instead of a database error.
+ * Signatory roles are completed by an electronic signature (helpers/signatures).
+ *
+ * Base path: /agent/internal/documents/:documentId/workflow-roles
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import {
+    WORKFLOW_ROLE_TYPES, WorkflowRoleError, WorkflowRoleType, RoleAssignment,
+    actOnRole, assignRoles, checkEligibility, listRoles, reorderRoles, workflowSummary
+} from "../../../helpers/workflowRoles";
+import { signRole, verifyRoleSignature } from "../../../helpers/signatures";
+import { transformArray, transformWorkflowRole } from "../../../helpers/transform";
+
+export const documentWorkflowRolesRouter = Router({ mergeParams: true });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+function sendRoleError(res: any, err: WorkflowRoleError) {
+    return res.status(err.status).json({
+        ok: false,
+        error: err.code,
+        message: err.message,
+        ...(err.details || {})
+    });
+}
+
+async function documentExists(tenantId: string, documentId: string): Promise<boolean> {
+    const result = await pool.query(
+        "SELECT 1 FROM documents WHERE id = $1 AND tenant_id = $2 AND deleted_at IS NULL",
+        [documentId, tenantId]
+    );
+    return result.rows.length > 0;
+}
+
+/**
+ * GET /agent/internal/documents/:documentId/workflow-roles
+ * Roles in workflow order, each flagged actionable, with the workflow summary
+ *
+ * Headers: X-Tenant-Id
+ */
+documentWorkflowRolesRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String(req.params.documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const roles = await listRoles(pool, tenantId, documentId);
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "workflow_role",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformArray(roles, transformWorkflowRole),
+            workflow: workflowSummary(roles)
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing workflow roles:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list workflow roles"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/workflow-roles/eligibility
+ * Check whether users may be assigned a role, with the reasons when not
+ *
+ * Query params:
+ * - role_type: one of WORKFLOW_ROLE_TYPES
+ * - user_ids: comma-separated UUIDs (max 50)
+ * Headers: X-Tenant-Id
+ */
+documentWorkflowRolesRouter.get("/eligibility", requireInternalAuth, async (req, res) => {
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const roleType = String(req.query.role_type || "").trim() as WorkflowRoleType;
+        const userIds = String(req.query.user_ids || req.query.user_id || "")
+            .split(",")
+            .map(id => id.trim())
+            .filter(Boolean);
+
+        if (!tenantId || !WORKFLOW_ROLE_TYPES.includes(roleType)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `X-Tenant-Id header and role_type (${WORKFLOW_ROLE_TYPES.join(", ")}) required`
+            });
+        }
+
+        if (userIds.length === 0 || userIds.length > 50 || userIds.some(id => !UUID_PATTERN.test(id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "user_ids must be 1-50 comma-separated UUIDs"
+            });
+        }
+
+        const results = await checkEligibility(pool, tenantId, roleType, userIds);
+
+        return res.json({
+            ok: true,
+            data: results
+        });
+    } catch (err) {
+        console.error("[Agent] Error checking workflow role eligibility:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to check workflow role eligibility"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/documents/:documentId/workflow-roles
+ * Assign roles. All or nothing: when a user is not eligible for an enforced role
+ * the response is 422 not_eligible with the eligibility of each such user.
+ *
+ * Body: {
+ *   roles: Array<{
+ *     role_type: string,
+ *     user_id: UUID,
+ *     sequence_order?: number (default: 1),
+ *     is_parallel?: boolean (default: false),
+ *     due_date?: ISO date
+ *   }>
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+documentWorkflowRolesRouter.post("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String(req.params.documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        const input = Array.isArray(req.body?.roles) ? req.body.roles : [];
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !actorId || !UUID_PATTERN.test(actorId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter, X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        const invalid = input.length === 0 || input.some((r: any) =>
+            !r || !WORKFLOW_ROLE_TYPES.includes(r.role_type) || !UUID_PATTERN.test(String(r.user_id || ""))
+            || (r.sequence_order !== undefined && (!Number.isInteger(r.sequence_order) || r.sequence_order < 1))
+            || (r.due_date && isNaN(Date.parse(r.due_date)))
+        );
+        if (invalid) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `roles must be a non-empty array of { role_type (${WORKFLOW_ROLE_TYPES.join(", ")}), user_id, sequence_order >= 1, is_parallel, due_date }`
+            });
+        }
+
+        if (!(await documentExists(tenantId, documentId))) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Document not found"
+            });
+        }
+
+        const roles: RoleAssignment[] = input.map((r: any) => ({
+            roleType: r.role_type,
+            userId: r.user_id,
+            sequenceOrder: r.sequence_order ?? 1,
+            isParallel: r.is_parallel === true,
+            dueDate: r.due_date || null
+        }));
+
+        const client = await pool.connect();
+        let created;
+        try {
+            await client.query("BEGIN");
+            created = await assignRoles(client, { tenantId, documentId, roles, actorId });
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "workflow_role",
+            outcome: "success",
+            metadata: {
+                roles: created.map((r: any) => ({ id: r.id, role_type: r.role_type, user_id: r.user_id, sequence_order: r.sequence_order }))
+            },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformArray(created, transformWorkflowRole)
+        });
+    } catch (err) {
+        if (err instanceof WorkflowRoleError) {
+            await recordAudit({
+                tenantId: tenantId || "unknown",
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "create",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: documentId,
+                targetType: "workflow_role",
+                outcome: "failure",
+                reason: err.code,
+                metadata: err.details,
+                requestId: reqId
+            });
+            return sendRoleError(res, err);
+        }
+        console.error("[Agent] Error assigning workflow roles:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to assign workflow roles"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/:documentId/workflow-roles/order
+ * Reorder open roles
+ *
+ * Body: {
+ *   roles: Array<{ id: UUID, sequence_order: number, is_parallel?: boolean }>
+ * }
+ * Headers: X-Tenant-Id
+ */
+documentWorkflowRolesRouter.put("/order", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String(req.params.documentId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        const input = Array.isArray(req.body?.roles) ? req.body.roles : [];
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const invalid = input.length === 0 || input.some((r: any) =>
+            !r || !UUID_PATTERN.test(String(r.id || "")) || !Number.isInteger(r.sequence_order) || r.sequence_order < 1
+            || (r.is_parallel !== undefined && typeof r.is_parallel !== "boolean")
+        );
+        if (invalid) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "roles must be a non-empty array of { id, sequence_order >= 1, is_parallel? }"
+            });
+        }
+
+        const client = await pool.connect();
+        let roles;
+        try {
+            await client.query("BEGIN");
+            roles = await reorderRoles(client, {
+                tenantId,
+                documentId,
+                order: input.map((r: any) => ({ id: r.id, sequenceOrder: r.sequence_order, isParallel: r.is_parallel }))
+            });
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "data",
+            targetId: documentId,
+            targetType: "workflow_role",
+            outcome: "success",
+            changes: { order: input.map((r: any) => ({ id: r.id, sequence_order: r.sequence_order, is_parallel: r.is_parallel })) },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: transformArray(roles, transformWorkflowRole),
+            workflow: workflowSummary(roles)
+        });
+    } catch (err) {
+        if (err instanceof WorkflowRoleError) return sendRoleError(res, err);
+        console.error("[Agent] Error reordering workflow roles:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to reorder workflow roles"
+        });
+    }
+});
+
+/**
+ * PUT /agent/internal/documents/:documentId/workflow-roles/:roleId/(complete|reject|delegate)
+ * Act on an actionable role. When X-User-Id is present it must be the assigned
+ * user (or the delegate). A rejection skips the remaining open roles.
+ *
+ * Body:
+ * - complete: { comments?: string }
+ * - reject: { rejection_reason: string, comments?: string }
+ * - delegate: { delegated_to: UUID, delegation_reason?: string }
+ * Headers: X-Tenant-Id
+ */
+function roleActionHandler(action: "complete" | "reject" | "delegate") {
+    return async (req: any, res: any) => {
+        const reqId = (req as any).reqId as string;
+        const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+        const documentId = String(req.params.documentId || "").trim();
+        const roleId = String(req.params.roleId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        try {
+            const { comments, rejection_reason, delegated_to, delegation_reason } = req.body || {};
+
+            if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(roleId)) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: "Valid documentId and roleId parameters and X-Tenant-Id header required"
+                });
+            }
+            if (action === "reject" && !rejection_reason) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: "rejection_reason is required"
+                });
+            }
+            if (action === "delegate" && !UUID_PATTERN.test(String(delegated_to || ""))) {
+                return res.status(400).json({
+                    ok: false,
+                    error: "bad_request",
+                    message: "delegated_to (UUID) is required"
+                });
+            }
+
+            const client = await pool.connect();
+            let result;
+            try {
+                await client.query("BEGIN");
+                result = await actOnRole(client, {
+                    tenantId,
+                    documentId,
+                    roleId,
+                    action,
+                    actorId,
+                    comments,
+                    rejectionReason: rejection_reason,
+                    delegateTo: delegated_to,
+                    delegationReason: delegation_reason
+                });
+                await client.query("COMMIT");
+            } catch (txErr) {
+                await client.query("ROLLBACK").catch(() => undefined);
+                throw txErr;
+            } finally {
+                client.release();
+            }
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "data",
+                targetId: roleId,
+                targetType: "workflow_role",
+                targetName: `Workflow role ${result.role.role_type} ${result.role.status}`,
+                outcome: "success",
+                changes: {
+                    status: result.role.status,
+                    delegated_to: action === "delegate" ? delegated_to : undefined,
+                    workflow_outcome: result.workflow.outcome
+                },
+                requestId: reqId
+            });
+
+            return res.json({
+                ok: true,
+                data: transformWorkflowRole(result.role),
+                workflow: result.workflow
+            });
+        } catch (err) {
+            if (err instanceof WorkflowRoleError) {
+                await recordAudit({
+                    tenantId: tenantId || "unknown",
+                    actorId,
+                    actorEmail,
+                    actorRole,
+                    actorIp,
+                    action: "update",
+                    resource: "documents",
+                    eventCategory: err.code === "not_eligible" ? "compliance" : "data",
+                    targetId: UUID_PATTERN.test(roleId) ? roleId : null,
+                    targetType: "workflow_role",
+                    outcome: "failure",
+                    decision: err.status === 403 ? "deny" : "n/a",
+                    reason: err.code,
+                    requestId: reqId
+                });
+                return sendRoleError(res, err);
+            }
+            console.error(`[Agent] Error processing workflow role ${action}:`, err);
+            return res.status(500).json({
+                ok: false,
+                error: "internal_error",
+                message: `Failed to ${action} workflow role`
+            });
+        }
+    };
+}
+
+documentWorkflowRolesRouter.put("/:roleId/complete", requireInternalAuth, roleActionHandler("complete"));
+documentWorkflowRolesRouter.put("/:roleId/reject", requireInternalAuth, roleActionHandler("reject"));
+documentWorkflowRolesRouter.put("/:roleId/delegate", requireInternalAuth, roleActionHandler("delegate"));
+
+/**
+ * PUT /agent/internal/documents/:documentId/workflow-roles/:roleId/sign
+ * Sign an actionable signatory role: seals the signer, document version, content and
+ * file hashes, time and IP into an HMAC-signed record and completes the role
+ *
+ * Body: {
+ *   statement?: string (what the signer attests to),
+ *   comments?: string
+ * }
+ * Headers: X-Tenant-Id, X-User-Id (the signer), X-User-Email, X-User-IP
+ */
+documentWorkflowRolesRouter.put("/:roleId/sign", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+    const documentId = String(req.params.documentId || "").trim();
+    const roleId = String(req.params.roleId || "").trim();
+    const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+    try {
+        const { statement, comments } = req.body || {};
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(roleId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId and roleId parameters and X-Tenant-Id header required"
+            });
+        }
+        if (!actorId || !UUID_PATTERN.test(actorId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-User-Id header (UUID) of the signer required"
+            });
+        }
+        if (statement !== undefined && (typeof statement !== "string" || !statement.trim() || statement.length > 1000)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "statement must be a non-empty string of at most 1000 characters"
+            });
+        }
+
+        const client = await pool.connect();
+        let result;
+        try {
+            await client.query("BEGIN");
+            result = await signRole(client, {
+                tenantId,
+                documentId,
+                roleId,
+                signerId: actorId,
+                signerEmail: actorEmail,
+                ip: actorIp || req.ip || null,
+                statement: statement ? statement.trim() : null,
+                comments: comments || null
+            });
+            await client.query("COMMIT");
+        } catch (txErr) {
+            await client.query("ROLLBACK").catch(() => undefined);
+            throw txErr;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: roleId,
+            targetType: "document_signature",
+            targetName: `Signature on document version ${result.signature.payload.document_version}`,
+            outcome: "success",
+            metadata: {
+                document_id: documentId,
+                content_hash: result.signature.payload.content_hash,
+                file_hash: result.signature.payload.file_hash,
+                key_id: result.signature.payload.key_id,
+                workflow_outcome: result.workflow.outcome
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                ...transformWorkflowRole(result.role),
+                signature: result.signature
+            },
+            workflow: result.workflow
+        });
+    } catch (err) {
+        if (err instanceof WorkflowRoleError) {
+            await recordAudit({
+                tenantId: tenantId || "unknown",
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "documents",
+                eventCategory: "compliance",
+                targetId: UUID_PATTERN.test(roleId) ? roleId : null,
+                targetType: "document_signature",
+                outcome: "failure",
+                decision: err.status === 403 ? "deny" : "n/a",
+                reason: err.code,
+                requestId: reqId
+            });
+            return sendRoleError(res, err);
+        }
+        console.error("[Agent] Error signing workflow role:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to sign workflow role"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/workflow-roles/signatures
+ * Verify every signature on the document: record integrity (HMAC) and whether the
+ * content or file changed since signing
+ *
+ * Headers: X-Tenant-Id
+ */
+documentWorkflowRolesRouter.get("/signatures", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String(req.params.documentId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId parameter and X-Tenant-Id header required"
+            });
+        }
+
+        const signed = await pool.query(
+            `SELECT * FROM document_workflow_roles
+             WHERE document_id = $1 AND tenant_id = $2 AND signature_data IS NOT NULL
+             ORDER BY signature_timestamp ASC`,
+            [documentId, tenantId]
+        );
+        const verifications = [];
+        for (const role of signed.rows) {
+            verifications.push(await verifyRoleSignature(pool, role));
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: documentId,
+            targetType: "document_signature",
+            outcome: "success",
+            metadata: {
+                signatures: verifications.length,
+                invalid: verifications.filter(v => !v.valid).map(v => ({ role_id: v.roleId, reasons: v.reasons }))
+            },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                documentId,
+                allValid: verifications.every(v => v.valid),
+                signatures: verifications
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error verifying document signatures:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to verify document signatures"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/documents/:documentId/workflow-roles/:roleId/signature
+ * Signature record of one role with its verification
+ *
+ * Headers: X-Tenant-Id
+ */
+documentWorkflowRolesRouter.get("/:roleId/signature", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const documentId = String(req.params.documentId || "").trim();
+        const roleId = String(req.params.roleId || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(documentId) || !UUID_PATTERN.test(roleId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Valid documentId and roleId parameters and X-Tenant-Id header required"
+            });
+        }
+
+        const result = await pool.query(
+            `SELECT * FROM document_workflow_roles WHERE id = $1 AND document_id = $2 AND tenant_id = $3`,
+            [roleId, documentId, tenantId]
+        );
+        const role = result.rows[0];
+        if (!role || !role.signature_data) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: role ? "Workflow role has not been signed" : "Workflow role not found"
+            });
+        }
+
+        const verification = await verifyRoleSignature(pool, role);
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "documents",
+            eventCategory: "compliance",
+            targetId: roleId,
+            targetType: "document_signature",
+            outcome: "success",
+            metadata: { valid: verification.valid, reasons: verification.reasons },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                signature: role.signature_data,
+                verification
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error verifying workflow role signature:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to verify signature"
+        });
+    }
+});
@@ -11,6 +11,16 @@ import { Router } from "express";
 import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
 import { recordAudit } from "../../../helpers/audit";
+import { findActiveHolds } from "../../../helpers/legalHolds";
+import { KeysetCursor } from "../../../helpers/cursor";
+import {
+    getListMode,
+    keysetCondition,
+    keysetSortValue,
+    parseListCursor,
+    streamNdjson,
+    toKeysetPage
+} from "../../../helpers/listPagination";
 
 export const internalEmployeesRouter = Router();
 
@@ -26,9 +36,36 @@ function getActorContext(req: any) {
     };
 }
 
+// Old schema columns with aliases for compatibility
+const EMPLOYEE_LIST_COLUMNS = `
+    id,
+    tenant_id,
+    employee_number as employee_id,
+    (first_name || ' ' || last_name) as full_name,
+    email,
+    phone,
+    national_id,
+    nationality,
+    date_of_birth,
+    department,
+    job_title as position,
+    hire_date,
+    employment_type,
+    status as employment_status,
+    NULL::uuid as manager_id,
+    version,
+    created_at,
+    updated_at
+`;
+
 /**
  * GET /agent/internal/employees/list
  * List employees for a tenant with pagination, search, and filtering
+ *
+ * Pagination modes:
+ * - default: page / limit with total counts
+ * - pagination=cursor: keyset pages (newest first), pass pagination.next_cursor back as cursor
+ * - format=ndjson: streams every matching employee, one JSON object per line
  */
 internalEmployeesRouter.get("/list", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -89,6 +126,83 @@ internalEmployeesRouter.get("/list", requireInternalAuth, async (req, res) => {
             paramIndex++;
         }
 
+        const mode = getListMode(req.query);
+        const rawCursor = String(req.query.cursor || "").trim();
+        const cursor = rawCursor ? parseListCursor(rawCursor) : null;
+
+        if (rawCursor && !cursor) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const fetchKeyset = async (after: KeysetCursor | null, batchSize: number) => {
+            const keysetParams = [...params];
+            let keyset = "";
+            if (after) {
+                keyset = `AND ${keysetCondition("created_at", "DESC", paramIndex)}`;
+                keysetParams.push(after.sortValue, after.id);
+            }
+            const result = await pool.query(`
+                SELECT ${EMPLOYEE_LIST_COLUMNS}, ${keysetSortValue("created_at")}
+                FROM employees
+                WHERE ${conditions.join(" AND ")} ${keyset}
+                ORDER BY created_at DESC, id DESC
+                LIMIT ${batchSize}
+            `, keysetParams);
+            return result.rows;
+        };
+
+        if (mode === "ndjson") {
+            const exported = await streamNdjson(res, `employees-${tenantId}.ndjson`, fetchKeyset, row => row);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "employees",
+                eventCategory: "data",
+                outcome: "success",
+                metadata: { format: "ndjson", exported },
+                requestId: reqId
+            });
+
+            return res.end();
+        }
+
+        if (mode === "cursor") {
+            const keysetPage = toKeysetPage(await fetchKeyset(cursor, limit + 1), limit);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "employees",
+                eventCategory: "data",
+                outcome: "success",
+                requestId: reqId
+            });
+
+            return res.json({
+                ok: true,
+                data: {
+                    employees: keysetPage.rows,
+                    pagination: {
+                        limit,
+                        next_cursor: keysetPage.nextCursor
+                    }
+                }
+            });
+        }
+
         // Calculate offset
         const offset = (page - 1) * limit;
 
@@ -101,27 +215,9 @@ internalEmployeesRouter.get("/list", requireInternalAuth, async (req, res) => {
         const countResult = await pool.query(countQuery, params);
         const total = parseInt(countResult.rows[0].total);
 
-        // Get paginated data (using old schema columns with aliases for compatibility)
+        // Get paginated data
         const dataQuery = `
-            SELECT
-                id,
-                tenant_id,
-                employee_number as employee_id,
-                (first_name || ' ' || last_name) as full_name,
-                email,
-                phone,
-                national_id,
-                nationality,
-                date_of_birth,
-                department,
-                job_title as position,
-                hire_date,
-                employment_type,
-                status as employment_status,
-                NULL::uuid as manager_id,
-                version,
-                created_at,
-                updated_at
+            SELECT ${EMPLOYEE_LIST_COLUMNS}
             FROM employees
             WHERE ${conditions.join(" AND ")}
             ORDER BY created_at DESC
@@ -173,6 +269,8 @@ internalEmployeesRouter.get("/list", requireInternalAuth, async (req, res) => {
             reason: "internal_error",
             requestId: reqId
         });
+        // Headers are already out once an ndjson stream started: abort so the client sees a truncated download
+        if (res.headersSent) return res.destroy(err as Error);
         return res.status(500).json({
             ok: false,
             error: "internal_error",
@@ -487,6 +585,28 @@ internalEmployeesRouter.put("/:id", requireInternalAuth, async (req, res) => {
             });
         }
 
+        // Employee records have no history; overwriting a held record would destroy evidence
+        const holds = await findActiveHolds(pool, tenant_id, "employees", id);
+        if (holds.length > 0) {
+            await recordAudit({
+                tenantId: tenant_id,
+                actorRole,
+                action: "update",
+                resource: "employees",
+                eventCategory: "compliance",
+                targetId: id,
+                outcome: "failure",
+                reason: "legal_hold",
+                requestId: reqId
+            });
+            return res.status(409).json({
+                ok: false,
+                error: "legal_hold",
+                message: "Employee record is under legal hold and cannot be modified",
+                holds
+            });
+        }
+
         // Build dynamic SET clause (map new fields to old schema columns)
         const fields: string[] = [];
         const values: any[] = [];
@@ -662,6 +782,27 @@ internalEmployeesRouter.delete("/:id", requireInternalAuth, async (req, res) =>
             });
         }
 
+        const holds = await findActiveHolds(pool, tenantId, "employees", id);
+        if (holds.length > 0) {
+            await recordAudit({
+                tenantId,
+                actorRole,
+                action: "delete",
+                resource: "employees",
+                eventCategory: "compliance",
+                targetId: id,
+                outcome: "failure",
+                reason: "legal_hold",
+                requestId: reqId
+            });
+            return res.status(409).json({
+                ok: false,
+                error: "legal_hold",
+                message: "Employee record is under legal hold and cannot be deleted",
+                holds
+            });
+        }
+
         const deleteQuery = `
             UPDATE employees
             SET deleted_at = NOW(),
@@ -0,0 +1,717 @@
+/**
+ * Agent Internal API - Legal Holds
+ *
+ * Named legal-hold matters applied by query to documents, employees and audit events
+ * (see helpers/legalHolds). Matters are never deleted; releasing one is recorded.
+ *
+ * Base path: /agent/internal/legal-holds
+ */
+
+import { Router } from "express";
+import { pool } from "../../../lib/db";
+import { requireInternalAuth } from "../../../middleware/internalAuth";
+import { recordAudit } from "../../../helpers/audit";
+import { decodeCursor, encodeCursor } from "../../../helpers/cursor";
+import {
+    applyHoldScope,
+    findActiveHolds,
+    releaseMatter,
+    HoldResourceType,
+    HOLD_RESOURCE_TYPES,
+    LegalHoldError,
+} from "../../../helpers/legalHolds";
+import {
+    transformArray,
+    transformLegalHoldItem,
+    transformLegalHoldMatter,
+    transformLegalHoldScope,
+} from "../../../helpers/transform";
+
+export const internalLegalHoldsRouter = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract actor context from request headers for ADHICS-compliant audit logging
+ */
+function getActorContext(req: any) {
+    return {
+        actorId: req.header("X-User-Id") || null,
+        actorEmail: req.header("X-User-Email") || null,
+        actorRole: String(req.header("X-User-Role") || "system"),
+        actorIp: req.header("X-User-IP") || null,
+    };
+}
+
+/**
+ * GET /agent/internal/legal-holds
+ * List legal-hold matters, newest first
+ *
+ * Query params:
+ * - status: active | released | all (default: all)
+ * - limit: number (default: 20, max: 100)
+ * - cursor: nextCursor from the previous page (optional)
+ * Headers: X-Tenant-Id
+ */
+internalLegalHoldsRouter.get("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const status = String(req.query.status || "all").trim();
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20")) || 20, 1), 100);
+        const rawCursor = String(req.query.cursor || "").trim();
+
+        if (!tenantId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header required"
+            });
+        }
+
+        if (!["active", "released", "all"].includes(status)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "status must be active, released or all"
+            });
+        }
+
+        const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+        if (rawCursor && (!cursor || isNaN(new Date(cursor.sortValue).getTime()) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const conditions: string[] = ["m.tenant_id = $1"];
+        const params: any[] = [tenantId];
+        let paramIndex = 2;
+
+        if (status !== "all") {
+            conditions.push(`m.status = $${paramIndex}`);
+            params.push(status);
+            paramIndex++;
+        }
+
+        if (cursor) {
+            conditions.push(`(m.created_at, m.id) < ($${paramIndex}, $${paramIndex + 1})`);
+            params.push(cursor.sortValue, cursor.id);
+            paramIndex += 2;
+        }
+
+        const dataQuery = `
+            SELECT
+                m.*,
+                to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at,
+                (SELECT COUNT(*)::int FROM legal_hold_items i WHERE i.matter_id = m.id AND i.released_at IS NULL) AS active_items
+            FROM legal_hold_matters m
+            WHERE ${conditions.join(" AND ")}
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT $${paramIndex}
+        `;
+        params.push(limit + 1);
+
+        const dataResult = await pool.query(dataQuery, params);
+        const hasMore = dataResult.rows.length > limit;
+        const rows = hasMore ? dataResult.rows.slice(0, limit) : dataResult.rows;
+        const last = rows[rows.length - 1];
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                matters: rows.map(row => ({ ...transformLegalHoldMatter(row), activeItems: row.active_items })),
+                limit,
+                nextCursor: hasMore && last ? encodeCursor(last.cursor_created_at, last.id) : null
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing legal hold matters:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "list",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list legal hold matters"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/legal-holds/check
+ * Active matters holding one record (for UIs disabling destructive actions)
+ *
+ * Query params:
+ * - resource_type: documents | employees | audit_events
+ * - resource_id: UUID
+ * Headers: X-Tenant-Id
+ */
+internalLegalHoldsRouter.get("/check", requireInternalAuth, async (req, res) => {
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const resourceType = String(req.query.resource_type || "").trim() as HoldResourceType;
+        const resourceId = String(req.query.resource_id || "").trim();
+
+        if (!tenantId || !HOLD_RESOURCE_TYPES.includes(resourceType) || !UUID_PATTERN.test(resourceId)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `X-Tenant-Id header, resource_type (${HOLD_RESOURCE_TYPES.join(", ")}) and a UUID resource_id required`
+            });
+        }
+
+        const holds = await findActiveHolds(pool, tenantId, resourceType, resourceId);
+
+        return res.json({
+            ok: true,
+            data: { resourceType, resourceId, held: holds.length > 0, holds }
+        });
+    } catch (err) {
+        console.error("[Agent] Error checking legal holds:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to check legal holds"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/legal-holds
+ * Open a legal-hold matter (apply it to records with POST /:id/scopes)
+ *
+ * Body: {
+ *   name: string,
+ *   reason: string,
+ *   matter_reference?: string,
+ *   description?: string,
+ *   custodian_id?: UUID,
+ *   custodian_email?: string
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+internalLegalHoldsRouter.post("/", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const { name, reason, matter_reference, description, custodian_id, custodian_email } = req.body || {};
+
+        if (!tenantId || !actorId) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers required"
+            });
+        }
+
+        if (!name || !String(name).trim() || !reason || !String(reason).trim()) {
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "create",
+                resource: "legal_holds",
+                eventCategory: "compliance",
+                outcome: "failure",
+                reason: "validation_error",
+                requestId: reqId
+            });
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "name and reason are required"
+            });
+        }
+
+        if (custodian_id && !UUID_PATTERN.test(String(custodian_id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "custodian_id must be a UUID"
+            });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO legal_hold_matters (
+                tenant_id, name, matter_reference, description, reason, custodian_id, custodian_email, created_by
+             ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             RETURNING *`,
+            [
+                tenantId,
+                String(name).trim(),
+                matter_reference || null,
+                description || null,
+                String(reason).trim(),
+                custodian_id || null,
+                custodian_email || null,
+                actorId
+            ]
+        );
+        const matter = result.rows[0];
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            targetId: matter.id,
+            targetType: "legal_hold_matter",
+            targetName: matter.matter_reference || matter.name,
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformLegalHoldMatter(matter)
+        });
+    } catch (err) {
+        console.error("[Agent] Error creating legal hold matter:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "create",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to create legal hold matter"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/legal-holds/:id
+ * Matter details with its scopes and held record counts per resource type
+ *
+ * Headers: X-Tenant-Id
+ */
+internalLegalHoldsRouter.get("/:id", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const id = String(req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(id)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header and a UUID id required"
+            });
+        }
+
+        const matterResult = await pool.query(
+            `SELECT * FROM legal_hold_matters WHERE id = $1 AND tenant_id = $2`,
+            [id, tenantId]
+        );
+
+        if (matterResult.rows.length === 0) {
+            return res.status(404).json({
+                ok: false,
+                error: "not_found",
+                message: "Legal hold matter not found"
+            });
+        }
+
+        const scopesResult = await pool.query(
+            `SELECT * FROM legal_hold_scopes WHERE matter_id = $1 ORDER BY applied_at ASC`,
+            [id]
+        );
+
+        const countsResult = await pool.query(
+            `SELECT resource_type,
+                    COUNT(*)::int AS total,
+                    COUNT(*) FILTER (WHERE released_at IS NULL)::int AS active
+             FROM legal_hold_items
+             WHERE matter_id = $1
+             GROUP BY resource_type`,
+            [id]
+        );
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "get",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            targetId: id,
+            targetType: "legal_hold_matter",
+            outcome: "success",
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                ...transformLegalHoldMatter(matterResult.rows[0]),
+                scopes: transformArray(scopesResult.rows, transformLegalHoldScope),
+                items: Object.fromEntries(
+                    countsResult.rows.map((r: any) => [r.resource_type, { total: r.total, active: r.active }])
+                )
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error fetching legal hold matter:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to fetch legal hold matter"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/legal-holds/:id/scopes
+ * Apply the matter to every record matching a query. Matching records are held
+ * from now on; records created later are not added automatically (apply again).
+ *
+ * Body: {
+ *   resource_type: 'documents' | 'employees' | 'audit_events',
+ *   criteria: object, e.g.
+ *     documents:    { entity_type, entity_id, category, document_ids, created_from, created_to }
+ *     employees:    { employee_ids, department, status }
+ *     audit_events: { actor_id, target_id, target_type, event_category, from, to }
+ * }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+internalLegalHoldsRouter.post("/:id/scopes", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const id = String(req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const resourceType = String(req.body?.resource_type || "").trim() as HoldResourceType;
+        const criteria = req.body?.criteria;
+
+        if (!tenantId || !actorId || !UUID_PATTERN.test(id)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers and a UUID id required"
+            });
+        }
+
+        if (!HOLD_RESOURCE_TYPES.includes(resourceType)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `resource_type must be one of: ${HOLD_RESOURCE_TYPES.join(", ")}`
+            });
+        }
+
+        const client = await pool.connect();
+        let applied;
+        try {
+            await client.query("BEGIN");
+            applied = await applyHoldScope(client, { tenantId, matterId: id, resourceType, criteria, actorId });
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            targetId: id,
+            targetType: "legal_hold_matter",
+            outcome: "success",
+            changes: { resource_type: resourceType, criteria, items_added: applied.itemsAdded },
+            requestId: reqId
+        });
+
+        return res.status(201).json({
+            ok: true,
+            data: transformLegalHoldScope(applied.scope)
+        });
+    } catch (err: any) {
+        if (err instanceof LegalHoldError) {
+            await recordAudit({
+                tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "update",
+                resource: "legal_holds",
+                eventCategory: "compliance",
+                targetId: UUID_PATTERN.test(String(req.params.id)) ? req.params.id : null,
+                targetType: "legal_hold_matter",
+                outcome: "failure",
+                reason: err.code,
+                requestId: reqId
+            });
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
+        console.error("[Agent] Error applying legal hold scope:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to apply legal hold scope"
+        });
+    }
+});
+
+/**
+ * GET /agent/internal/legal-holds/:id/items
+ * Records held by the matter, most recently held first
+ *
+ * Query params:
+ * - resource_type: documents | employees | audit_events (optional)
+ * - status: active | released | all (default: all)
+ * - limit: number (default: 50, max: 500)
+ * - cursor: nextCursor from the previous page (optional)
+ * Headers: X-Tenant-Id
+ */
+internalLegalHoldsRouter.get("/:id/items", requireInternalAuth, async (req, res) => {
+    try {
+        const id = String(req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const resourceType = String(req.query.resource_type || "").trim();
+        const status = String(req.query.status || "all").trim();
+        const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50")) || 50, 1), 500);
+        const rawCursor = String(req.query.cursor || "").trim();
+
+        if (!tenantId || !UUID_PATTERN.test(id)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id header and a UUID id required"
+            });
+        }
+
+        if ((resourceType && !HOLD_RESOURCE_TYPES.includes(resourceType as HoldResourceType)) || !["active", "released", "all"].includes(status)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `resource_type must be one of: ${HOLD_RESOURCE_TYPES.join(", ")}; status must be active, released or all`
+            });
+        }
+
+        const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+        if (rawCursor && (!cursor || isNaN(new Date(cursor.sortValue).getTime()) || !UUID_PATTERN.test(cursor.id))) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const conditions: string[] = ["tenant_id = $1", "matter_id = $2"];
+        const params: any[] = [tenantId, id];
+        let paramIndex = 3;
+
+        if (resourceType) {
+            conditions.push(`resource_type = $${paramIndex}`);
+            params.push(resourceType);
+            paramIndex++;
+        }
+
+        if (status === "active") conditions.push("released_at IS NULL");
+        if (status === "released") conditions.push("released_at IS NOT NULL");
+
+        if (cursor) {
+            conditions.push(`(held_at, id) < ($${paramIndex}, $${paramIndex + 1})`);
+            params.push(cursor.sortValue, cursor.id);
+            paramIndex += 2;
+        }
+
+        const dataResult = await pool.query(
+            `SELECT
+                *,
+                to_char(held_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_held_at
+             FROM legal_hold_items
+             WHERE ${conditions.join(" AND ")}
+             ORDER BY held_at DESC, id DESC
+             LIMIT $${paramIndex}`,
+            [...params, limit + 1]
+        );
+        const hasMore = dataResult.rows.length > limit;
+        const rows = hasMore ? dataResult.rows.slice(0, limit) : dataResult.rows;
+        const last = rows[rows.length - 1];
+
+        return res.json({
+            ok: true,
+            data: {
+                items: transformArray(rows, transformLegalHoldItem),
+                limit,
+                nextCursor: hasMore && last ? encodeCursor(last.cursor_held_at, last.id) : null
+            }
+        });
+    } catch (err) {
+        console.error("[Agent] Error listing legal hold items:", err);
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to list legal hold items"
+        });
+    }
+});
+
+/**
+ * POST /agent/internal/legal-holds/:id/release
+ * Release the matter and every record it holds
+ *
+ * Body: { reason: string }
+ * Headers: X-Tenant-Id, X-User-Id
+ */
+internalLegalHoldsRouter.post("/:id/release", requireInternalAuth, async (req, res) => {
+    const reqId = (req as any).reqId as string;
+    const { actorId, actorEmail, actorRole, actorIp } = getActorContext(req);
+
+    try {
+        const id = String(req.params.id || "").trim();
+        const tenantId = String(req.header("X-Tenant-Id") || "").trim();
+        const reason = String(req.body?.reason || "").trim();
+
+        if (!tenantId || !actorId || !UUID_PATTERN.test(id) || !reason) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "X-Tenant-Id and X-User-Id headers, a UUID id and a release reason required"
+            });
+        }
+
+        const client = await pool.connect();
+        let released;
+        try {
+            await client.query("BEGIN");
+            released = await releaseMatter(client, { tenantId, matterId: id, actorId, reason });
+            await client.query("COMMIT");
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw err;
+        } finally {
+            client.release();
+        }
+
+        await recordAudit({
+            tenantId,
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            targetId: id,
+            targetType: "legal_hold_matter",
+            targetName: released.matter.matter_reference || released.matter.name,
+            outcome: "success",
+            reason: "released",
+            changes: { items_released: released.itemsReleased, documents_released: released.documentsReleased },
+            requestId: reqId
+        });
+
+        return res.json({
+            ok: true,
+            data: {
+                ...transformLegalHoldMatter(released.matter),
+                itemsReleased: released.itemsReleased,
+                documentsReleased: released.documentsReleased
+            }
+        });
+    } catch (err: any) {
+        if (err instanceof LegalHoldError) {
+            return res.status(err.status).json({
+                ok: false,
+                error: err.code,
+                message: err.message
+            });
+        }
+        console.error("[Agent] Error releasing legal hold matter:", err);
+        await recordAudit({
+            tenantId: String(req.header("X-Tenant-Id") || "unknown"),
+            actorId,
+            actorEmail,
+            actorRole,
+            actorIp,
+            action: "update",
+            resource: "legal_holds",
+            eventCategory: "compliance",
+            outcome: "failure",
+            reason: "internal_error",
+            requestId: reqId
+        });
+        return res.status(500).json({
+            ok: false,
+            error: "internal_error",
+            message: "Failed to release legal hold matter"
+        });
+    }
+});
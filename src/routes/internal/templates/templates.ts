@@ -12,6 +12,16 @@ import { pool } from "../../../lib/db";
 import { requireInternalAuth } from "../../../middleware/internalAuth";
 import { recordAudit } from "../../../helpers/audit";
 import { transformTemplate, transformArray } from "../../../helpers/transform";
+import { KeysetCursor } from "../../../helpers/cursor";
+import {
+    getListMode,
+    KEYSET_SORT_COLUMNS,
+    keysetCondition,
+    keysetSortValue,
+    parseListCursor,
+    streamNdjson,
+    toKeysetPage
+} from "../../../helpers/listPagination";
 
 export const templatesRouter = Router();
 
@@ -27,9 +37,57 @@ function getActorContext(req: any) {
     };
 }
 
+const TEMPLATE_LIST_COLUMNS = `
+    id,
+    tenant_id,
+    template_name,
+    template_code,
+    description,
+    category,
+    entity_type,
+    template_file_path,
+    template_file_type,
+    variables,
+    is_active,
+    require_approval,
+    default_approval_workflow,
+    has_expiry,
+    default_validity_days,
+    default_renewal_period_days,
+    usage_count,
+    last_used_at,
+    version,
+    adhics_domains,
+    adhics_requirements,
+    adhics_compliance_level,
+    mcp_generated,
+    mcp_version,
+    mcp_last_sync,
+    structured_sections,
+    content_schema,
+    title_ar,
+    description_ar,
+    language,
+    complexity,
+    estimated_time_minutes,
+    required_approvals,
+    tags,
+    rating,
+    thumbnail_url,
+    created_by,
+    created_at,
+    updated_by,
+    updated_at
+`;
+
 /**
  * GET /agent/internal/templates/list
  * List document templates for a tenant with pagination and filtering
+ *
+ * Pagination modes:
+ * - default: page / page_size with total counts
+ * - pagination=cursor: keyset pages, pass pagination.nextCursor back as cursor (sort_by created_at or updated_at)
+ * - format=ndjson: streams every matching template, one JSON object per line
  */
 templatesRouter.get("/list", requireInternalAuth, async (req, res) => {
     const reqId = (req as any).reqId as string;
@@ -122,6 +180,89 @@ templatesRouter.get("/list", requireInternalAuth, async (req, res) => {
         const sortColumn = allowedSortColumns.includes(sortBy) ? sortBy : 'created_at';
         const sortDirection = sortOrder === 'ASC' ? 'ASC' : 'DESC';
 
+        const mode = getListMode(req.query);
+        const rawCursor = String(req.query.cursor || "").trim();
+        const cursor = rawCursor ? parseListCursor(rawCursor) : null;
+
+        if (mode !== "offset" && !KEYSET_SORT_COLUMNS.includes(sortColumn)) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: `Cursor pagination and ndjson export support sort_by: ${KEYSET_SORT_COLUMNS.join(", ")}`
+            });
+        }
+
+        if (rawCursor && !cursor) {
+            return res.status(400).json({
+                ok: false,
+                error: "bad_request",
+                message: "Invalid cursor"
+            });
+        }
+
+        const fetchKeyset = async (after: KeysetCursor | null, limit: number) => {
+            const keysetParams = [...params];
+            let keyset = "";
+            if (after) {
+                keyset = `AND ${keysetCondition(sortColumn, sortDirection, paramIndex)}`;
+                keysetParams.push(after.sortValue, after.id);
+            }
+            const result = await pool.query(`
+                SELECT ${TEMPLATE_LIST_COLUMNS}, ${keysetSortValue(sortColumn)}
+                FROM document_templates
+                WHERE ${conditions.join(" AND ")} ${keyset}
+                ORDER BY ${sortColumn} ${sortDirection}, id ${sortDirection}
+                LIMIT ${limit}
+            `, keysetParams);
+            return result.rows;
+        };
+
+        if (mode === "ndjson") {
+            const exported = await streamNdjson(res, `templates-${tenantId}.ndjson`, fetchKeyset, transformTemplate);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "templates",
+                eventCategory: "data",
+                outcome: "success",
+                metadata: { format: "ndjson", exported },
+                requestId: reqId
+            });
+
+            return res.end();
+        }
+
+        if (mode === "cursor") {
+            const keysetPage = toKeysetPage(await fetchKeyset(cursor, pageSize + 1), pageSize);
+
+            await recordAudit({
+                tenantId,
+                actorId,
+                actorEmail,
+                actorRole,
+                actorIp,
+                action: "list",
+                resource: "templates",
+                eventCategory: "data",
+                outcome: "success",
+                requestId: reqId
+            });
+
+            return res.json({
+                ok: true,
+                data: transformArray(keysetPage.rows, transformTemplate),
+                pagination: {
+                    pageSize,
+                    nextCursor: keysetPage.nextCursor
+                }
+            });
+        }
+
         // Calculate offset
         const offset = (page - 1) * pageSize;
 
@@ -136,47 +277,7 @@ templatesRouter.get("/list", requireInternalAuth, async (req, res) => {
 
         // Get paginated data
         const dataQuery = `
-            SELECT
-                id,
-                tenant_id,
-                template_name,
-                template_code,
-                description,
-                category,
-                entity_type,
-                template_file_path,
-                template_file_type,
-                variables,
-                is_active,
-                require_approval,
-                default_approval_workflow,
-                has_expiry,
-                default_validity_days,
-                default_renewal_period_days,
-                usage_count,
-                last_used_at,
-                version,
-                adhics_domains,
-                adhics_requirements,
-                adhics_compliance_level,
-                mcp_generated,
-                mcp_version,
-                mcp_last_sync,
-                structured_sections,
-                content_schema,
-                title_ar,
-                description_ar,
-                language,
-                complexity,
-                estimated_time_minutes,
-                required_approvals,
-                tags,
-                rating,
-                thumbnail_url,
-                created_by,
-                created_at,
-                updated_by,
-                updated_at
+            SELECT ${TEMPLATE_LIST_COLUMNS}
             FROM document_templates
             WHERE ${conditions.join(" AND ")}
             ORDER BY ${sortColumn} ${sortDirection}
@@ -225,6 +326,8 @@ templatesRouter.get("/list", requireInternalAuth, async (req, res) => {
             reason: error.message,
             requestId: reqId
         });
+        // Headers are already out once an ndjson stream started: abort so the client sees a truncated download
+        if (res.headersSent) return res.destroy(error);
         return res.status(500).json({
             ok: false,
             error: "internal_error",
@@ -3,10 +3,18 @@ import cors from "cors";
 import { CONFIG } from "./config";
 import { health } from "./routes/health";
 import { agentUsers } from "./routes/agent_users";
-import { audit } from "./routes/audit";
 import { internalEmployeesRouter } from "./routes/internal/hr/employees";
 import { internalDocumentsRouter } from "./routes/internal/documents";
 import { internalTemplatesRouter } from "./routes/internal/templates";
+import { internalAuditRouter } from "./routes/internal/audit/audit";
+import { internalLegalHoldsRouter } from "./routes/internal/legal/legalHolds";
+import { attachDocumentCollab } from "./routes/internal/documents/collab";
+import { startSiemForwarder } from "./jobs/siemForwarder";
+import { startExpiryScheduler } from "./jobs/expiryScheduler";
+import { startNotificationWorker } from "./jobs/notificationWorker";
+import { startApprovalSlaMonitor } from "./jobs/approvalSlaMonitor";
+import { requireInternalAuth } from "./middleware/internalAuth";
+import { enforcePolicy } from "./middleware/policy";
 
 
 // Add near the top (after imports) to generate simple correlation ids
@@ -21,19 +29,31 @@ app.use((req, _res, next) => {
 
 // Mount routes
 app.use(health);
-app.use(audit);
+// Global GET /audit removed: use tenant-scoped /agent/internal/audit/events
 // OLD route - deprecated in favor of /agent/internal/employees
 // app.use("/employees", employees);
 app.use("/agent-users", agentUsers);
 
 // Internal API routes (standardized Agent API contract)
-app.use("/agent/internal/employees", internalEmployeesRouter);
-app.use("/agent/internal/documents", internalDocumentsRouter);
-app.use("/agent/internal/templates", internalTemplatesRouter);
+// Every internal router is policy-enforced before its handlers run
+app.use("/agent/internal/employees", requireInternalAuth, enforcePolicy("employees"), internalEmployeesRouter);
+app.use("/agent/internal/documents", requireInternalAuth, enforcePolicy("documents"), internalDocumentsRouter);
+app.use("/agent/internal/templates", requireInternalAuth, enforcePolicy("templates"), internalTemplatesRouter);
+app.use("/agent/internal/audit", requireInternalAuth, enforcePolicy("audit"), internalAuditRouter);
+app.use("/agent/internal/legal-holds", requireInternalAuth, enforcePolicy("legal_holds"), internalLegalHoldsRouter);
 
 
 // Start
-app.listen(CONFIG.PORT, () => {
+const server = app.listen(CONFIG.PORT, () => {
     console.log(`BYOD Agent listening on http://localhost:${CONFIG.PORT}`);
     console.log(`Schema: ${CONFIG.SCHEMA_VERSION} | Enrollment token: ${CONFIG.ENROLLMENT_TOKEN}`);
+
+    // Background jobs
+    startSiemForwarder();
+    startExpiryScheduler();
+    startNotificationWorker();
+    startApprovalSlaMonitor();
 });
+
+// WebSocket upgrades bypass Express; the channel runs the same secret, tenant and policy checks itself
+attachDocumentCollab(server);
@@ -0,0 +1,122 @@
+/**
+ * Local SMTP sink and SMS webhook stub for testing the notification delivery worker
+ *
+ * Usage:
+ *   1. Start the sinks: node tests/notification-sinks.js
+ *        SMTP_SINK_PORT (default 2525), SMS_STUB_PORT (default 4010)
+ *        SMS_STUB_FAIL=503 makes the webhook answer 503 to exercise retry/backoff
+ *   2. Start the agent pointing at them:
+ *        SMTP_HOST=127.0.0.1 SMTP_PORT=2525 SMS_WEBHOOK_URL=http://127.0.0.1:4010/sms \
+ *        NOTIFY_POLL_INTERVAL_MS=2000 NOTIFY_RETRY_BASE_MS=5000 npm run dev
+ *   3. Queue notifications (e.g. approval requests or documents close to expiry) and watch them arrive;
+ *      check document_notifications.status / retry_count / next_retry_at / failure_reason
+ */
+
+const net = require("net");
+const http = require("http");
+const crypto = require("crypto");
+
+const SMTP_PORT = Number(process.env.SMTP_SINK_PORT || 2525);
+const SMS_PORT = Number(process.env.SMS_STUB_PORT || 4010);
+const SMS_FAIL = Number(process.env.SMS_STUB_FAIL || 0);
+const SMS_WEBHOOK_SECRET = process.env.SMS_WEBHOOK_SECRET || "dev-sms-webhook-secret-change-in-prod";
+
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RED = "\x1b[31m";
+const RESET = "\x1b[0m";
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+// ============================================================================
+// Minimal SMTP sink (accepts everything, prints subject and recipients)
+// ============================================================================
+
+const smtp = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    let message = { from: null, to: [], data: "" };
+
+    const reply = (line) => socket.write(line + "\r\n");
+    reply("220 smtp-sink ready");
+
+    socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+
+        while (true) {
+            if (inData) {
+                const end = buffer.indexOf("\r\n.\r\n");
+                if (end < 0) return;
+                message.data = buffer.slice(0, end);
+                buffer = buffer.slice(end + 5);
+                inData = false;
+
+                const subject = (message.data.match(/^Subject: (.*)$/im) || [])[1] || "(no subject)";
+                const id = (message.data.match(/^X-Notification-Id: (.*)$/im) || [])[1] || "-";
+                log(`[SMTP] ${message.to.join(", ")} | ${subject} | notification ${id}`, GREEN);
+                message = { from: null, to: [], data: "" };
+                reply("250 OK: queued");
+                continue;
+            }
+
+            const newline = buffer.indexOf("\r\n");
+            if (newline < 0) return;
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            const command = line.slice(0, 4).toUpperCase();
+
+            if (command === "EHLO" || command === "HELO") {
+                reply("250 smtp-sink");
+            } else if (command === "MAIL") {
+                message.from = line.slice(10).trim();
+                reply("250 OK");
+            } else if (command === "RCPT") {
+                message.to.push(line.slice(8).trim());
+                reply("250 OK");
+            } else if (command === "DATA") {
+                inData = true;
+                reply("354 End data with <CR><LF>.<CR><LF>");
+            } else if (command === "QUIT") {
+                reply("221 Bye");
+                socket.end();
+                return;
+            } else {
+                reply("250 OK");
+            }
+        }
+    });
+});
+
+// ============================================================================
+// SMS gateway webhook stub (verifies the X-Signature header)
+// ============================================================================
+
+const sms = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+        const expected = "sha256=" + crypto.createHmac("sha256", SMS_WEBHOOK_SECRET).update(body).digest("hex");
+        const signed = req.headers["x-signature"] === expected;
+
+        if (SMS_FAIL) {
+            log(`[SMS] answering ${SMS_FAIL} (SMS_STUB_FAIL)`, RED);
+            res.writeHead(SMS_FAIL);
+            return res.end();
+        }
+
+        let payload = {};
+        try {
+            payload = JSON.parse(body);
+        } catch {
+            // fall through: logged as-is
+        }
+        log(`[SMS] ${signed ? "signed" : "UNSIGNED"} -> ${payload.to}: ${payload.text}`, signed ? YELLOW : RED);
+        res.writeHead(signed ? 200 : 401, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ ok: signed }));
+    });
+});
+
+smtp.listen(SMTP_PORT, () => log(`SMTP sink on smtp://127.0.0.1:${SMTP_PORT}`));
+sms.listen(SMS_PORT, () => log(`SMS webhook stub on http://127.0.0.1:${SMS_PORT}/sms (Ctrl+C to stop)`));
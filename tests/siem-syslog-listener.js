@@ -0,0 +1,79 @@
+/**
+ * Minimal TCP syslog listener for testing the SIEM forwarder
+ *
+ * Usage:
+ *   1. Start the listener: node tests/siem-syslog-listener.js [port]
+ *   2. Start the agent with forwarding enabled:
+ *        SIEM_HOST=127.0.0.1 SIEM_PORT=5514 SIEM_FORMAT=syslog npm run dev
+ *   3. Generate some audit events (e.g. run another test script) and watch them arrive here
+ *
+ * Understands both octet-counting (RFC 6587, default) and LF-delimited framing.
+ * Reports duplicate or out-of-order chainSeq values per tenant, which the forwarder must never produce.
+ */
+
+const net = require("net");
+
+const PORT = Number(process.argv[2] || process.env.SIEM_PORT || 5514);
+
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const RESET = "\x1b[0m";
+
+const lastSeqByTenant = new Map();
+let received = 0;
+
+function extractChain(message) {
+    // syslog: SD params; cef: cs1/cn1 extensions; ndjson: JSON fields
+    const tenant = message.match(/tenantId="([^"]+)"/) || message.match(/cs1=(\S+)/) || message.match(/"tenantId":"([^"]+)"/);
+    const seq = message.match(/chainSeq="(\d+)"/) || message.match(/cn1=(\d+)/) || message.match(/"chainSeq":(\d+)/);
+    return tenant && seq ? { tenantId: tenant[1], chainSeq: Number(seq[1]) } : null;
+}
+
+function handleMessage(message) {
+    received++;
+    const chain = extractChain(message);
+    let status = GREEN + "ok" + RESET;
+
+    if (chain) {
+        const last = lastSeqByTenant.get(chain.tenantId);
+        if (last !== undefined && chain.chainSeq !== last + 1) {
+            status = RED + `expected chainSeq ${last + 1}, got ${chain.chainSeq}` + RESET;
+        }
+        lastSeqByTenant.set(chain.tenantId, chain.chainSeq);
+    }
+
+    console.log(`#${received} [${status}] ${message}`);
+}
+
+const server = net.createServer((socket) => {
+    console.log(`Connection from ${socket.remoteAddress}:${socket.remotePort}`);
+    let buffer = Buffer.alloc(0);
+
+    socket.on("data", (data) => {
+        buffer = Buffer.concat([buffer, data]);
+
+        while (buffer.length > 0) {
+            const space = buffer.indexOf(0x20);
+            const prefix = space > 0 ? buffer.subarray(0, space).toString() : "";
+
+            if (/^\d+$/.test(prefix)) {
+                // Octet-counting: "<length> <message>"
+                const length = Number(prefix);
+                if (buffer.length < space + 1 + length) break;
+                handleMessage(buffer.subarray(space + 1, space + 1 + length).toString("utf8"));
+                buffer = buffer.subarray(space + 1 + length);
+            } else {
+                const newline = buffer.indexOf(0x0a);
+                if (newline < 0) break;
+                handleMessage(buffer.subarray(0, newline).toString("utf8"));
+                buffer = buffer.subarray(newline + 1);
+            }
+        }
+    });
+
+    socket.on("close", () => console.log("Connection closed"));
+});
+
+server.listen(PORT, () => {
+    console.log(`SIEM test listener on tcp://0.0.0.0:${PORT} (Ctrl+C to stop)`);
+});
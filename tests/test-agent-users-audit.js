@@ -14,6 +14,7 @@
  */
 
 const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
 const TENANT_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
 
 // Colors for terminal output
@@ -61,8 +62,11 @@ async function request(method, path, body = null, headers = {}) {
 }
 
 async function getAuditEvents(limit = 10) {
-    const res = await request("GET", `/audit?limit=${limit}`);
-    return res.data.data || [];
+    const res = await request("GET", `/agent/internal/audit/events?limit=${limit}`, null, {
+        "X-Agent-Secret": AGENT_API_SECRET,
+        "X-Tenant-Id": TENANT_ID
+    });
+    return (res.data.data && res.data.data.events) || [];
 }
 
 // ============================================================================
@@ -0,0 +1,200 @@
+/**
+ * Test script for the document approval workflow engine
+ *
+ * Usage:
+ *   1. Ensure database migrations are applied (including 020_approval_workflow_rounds.sql)
+ *   2. Start the agent server: npm start
+ *   3. Run this test: node tests/test-approval-workflow.js
+ *
+ * This test verifies:
+ *   - Starting a workflow moves the document to pending_approval
+ *   - Sequential workflows only allow the current level to act
+ *   - Completing the last level approves the document
+ *   - A rejection short-circuits the round and rejects the document
+ */
+
+const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
+const TENANT_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const CREATOR_ID = "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb";
+const APPROVER_1 = "cccccccc-cccc-cccc-cccc-cccccccccc01";
+const APPROVER_2 = "cccccccc-cccc-cccc-cccc-cccccccccc02";
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+async function request(method, path, body = null, headers = {}) {
+    const url = `${API_BASE}${path}`;
+    const options = {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            "X-Agent-Secret": AGENT_API_SECRET,
+            "X-Tenant-Id": TENANT_ID,
+            "X-User-Role": "admin",
+            ...headers
+        }
+    };
+    if (body) {
+        options.body = JSON.stringify(body);
+    }
+    const response = await fetch(url, options);
+    const data = await response.json();
+    return { status: response.status, data };
+}
+
+async function createDocument(title) {
+    const res = await request("POST", "/agent/internal/documents", {
+        tenant_id: TENANT_ID,
+        title,
+        entity_type: "policy",
+        category: "POLICY_GENERAL",
+        file_name: "policy.pdf",
+        file_size: 1024,
+        file_type: "pdf",
+        file_path: "/tmp/policy.pdf",
+        created_by: CREATOR_ID
+    });
+    return res.data.data.id;
+}
+
+async function getDocumentStatus(id) {
+    const res = await request("GET", `/agent/internal/documents/${id}`);
+    return res.data.data.status;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+async function testSequentialApproval() {
+    log("\n[Test] Sequential workflow advances level by level", YELLOW);
+
+    const docId = await createDocument("Workflow test - sequential");
+    const base = `/agent/internal/documents/${docId}/approvals`;
+
+    const start = await request("POST", base, {
+        tenant_id: TENANT_ID,
+        approval_type: "sequential",
+        approvers: [{ approver_id: APPROVER_1 }, { approver_id: APPROVER_2 }]
+    });
+    assert(start.status === 201, "Workflow created");
+    assert(start.data.workflow.currentLevel === 1, "Current level is 1");
+    assert(start.data.workflow.pendingApprovers.length === 1, "Only level 1 approver is actionable");
+    assert(await getDocumentStatus(docId) === "pending_approval", "Document is pending_approval");
+
+    const again = await request("POST", base, {
+        tenant_id: TENANT_ID,
+        approvers: [{ approver_id: APPROVER_1 }]
+    });
+    assert(again.status === 409, "Second workflow refused while round is pending");
+
+    const [level1, level2] = start.data.data;
+
+    const early = await request("PUT", `${base}/${level2.id}/decide`,
+        { tenant_id: TENANT_ID, decision: "approve" }, { "X-User-Id": APPROVER_2 });
+    assert(early.status === 409, "Level 2 cannot act before level 1");
+    assert(early.data.error === "level_not_active", "Error is 'level_not_active'");
+
+    const wrongActor = await request("PUT", `${base}/${level1.id}/decide`,
+        { tenant_id: TENANT_ID, decision: "approve" }, { "X-User-Id": APPROVER_2 });
+    assert(wrongActor.status === 403, "Non-assigned approver is refused");
+
+    const first = await request("PUT", `${base}/${level1.id}/decide`,
+        { tenant_id: TENANT_ID, decision: "approve" }, { "X-User-Id": APPROVER_1 });
+    assert(first.status === 200, "Level 1 approves");
+    assert(first.data.workflow.currentLevel === 2, "Workflow advanced to level 2");
+    assert(await getDocumentStatus(docId) === "pending_approval", "Document still pending_approval");
+
+    const second = await request("PUT", `${base}/${level2.id}/decide`,
+        { tenant_id: TENANT_ID, decision: "approve" }, { "X-User-Id": APPROVER_2 });
+    assert(second.status === 200, "Level 2 approves");
+    assert(second.data.workflow.outcome === "approved", "Workflow outcome is approved");
+    assert(await getDocumentStatus(docId) === "approved", "Document is approved");
+}
+
+async function testRejectionShortCircuits() {
+    log("\n[Test] Rejection short-circuits the workflow", YELLOW);
+
+    const docId = await createDocument("Workflow test - rejection");
+    const base = `/agent/internal/documents/${docId}/approvals`;
+
+    const start = await request("POST", base, {
+        tenant_id: TENANT_ID,
+        approval_type: "sequential",
+        approvers: [{ approver_id: APPROVER_1 }, { approver_id: APPROVER_2 }]
+    });
+    const [level1] = start.data.data;
+
+    const reject = await request("PUT", `${base}/${level1.id}/decide`, {
+        tenant_id: TENANT_ID,
+        decision: "reject",
+        rejection_reason: "Missing scope section"
+    });
+    assert(reject.status === 200, "Level 1 rejects");
+    assert(reject.data.workflow.outcome === "rejected", "Workflow outcome is rejected");
+    assert(await getDocumentStatus(docId) === "rejected", "Document is rejected");
+
+    const list = await request("GET", base);
+    const skipped = list.data.data.filter(a => a.status === "skipped");
+    assert(skipped.length === 1, "Remaining approval was skipped");
+
+    const state = await request("GET", `${base}/workflow`);
+    assert(state.data.data.pendingApprovers.length === 0, "No pending approvers remain");
+
+    const resubmit = await request("POST", base, {
+        tenant_id: TENANT_ID,
+        approvers: [{ approver_id: APPROVER_1 }]
+    });
+    assert(resubmit.status === 201, "Document can be resubmitted");
+    assert(resubmit.data.workflow.round === 2, "Resubmission starts round 2");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Approval Workflow Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+    log(`API Base: ${API_BASE}`);
+
+    try {
+        await testSequentialApproval();
+        await testRejectionShortCircuits();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,230 @@
+/**
+ * Test script for the tamper-evident audit hash chain
+ *
+ * Usage:
+ *   1. Ensure database migrations are applied (including 022_audit_hash_chain.sql)
+ *   2. Start the agent server: npm start
+ *   3. Run this test: DATABASE_URL=postgres://... node tests/test-audit-chain.js
+ *
+ * DATABASE_URL must point at the agent's database: the tamper checks write to
+ * audit_events directly. The run uses a fresh tenant, so the chain it breaks on
+ * purpose belongs to no one else.
+ *
+ * This test verifies:
+ *   - Audit events are appended with a gapless chain_seq, each linked to the previous hash
+ *   - /audit/verify reports an intact chain and rejects malformed time ranges
+ *   - Existing events cannot be updated or deleted
+ *   - A forged event appended to the chain is reported as the first broken link
+ *   - Verifying a range that ends before the forged event still passes
+ */
+
+const crypto = require("crypto");
+const { Pool } = require("pg");
+
+const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
+const DATABASE_URL = process.env.DATABASE_URL || "";
+const TENANT_ID = crypto.randomUUID();
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+const pool = new Pool({ connectionString: DATABASE_URL });
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+async function request(method, path, body = null, headers = {}) {
+    const url = `${API_BASE}${path}`;
+    const options = {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            "X-Agent-Secret": AGENT_API_SECRET,
+            "X-Tenant-Id": TENANT_ID,
+            "X-User-Role": "admin",
+            ...headers
+        }
+    };
+    if (body) {
+        options.body = JSON.stringify(body);
+    }
+    const response = await fetch(url, options);
+    const data = await response.json();
+    return { status: response.status, data };
+}
+
+async function chainRows() {
+    const result = await pool.query(
+        `SELECT id, chain_seq, prev_hash, event_hash FROM audit_events
+         WHERE tenant_id = $1 AND chain_seq IS NOT NULL
+         ORDER BY chain_seq ASC`,
+        [TENANT_ID]
+    );
+    return result.rows.map(row => ({ ...row, chain_seq: Number(row.chain_seq) }));
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+async function testChainWrite() {
+    log("\n[Test] Audit events are appended to the tenant chain", YELLOW);
+
+    // Every audit search is itself audited: three searches write three events
+    for (let i = 0; i < 3; i++) {
+        await request("GET", "/agent/internal/audit/events?limit=1");
+    }
+
+    const search = await request("GET", "/agent/internal/audit/events?limit=10");
+    assert(search.status === 200, "Audit events listed");
+    const seqs = search.data.data.events.map(e => e.chainSeq).sort((a, b) => a - b);
+    assert(seqs.length === 3, "Three events recorded for the fresh tenant");
+    assert(seqs.join(",") === "1,2,3", "Chain positions are 1, 2, 3");
+    assert(search.data.data.events.every(e => /^[0-9a-f]{64}$/.test(e.eventHash)), "Every event carries a SHA-256 hash");
+
+    const rows = await chainRows();
+    assert(rows[0].prev_hash === null, "First event has no previous hash");
+    assert(rows.slice(1).every((row, i) => row.prev_hash === rows[i].event_hash),
+        "Each event links to the previous event's hash");
+}
+
+async function testVerifyIntactChain() {
+    log("\n[Test] /audit/verify accepts an intact chain", YELLOW);
+
+    const verify = await request("GET", "/agent/internal/audit/verify");
+    assert(verify.status === 200, "Verification ran");
+    assert(verify.data.data.valid === true, "Chain is valid");
+    assert(verify.data.data.firstBrokenLink === null, "No broken link reported");
+    assert(verify.data.data.firstSeq === 1, "Verification starts at the first event");
+    assert(verify.data.data.checked === verify.data.data.lastSeq, "Every event up to the last one was checked");
+    assert(verify.data.data.unchainedEvents === 0, "No unchained events");
+
+    const badRange = await request("GET", "/agent/internal/audit/verify?from=yesterday");
+    assert(badRange.status === 400, "Malformed from timestamp is rejected");
+}
+
+async function testAppendOnly() {
+    log("\n[Test] Audit events cannot be changed in place", YELLOW);
+
+    const [first] = await chainRows();
+
+    const update = await pool.query(
+        "UPDATE audit_events SET action = 'delete' WHERE id = $1", [first.id]
+    ).catch(err => err);
+    assert(update instanceof Error && /append-only/.test(update.message), "UPDATE is refused");
+
+    const del = await pool.query(
+        "DELETE FROM audit_events WHERE id = $1", [first.id]
+    ).catch(err => err);
+    assert(del instanceof Error && /append-only/.test(del.message), "DELETE is refused");
+}
+
+async function testForgedEventDetected() {
+    log("\n[Test] A forged event breaks the chain", YELLOW);
+
+    const beforeForgery = new Date().toISOString();
+
+    // Appended the way someone with database access but without the chain key would:
+    // correctly linked, but with a hash that is not the HMAC of its content
+    const client = await pool.connect();
+    let forged;
+    try {
+        await client.query("BEGIN");
+        await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`audit_chain:${TENANT_ID}`]);
+        const last = await client.query(
+            `SELECT chain_seq, event_hash FROM audit_events
+             WHERE tenant_id = $1 AND chain_seq IS NOT NULL
+             ORDER BY chain_seq DESC LIMIT 1`,
+            [TENANT_ID]
+        );
+        const inserted = await client.query(
+            `INSERT INTO audit_events
+               (tenant_id, event_type, event_category, actor_role, action, result, occurred_at,
+                chain_seq, prev_hash, event_hash)
+             VALUES ($1, 'audit', 'compliance', 'admin', 'delete', 'success', NOW(), $2, $3, $4)
+             RETURNING id, chain_seq`,
+            [
+                TENANT_ID,
+                Number(last.rows[0].chain_seq) + 1,
+                last.rows[0].event_hash,
+                crypto.createHash("sha256").update("forged").digest("hex")
+            ]
+        );
+        await client.query("COMMIT");
+        forged = { id: inserted.rows[0].id, chainSeq: Number(inserted.rows[0].chain_seq) };
+    } catch (err) {
+        await client.query("ROLLBACK").catch(() => undefined);
+        throw err;
+    } finally {
+        client.release();
+    }
+
+    const verify = await request("GET", "/agent/internal/audit/verify");
+    assert(verify.status === 200, "Verification ran");
+    assert(verify.data.data.valid === false, "Chain is reported broken");
+    const broken = verify.data.data.firstBrokenLink || {};
+    assert(broken.reason === "hash_mismatch", "Reason is 'hash_mismatch'");
+    assert(broken.chainSeq === forged.chainSeq, "Broken link is the forged event's position");
+    assert(broken.eventId === forged.id, "Broken link names the forged event");
+    assert(verify.data.data.lastSeq === forged.chainSeq - 1, "Events before the forgery were verified");
+
+    const earlier = await request("GET", `/agent/internal/audit/verify?to=${encodeURIComponent(beforeForgery)}`);
+    assert(earlier.status === 200, "Range verification ran");
+    assert(earlier.data.data.valid === true, "Range ending before the forgery is still valid");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Audit Hash Chain Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+    log(`API Base: ${API_BASE}`);
+    log(`Tenant: ${TENANT_ID}`);
+
+    if (!DATABASE_URL) {
+        log("\nDATABASE_URL is required (the tamper checks write to audit_events)", RED);
+        process.exit(1);
+    }
+
+    try {
+        await testChainWrite();
+        await testVerifyIntactChain();
+        await testAppendOnly();
+        await testForgedEventDetected();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        await pool.end();
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
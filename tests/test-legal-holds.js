@@ -0,0 +1,277 @@
+/**
+ * Test script for legal-hold matters
+ *
+ * Usage:
+ *   1. Ensure database migrations are applied (including the legal hold migrations)
+ *   2. Start the agent server: npm start
+ *   3. Run this test: node tests/test-legal-holds.js
+ *
+ * The run uses a fresh tenant, so matters apply only to the records it creates.
+ *
+ * This test verifies:
+ *   - A matter applied by scope holds the matching documents and employees
+ *   - Held documents refuse content updates, editor saves and deletion with 409 legal_hold
+ *   - Held employee records refuse updates and deletion with 409 legal_hold
+ *   - Releasing the matter lifts the holds and is final
+ */
+
+const crypto = require("crypto");
+
+const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
+const TENANT_ID = crypto.randomUUID();
+const CREATOR_ID = "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb";
+const COUNSEL_ID = "eeeeeeee-eeee-eeee-eeee-eeeeeeeeee01";
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+async function request(method, path, body = null, headers = {}) {
+    const url = `${API_BASE}${path}`;
+    const options = {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            "X-Agent-Secret": AGENT_API_SECRET,
+            "X-Tenant-Id": TENANT_ID,
+            "X-User-Role": "admin",
+            "X-User-Id": COUNSEL_ID,
+            ...headers
+        }
+    };
+    if (body) {
+        options.body = JSON.stringify(body);
+    }
+    const response = await fetch(url, options);
+    const data = await response.json();
+    return { status: response.status, data };
+}
+
+async function createDocument(title) {
+    const res = await request("POST", "/agent/internal/documents", {
+        tenant_id: TENANT_ID,
+        title,
+        entity_type: "contract",
+        category: "CONTRACT_VENDOR",
+        file_name: "contract.pdf",
+        file_size: 1024,
+        file_type: "pdf",
+        file_path: "/tmp/contract.pdf",
+        created_by: CREATOR_ID
+    });
+    return res.data.data;
+}
+
+async function createEmployee(employeeId) {
+    const res = await request("POST", "/agent/internal/employees", {
+        tenant_id: TENANT_ID,
+        employee_id: employeeId,
+        full_name: "Held Employee",
+        department: "Procurement"
+    });
+    return res.data.data;
+}
+
+async function getDocument(id) {
+    const res = await request("GET", `/agent/internal/documents/${id}`);
+    return res.data.data;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+let matterId;
+let document;
+let employee;
+
+async function testApplyMatter() {
+    log("\n[Test] Applying a matter holds the matching records", YELLOW);
+
+    document = await createDocument("Legal hold test - contract");
+    employee = await createEmployee(`LH-${Date.now()}`);
+
+    const missingReason = await request("POST", "/agent/internal/legal-holds", { name: "No reason" });
+    assert(missingReason.status === 400, "Matter without a reason is rejected");
+
+    const matter = await request("POST", "/agent/internal/legal-holds", {
+        name: "Vendor dispute",
+        matter_reference: "LIT-2026-001",
+        reason: "Anticipated litigation with vendor"
+    });
+    assert(matter.status === 201, "Matter opened");
+    assert(matter.data.data.status === "active", "Matter is active");
+    matterId = matter.data.data.id;
+
+    const docScope = await request("POST", `/agent/internal/legal-holds/${matterId}/scopes`, {
+        resource_type: "documents",
+        criteria: { document_ids: [document.id] }
+    });
+    assert(docScope.status === 201, "Document scope applied");
+    assert(docScope.data.data.itemsAdded === 1, "One document held");
+
+    const empScope = await request("POST", `/agent/internal/legal-holds/${matterId}/scopes`, {
+        resource_type: "employees",
+        criteria: { employee_ids: [employee.id] }
+    });
+    assert(empScope.status === 201, "Employee scope applied");
+    assert(empScope.data.data.itemsAdded === 1, "One employee held");
+
+    const badCriteria = await request("POST", `/agent/internal/legal-holds/${matterId}/scopes`, {
+        resource_type: "documents",
+        criteria: { owner: "someone" }
+    });
+    assert(badCriteria.status === 400, "Unsupported criteria are rejected");
+
+    const held = await getDocument(document.id);
+    assert(held.legalHold === true, "Document is flagged as held");
+    assert(held.legalHoldReason === "Legal hold: Vendor dispute", "Hold reason names the matter");
+
+    const check = await request("GET", `/agent/internal/legal-holds/check?resource_type=employees&resource_id=${employee.id}`);
+    assert(check.data.data.held === true, "Employee check reports the hold");
+}
+
+async function testHeldDocumentRefusesChanges() {
+    log("\n[Test] Held documents refuse changes with 409 legal_hold", YELLOW);
+
+    const update = await request("PUT", `/agent/internal/documents/${document.id}`, {
+        tenant_id: TENANT_ID,
+        version: document.version,
+        updated_by: CREATOR_ID,
+        title: "Renamed while held"
+    });
+    assert(update.status === 409, "Content update refused");
+    assert(update.data.error === "legal_hold", "Error is 'legal_hold'");
+    assert(update.data.legalHoldReason === "Legal hold: Vendor dispute", "Response carries the hold reason");
+
+    const save = await request("POST", `/agent/internal/documents/${document.id}/editor/save`, {
+        structured_content: { type: "doc", content: [] },
+        updated_by: CREATOR_ID
+    });
+    assert(save.status === 409 && save.data.error === "legal_hold", "Editor save refused");
+
+    const autosave = await request("POST", `/agent/internal/documents/${document.id}/editor/autosave`, {
+        structured_content: { type: "doc", content: [] },
+        updated_by: CREATOR_ID
+    });
+    assert(autosave.status === 409 && autosave.data.error === "legal_hold", "Autosave refused");
+
+    const del = await request("DELETE", `/agent/internal/documents/${document.id}`);
+    assert(del.status === 409 && del.data.error === "legal_hold", "Deletion refused");
+
+    const stillThere = await getDocument(document.id);
+    assert(stillThere.title === "Legal hold test - contract", "Document is unchanged");
+}
+
+async function testHeldEmployeeRefusesChanges() {
+    log("\n[Test] Held employee records refuse changes with 409 legal_hold", YELLOW);
+
+    const update = await request("PUT", `/agent/internal/employees/${employee.id}`, {
+        tenant_id: TENANT_ID,
+        version: employee.version,
+        department: "Finance"
+    });
+    assert(update.status === 409, "Employee update refused");
+    assert(update.data.error === "legal_hold", "Error is 'legal_hold'");
+    assert(Array.isArray(update.data.holds) && update.data.holds.length === 1, "Response lists the holding matter");
+
+    const del = await request("DELETE", `/agent/internal/employees/${employee.id}`);
+    assert(del.status === 409 && del.data.error === "legal_hold", "Employee deletion refused");
+}
+
+async function testReleaseMatter() {
+    log("\n[Test] Releasing the matter lifts the holds", YELLOW);
+
+    const noReason = await request("POST", `/agent/internal/legal-holds/${matterId}/release`, {});
+    assert(noReason.status === 400, "Release without a reason is rejected");
+
+    const release = await request("POST", `/agent/internal/legal-holds/${matterId}/release`, {
+        reason: "Dispute settled"
+    });
+    assert(release.status === 200, "Matter released");
+    assert(release.data.data.status === "released", "Matter status is released");
+    assert(release.data.data.itemsReleased === 2, "Both held records released");
+    assert(release.data.data.documentsReleased === 1, "Document hold flag cleared");
+
+    const released = await getDocument(document.id);
+    assert(released.legalHold === false, "Document is no longer held");
+
+    const check = await request("GET", `/agent/internal/legal-holds/check?resource_type=employees&resource_id=${employee.id}`);
+    assert(check.data.data.held === false, "Employee is no longer held");
+
+    const update = await request("PUT", `/agent/internal/documents/${document.id}`, {
+        tenant_id: TENANT_ID,
+        version: document.version,
+        updated_by: CREATOR_ID,
+        title: "Renamed after release"
+    });
+    assert(update.status === 200, "Document can be updated again");
+
+    const empUpdate = await request("PUT", `/agent/internal/employees/${employee.id}`, {
+        tenant_id: TENANT_ID,
+        version: employee.version,
+        department: "Finance"
+    });
+    assert(empUpdate.status === 200, "Employee can be updated again");
+
+    const again = await request("POST", `/agent/internal/legal-holds/${matterId}/release`, { reason: "Twice" });
+    assert(again.status === 409 && again.data.error === "matter_released", "Matter cannot be released twice");
+
+    const reapply = await request("POST", `/agent/internal/legal-holds/${matterId}/scopes`, {
+        resource_type: "documents",
+        criteria: { document_ids: [document.id] }
+    });
+    assert(reapply.status === 409 && reapply.data.error === "matter_released", "Released matter cannot be applied again");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Legal Hold Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+    log(`API Base: ${API_BASE}`);
+    log(`Tenant: ${TENANT_ID}`);
+
+    try {
+        await testApplyMatter();
+        await testHeldDocumentRefusesChanges();
+        await testHeldEmployeeRefusesChanges();
+        await testReleaseMatter();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
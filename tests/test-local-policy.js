@@ -0,0 +1,240 @@
+/**
+ * Test script for the embedded policy engine (src/helpers/localPolicy.ts)
+ *
+ * Usage:
+ *   1. Install dependencies: npm install
+ *   2. Run this test: node tests/test-local-policy.js
+ *
+ * No server or database is needed: evaluateBundle is a pure function, loaded here
+ * through ts-node.
+ *
+ * This test verifies:
+ *   - Deny rules win over allow rules, whatever their order in the file
+ *   - The first applying deny rule in file order is reported as the reason
+ *   - "unless" exempts a request from a rule
+ *   - A list value matches by membership, a null value matches a missing input
+ *   - The default effect decides when no rule applies
+ *   - The shipped rules bundle parses and enforces its admin-only rules
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+require("ts-node").register({
+    project: path.join(__dirname, "..", "tsconfig.tsnode.json"),
+    transpileOnly: true
+});
+const { evaluateBundle, parsePolicyBundle } = require("../src/helpers/localPolicy");
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+function input(role, action, resource = {}, actor = {}) {
+    return {
+        actor: { id: "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", role, ...actor },
+        action,
+        resource: { type: "documents", id: null, subresource: null, attributes: null, ...resource }
+    };
+}
+
+// Allow rule listed first on purpose: file order must not let it beat a deny
+const BUNDLE = parsePolicyBundle(`
+default: deny
+rules:
+  - id: staff_can_read
+    effect: allow
+    resource: documents
+    action: [get, list]
+    role: [member, admin, owner]
+
+  - id: members_can_write_drafts
+    effect: allow
+    resource: documents
+    action: [create, update]
+    role: member
+    when:
+      resource.attributes.status: draft
+
+  - id: restricted_admin_only
+    effect: deny
+    resource: documents
+    when:
+      resource.attributes.sensitivity_level: [restricted, highly_restricted]
+    unless:
+      actor.role: [admin, owner]
+
+  - id: no_anonymous_phi
+    effect: deny
+    resource: documents
+    when:
+      resource.attributes.contains_phi: true
+      actor.id: null
+`);
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+function testDenyPrecedence() {
+    log("\n[Test] Deny rules take precedence", YELLOW);
+
+    const restricted = { attributes: { sensitivity_level: "restricted" } };
+
+    const memberRead = evaluateBundle(BUNDLE, input("member", "get", restricted));
+    assert(memberRead.allow === false, "Deny beats an allow rule listed before it");
+    assert(memberRead.reason === "restricted_admin_only", "Reason is the deny rule");
+
+    const both = evaluateBundle(BUNDLE, input("member", "get",
+        { attributes: { sensitivity_level: "restricted", contains_phi: true } }, { id: null }));
+    assert(both.reason === "restricted_admin_only", "First applying deny in file order is reported");
+
+    const plain = evaluateBundle(BUNDLE, input("member", "get", { attributes: { sensitivity_level: "internal" } }));
+    assert(plain.allow === true && plain.reason === "staff_can_read", "Allow applies when no deny does");
+}
+
+function testUnless() {
+    log("\n[Test] unless exempts a request from a rule", YELLOW);
+
+    const restricted = { attributes: { sensitivity_level: "highly_restricted" } };
+
+    const admin = evaluateBundle(BUNDLE, input("admin", "get", restricted));
+    assert(admin.allow === true, "Admin is exempt from the restricted rule");
+    assert(admin.reason === "staff_can_read", "Admin is allowed by the read rule");
+
+    const owner = evaluateBundle(BUNDLE, input("owner", "get", restricted));
+    assert(owner.allow === true, "Owner is exempt from the restricted rule");
+}
+
+function testListMembership() {
+    log("\n[Test] List values match by membership", YELLOW);
+
+    assert(evaluateBundle(BUNDLE, input("member", "list")).allow === true, "action list is in [get, list]");
+    assert(evaluateBundle(BUNDLE, input("auditor", "get")).allow === false, "role auditor is not in the role list");
+
+    const highly = evaluateBundle(BUNDLE, input("member", "get", { attributes: { sensitivity_level: "highly_restricted" } }));
+    assert(highly.reason === "restricted_admin_only", "Attribute in the when list matches");
+
+    const draft = evaluateBundle(BUNDLE, input("member", "update", { attributes: { status: "draft" } }));
+    assert(draft.allow === true && draft.reason === "members_can_write_drafts", "Scalar when condition matches by equality");
+
+    const published = evaluateBundle(BUNDLE, input("member", "update", { attributes: { status: "published" } }));
+    assert(published.allow === false, "Scalar when condition does not match another value");
+}
+
+function testNullAndDefault() {
+    log("\n[Test] Null conditions and the default effect", YELLOW);
+
+    const phi = { attributes: { contains_phi: true } };
+
+    const anonymous = evaluateBundle(BUNDLE, input("member", "get", phi, { id: null }));
+    assert(anonymous.allow === false && anonymous.reason === "no_anonymous_phi", "null matches a null input");
+
+    const missing = evaluateBundle(BUNDLE, { actor: { role: "member" }, action: "get", resource: { type: "documents", attributes: phi.attributes } });
+    assert(missing.reason === "no_anonymous_phi", "null matches a missing input");
+
+    const named = evaluateBundle(BUNDLE, input("member", "get", phi));
+    assert(named.allow === true, "Identified user is not caught by the null condition");
+
+    const unmatched = evaluateBundle(BUNDLE, input("member", "delete"));
+    assert(unmatched.allow === false && unmatched.reason === "default_deny", "Default decides when no rule applies");
+
+    const open = parsePolicyBundle("default: allow\nrules: []\n");
+    const allowed = evaluateBundle(open, input("member", "delete"));
+    assert(allowed.allow === true && allowed.reason === "default_allow", "Empty bundle falls back to its default");
+}
+
+function testInvalidBundles() {
+    log("\n[Test] Invalid bundles are rejected", YELLOW);
+
+    const cases = [
+        ["default: maybe\nrules: []\n", "Unknown default effect"],
+        ["rules:\n  - effect: deny\n", "Rule without an id"],
+        ["rules:\n  - id: x\n    effect: block\n", "Rule with an unknown effect"],
+        ["rules:\n  - id: x\n    effect: deny\n    unless: [admin]\n", "unless that is not a map"]
+    ];
+    for (const [source, label] of cases) {
+        let threw = false;
+        try {
+            parsePolicyBundle(source);
+        } catch (err) {
+            threw = true;
+        }
+        assert(threw, `${label} is rejected`);
+    }
+}
+
+function testShippedBundle() {
+    log("\n[Test] Shipped rules bundle", YELLOW);
+
+    const file = path.join(__dirname, "..", "policies", "agent_policy", "data.yaml");
+    const bundle = parsePolicyBundle(fs.readFileSync(file, "utf8"));
+    assert(bundle.rules.length > 0, "Bundle parses");
+
+    const dispose = { subresource: "retention" };
+    const memberDispose = evaluateBundle(bundle, input("member", "create", dispose));
+    assert(memberDispose.allow === false && memberDispose.reason === "disposal_admin_only", "Members cannot dispose");
+    assert(evaluateBundle(bundle, input("admin", "create", dispose)).allow === true, "Admins can dispose");
+
+    const memberDelete = evaluateBundle(bundle, input("member", "delete"));
+    assert(memberDelete.reason === "member_cannot_delete_documents", "Members cannot delete documents");
+
+    const highly = { attributes: { sensitivity_level: "highly_restricted" } };
+    assert(evaluateBundle(bundle, input("member", "get", highly)).allow === false, "Members cannot read highly restricted documents");
+    assert(evaluateBundle(bundle, input("owner", "get", highly)).allow === true, "Owners can read highly restricted documents");
+
+    const audit = { type: "audit" };
+    assert(evaluateBundle(bundle, input("member", "list", audit)).allow === false, "Members cannot search the audit log");
+    assert(evaluateBundle(bundle, input("auditor", "list", audit)).allow === true, "Auditors can search the audit log");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Local Policy Engine Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+
+    try {
+        testDenyPrecedence();
+        testUnless();
+        testListMembership();
+        testNullAndDefault();
+        testInvalidBundles();
+        testShippedBundle();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
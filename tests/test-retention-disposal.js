@@ -0,0 +1,213 @@
+/**
+ * Test script for document retention and certified disposal
+ *
+ * Usage:
+ *   1. Ensure database migrations are applied (including the retention and legal hold migrations)
+ *   2. Start the agent server: npm start
+ *   3. Run this test: node tests/test-retention-disposal.js
+ *
+ * The run uses a fresh tenant, so the candidate report only holds its own documents.
+ *
+ * This test verifies:
+ *   - The disposal-candidate report lists documents past retention, held ones with a blocker
+ *   - Documents still in retention are not candidates
+ *   - Only admins and owners may dispose
+ *   - Certified disposal disposes eligible documents and issues a verifiable certificate
+ *   - Held and still-retained documents are reported, not disposed
+ *   - A document cannot be disposed twice, nor through a status update
+ */
+
+const crypto = require("crypto");
+
+const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
+const TENANT_ID = crypto.randomUUID();
+const CREATOR_ID = "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb";
+const RECORDS_OFFICER_ID = "dddddddd-dddd-dddd-dddd-dddddddddd01";
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+async function request(method, path, body = null, headers = {}) {
+    const url = `${API_BASE}${path}`;
+    const options = {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            "X-Agent-Secret": AGENT_API_SECRET,
+            "X-Tenant-Id": TENANT_ID,
+            "X-User-Role": "admin",
+            "X-User-Id": RECORDS_OFFICER_ID,
+            ...headers
+        }
+    };
+    if (body) {
+        options.body = JSON.stringify(body);
+    }
+    const response = await fetch(url, options);
+    const data = await response.json();
+    return { status: response.status, data };
+}
+
+async function createDocument(title, expiryDate) {
+    const res = await request("POST", "/agent/internal/documents", {
+        tenant_id: TENANT_ID,
+        title,
+        entity_type: "contract",
+        category: "CONTRACT_VENDOR",
+        file_name: "contract.pdf",
+        file_size: 1024,
+        file_type: "pdf",
+        file_path: "/tmp/contract.pdf",
+        expiry_date: expiryDate,
+        retention_period_years: 1,
+        created_by: CREATOR_ID
+    });
+    return res.data.data;
+}
+
+async function holdDocument(documentId) {
+    const matter = await request("POST", "/agent/internal/legal-holds", {
+        name: "Retention test matter",
+        reason: "Pending vendor dispute"
+    });
+    await request("POST", `/agent/internal/legal-holds/${matter.data.data.id}/scopes`, {
+        resource_type: "documents",
+        criteria: { document_ids: [documentId] }
+    });
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+let due;
+let held;
+let retained;
+
+async function testCandidateReport() {
+    log("\n[Test] Disposal-candidate report", YELLOW);
+
+    // Expired 2015 with one year of retention: due 2016-01-01
+    due = await createDocument("Retention test - due", "2015-01-01");
+    held = await createDocument("Retention test - held", "2015-01-01");
+    retained = await createDocument("Retention test - retained", "2099-01-01");
+    await holdDocument(held.id);
+
+    const report = await request("GET", "/agent/internal/documents/retention/candidates");
+    assert(report.status === 200, "Candidate report built");
+    const candidates = report.data.data.candidates;
+    const dueCandidate = candidates.find(c => c.id === due.id);
+    const heldCandidate = candidates.find(c => c.id === held.id);
+
+    assert(dueCandidate && dueCandidate.eligible === true, "Document past retention is an eligible candidate");
+    assert(dueCandidate && dueCandidate.disposalDue === "2016-01-01", "Disposal is due one year after expiry");
+    assert(heldCandidate && heldCandidate.eligible === false, "Held document is listed but not eligible");
+    assert(heldCandidate && heldCandidate.blockers.includes("legal_hold"), "Held document shows the legal_hold blocker");
+    assert(!candidates.some(c => c.id === retained.id), "Document still in retention is not a candidate");
+    assert(report.data.data.summary.eligible === 1 && report.data.data.summary.held === 1,
+        "Summary counts one eligible and one held document");
+
+    const withoutHeld = await request("GET", "/agent/internal/documents/retention/candidates?include_held=false");
+    assert(!withoutHeld.data.data.candidates.some(c => c.id === held.id), "include_held=false leaves held documents out");
+
+    const badDate = await request("GET", "/agent/internal/documents/retention/candidates?due_before=soon");
+    assert(badDate.status === 400, "Malformed due_before is rejected");
+}
+
+async function testCertifiedDisposal() {
+    log("\n[Test] Certified disposal", YELLOW);
+
+    const asMember = await request("POST", "/agent/internal/documents/retention/dispose",
+        { document_ids: [due.id] }, { "X-User-Role": "member" });
+    assert(asMember.status === 403, "Members cannot dispose documents");
+
+    const dispose = await request("POST", "/agent/internal/documents/retention/dispose", {
+        document_ids: [due.id, held.id, retained.id],
+        reason: "Retention period elapsed"
+    });
+    assert(dispose.status === 200, "Disposal batch processed");
+    assert(dispose.data.data.disposed === 1 && dispose.data.data.skipped === 2, "One disposed, two skipped");
+
+    const results = dispose.data.data.results;
+    const dueResult = results.find(r => r.documentId === due.id);
+    const heldResult = results.find(r => r.documentId === held.id);
+    const retainedResult = results.find(r => r.documentId === retained.id);
+
+    assert(dueResult.disposed === true, "Eligible document is disposed");
+    assert(/^[0-9a-f]{64}$/.test(dueResult.certificate.certificateHash), "Disposal certificate is issued");
+    assert(dueResult.certificate.disposedBy === RECORDS_OFFICER_ID, "Certificate names who disposed the document");
+    assert(heldResult.disposed === false && heldResult.error === "legal_hold", "Held document is blocked by legal_hold");
+    assert(retainedResult.disposed === false && retainedResult.error === "retention_period",
+        "Document still in retention is blocked by retention_period");
+
+    const certificate = await request("GET", `/agent/internal/documents/${due.id}/retention/certificate`);
+    assert(certificate.status === 200, "Certificate retrieved");
+    assert(certificate.data.data.verified === true, "Certificate HMAC verifies");
+    assert(certificate.data.data.reason === "Retention period elapsed", "Certificate records the disposal reason");
+
+    const again = await request("POST", "/agent/internal/documents/retention/dispose", { document_ids: [due.id] });
+    assert(again.data.data.results[0].error === "already_disposed", "A document cannot be disposed twice");
+
+    const heldStatus = await request("GET", `/agent/internal/documents/${held.id}/retention`);
+    assert(heldStatus.data.data.legalHold === true, "Held document is still held after the batch");
+
+    const viaStatus = await request("PUT", `/agent/internal/documents/${retained.id}`, {
+        tenant_id: TENANT_ID,
+        version: retained.version,
+        updated_by: CREATOR_ID,
+        status: "disposed"
+    });
+    assert(viaStatus.status === 409, "Status update to disposed is refused");
+    assert(viaStatus.data.error === "disposal_not_allowed", "Error is 'disposal_not_allowed'");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Retention and Disposal Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+    log(`API Base: ${API_BASE}`);
+    log(`Tenant: ${TENANT_ID}`);
+
+    try {
+        await testCandidateReport();
+        await testCertifiedDisposal();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,208 @@
+/**
+ * Test script for electronic signatures on signatory workflow roles
+ *
+ * Usage:
+ *   1. Ensure database migrations are applied (including the workflow role signature migration)
+ *   2. Start the agent server: npm start
+ *   3. Run this test: node tests/test-signatures.js
+ *
+ * This test verifies:
+ *   - Only the assigned signer can sign, and only once
+ *   - Signatory roles are completed by signing, not by a plain completion
+ *   - A fresh signature verifies against the document content
+ *   - Editing the content afterwards is reported as content_changed while the record stays intact
+ *   - A document without content or file hash cannot be signed
+ */
+
+const API_BASE = process.env.API_BASE || "http://localhost:4001";
+const AGENT_API_SECRET = process.env.AGENT_API_SECRET || "dev-secret-change-in-prod";
+const TENANT_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa";
+const CREATOR_ID = "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb";
+const SIGNER_ID = "cccccccc-cccc-cccc-cccc-cccccccccc11";
+const OTHER_USER_ID = "cccccccc-cccc-cccc-cccc-cccccccccc12";
+
+// Colors for terminal output
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RESET = "\x1b[0m";
+
+let passCount = 0;
+let failCount = 0;
+
+function log(msg, color = RESET) {
+    console.log(color + msg + RESET);
+}
+
+function assert(condition, message) {
+    if (condition) {
+        passCount++;
+        log(`  ✓ ${message}`, GREEN);
+    } else {
+        failCount++;
+        log(`  ✗ ${message}`, RED);
+    }
+}
+
+async function request(method, path, body = null, headers = {}) {
+    const url = `${API_BASE}${path}`;
+    const options = {
+        method,
+        headers: {
+            "Content-Type": "application/json",
+            "X-Agent-Secret": AGENT_API_SECRET,
+            "X-Tenant-Id": TENANT_ID,
+            "X-User-Role": "admin",
+            "X-User-Id": CREATOR_ID,
+            ...headers
+        }
+    };
+    if (body) {
+        options.body = JSON.stringify(body);
+    }
+    const response = await fetch(url, options);
+    const data = await response.json();
+    return { status: response.status, data };
+}
+
+async function createDocument(title) {
+    const res = await request("POST", "/agent/internal/documents", {
+        tenant_id: TENANT_ID,
+        title,
+        entity_type: "policy",
+        category: "POLICY_GENERAL",
+        file_name: "policy.pdf",
+        file_size: 1024,
+        file_type: "pdf",
+        file_path: "/tmp/policy.pdf",
+        created_by: CREATOR_ID
+    });
+    return res.data.data.id;
+}
+
+function paragraph(text) {
+    return { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text }] }] };
+}
+
+async function saveContent(docId, text) {
+    return request("POST", `/agent/internal/documents/${docId}/editor/save`, {
+        structured_content: paragraph(text),
+        change_summary: "Signature test edit",
+        updated_by: CREATOR_ID
+    });
+}
+
+async function assignSignatory(docId) {
+    const res = await request("POST", `/agent/internal/documents/${docId}/workflow-roles`, {
+        roles: [{ role_type: "signatory", user_id: SIGNER_ID }]
+    });
+    return res.data.data[0].id;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+async function testSignAndVerify() {
+    log("\n[Test] Sign a signatory role and verify the signature", YELLOW);
+
+    const docId = await createDocument("Signature test - policy");
+    const saved = await saveContent(docId, "Staff must lock their screens.");
+    assert(saved.status === 200, "Document content saved");
+
+    const roleId = await assignSignatory(docId);
+    const base = `/agent/internal/documents/${docId}/workflow-roles`;
+
+    const complete = await request("PUT", `${base}/${roleId}/complete`, {}, { "X-User-Id": SIGNER_ID });
+    assert(complete.status === 409, "Plain completion of a signatory role is refused");
+    assert(complete.data.error === "signature_required", "Error is 'signature_required'");
+
+    const wrongSigner = await request("PUT", `${base}/${roleId}/sign`, {}, { "X-User-Id": OTHER_USER_ID });
+    assert(wrongSigner.status === 403, "Another user cannot sign");
+    assert(wrongSigner.data.error === "not_assigned_user", "Error is 'not_assigned_user'");
+
+    const sign = await request("PUT", `${base}/${roleId}/sign`,
+        { statement: "I approve this policy." }, { "X-User-Id": SIGNER_ID });
+    assert(sign.status === 200, "Assigned signer signs");
+    assert(sign.data.data.status === "completed", "Role is completed");
+    const signature = sign.data.data.signature;
+    assert(signature.algorithm === "HMAC-SHA256", "Signature is sealed with HMAC-SHA256");
+    assert(signature.payload.signer_id === SIGNER_ID, "Signature names the signer");
+    assert(signature.payload.statement === "I approve this policy.", "Signature records the statement");
+    assert(!!signature.payload.content_hash, "Signature binds the content hash");
+
+    const again = await request("PUT", `${base}/${roleId}/sign`, {}, { "X-User-Id": SIGNER_ID });
+    assert(again.status === 409 && again.data.error === "already_signed", "A role cannot be signed twice");
+
+    const verify = await request("GET", `${base}/${roleId}/signature`);
+    assert(verify.status === 200, "Signature retrieved");
+    assert(verify.data.data.verification.valid === true, "Signature is valid");
+    assert(verify.data.data.verification.signatureValid === true, "Signature record is intact");
+    assert(verify.data.data.verification.contentHashMatches === true, "Content matches what was signed");
+    assert(verify.data.data.verification.reasons.length === 0, "No verification failures reported");
+
+    const all = await request("GET", `${base}/signatures`);
+    assert(all.data.data.allValid === true, "All signatures on the document are valid");
+
+    return { docId, base, roleId };
+}
+
+async function testEditInvalidatesSignature({ docId, base, roleId }) {
+    log("\n[Test] Editing signed content is reported as content_changed", YELLOW);
+
+    const edited = await saveContent(docId, "Staff may leave their screens unlocked.");
+    assert(edited.status === 200, "Content edited after signing");
+
+    const verify = await request("GET", `${base}/${roleId}/signature`);
+    const verification = verify.data.data.verification;
+    assert(verification.valid === false, "Signature no longer valid for the document");
+    assert(verification.reasons.includes("content_changed"), "Reason is 'content_changed'");
+    assert(verification.contentHashMatches === false, "Content hash no longer matches");
+    assert(verification.signatureValid === true, "Signature record itself is still intact");
+    assert(verification.documentChanged === true, "Document is reported as changed");
+
+    const all = await request("GET", `${base}/signatures`);
+    assert(all.data.data.allValid === false, "Document signatures are no longer all valid");
+}
+
+async function testNothingToSign() {
+    log("\n[Test] A document without content or file hash cannot be signed", YELLOW);
+
+    const docId = await createDocument("Signature test - empty");
+    const roleId = await assignSignatory(docId);
+
+    const sign = await request("PUT", `/agent/internal/documents/${docId}/workflow-roles/${roleId}/sign`,
+        {}, { "X-User-Id": SIGNER_ID });
+    assert(sign.status === 409, "Signing refused");
+    assert(sign.data.error === "nothing_to_sign", "Error is 'nothing_to_sign'");
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+async function main() {
+    log("\n" + "=".repeat(60), YELLOW);
+    log("Electronic Signature Test Suite", YELLOW);
+    log("=".repeat(60), YELLOW);
+    log(`API Base: ${API_BASE}`);
+
+    try {
+        const signed = await testSignAndVerify();
+        await testEditInvalidatesSignature(signed);
+        await testNothingToSign();
+
+        log("\n" + "=".repeat(60), YELLOW);
+        log(`Tests completed: ${passCount} passed, ${failCount} failed`,
+            failCount === 0 ? GREEN : RED);
+        log("=".repeat(60), YELLOW);
+
+        process.exit(failCount > 0 ? 1 : 0);
+    } catch (error) {
+        log("\nTest suite failed with error:", RED);
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();